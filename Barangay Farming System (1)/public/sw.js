@@ -0,0 +1,86 @@
+/**
+ * ============================================
+ * PLANT N' PLAN - SERVICE WORKER
+ * ============================================
+ *
+ * Caches the app shell (the page, its scripts, styles and icons) so the
+ * installed app opens without a connection. Nothing else is touched - API
+ * requests included, even when the server shares the app's address: the
+ * app keeps its data in IndexedDB (src/utils/offlineStore.ts) and queues
+ * changes made offline (src/utils/syncQueue.ts).
+ *
+ * - Pages: network first, so a new deployment shows up at once; the cached
+ *   page is used offline
+ * - Built files (/assets/) and icons: cache first (Vite gives built files
+ *   hashed names, so a cached copy never goes out of date)
+ */
+
+// Bump to drop every cached file on the next visit
+const CACHE_NAME = "plant-n-plan-shell-v1";
+const SHELL_FILES = ["/", "/manifest.webmanifest", "/icon.svg", "/icon-maskable.svg"];
+// Old built files pile up across deployments; keep the cache bounded
+const MAX_CACHED_ASSETS = 60;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL_FILES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function trimAssets(cache) {
+  const assets = (await cache.keys()).filter((request) => new URL(request.url).pathname.startsWith("/assets/"));
+  for (const request of assets.slice(0, Math.max(0, assets.length - MAX_CACHED_ASSETS))) {
+    await cache.delete(request);
+  }
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put("/", response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match("/");
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    await trimAssets(cache);
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // The app has one page; every navigation is served by it
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith("/assets/") || SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -6,19 +6,25 @@
  * This is the root component of the Barangay Community Farming System.
  * It manages:
  * - User authentication and session management
- * - Application state (crops, harvests, budget, volunteers, etc.)
- * - Navigation between different pages
- * - Data loading and synchronization with the backend
+ * - Which cached collections each page loads (see utils/useCollections.ts)
+ * - Which page the URL shows, and who may open it (see utils/routes.ts)
+ * - Realtime synchronization with the backend
+ * - Syncing changes made offline
  * - Theme management (dark/light mode)
  * - Weather data integration
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { getSession, getUserProfile, signOut, type UserProfile } from "./utils/auth";
 
 // Page Components - Different sections of the application
 import { Dashboard } from "./components/Dashboard";
 import { CropsManagement } from "./components/CropsManagement";
+import { PlotRegistry } from "./components/PlotRegistry";
+import { GardenMapView } from "./components/GardenMapView";
+import { RotationPlanner } from "./components/RotationPlanner";
+import { CompanionPlanting } from "./components/CompanionPlanting";
+import { CropCatalog } from "./components/CropCatalog";
 import { HarvestTracker } from "./components/HarvestTracker";
 import { BudgetTransparency } from "./components/BudgetTransparency";
 import { CommunityUpdates } from "./components/CommunityUpdates";
@@ -35,6 +41,13 @@ import { ProfilePage } from "./components/ProfilePage";
 import { UserRegistration } from "./components/UserRegistration";
 import { UserManagement } from "./components/UserManagement";
 import { LocationSettings } from "./components/LocationSettings";
+import { RolePermissions } from "./components/RolePermissions";
+import { SetupWizard } from "./components/SetupWizard";
+import { AuditLog } from "./components/AuditLog";
+import { SyncStatus } from "./components/SyncStatus";
+import { TrashBin } from "./components/TrashBin";
+import { DataMigrations } from "./components/DataMigrations";
+import { BackupRestore } from "./components/BackupRestore";
 
 // Icons from Lucide React
 import { Menu, Sprout, Loader2 } from "lucide-react";
@@ -45,23 +58,41 @@ import { Toaster } from "./components/ui/sonner";
 import { toast } from "sonner@2.0.3";
 
 // API Functions - Used to communicate with the backend
+import { setupApi } from "./utils/api";
+import { roleHasPermission, type Permission } from "./supabase/functions/_shared/permissions";
+
+// Data Hooks - Cached collections with optimistic writes
 import {
-  cropsApi,
-  harvestsApi,
-  budgetApi,
-  volunteersApi,
-  tasksApi,
-  pollsApi,
-  feedbacksApi,
-  photosApi,
-  updatesApi,
-  eventsApi,
-  settingsApi,
-} from "./utils/api";
+  usePlots,
+  useVarieties,
+  useCrops,
+  useCropActivities,
+  useHarvests,
+  useBudgetItems,
+  useVolunteers,
+  useTasks,
+  usePolls,
+  useFeedbacks,
+  usePhotos,
+  useUpdates,
+  useEvents,
+  useTotalBudget,
+  useGardenMap,
+  useCompanionPlanting,
+  usePermissionMatrix,
+  applyChange,
+  syncPendingChanges,
+  QUERY_KEYS,
+} from "./utils/useCollections";
+import { clearQueryCache, invalidateQueries } from "./utils/queryCache";
+import { clearSyncQueue, countUnsyncedChanges } from "./utils/syncQueue";
 
 // Utilities
 import { initializeDatabaseWithSampleData } from "./utils/initializeData";
 import { getWeatherWithLocation, getMockWeatherData, type WeatherData } from "./utils/weather";
+import { subscribeToChanges } from "./utils/realtime";
+import { linkTo, navigate, useLocation } from "./utils/router";
+import { ADMIN_PAGE_PERMISSIONS, pageOf, pagePath } from "./utils/routes";
 
 /**
  * Main App Component
@@ -78,10 +109,9 @@ export default function App() {
   // ============================================
   // UI STATE
   // ============================================
-  const [activeTab, setActiveTab] = useState("dashboard"); // Current page being displayed
+  const activeTab = pageOf(useLocation().pathname); // Current page being displayed (null = no such page)
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false); // Mobile menu open/closed
   const [isDarkMode, setIsDarkMode] = useState(false); // Dark mode toggle
-  const [isLoading, setIsLoading] = useState(true); // Loading state for initial data fetch
   const [isCheckingSession, setIsCheckingSession] = useState(true); // Checking for existing session
   
   // ============================================
@@ -91,20 +121,54 @@ export default function App() {
   const [isWeatherLoading, setIsWeatherLoading] = useState(true); // Weather data loading state
   
   // ============================================
-  // APPLICATION DATA STATE
-  // These arrays hold all the farming data
-  // ============================================
-  const [crops, setCrops] = useState<any[]>([]); // All crops in the community garden
-  const [harvests, setHarvests] = useState<any[]>([]); // Harvest records
-  const [budgetItems, setBudgetItems] = useState<any[]>([]); // Budget expenses
-  const [volunteers, setVolunteers] = useState<any[]>([]); // Registered volunteers
-  const [tasks, setTasks] = useState<any[]>([]); // Community tasks
-  const [polls, setPolls] = useState<any[]>([]); // Community polls
-  const [feedbacks, setFeedbacks] = useState<any[]>([]); // Community feedback
-  const [photos, setPhotos] = useState<any[]>([]); // Gallery photos
-  const [updates, setUpdates] = useState<any[]>([]); // Community updates/news
-  const [events, setEvents] = useState<any[]>([]); // Upcoming events
-  const [totalBudget, setTotalBudget] = useState(30000); // Total budget allocation
+  // SETUP STATE
+  // ============================================
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null); // True until the first admin completes setup (null = unknown)
+  const [barangayName, setBarangayName] = useState<string | null>(null); // Name entered in the setup wizard
+
+  // ============================================
+  // APPLICATION DATA
+  // Each collection comes from the query cache (utils/useCollections.ts)
+  // and is only fetched while a page that shows it is open
+  // ============================================
+  const isSignedIn = isAuthenticated && needsSetup === false; // Signed in and past first-run setup
+  const showing = (...tabs: string[]) => isSignedIn && activeTab !== null && tabs.includes(activeTab); // Whether the current page needs a collection
+
+  const plotsQuery = usePlots(showing("crops", "plots", "garden-map", "rotation")); // The plot registry
+  const varietiesQuery = useVarieties(showing("crops", "catalog", "rotation", "companions")); // The crop catalog
+  const cropsQuery = useCrops(showing("dashboard", "crops", "plots", "garden-map", "rotation")); // All crops in the community garden
+  const cropActivitiesQuery = useCropActivities(showing("crops")); // Activity timelines of the crops
+  const harvestsQuery = useHarvests(showing("harvest", "plots")); // Harvest records
+  const budgetItemsQuery = useBudgetItems(showing("dashboard", "budget")); // Budget expenses
+  const volunteersQuery = useVolunteers(showing("crops", "volunteers")); // Registered volunteers
+  const tasksQuery = useTasks(showing("volunteers")); // Community tasks
+  const pollsQuery = usePolls(showing("engagement")); // Community polls
+  const feedbacksQuery = useFeedbacks(showing("engagement")); // Community feedback
+  const photosQuery = usePhotos(showing("gallery")); // Gallery photos
+  const updatesQuery = useUpdates(showing("dashboard", "updates")); // Community updates/news
+  const eventsQuery = useEvents(showing("schedule", "rotation")); // Upcoming events
+  const totalBudgetQuery = useTotalBudget(showing("dashboard", "budget")); // Total budget allocation
+  const gardenMapQuery = useGardenMap(showing("crops", "garden-map")); // Drawn layout of the plots
+  const companionPlantingQuery = useCompanionPlanting(showing("crops", "garden-map", "companions")); // Companion planting pairs
+  const permissionMatrixQuery = usePermissionMatrix(isSignedIn); // What each role may do
+
+  const plots = plotsQuery.data;
+  const varieties = varietiesQuery.data;
+  const crops = cropsQuery.data;
+  const cropActivities = cropActivitiesQuery.data;
+  const harvests = harvestsQuery.data;
+  const budgetItems = budgetItemsQuery.data;
+  const volunteers = volunteersQuery.data;
+  const tasks = tasksQuery.data;
+  const polls = pollsQuery.data;
+  const feedbacks = feedbacksQuery.data;
+  const photos = photosQuery.data;
+  const updates = updatesQuery.data;
+  const events = eventsQuery.data;
+  const totalBudget = totalBudgetQuery.data;
+  const gardenMap = gardenMapQuery.data;
+  const companionPlanting = companionPlantingQuery.data;
+  const permissionMatrix = permissionMatrixQuery.data;
 
   // ============================================
   // COMPUTED VALUES
@@ -112,8 +176,22 @@ export default function App() {
   // ============================================
   const budgetSpent = budgetItems.reduce((sum, item) => sum + item.amount, 0); // Total spent
   const totalCrops = crops.length; // Total number of crops
-  const activePlots = crops.filter((c: any) => c.status !== "harvested").length; // Currently growing crops
-  const upcomingHarvests = crops.filter((c: any) => c.status === "ready").length; // Crops ready to harvest
+  const activePlots = crops.filter((c) => c.status !== "harvested").length; // Currently growing crops
+  const upcomingHarvests = crops.filter((c) => c.status === "ready").length; // Crops ready to harvest
+  const userPermissions = userProfile ? permissionMatrix[userProfile.role] || [] : []; // Permissions of the signed-in user's role
+  const isPageLoading = [
+    plotsQuery, varietiesQuery, cropsQuery, cropActivitiesQuery, harvestsQuery, budgetItemsQuery, volunteersQuery, tasksQuery, pollsQuery,
+    feedbacksQuery, photosQuery, updatesQuery, eventsQuery, totalBudgetQuery, gardenMapQuery, companionPlantingQuery,
+    permissionMatrixQuery,
+  ].some((query) => query.isLoading); // The current page's data is loading for the first time
+
+  /**
+   * Check whether the signed-in user's role holds a permission
+   * The server enforces the same matrix; this only hides actions the user can't perform
+   */
+  const can = (permission: Permission) => roleHasPermission(permissionMatrix, userProfile?.role, permission);
+  const requiredPermission = activeTab ? ADMIN_PAGE_PERMISSIONS[activeTab] : undefined; // Administration pages need a permission
+  const canOpenPage = !requiredPermission || can(requiredPermission);
 
   // ============================================
   // WEATHER DATA LOADING
@@ -177,6 +255,10 @@ export default function App() {
   useEffect(() => {
     const checkSession = async () => {
       try {
+        // Find out whether this is a fresh install that still needs an admin
+        await loadSetupStatus();
+
+
         // Check if there's an active session in localStorage
         const session = await getSession();
         
@@ -203,6 +285,22 @@ export default function App() {
     checkSession();
   }, []);
 
+  /**
+   * Load whether first-run setup is still needed
+   * Assumes setup is done if the status can't be fetched, so a network
+   * error never traps users in the wizard
+   */
+  const loadSetupStatus = async () => {
+    try {
+      const status = await setupApi.getStatus();
+      setNeedsSetup(status.needsSetup);
+      setBarangayName(status.barangayName);
+    } catch (error) {
+      console.error("Error loading setup status:", error);
+      setNeedsSetup(false);
+    }
+  };
+
   // ============================================
   // EFFECT: Handle dark mode toggle
   // Adds/removes the 'dark' class from HTML element
@@ -216,240 +314,74 @@ export default function App() {
   }, [isDarkMode]);
 
   // ============================================
-  // LOAD ALL DATA FROM DATABASE
-  // This function fetches all farming data from the backend
-  // ============================================
-  const loadData = async () => {
-    try {
-      setIsLoading(true);
-      
-      // Make all API calls in parallel for faster loading
-      // Using Promise.all means all requests happen at the same time
-      const [
-        cropsData,
-        harvestsData,
-        budgetData,
-        volunteersData,
-        tasksData,
-        pollsData,
-        feedbacksData,
-        photosData,
-        updatesData,
-        eventsData,
-        totalBudgetData,
-      ] = await Promise.all([
-        cropsApi.getAll(),         // Get all crops
-        harvestsApi.getAll(),      // Get harvest history
-        budgetApi.getAll(),        // Get budget expenses
-        volunteersApi.getAll(),    // Get volunteer list
-        tasksApi.getAll(),         // Get tasks
-        pollsApi.getAll(),         // Get community polls
-        feedbacksApi.getAll(),     // Get feedback
-        photosApi.getAll(),        // Get gallery photos
-        updatesApi.getAll(),       // Get community updates
-        eventsApi.getAll(),        // Get events
-        settingsApi.getTotalBudget().catch(() => 30000), // Get budget total, default to 30000
-      ]);
-
-      // Update all state with fetched data
-      // Using || [] ensures we always have an array, even if data is null/undefined
-      setCrops(cropsData || []);
-      setHarvests(harvestsData || []);
-      setBudgetItems(budgetData || []);
-      setVolunteers(volunteersData || []);
-      setTasks(tasksData || []);
-      setPolls(pollsData || []);
-      setFeedbacks(feedbacksData || []);
-      setPhotos(photosData || []);
-      setUpdates(updatesData || []);
-      setEvents(eventsData || []);
-      setTotalBudget(totalBudgetData || 30000);
-
-      // First-time setup: If database is empty, populate with sample data
-      if (!cropsData || cropsData.length === 0) {
-        console.log("No data found, initializing sample data...");
-        await initializeDatabaseWithSampleData();
-        // Reload to get the sample data
-        await loadData();
-        toast.success("Database initialized with sample data!");
-      }
-    } catch (error) {
-      console.error("Error loading data:", error);
-      toast.error("Failed to load data from database");
-    } finally {
-      // Always stop loading spinner, even if there's an error
-      setIsLoading(false);
-    }
-  };
-
-  // ============================================
-  // EFFECT: Load data when user logs in
+  // EFFECT: Seed sample data into an empty database
+  // Only admins are allowed to write every collection, so only they seed it
   // ============================================
+  const hasSeeded = useRef(false);
   useEffect(() => {
-    if (isAuthenticated) {
-      loadData();
-    }
-  }, [isAuthenticated]);
+    if (hasSeeded.current || !cropsQuery.hasLoaded || crops.length > 0 || userProfile?.role !== "admin") return;
+    hasSeeded.current = true;
 
-  // ============================================
-  // CRUD HANDLERS FOR CROPS
-  // These functions handle Create, Read, Update, Delete operations for crops
-  // ============================================
-  
-  /**
-   * Add a new crop to the database
-   * @param cropData - Object containing crop information (name, type, plot, etc.)
-   */
-  const handleAddCrop = async (cropData: any) => {
-    await cropsApi.create(cropData);
-    await loadData(); // Refresh all data to show the new crop
-  };
-
-  /**
-   * Update an existing crop
-   * @param id - Unique ID of the crop to update
-   * @param cropData - New data for the crop
-   */
-  const handleUpdateCrop = async (id: string, cropData: any) => {
-    await cropsApi.update(id, cropData);
-    await loadData(); // Refresh to show updated crop
-  };
-
-  /**
-   * Delete a crop from the database
-   * @param id - Unique ID of the crop to delete
-   */
-  const handleDeleteCrop = async (id: string) => {
-    await cropsApi.delete(id);
-    await loadData(); // Refresh to remove the crop from the list
-  };
-
-  // ============================================
-  // CRUD HANDLERS FOR HARVESTS
-  // ============================================
-  
-  const handleAddHarvest = async (harvestData: any) => {
-    await harvestsApi.create(harvestData);
-    await loadData();
-  };
-
-  const handleUpdateHarvest = async (id: string, harvestData: any) => {
-    await harvestsApi.update(id, harvestData);
-    await loadData();
-  };
-
-  const handleDeleteHarvest = async (id: string) => {
-    await harvestsApi.delete(id);
-    await loadData();
-  };
-
-  // ============================================
-  // CRUD HANDLERS FOR BUDGET ITEMS
-  // ============================================
-  
-  const handleAddBudgetItem = async (budgetData: any) => {
-    await budgetApi.create(budgetData);
-    await loadData();
-  };
-
-  const handleUpdateBudgetItem = async (id: string, budgetData: any) => {
-    await budgetApi.update(id, budgetData);
-    await loadData();
-  };
-
-  const handleDeleteBudgetItem = async (id: string) => {
-    await budgetApi.delete(id);
-    await loadData();
-  };
-
-  // ============================================
-  // CRUD HANDLERS FOR VOLUNTEERS
-  // ============================================
-  
-  const handleAddVolunteer = async (volunteerData: any) => {
-    await volunteersApi.create(volunteerData);
-    await loadData();
-  };
-
-  const handleUpdateVolunteer = async (id: string, volunteerData: any) => {
-    await volunteersApi.update(id, volunteerData);
-    await loadData();
-  };
-
-  const handleDeleteVolunteer = async (id: string) => {
-    await volunteersApi.delete(id);
-    await loadData();
-  };
+    console.log("No data found, initializing sample data...");
+    initializeDatabaseWithSampleData()
+      .then(() => {
+        invalidateQueries(); // Load the sample data
+        toast.success("Database initialized with sample data!");
+      })
+      .catch((error) => console.error("Error initializing sample data:", error));
+  }, [cropsQuery.hasLoaded, crops.length, userProfile?.role]);
 
   // ============================================
-  // CRUD HANDLERS FOR TASKS
+  // EFFECT: Subscribe to the change stream while signed in
+  // Changes saved by anyone (other officers, other tabs) patch only the
+  // cached collection they touch
   // ============================================
-  
-  const handleAddTask = async (taskData: any) => {
-    await tasksApi.create(taskData);
-    await loadData();
-  };
-
-  const handleUpdateTask = async (id: string, taskData: any) => {
-    await tasksApi.update(id, taskData);
-    await loadData();
-  };
-
-  const handleDeleteTask = async (id: string) => {
-    await tasksApi.delete(id);
-    await loadData();
-  };
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    return subscribeToChanges({
+      onChange: (event) => {
+        if (event.entityType === "settings" && event.entityId === "barangay_name") {
+          setBarangayName(typeof event.record === "string" ? event.record : null);
+        } else {
+          applyChange(event);
+        }
+      },
+      onResync: () => invalidateQueries(), // Offline too long to catch up change by change
+    });
+  }, [isSignedIn]);
 
   // ============================================
-  // CRUD HANDLERS FOR COMMUNITY UPDATES
+  // EFFECT: Send changes saved while offline
+  // On sign-in, whenever the browser reconnects, and every 30 seconds in
+  // case the browser missed the reconnect (spotty mobile data)
   // ============================================
-  
-  const handleAddUpdate = async (updateData: any) => {
-    await updatesApi.create(updateData);
-    await loadData();
-  };
-
-  const handleUpdateUpdate = async (id: string, updateData: any) => {
-    await updatesApi.update(id, updateData);
-    await loadData();
-  };
-
-  const handleDeleteUpdate = async (id: string) => {
-    await updatesApi.delete(id);
-    await loadData();
-  };
+  useEffect(() => {
+    if (!isSignedIn) return;
 
-  // ============================================
-  // CRUD HANDLERS FOR PHOTOS
-  // ============================================
-  
-  const handleAddPhoto = async (photoData: any) => {
-    await photosApi.create(photoData);
-    await loadData();
-  };
+    const SYNC_RETRY_INTERVAL = 30 * 1000; // 30 seconds in milliseconds
+    const sync = () => {
+      syncPendingChanges();
+    };
 
-  const handleUpdatePhoto = async (id: string, photoData: any) => {
-    await photosApi.update(id, photoData);
-    await loadData();
-  };
+    sync();
+    window.addEventListener("online", sync);
+    const intervalId = setInterval(sync, SYNC_RETRY_INTERVAL);
 
-  const handleDeletePhoto = async (id: string) => {
-    await photosApi.delete(id);
-    await loadData();
-  };
+    return () => {
+      window.removeEventListener("online", sync);
+      clearInterval(intervalId);
+    };
+  }, [isSignedIn]);
 
   // ============================================
-  // BUDGET SETTINGS HANDLER
+  // EFFECT: Start each page at the top
+  // Only when the page changes - opening a record or changing a filter
+  // keeps the scroll position
   // ============================================
-  
-  /**
-   * Update the total budget allocation
-   * @param amount - New total budget amount
-   */
-  const handleUpdateTotalBudget = async (amount: number) => {
-    await settingsApi.setTotalBudget(amount);
-    setTotalBudget(amount);
-  };
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [activeTab]);
 
   // ============================================
   // AUTHENTICATION HANDLERS
@@ -465,6 +397,7 @@ export default function App() {
     // Fetch and store user profile
     try {
       const profile = await getUserProfile(token);
+      await loadSetupStatus(); // Someone may have completed setup since the page loaded
       setUserProfile(profile);
       setIsAuthenticated(true);
     } catch (error) {
@@ -473,28 +406,37 @@ export default function App() {
     }
   };
 
+  /**
+   * Handle completion of the first-run setup wizard
+   * @param profile - The caller's profile, now with the admin role
+   */
+  const handleSetupComplete = async (profile: UserProfile) => {
+    setUserProfile(profile);
+    await loadSetupStatus();
+  };
+
   /**
    * Handle user logout
    * Clears all user data and returns to landing page
    */
   const handleLogout = async () => {
+    const unsynced = countUnsyncedChanges();
+    if (
+      unsynced > 0 &&
+      !window.confirm(`${unsynced} change${unsynced === 1 ? " hasn't" : "s haven't"} been synced yet and will be lost if you sign out. Sign out anyway?`)
+    ) {
+      return;
+    }
+
     try {
       await signOut(); // Clear Supabase session
       setIsAuthenticated(false);
       setAccessToken(null);
       setUserProfile(null);
-      setActiveTab("dashboard");
-      // Reset data
-      setCrops([]);
-      setHarvests([]);
-      setBudgetItems([]);
-      setVolunteers([]);
-      setTasks([]);
-      setPolls([]);
-      setFeedbacks([]);
-      setPhotos([]);
-      setUpdates([]);
-      setEvents([]);
+      navigate("/");
+      // Forget the cached data and any unsynced changes
+      clearQueryCache();
+      clearSyncQueue();
       
       toast.success("Signed out successfully");
     } catch (error) {
@@ -527,28 +469,16 @@ export default function App() {
 
   // Show landing page if not authenticated
   if (!isAuthenticated) {
-    return <LandingPage onLogin={handleLogin} />;
+    return <LandingPage onLogin={handleLogin} needsSetup={needsSetup === true} />;
   }
 
-  // Show loading state while loading data
-  if (isLoading) {
+  // Show the setup wizard until the first administrator has been created
+  if (needsSetup) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <div className="text-center">
-          <div className="relative mb-6">
-            {/* Spinning outer ring */}
-            <div className="absolute inset-0 flex items-center justify-center">
-              <Loader2 className="h-16 w-16 text-green-600 animate-spin" />
-            </div>
-            {/* Static plant icon in center */}
-            <div className="relative flex items-center justify-center h-16 w-16 mx-auto">
-              <Sprout className="h-8 w-8 text-green-700 animate-pulse" />
-            </div>
-          </div>
-          <h3 className="text-green-600 mb-2">Plant n' Plan</h3>
-          <p className="text-muted-foreground">Loading farming data...</p>
-        </div>
-      </div>
+      <>
+        <Toaster />
+        <SetupWizard userProfile={userProfile} onComplete={handleSetupComplete} />
+      </>
     );
   }
 
@@ -558,11 +488,11 @@ export default function App() {
       
       {/* Sidebar */}
       <Sidebar
-        activeTab={activeTab}
-        onTabChange={setActiveTab}
+        activeTab={activeTab ?? ""}
+        onTabChange={(tab) => navigate(pagePath(tab))}
         isMobileOpen={isMobileSidebarOpen}
         onMobileClose={() => setIsMobileSidebarOpen(false)}
-        isAdmin={userProfile?.role === "admin"}
+        permissions={userPermissions}
       />
 
       {/* Mobile Overlay */}
@@ -574,9 +504,9 @@ export default function App() {
       )}
 
       {/* Main Content */}
-      <div className="lg:pl-64">
+      <div className="lg:pl-64 print:pl-0">
         {/* Header */}
-        <header className="border-b bg-card sticky top-0 z-20">
+        <header className="border-b bg-card sticky top-0 z-20 print:hidden">
           <div className="px-4 py-4">
             <div className="flex items-center justify-between gap-3">
               <div className="flex items-center gap-3">
@@ -589,14 +519,17 @@ export default function App() {
                 </button>
                 <div className="lg:hidden">
                   <h1 className="text-green-600">Plant n' Plan</h1>
-                  <p className="text-sm text-muted-foreground">Barangay Farming System</p>
+                  <p className="text-sm text-muted-foreground">{barangayName ? `Barangay ${barangayName}` : "Barangay Farming System"}</p>
                 </div>
                 <div className="hidden lg:block">
                   <h1 className="text-green-600">Plant n' Plan - Barangay Community Farming System</h1>
-                  <p className="text-sm text-muted-foreground">Transparent farming management for our community</p>
+                  <p className="text-sm text-muted-foreground">
+                    {barangayName ? `Barangay ${barangayName} • ` : ""}Transparent farming management for our community
+                  </p>
                 </div>
               </div>
               <div className="flex items-center gap-3">
+                <SyncStatus />
                 <ThemeToggle isDark={isDarkMode} onToggle={() => setIsDarkMode(!isDarkMode)} />
                 <UserMenu 
                   userName={userProfile?.name || "User"}
@@ -604,7 +537,7 @@ export default function App() {
                   userRole={userProfile?.role || "member"}
                   userAvatar={userProfile?.avatar}
                   onLogout={handleLogout}
-                  onProfileClick={() => setActiveTab("profile")}
+                  onProfileClick={() => navigate(pagePath("profile"))}
                 />
               </div>
             </div>
@@ -612,7 +545,7 @@ export default function App() {
         </header>
 
         {/* Hero Section */}
-        <div className="relative h-48 md:h-64 overflow-hidden">
+        <div className="relative h-48 md:h-64 overflow-hidden print:hidden">
           <ImageWithFallback
             src="https://images.unsplash.com/photo-1464226184884-fa280b87c399?w=1200&q=80"
             alt="Community Garden"
@@ -631,125 +564,252 @@ export default function App() {
 
         {/* Page Content */}
         <div className="px-4 md:px-8 py-8">
-          {activeTab === "dashboard" && (
-            <div className="space-y-6">
-              <Dashboard
-                totalCrops={totalCrops}
-                activePlots={activePlots}
-                upcomingHarvests={upcomingHarvests}
-                totalBudget={totalBudget}
-                budgetSpent={budgetSpent}
-              />
+          {/* Shown the first time a page's data loads; cached pages open at once */}
+          {isPageLoading ? (
+            <div className="flex flex-col items-center justify-center py-24 text-center">
+              <Loader2 className="h-10 w-10 text-green-600 animate-spin mb-4" />
+              <p className="text-muted-foreground">Loading farming data...</p>
+            </div>
+          ) : !activeTab || !canOpenPage ? (
+            // An unknown address, or an administration page opened by URL without its permission
+            <div className="flex flex-col items-center justify-center py-24 text-center">
+              <h3 className="mb-2">{activeTab ? "You don't have access to this page" : "Page not found"}</h3>
+              <p className="text-muted-foreground mb-4">
+                {activeTab
+                  ? "Ask an administrator if you need it."
+                  : "The link may be mistyped, or the page may have moved."}
+              </p>
+              <a href="/" onClick={linkTo("/")} className="text-green-600 hover:underline">
+                Go to the dashboard
+              </a>
+            </div>
+          ) : (
+            <>
+            {activeTab === "dashboard" && (
+              <div className="space-y-6">
+                <Dashboard
+                  totalCrops={totalCrops}
+                  activePlots={activePlots}
+                  upcomingHarvests={upcomingHarvests}
+                  totalBudget={totalBudget}
+                  budgetSpent={budgetSpent}
+                />
               
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                <div className="lg:col-span-2">
-                  <CommunityUpdates updates={updates.slice(0, 3)} />
-                </div>
-                <div>
-                  <WeatherWidget 
-                    weather={weatherData} 
-                    isLoading={isWeatherLoading}
-                    onRefresh={loadWeatherData}
-                  />
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  <div className="lg:col-span-2">
+                    <CommunityUpdates updates={updates.slice(0, 3)} />
+                  </div>
+                  <div>
+                    <WeatherWidget 
+                      weather={weatherData} 
+                      isLoading={isWeatherLoading}
+                      onRefresh={loadWeatherData}
+                    />
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
-
-          {activeTab === "crops" && (
-            <CropsManagement 
-              crops={crops} 
-              onAdd={handleAddCrop}
-              onUpdate={handleUpdateCrop}
-              onDelete={handleDeleteCrop}
-            />
-          )}
+            )}
+
+            {activeTab === "crops" && (
+              <CropsManagement 
+                crops={crops} 
+                plots={plots}
+                varieties={varieties}
+                gardenMap={gardenMap}
+                companions={companionPlanting}
+                activities={cropActivities}
+                volunteers={volunteers}
+                canEdit={can("crops.write")}
+                onAdd={cropsQuery.create}
+                onUpdate={cropsQuery.update}
+                onDelete={cropsQuery.remove}
+                onRestore={cropsQuery.restore}
+                onImported={() => invalidateQueries([QUERY_KEYS.crops, QUERY_KEYS.cropActivities])}
+                onAddActivity={cropActivitiesQuery.create}
+                onDeleteActivity={cropActivitiesQuery.remove}
+                onRestoreActivity={cropActivitiesQuery.restore}
+              />
+            )}
+
+            {activeTab === "plots" && (
+              <PlotRegistry
+                plots={plots}
+                crops={crops}
+                harvests={harvests}
+                canEdit={can("plots.write")}
+                onAdd={plotsQuery.create}
+                onUpdate={plotsQuery.update}
+                onDelete={plotsQuery.remove}
+                onRestore={plotsQuery.restore}
+              />
+            )}
+
+            {activeTab === "garden-map" && (
+              <GardenMapView
+                map={gardenMap}
+                plots={plots}
+                crops={crops}
+                companions={companionPlanting}
+                canEdit={can("settings.manage")}
+                onSave={gardenMapQuery.save}
+              />
+            )}
+
+            {activeTab === "catalog" && (
+              <CropCatalog
+                varieties={varieties}
+                canEdit={can("catalog.manage")}
+                onAdd={varietiesQuery.create}
+                onUpdate={varietiesQuery.update}
+                onDelete={varietiesQuery.remove}
+                onRestore={varietiesQuery.restore}
+              />
+            )}
+
+            {activeTab === "companions" && (
+              <CompanionPlanting
+                data={companionPlanting}
+                varieties={varieties}
+                canEdit={can("catalog.manage")}
+                onSave={companionPlantingQuery.save}
+              />
+            )}
+
+            {activeTab === "rotation" && (
+              <RotationPlanner
+                plots={plots}
+                crops={crops}
+                varieties={varieties}
+                events={events}
+                canSchedule={can("events.write")}
+                onScheduled={() => invalidateQueries([QUERY_KEYS.events])}
+              />
+            )}
+
+            {activeTab === "harvest" && (
+              <HarvestTracker 
+                harvests={harvests}
+                canEdit={can("harvests.write")}
+                onAdd={harvestsQuery.create}
+                onUpdate={harvestsQuery.update}
+                onDelete={harvestsQuery.remove}
+                onRestore={harvestsQuery.restore}
+                onImported={() => invalidateQueries([QUERY_KEYS.harvests])}
+              />
+            )}
 
-          {activeTab === "harvest" && (
-            <HarvestTracker 
-              harvests={harvests}
-              isAdmin={userProfile?.role === "admin"}
-              onAdd={handleAddHarvest}
-              onUpdate={handleUpdateHarvest}
-              onDelete={handleDeleteHarvest}
-            />
-          )}
+            {activeTab === "budget" && (
+              <BudgetTransparency 
+                budgetItems={budgetItems} 
+                totalBudget={totalBudget}
+                canEdit={can("budget.write")}
+                onAdd={budgetItemsQuery.create}
+                onUpdate={budgetItemsQuery.update}
+                onDelete={budgetItemsQuery.remove}
+                onRestore={budgetItemsQuery.restore}
+                onImported={() => invalidateQueries([QUERY_KEYS.budgetItems])}
+                onUpdateTotalBudget={totalBudgetQuery.set}
+              />
+            )}
+
+            {activeTab === "volunteers" && (
+              <VolunteerManagement 
+                volunteers={volunteers} 
+                tasks={tasks}
+                canManageVolunteers={can("volunteers.write")}
+                canManageTasks={can("tasks.write")}
+                onAddVolunteer={volunteersQuery.create}
+                onUpdateVolunteer={volunteersQuery.update}
+                onDeleteVolunteer={volunteersQuery.remove}
+                onRestoreVolunteer={volunteersQuery.restore}
+                onAddTask={tasksQuery.create}
+                onUpdateTask={tasksQuery.update}
+                onDeleteTask={tasksQuery.remove}
+                onRestoreTask={tasksQuery.restore}
+                onImported={() => invalidateQueries([QUERY_KEYS.volunteers])}
+              />
+            )}
+
+            {activeTab === "gallery" && (
+              <PhotoGallery 
+                photos={photos}
+                canEdit={can("photos.write")}
+                onAdd={photosQuery.create}
+                onUpdate={photosQuery.update}
+                onDelete={photosQuery.remove}
+                onRestore={photosQuery.restore}
+              />
+            )}
+
+            {activeTab === "engagement" && (
+              <CommunityEngagement 
+                polls={polls} 
+                feedbacks={feedbacks}
+                onDataUpdate={() => invalidateQueries([QUERY_KEYS.polls, QUERY_KEYS.feedbacks])}
+                canManagePolls={can("polls.manage")}
+                canVote={can("polls.vote")}
+                canSubmitFeedback={can("feedbacks.submit")}
+                canModerateFeedback={can("feedbacks.moderate")}
+              />
+            )}
+
+            {activeTab === "updates" && (
+              <CommunityUpdates 
+                updates={updates}
+                canEdit={can("updates.write")}
+                onAdd={updatesQuery.create}
+                onUpdate={updatesQuery.update}
+                onDelete={updatesQuery.remove}
+                onRestore={updatesQuery.restore}
+              />
+            )}
 
-          {activeTab === "budget" && (
-            <BudgetTransparency 
-              budgetItems={budgetItems} 
-              totalBudget={totalBudget}
-              isAdmin={userProfile?.role === "admin"}
-              onAdd={handleAddBudgetItem}
-              onUpdate={handleUpdateBudgetItem}
-              onDelete={handleDeleteBudgetItem}
-              onUpdateTotalBudget={handleUpdateTotalBudget}
-            />
-          )}
+            {activeTab === "schedule" && <PlantingSchedule events={events} />}
 
-          {activeTab === "volunteers" && (
-            <VolunteerManagement 
-              volunteers={volunteers} 
-              tasks={tasks}
-              isAdmin={userProfile?.role === "admin"}
-              onAddVolunteer={handleAddVolunteer}
-              onUpdateVolunteer={handleUpdateVolunteer}
-              onDeleteVolunteer={handleDeleteVolunteer}
-              onAddTask={handleAddTask}
-              onUpdateTask={handleUpdateTask}
-              onDeleteTask={handleDeleteTask}
-            />
-          )}
+            {activeTab === "profile" && (
+              <ProfilePage 
+                userProfile={userProfile}
+                accessToken={accessToken}
+                onProfileUpdate={(updatedProfile) => setUserProfile(updatedProfile)}
+              />
+            )}
 
-          {activeTab === "gallery" && (
-            <PhotoGallery 
-              photos={photos}
-              isAdmin={userProfile?.role === "admin"}
-              onAdd={handleAddPhoto}
-              onUpdate={handleUpdatePhoto}
-              onDelete={handleDeletePhoto}
-            />
-          )}
+            {activeTab === "register" && (
+              <UserRegistration accessToken={accessToken} />
+            )}
 
-          {activeTab === "engagement" && (
-            <CommunityEngagement 
-              polls={polls} 
-              feedbacks={feedbacks}
-              onDataUpdate={loadData}
-              isAdmin={userProfile?.role === "admin"}
-            />
-          )}
+            {activeTab === "user-management" && (
+              <UserManagement
+                accessToken={accessToken}
+                currentUserId={userProfile?.id}
+                currentUserRole={userProfile?.role}
+              />
+            )}
 
-          {activeTab === "updates" && (
-            <CommunityUpdates 
-              updates={updates}
-              isAdmin={userProfile?.role === "admin"}
-              onAdd={handleAddUpdate}
-              onUpdate={handleUpdateUpdate}
-              onDelete={handleDeleteUpdate}
-            />
-          )}
+            {activeTab === "role-permissions" && (
+              <RolePermissions onMatrixSaved={permissionMatrixQuery.saved} />
+            )}
 
-          {activeTab === "schedule" && <PlantingSchedule events={events} />}
+            {activeTab === "location-settings" && (
+              <LocationSettings accessToken={accessToken} />
+            )}
 
-          {activeTab === "profile" && (
-            <ProfilePage 
-              userProfile={userProfile}
-              accessToken={accessToken}
-              onProfileUpdate={(updatedProfile) => setUserProfile(updatedProfile)}
-            />
-          )}
+            {activeTab === "audit-log" && (
+              <AuditLog />
+            )}
 
-          {activeTab === "register" && userProfile?.role === "admin" && (
-            <UserRegistration accessToken={accessToken} />
-          )}
+            {activeTab === "trash" && (
+              <TrashBin onRestored={() => invalidateQueries()} />
+            )}
 
-          {activeTab === "user-management" && userProfile?.role === "admin" && (
-            <UserManagement accessToken={accessToken} />
-          )}
+            {activeTab === "migrations" && (
+              <DataMigrations onMigrated={() => invalidateQueries()} />
+            )}
 
-          {activeTab === "location-settings" && userProfile?.role === "admin" && (
-            <LocationSettings accessToken={accessToken} />
+            {activeTab === "backup" && (
+              <BackupRestore onRestored={() => invalidateQueries()} />
+            )}
+            </>
           )}
         </div>
 
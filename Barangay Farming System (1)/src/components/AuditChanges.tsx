@@ -0,0 +1,35 @@
+import { ArrowRight } from "lucide-react";
+import type { AuditChange } from "../supabase/functions/_shared/types";
+
+interface AuditChangesProps {
+  changes: AuditChange[];  // Fields changed by one audit entry
+}
+
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Before/after list of the fields changed by one audit entry
+ * Used by the Audit Log page and the budget history dialog
+ */
+export function AuditChanges({ changes }: AuditChangesProps) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No field changes</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {changes.map((change) => (
+        <li key={change.field} className="flex flex-wrap items-center gap-2">
+          <span className="font-mono text-xs text-muted-foreground">{change.field}</span>
+          <span className="text-red-600 dark:text-red-400 line-through break-all">{formatValue(change.before)}</span>
+          <ArrowRight className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+          <span className="text-green-700 dark:text-green-400 break-all">{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
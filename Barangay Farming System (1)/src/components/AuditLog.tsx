@@ -0,0 +1,220 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { ScrollText, Loader2, RefreshCw, X } from "lucide-react";
+import { toast } from "sonner@2.0.3";
+import { AuditChanges } from "./AuditChanges";
+import { auditApi } from "../utils/api";
+import { updateSearchParams, useSearchParam } from "../utils/router";
+import type { AuditAction, AuditEntry } from "../supabase/functions/_shared/types";
+
+// KV prefixes that are written through the audit trail (also used by the Trash page)
+export const ENTITY_LABELS: Record<string, string> = {
+  plot: "Plot",
+  variety: "Crop catalog entry",
+  crop: "Crop",
+  crop_activity: "Crop activity",
+  harvest: "Harvest",
+  budget: "Budget expense",
+  volunteer: "Volunteer",
+  task: "Task",
+  poll: "Poll",
+  feedback: "Feedback",
+  photo: "Photo",
+  update: "Community update",
+  event: "Schedule event",
+  settings: "Settings",
+  user_profile: "User profile",
+};
+
+export const ACTION_VARIANTS: Record<AuditAction, "default" | "secondary" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+  restore: "default",
+  purge: "destructive",
+};
+
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({}); // actorId -> email, for the user filter
+  const [isLoading, setIsLoading] = useState(true);
+  const [entityType, setEntityType] = useSearchParam("type", "all");
+  const [actorId, setActorId] = useSearchParam("user", "all");
+  const [from, setFrom] = useSearchParam("from");
+  const [to, setTo] = useSearchParam("to");
+
+  const loadEntries = async () => {
+    setIsLoading(true);
+    try {
+      const result = await auditApi.list({
+        entityType: entityType === "all" ? undefined : entityType,
+        actorId: actorId === "all" ? undefined : actorId,
+        from: from || undefined,
+        to: to || undefined,
+      });
+      setEntries(result);
+
+      // Remember every actor seen so the user filter keeps its options
+      setActors((prev) => {
+        const next = { ...prev };
+        for (const entry of result) {
+          if (entry.actorId) {
+            next[entry.actorId] = entry.actorEmail || entry.actorId;
+          }
+        }
+        return next;
+      });
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load audit log");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [entityType, actorId, from, to]);
+
+  const hasFilters = entityType !== "all" || actorId !== "all" || from !== "" || to !== "";
+
+  const clearFilters = () => {
+    updateSearchParams({ type: null, user: null, from: null, to: null });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-green-600 mb-2">Audit Log</h2>
+        <p className="text-muted-foreground">
+          Every change to the community's records: who made it, when, and what changed.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>Record Changes</CardTitle>
+              <CardDescription>Newest changes first</CardDescription>
+            </div>
+            <Button onClick={loadEntries} variant="outline" size="sm" disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {/* Filters */}
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6 items-end">
+            <div className="space-y-2">
+              <Label>Entity</Label>
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Entities</SelectItem>
+                  {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={actorId} onValueChange={setActorId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Users</SelectItem>
+                  {Object.entries(actors).map(([id, email]) => (
+                    <SelectItem key={id} value={id}>{email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <Button variant="ghost" onClick={clearFilters} disabled={!hasFilters}>
+              <X className="h-4 w-4 mr-2" />
+              Clear Filters
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <Loader2 className="h-8 w-8 text-green-600 animate-spin mx-auto mb-2" />
+                <p className="text-muted-foreground">Loading audit log...</p>
+              </div>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12">
+              <ScrollText className="h-12 w-12 text-muted-foreground mx-auto mb-3 opacity-50" />
+              <p className="text-muted-foreground">
+                {hasFilters ? "No changes match these filters" : "No changes recorded yet"}
+              </p>
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id} className="align-top">
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_VARIANTS[entry.action]} className="capitalize">{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm">{ENTITY_LABELS[entry.entityType] || entry.entityType}</p>
+                        <p className="font-mono text-xs text-muted-foreground">{entry.entityId}</p>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {entry.actorEmail || <span className="text-muted-foreground">System</span>}
+                      </TableCell>
+                      <TableCell className="max-w-md">
+                        <AuditChanges changes={entry.changes} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {!isLoading && entries.length > 0 && (
+            <div className="mt-4 text-sm text-muted-foreground text-center">
+              Showing {entries.length} changes
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
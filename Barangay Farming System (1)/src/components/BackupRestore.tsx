@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
+import { Archive, Download, FileSearch, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner@2.0.3";
+import { ENTITY_LABELS } from "./AuditLog";
+import { backupApi } from "../utils/api";
+import type { RestoreMode, RestoreReport } from "../supabase/functions/_shared/types";
+
+interface BackupRestoreProps {
+  onRestored?: () => void;  // Reload app data after a restore
+}
+
+// Role change history isn't audited, so the audit log has no label for it
+const TYPE_LABELS: Record<string, string> = { ...ENTITY_LABELS, role_change: "Role change" };
+
+// Records with validation warnings (or left out) listed; the rest are counted
+const MAX_WARNINGS_SHOWN = 10;
+
+/**
+ * Save a downloaded file under the given name
+ */
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function BackupRestore({ onRestored }: BackupRestoreProps) {
+  const [downloading, setDownloading] = useState<"json" | "zip" | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const handleDownload = async (format: "json" | "zip") => {
+    setDownloading(format);
+    try {
+      const blob = await backupApi.download(format);
+      saveFile(blob, `plant-n-plan-backup-${new Date().toISOString().slice(0, 10)}.${format}`);
+      toast.success("Backup downloaded");
+    } catch (error) {
+      console.error("Error downloading backup:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to download backup");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  // A new file or mode needs a new preview
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setReport(null);
+  };
+
+  const handleModeChange = (value: string) => {
+    setMode(value as RestoreMode);
+    setReport(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    setIsChecking(true);
+    try {
+      setReport(await backupApi.restore(file, mode, true));
+    } catch (error) {
+      console.error("Error checking backup:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to check backup");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!file) return;
+    setIsRestoring(true);
+    try {
+      setReport(await backupApi.restore(file, mode, false));
+      toast.success("Backup restored");
+      if (onRestored) {
+        onRestored();
+      }
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to restore backup");
+    } finally {
+      setIsRestoring(false);
+      setConfirmOpen(false);
+    }
+  };
+
+  const changes = report ? Object.entries(report.changes) : [];
+  const totals = changes.reduce(
+    (sum, [, counts]) => ({
+      added: sum.added + counts.added,
+      updated: sum.updated + counts.updated,
+      removed: sum.removed + counts.removed,
+    }),
+    { added: 0, updated: 0, removed: 0 }
+  );
+  const hasChanges = totals.added + totals.updated + totals.removed > 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-green-600 mb-2">Backup & Restore</h2>
+        <p className="text-muted-foreground">
+          Download a copy of all community data, or bring the system back to a backup. Accounts and passwords are not included.
+        </p>
+      </div>
+
+      {/* Download */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5 text-green-600" />
+            Download Backup
+          </CardTitle>
+          <CardDescription>
+            Crops, harvests, budget, volunteers, tasks, polls, feedback, photos, updates, events, user profiles and settings, including records in the trash
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => handleDownload("json")}
+            disabled={downloading !== null}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {downloading === "json" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Download JSON
+          </Button>
+          <Button onClick={() => handleDownload("zip")} variant="outline" disabled={downloading !== null}>
+            {downloading === "zip" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Download ZIP
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Restore */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5 text-green-600" />
+            Restore from Backup
+          </CardTitle>
+          <CardDescription>
+            Preview what a backup would change before restoring it. Records from older versions are upgraded by the data migrations afterwards.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="backup-file">Backup File</Label>
+              <Input
+                id="backup-file"
+                type="file"
+                accept=".json,.zip,application/json,application/zip"
+                onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                disabled={isChecking || isRestoring}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <Select value={mode} onValueChange={handleModeChange} disabled={isChecking || isRestoring}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Merge - add and update records, keep the rest</SelectItem>
+                  <SelectItem value="replace">Replace - also remove records not in the backup</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handlePreview} variant="outline" disabled={!file || isChecking || isRestoring}>
+              {isChecking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSearch className="h-4 w-4 mr-2" />}
+              Preview Changes
+            </Button>
+            <Button
+              onClick={() => setConfirmOpen(true)}
+              disabled={!report || !report.dryRun || !hasChanges || isRestoring}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Restore
+            </Button>
+          </div>
+
+          {report && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {report.dryRun ? <Badge variant="secondary">Preview</Badge> : <Badge>Restored</Badge>}
+                <span className="text-muted-foreground">
+                  Backup from {new Date(report.archiveCreatedAt).toLocaleString()}, schema version {report.archiveSchemaVersion}
+                </span>
+              </div>
+
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Records</TableHead>
+                      <TableHead>Added</TableHead>
+                      <TableHead>Updated</TableHead>
+                      <TableHead>Removed</TableHead>
+                      <TableHead>Unchanged</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map(([type, counts]) => (
+                      <TableRow key={type}>
+                        <TableCell>{TYPE_LABELS[type] || type}</TableCell>
+                        <TableCell>{counts.added}</TableCell>
+                        <TableCell>{counts.updated}</TableCell>
+                        <TableCell className={counts.removed > 0 ? "text-red-600" : ""}>{counts.removed}</TableCell>
+                        <TableCell className="text-muted-foreground">{counts.unchanged}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {report.warnings.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  <p>
+                    {report.warnings.length} record{report.warnings.length === 1 ? "" : "s"} would not pass today's validation and will be restored as they are:
+                  </p>
+                  <ul className="space-y-1 text-xs">
+                    {report.warnings.slice(0, MAX_WARNINGS_SHOWN).map((warning) => (
+                      <li key={warning.key}>
+                        <span className="font-mono">{warning.key}</span>
+                        <span className="text-muted-foreground"> - {Object.values(warning.fieldErrors).join("; ")}</span>
+                      </li>
+                    ))}
+                    {report.warnings.length > MAX_WARNINGS_SHOWN && (
+                      <li className="text-muted-foreground">
+                        and {report.warnings.length - MAX_WARNINGS_SHOWN} more
+                      </li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              {report.skipped.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  <p>
+                    {report.skipped.length} record{report.skipped.length === 1 ? "" : "s"} in the backup will be left as {report.skipped.length === 1 ? "it is" : "they are"}:
+                  </p>
+                  <ul className="space-y-1 text-xs">
+                    {report.skipped.slice(0, MAX_WARNINGS_SHOWN).map((skipped) => (
+                      <li key={skipped.key}>
+                        <span className="font-mono">{skipped.key}</span>
+                        <span className="text-muted-foreground"> - {skipped.reason}</span>
+                      </li>
+                    ))}
+                    {report.skipped.length > MAX_WARNINGS_SHOWN && (
+                      <li className="text-muted-foreground">
+                        and {report.skipped.length - MAX_WARNINGS_SHOWN} more
+                      </li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              {report.dryRun && !hasChanges && (
+                <p className="text-sm text-muted-foreground">The data already matches this backup.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Confirm restore */}
+      <AlertDialog open={confirmOpen} onOpenChange={(open) => !open && setConfirmOpen(false)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Backup?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {totals.added} records will be added and {totals.updated} overwritten
+              {mode === "replace" ? `, and ${totals.removed} removed` : ""}. Your own profile is left as it is.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmRestore();
+              }}
+              disabled={isRestoring}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {isRestoring ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -7,31 +7,58 @@ import { Button } from "./ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Label } from "./ui/label";
 import { Textarea } from "./ui/textarea";
-import { Search, Download, Printer, Plus, Pencil, Trash2, Settings } from "lucide-react";
+import { Search, Download, Printer, Plus, Pencil, Trash2, Settings, History, Loader2, Upload } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner@2.0.3";
-
-export interface BudgetItem {
-  id: string;
-  category: string;
-  description: string;
-  amount: number;
-  date: string;
-}
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { Badge } from "./ui/badge";
+import { FieldError } from "./FieldError";
+import { ImportWizard } from "./ImportWizard";
+import { ConflictDialog, EditedElsewhereNotice, type ConflictFields, type EditConflict } from "./ConflictDialog";
+import { AuditChanges } from "./AuditChanges";
+import { ACTION_VARIANTS } from "./AuditLog";
+import { SortableTableHead, TablePagination, useSortParam } from "./ListControls";
+import { RecordDetailsDialog, fieldDetails } from "./RecordDetails";
+import { budgetApi, getConflict, getFieldErrors } from "../utils/api";
+import { usePagedList } from "../utils/usePagedList";
+import { linkTo, useSearchParam } from "../utils/router";
+import { useRecordRoute } from "../utils/routes";
+import type { AuditEntry, BudgetItem, BudgetListQuery, EntityInput, FieldErrors } from "../supabase/functions/_shared/types";
+
+export type { BudgetItem };
+
+// Fields shown in the merge prompt when someone else edited the same expense
+const BUDGET_FIELDS: ConflictFields<BudgetItem> = {
+  category: "Category",
+  description: "Description",
+  amount: "Amount (₱)",
+  date: "Date",
+};
+
+// Columns the expense list can be sorted by (see LIST_OPTIONS on the server)
+const BUDGET_SORT_FIELDS: Array<keyof BudgetItem & string> = ["date", "category", "description", "amount"];
 
 interface BudgetTransparencyProps {
-  budgetItems: BudgetItem[];
+  budgetItems: BudgetItem[];  // All expenses (charts and totals); the table reloads its page when this changes
   totalBudget: number;
-  isAdmin?: boolean;
-  onAdd?: (item: Omit<BudgetItem, "id">) => Promise<void>;
-  onUpdate?: (id: string, item: Partial<BudgetItem>) => Promise<void>;
-  onDelete?: (id: string) => Promise<void>;
-  onUpdateTotalBudget?: (amount: number) => Promise<void>;
+  canEdit?: boolean;
+  onAdd?: (item: EntityInput<BudgetItem>) => Promise<unknown>;
+  onUpdate?: (id: string, item: EntityInput<BudgetItem>) => Promise<unknown>;
+  onDelete?: (id: string) => Promise<unknown>;
+  onRestore?: (id: string) => Promise<unknown>;  // Undo a delete from the success toast
+  onUpdateTotalBudget?: (amount: number) => Promise<unknown>;
+  onImported?: () => void;  // Reload after a spreadsheet import
 }
 
-export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false, onAdd, onUpdate, onDelete, onUpdateTotalBudget }: BudgetTransparencyProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState<string>("all");
+export function BudgetTransparency({ budgetItems, totalBudget, canEdit = false, onAdd, onUpdate, onDelete, onRestore, onUpdateTotalBudget, onImported }: BudgetTransparencyProps) {
+  const [searchTerm, setSearchTerm] = useSearchParam("q");
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useSearchParam("category", "all");
+  const [fromDate, setFromDate] = useSearchParam("from");
+  const [toDate, setToDate] = useSearchParam("to");
+  const [sort, setSort] = useSortParam<BudgetItem>({ field: "date", order: "desc" }, BUDGET_SORT_FIELDS);
+  const budgetRoute = useRecordRoute("budget");
+  const openItem = budgetItems.find((item) => item.id === budgetRoute.id);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<BudgetItem | null>(null);
   const [formData, setFormData] = useState({
@@ -41,22 +68,27 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
     date: "",
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [conflict, setConflict] = useState<EditConflict<BudgetItem> | null>(null);
   const [isBudgetDialogOpen, setIsBudgetDialogOpen] = useState(false);
   const [newTotalBudget, setNewTotalBudget] = useState("");
+  const [historyItem, setHistoryItem] = useState<BudgetItem | null>(null);
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
 
   // Get unique categories
   const categories = Array.from(new Set(budgetItems.map(item => item.category)));
 
-  // Filter budget items
-  const filteredItems = budgetItems.filter((item) => {
-    const matchesSearch = 
-      item.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.category.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesCategory = categoryFilter === "all" || item.category === categoryFilter;
-    
-    return matchesSearch && matchesCategory;
-  });
+  // Filtered, sorted and paged by the server
+  const listQuery: BudgetListQuery = {
+    q: searchTerm.trim() || undefined,
+    category: categoryFilter === "all" ? undefined : categoryFilter,
+    from: fromDate || undefined,
+    to: toDate || undefined,
+    sort: sort.field,
+    order: sort.order,
+  };
+  const budgetPage = usePagedList(budgetApi.getPage, listQuery, budgetItems);
 
   // Calculate spending by category
   const categorySpending = budgetItems.reduce((acc, item) => {
@@ -79,10 +111,19 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
     { name: 'Remaining', value: remaining }
   ];
 
-  const handleExport = () => {
+  const handleExport = async () => {
+    let exportItems: BudgetItem[];
+    try {
+      exportItems = await budgetApi.getAll(listQuery);  // Every matching expense, not just this page
+    } catch (error) {
+      console.error("Error exporting budget:", error);
+      toast.error("Failed to export budget data");
+      return;
+    }
+
     const csvContent = [
       ["Date", "Category", "Description", "Amount"],
-      ...filteredItems.map(item => [
+      ...exportItems.map(item => [
         new Date(item.date).toLocaleDateString(),
         item.category,
         item.description,
@@ -124,6 +165,7 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
         date: new Date().toISOString().split('T')[0],
       });
     }
+    setFieldErrors({});
     setIsDialogOpen(true);
   };
 
@@ -150,17 +192,17 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
       return;
     }
 
+    const itemData = {
+      category: formData.category,
+      description: formData.description,
+      amount: amount,
+      date: formData.date,
+    };
+
     setIsSubmitting(true);
     try {
-      const itemData = {
-        category: formData.category,
-        description: formData.description,
-        amount: amount,
-        date: formData.date,
-      };
-
       if (editingItem && onUpdate) {
-        await onUpdate(editingItem.id, itemData);
+        await onUpdate(editingItem.id, { ...itemData, version: editingItem.version });
         toast.success("Budget item updated successfully!");
       } else if (onAdd) {
         await onAdd(itemData);
@@ -168,7 +210,14 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
       }
       handleCloseDialog();
     } catch (error) {
+      const current = getConflict<BudgetItem>(error);
+      if (current && editingItem) {
+        setConflict({ base: editingItem, mine: itemData, theirs: current });
+        handleCloseDialog();
+        return;
+      }
       console.error("Error saving budget item:", error);
+      setFieldErrors(getFieldErrors(error));
       toast.error("Failed to save budget item");
     } finally {
       setIsSubmitting(false);
@@ -181,7 +230,7 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
     if (window.confirm(`Are you sure you want to delete "${description}"?`)) {
       try {
         await onDelete(id);
-        toast.success("Budget item deleted successfully!");
+        toastDeletedWithUndo("Budget item deleted successfully!", onRestore && (() => onRestore(id)));
       } catch (error) {
         console.error("Error deleting budget item:", error);
         toast.error("Failed to delete budget item");
@@ -189,6 +238,21 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
     }
   };
 
+  // Load the edit history of one expense from the audit trail
+  const handleOpenHistory = async (item: BudgetItem) => {
+    setHistoryItem(item);
+    setHistory([]);
+    setIsHistoryLoading(true);
+    try {
+      setHistory(await budgetApi.getHistory(item.id));
+    } catch (error) {
+      console.error("Error loading budget item history:", error);
+      toast.error("Failed to load expense history");
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
   const handleOpenBudgetDialog = () => {
     setNewTotalBudget(totalBudget.toString());
     setIsBudgetDialogOpen(true);
@@ -226,7 +290,7 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
                 <CardTitle>Budget Overview</CardTitle>
                 <CardDescription>Total Budget: ₱{totalBudget.toLocaleString()}</CardDescription>
               </div>
-              {isAdmin && (
+              {canEdit && (
                 <Button variant="outline" size="sm" onClick={handleOpenBudgetDialog}>
                   <Settings className="h-4 w-4 mr-2" />
                   Edit Budget
@@ -281,7 +345,7 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
                 <CardTitle>Expense Records</CardTitle>
                 <CardDescription>Detailed breakdown of all expenses</CardDescription>
               </div>
-              {isAdmin && (
+              {canEdit && (
                 <Button onClick={() => handleOpenDialog()}>
                   <Plus className="h-4 w-4 mr-2" />
                   Add Expense
@@ -312,6 +376,20 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
                   ))}
                 </SelectContent>
               </Select>
+              <Input
+                type="date"
+                aria-label="Spent from"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="w-full md:w-[160px]"
+              />
+              <Input
+                type="date"
+                aria-label="Spent to"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="w-full md:w-[160px]"
+              />
             </div>
 
             {/* Export Buttons */}
@@ -324,66 +402,99 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
                 <Printer className="h-4 w-4 mr-2" />
                 Print
               </Button>
+              {canEdit && (
+                <Button onClick={() => setIsImportOpen(true)} variant="outline" size="sm">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+              )}
             </div>
 
+            <ImportWizard
+              entityType="budget"
+              open={isImportOpen}
+              onClose={() => setIsImportOpen(false)}
+              onImported={onImported}
+            />
+
             {/* Table */}
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Date</TableHead>
-                    <TableHead>Category</TableHead>
-                    <TableHead>Description</TableHead>
-                    <TableHead className="text-right">Amount</TableHead>
-                    {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                    <SortableTableHead field="date" sort={sort} onSort={setSort}>Date</SortableTableHead>
+                    <SortableTableHead field="category" sort={sort} onSort={setSort}>Category</SortableTableHead>
+                    <SortableTableHead field="description" sort={sort} onSort={setSort}>Description</SortableTableHead>
+                    <SortableTableHead field="amount" sort={sort} onSort={setSort} className="text-right">Amount</SortableTableHead>
+                    <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredItems.length === 0 ? (
+                  {!budgetPage.hasLoaded ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        Loading expenses...
+                      </TableCell>
+                    </TableRow>
+                  ) : budgetPage.items.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={isAdmin ? 5 : 4} className="text-center text-muted-foreground">
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
                         No expenses found
                       </TableCell>
                     </TableRow>
                   ) : (
                     <>
-                      {filteredItems.map((item) => (
+                      {budgetPage.items.map((item) => (
                         <TableRow key={item.id}>
                           <TableCell>{new Date(item.date).toLocaleDateString()}</TableCell>
                           <TableCell>{item.category}</TableCell>
-                          <TableCell>{item.description}</TableCell>
+                          <TableCell>
+                            <a href={budgetRoute.href(item.id)} onClick={linkTo(budgetRoute.href(item.id))} className="hover:underline">
+                              {item.description}
+                            </a>
+                          </TableCell>
                           <TableCell className="text-right">₱{item.amount.toLocaleString()}</TableCell>
-                          {isAdmin && (
-                            <TableCell className="text-right">
-                              <div className="flex justify-end gap-2">
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => handleOpenDialog(item)}
-                                >
-                                  <Pencil className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => handleDelete(item.id, item.description)}
-                                >
-                                  <Trash2 className="h-4 w-4 text-destructive" />
-                                </Button>
-                              </div>
-                            </TableCell>
-                          )}
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleOpenHistory(item)}
+                                aria-label={`History of ${item.description}`}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                              {canEdit && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleOpenDialog(item)}
+                                  >
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleDelete(item.id, item.description)}
+                                  >
+                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </TableCell>
                         </TableRow>
                       ))}
                       <TableRow className="font-bold">
                         <TableCell colSpan={3}>Total Spent</TableCell>
                         <TableCell className="text-right">₱{totalSpent.toLocaleString()}</TableCell>
-                        {isAdmin && <TableCell></TableCell>}
+                        <TableCell></TableCell>
                       </TableRow>
                       <TableRow className="font-bold">
                         <TableCell colSpan={3}>Remaining Budget</TableCell>
                         <TableCell className="text-right">₱{remaining.toLocaleString()}</TableCell>
-                        {isAdmin && <TableCell></TableCell>}
+                        <TableCell></TableCell>
                       </TableRow>
                     </>
                   )}
@@ -391,9 +502,14 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
               </Table>
             </div>
 
-            <p className="text-sm text-muted-foreground">
-              Showing {filteredItems.length} of {budgetItems.length} expense records
-            </p>
+            <TablePagination
+              page={budgetPage.page}
+              pageSize={budgetPage.pageSize}
+              total={budgetPage.total}
+              noun="expense records"
+              onPageChange={budgetPage.setPage}
+              disabled={budgetPage.isLoading}
+            />
           </CardContent>
         </Card>
       </div>
@@ -407,6 +523,7 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
               {editingItem ? "Update expense details" : "Record a new expense"}
             </DialogDescription>
           </DialogHeader>
+          <EditedElsewhereNotice editing={editingItem} records={budgetItems} noun="expense" />
 
           <div className="space-y-4">
             <div className="space-y-2">
@@ -417,6 +534,7 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
                 onChange={(e) => setFormData({ ...formData, category: e.target.value })}
                 placeholder="e.g., Seeds, Tools, Water"
               />
+              <FieldError message={fieldErrors.category} />
             </div>
 
             <div className="space-y-2">
@@ -428,6 +546,7 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
                 placeholder="Describe the expense..."
                 rows={3}
               />
+              <FieldError message={fieldErrors.description} />
             </div>
 
             <div className="space-y-2">
@@ -440,6 +559,7 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
                 onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
                 placeholder="0.00"
               />
+              <FieldError message={fieldErrors.amount} />
             </div>
 
             <div className="space-y-2">
@@ -450,6 +570,7 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
                 value={formData.date}
                 onChange={(e) => setFormData({ ...formData, date: e.target.value })}
               />
+              <FieldError message={fieldErrors.date} />
             </div>
           </div>
 
@@ -464,6 +585,50 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
         </DialogContent>
       </Dialog>
 
+      {/* Expense History Dialog */}
+      <Dialog open={historyItem !== null} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Expense History</DialogTitle>
+            <DialogDescription>
+              Every change to "{historyItem?.description}", newest first
+            </DialogDescription>
+          </DialogHeader>
+
+          {isHistoryLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 text-green-600 animate-spin" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No changes recorded for this expense
+            </p>
+          ) : (
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+              {history.map((entry) => (
+                <div key={entry.id} className="border-b pb-3 last:border-0 last:pb-0 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant={ACTION_VARIANTS[entry.action]} className="capitalize">
+                      {entry.action}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      {new Date(entry.timestamp).toLocaleString()} by {entry.actorEmail || "System"}
+                    </span>
+                  </div>
+                  <AuditChanges changes={entry.changes} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHistoryItem(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Total Budget Dialog */}
       <Dialog open={isBudgetDialogOpen} onOpenChange={setIsBudgetDialogOpen}>
         <DialogContent>
@@ -521,6 +686,26 @@ export function BudgetTransparency({ budgetItems, totalBudget, isAdmin = false,
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Expense opened by its link (/budget/:id) */}
+      <RecordDetailsDialog
+        recordId={budgetRoute.id}
+        noun="expense"
+        title={openItem?.description}
+        details={openItem ? fieldDetails(openItem, BUDGET_FIELDS) : null}
+        onEdit={canEdit && openItem ? () => { budgetRoute.close(); handleOpenDialog(openItem); } : undefined}
+        onClose={budgetRoute.close}
+      />
+
+      {/* Merge prompt after an edit conflict */}
+      {onUpdate && (
+        <ConflictDialog
+          conflict={conflict}
+          fields={BUDGET_FIELDS}
+          onSave={onUpdate}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </>
   );
 }
@@ -8,7 +8,13 @@ import { Progress } from "./ui/progress";
 import { MessageSquare, ThumbsUp, Send, Edit2, Trash2, Shield, Plus, X } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner@2.0.3";
-import { feedbacksApi, pollsApi } from "../utils/api";
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { feedbacksApi, pollsApi, getConflict, getFieldErrors } from "../utils/api";
+import { linkTo } from "../utils/router";
+import { useRecordRoute } from "../utils/routes";
+import { FieldError } from "./FieldError";
+import { RecordDetailsDialog } from "./RecordDetails";
+import { ConflictDialog, EditedElsewhereNotice, type ConflictFields, type EditConflict } from "./ConflictDialog";
 import { Calendar } from "./ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { format } from "date-fns";
@@ -30,36 +36,40 @@ import {
   DialogHeader,
   DialogTitle,
 } from "./ui/dialog";
+import type { Poll, Feedback, FieldErrors } from "../supabase/functions/_shared/types";
 
-export interface Poll {
-  id: string;
-  question: string;
-  options: Array<{ id: string; text: string; votes: number }>;
-  totalVotes: number;
-  endsAt: string;
-}
+export type { Poll, Feedback };
 
-export interface Feedback {
-  id: string;
-  name: string;
-  message: string;
-  date: string;
-  category: string;
-}
+// Fields the edit dialogs change, shown in the merge prompts after an edit conflict
+const POLL_FIELDS: ConflictFields<Poll> = { question: "Question" };
+const FEEDBACK_FIELDS: ConflictFields<Feedback> = { message: "Message" };
 
 interface CommunityEngagementProps {
   polls: Poll[];
   feedbacks: Feedback[];
   onDataUpdate?: () => void;
-  isAdmin?: boolean;
+  canManagePolls?: boolean;
+  canVote?: boolean;
+  canSubmitFeedback?: boolean;
+  canModerateFeedback?: boolean;
 }
 
-export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin = false }: CommunityEngagementProps) {
+export function CommunityEngagement({
+  polls,
+  feedbacks,
+  onDataUpdate,
+  canManagePolls = false,
+  canVote = false,
+  canSubmitFeedback = false,
+  canModerateFeedback = false
+}: CommunityEngagementProps) {
   const [feedbackName, setFeedbackName] = useState("");
   const [feedbackMessage, setFeedbackMessage] = useState("");
   const [selectedPollOption, setSelectedPollOption] = useState<string>("");
   const [isSubmittingFeedback, setIsSubmittingFeedback] = useState(false);
   const [isVoting, setIsVoting] = useState(false);
+  const [feedbackErrors, setFeedbackErrors] = useState<FieldErrors>({});
+  const [dialogErrors, setDialogErrors] = useState<FieldErrors>({});  // Errors for whichever edit/create dialog is open
   
   // Admin edit/delete states
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -70,6 +80,8 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
   const [editFeedbackDialogOpen, setEditFeedbackDialogOpen] = useState(false);
   const [editingFeedback, setEditingFeedback] = useState<Feedback | null>(null);
   const [editFeedbackMessage, setEditFeedbackMessage] = useState("");
+  const [pollConflict, setPollConflict] = useState<EditConflict<Poll> | null>(null);
+  const [feedbackConflict, setFeedbackConflict] = useState<EditConflict<Feedback> | null>(null);
   
   // Create new poll states
   const [createPollDialogOpen, setCreatePollDialogOpen] = useState(false);
@@ -78,6 +90,12 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
   const [newPollEndDate, setNewPollEndDate] = useState<Date | undefined>(undefined);
   const [isCreatingPoll, setIsCreatingPoll] = useState(false);
 
+  // Records opened by their links (/engagement/polls/:id, /engagement/feedback/:id)
+  const pollRoute = useRecordRoute("poll");
+  const feedbackRoute = useRecordRoute("feedback");
+  const openPoll = polls.find((poll) => poll.id === pollRoute.id);
+  const openFeedback = feedbacks.find((feedback) => feedback.id === feedbackRoute.id);
+
   const handleSubmitFeedback = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!feedbackName || !feedbackMessage) {
@@ -86,6 +104,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
     }
 
     setIsSubmittingFeedback(true);
+    setFeedbackErrors({});
 
     try {
       await feedbacksApi.create({
@@ -105,6 +124,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
       }
     } catch (error: any) {
       console.error("Error submitting feedback:", error);
+      setFeedbackErrors(getFieldErrors(error));
       toast.error("Failed to submit feedback. Please try again.");
     } finally {
       setIsSubmittingFeedback(false);
@@ -120,28 +140,8 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
     setIsVoting(true);
 
     try {
-      // Find the poll and option
-      const poll = polls.find(p => p.id === pollId);
-      if (!poll) {
-        toast.error("Poll not found");
-        return;
-      }
-
-      // Update the poll with the new vote
-      const updatedOptions = poll.options.map(option => {
-        if (option.id === selectedPollOption) {
-          return { ...option, votes: option.votes + 1 };
-        }
-        return option;
-      });
-
-      const updatedPoll = {
-        ...poll,
-        options: updatedOptions,
-        totalVotes: poll.totalVotes + 1
-      };
-
-      await pollsApi.update(pollId, updatedPoll);
+      // The server increments the vote count, so members don't need poll edit rights
+      await pollsApi.vote(pollId, selectedPollOption);
 
       toast.success("Your vote has been recorded!");
       setSelectedPollOption("");
@@ -162,6 +162,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
   const handleEditPoll = (poll: Poll) => {
     setEditingPoll(poll);
     setEditPollQuestion(poll.question);
+    setDialogErrors({});
     setEditPollDialogOpen(true);
   };
 
@@ -171,11 +172,11 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
       return;
     }
 
+    // Sends back the loaded version, so a poll edited (or voted on) meanwhile is a conflict
+    const pollData = { ...editingPoll, question: editPollQuestion };
+
     try {
-      await pollsApi.update(editingPoll.id, {
-        ...editingPoll,
-        question: editPollQuestion
-      });
+      await pollsApi.update(editingPoll.id, pollData);
 
       toast.success("Poll updated successfully!");
       setEditPollDialogOpen(false);
@@ -186,7 +187,15 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
         onDataUpdate();
       }
     } catch (error) {
+      const current = getConflict<Poll>(error);
+      if (current) {
+        setPollConflict({ base: editingPoll, mine: pollData, theirs: current });
+        setEditPollDialogOpen(false);
+        setEditingPoll(null);
+        return;
+      }
       console.error("Error updating poll:", error);
+      setDialogErrors(getFieldErrors(error));
       toast.error("Failed to update poll");
     }
   };
@@ -196,12 +205,19 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
     if (!itemToDelete) return;
 
     try {
+      const { id } = itemToDelete;
       if (itemToDelete.type === 'poll') {
-        await pollsApi.delete(itemToDelete.id);
-        toast.success("Poll deleted successfully!");
+        await pollsApi.delete(id);
+        toastDeletedWithUndo("Poll deleted successfully!", async () => {
+          await pollsApi.restore(id);
+          onDataUpdate?.();
+        });
       } else {
-        await feedbacksApi.delete(itemToDelete.id);
-        toast.success("Feedback deleted successfully!");
+        await feedbacksApi.delete(id);
+        toastDeletedWithUndo("Feedback deleted successfully!", async () => {
+          await feedbacksApi.restore(id);
+          onDataUpdate?.();
+        });
       }
 
       setDeleteDialogOpen(false);
@@ -220,6 +236,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
   const handleEditFeedback = (feedback: Feedback) => {
     setEditingFeedback(feedback);
     setEditFeedbackMessage(feedback.message);
+    setDialogErrors({});
     setEditFeedbackDialogOpen(true);
   };
 
@@ -229,11 +246,10 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
       return;
     }
 
+    const feedbackData = { ...editingFeedback, message: editFeedbackMessage };
+
     try {
-      await feedbacksApi.update(editingFeedback.id, {
-        ...editingFeedback,
-        message: editFeedbackMessage
-      });
+      await feedbacksApi.update(editingFeedback.id, feedbackData);
 
       toast.success("Feedback updated successfully!");
       setEditFeedbackDialogOpen(false);
@@ -244,7 +260,15 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
         onDataUpdate();
       }
     } catch (error) {
+      const current = getConflict<Feedback>(error);
+      if (current) {
+        setFeedbackConflict({ base: editingFeedback, mine: feedbackData, theirs: current });
+        setEditFeedbackDialogOpen(false);
+        setEditingFeedback(null);
+        return;
+      }
       console.error("Error updating feedback:", error);
+      setDialogErrors(getFieldErrors(error));
       toast.error("Failed to update feedback");
     }
   };
@@ -286,6 +310,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
     }
 
     setIsCreatingPoll(true);
+    setDialogErrors({});
 
     try {
       // Create poll object
@@ -316,6 +341,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
       }
     } catch (error) {
       console.error("Error creating poll:", error);
+      setDialogErrors(getFieldErrors(error));
       toast.error("Failed to create poll");
     } finally {
       setIsCreatingPoll(false);
@@ -331,16 +357,16 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
             <div>
               <CardTitle className="flex items-center gap-2">
                 Community Polls
-                {isAdmin && (
+                {canManagePolls && (
                   <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-amber-100 dark:bg-amber-950 text-amber-700 dark:text-amber-300 border border-amber-300 dark:border-amber-700">
                     <Shield className="h-3 w-3" />
-                    Admin: Can Edit/Delete
+                    Can Edit/Delete
                   </span>
                 )}
               </CardTitle>
               <CardDescription>Vote on what we should plant next</CardDescription>
             </div>
-            {isAdmin && (
+            {canManagePolls && (
               <Button onClick={() => setCreatePollDialogOpen(true)} size="sm">
                 <Plus className="h-4 w-4 mr-2" />
                 Add New Poll
@@ -359,12 +385,16 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
             <div key={poll.id} className="space-y-4 border rounded-lg p-4">
               <div className="flex items-start justify-between gap-3">
                 <div className="flex-1">
-                  <h4 className="mb-2">{poll.question}</h4>
+                  <h4 className="mb-2">
+                    <a href={pollRoute.href(poll.id)} onClick={linkTo(pollRoute.href(poll.id))} className="hover:underline">
+                      {poll.question}
+                    </a>
+                  </h4>
                   <p className="text-sm text-muted-foreground">
                     {poll.totalVotes} votes • Ends {new Date(poll.endsAt).toLocaleDateString()}
                   </p>
                 </div>
-                {isAdmin && (
+                {canManagePolls && (
                   <div className="flex items-center gap-2">
                     <Shield className="h-4 w-4 text-amber-500" />
                     <Button
@@ -418,7 +448,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
               <Button 
                 onClick={() => handleVote(poll.id)} 
                 className="w-full"
-                disabled={isVoting || !selectedPollOption}
+                disabled={isVoting || !selectedPollOption || !canVote}
               >
                 <ThumbsUp className="h-4 w-4 mr-2" />
                 {isVoting ? "Submitting..." : "Submit Vote"}
@@ -429,44 +459,48 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
         </CardContent>
       </Card>
 
-      {/* Feedback Form */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Submit Feedback or Suggestion</CardTitle>
-          <CardDescription>Help us improve the community garden</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmitFeedback} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Your Name</Label>
-              <Input
-                id="name"
-                placeholder="Enter your name"
-                value={feedbackName}
-                onChange={(e) => setFeedbackName(e.target.value)}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="message">Message</Label>
-              <Textarea
-                id="message"
-                placeholder="Share your thoughts, suggestions, or feedback..."
-                rows={4}
-                value={feedbackMessage}
-                onChange={(e) => setFeedbackMessage(e.target.value)}
-              />
-            </div>
-            <Button 
-              type="submit" 
-              className="w-full"
-              disabled={isSubmittingFeedback || !feedbackName || !feedbackMessage}
-            >
-              <Send className="h-4 w-4 mr-2" />
-              {isSubmittingFeedback ? "Submitting..." : "Submit Feedback"}
-            </Button>
-          </form>
-        </CardContent>
-      </Card>
+      {/* Feedback Form - only for roles allowed to submit */}
+      {canSubmitFeedback && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Submit Feedback or Suggestion</CardTitle>
+            <CardDescription>Help us improve the community garden</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmitFeedback} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Your Name</Label>
+                <Input
+                  id="name"
+                  placeholder="Enter your name"
+                  value={feedbackName}
+                  onChange={(e) => setFeedbackName(e.target.value)}
+                />
+                <FieldError message={feedbackErrors.name} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="message">Message</Label>
+                <Textarea
+                  id="message"
+                  placeholder="Share your thoughts, suggestions, or feedback..."
+                  rows={4}
+                  value={feedbackMessage}
+                  onChange={(e) => setFeedbackMessage(e.target.value)}
+                />
+                <FieldError message={feedbackErrors.message} />
+              </div>
+              <Button 
+                type="submit" 
+                className="w-full"
+                disabled={isSubmittingFeedback || !feedbackName || !feedbackMessage}
+              >
+                <Send className="h-4 w-4 mr-2" />
+                {isSubmittingFeedback ? "Submitting..." : "Submit Feedback"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Recent Feedback */}
       <Card>
@@ -475,10 +509,10 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
             <div>
               <CardTitle className="flex items-center gap-2">
                 Community Feedback
-                {isAdmin && (
+                {canModerateFeedback && (
                   <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-amber-100 dark:bg-amber-950 text-amber-700 dark:text-amber-300 border border-amber-300 dark:border-amber-700">
                     <Shield className="h-3 w-3" />
-                    Admin: Can Edit/Delete
+                    Can Edit/Delete
                   </span>
                 )}
               </CardTitle>
@@ -500,12 +534,16 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
                     <MessageSquare className="h-5 w-5 text-muted-foreground mt-1" />
                     <div className="flex-1">
                       <div className="flex items-start justify-between mb-2">
-                        <h4>{feedback.name}</h4>
+                        <h4>
+                          <a href={feedbackRoute.href(feedback.id)} onClick={linkTo(feedbackRoute.href(feedback.id))} className="hover:underline">
+                            {feedback.name}
+                          </a>
+                        </h4>
                         <div className="flex items-center gap-2">
                           <span className="text-xs text-muted-foreground">
                             {new Date(feedback.date).toLocaleDateString()}
                           </span>
-                          {isAdmin && (
+                          {canModerateFeedback && (
                             <>
                               <Shield className="h-3 w-3 text-amber-500" />
                               <Button
@@ -568,6 +606,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
               Update the poll question. Vote counts will be preserved.
             </DialogDescription>
           </DialogHeader>
+          <EditedElsewhereNotice editing={editingPoll} records={polls} noun="poll" />
           <div className="space-y-4 py-4">
             <div className="space-y-2">
               <Label htmlFor="edit-poll-question">Poll Question</Label>
@@ -577,6 +616,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
                 onChange={(e) => setEditPollQuestion(e.target.value)}
                 placeholder="Enter poll question"
               />
+              <FieldError message={dialogErrors.question} />
             </div>
             {editingPoll && (
               <div className="space-y-2">
@@ -609,6 +649,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
               Update the feedback message. The name and date will be preserved.
             </DialogDescription>
           </DialogHeader>
+          <EditedElsewhereNotice editing={editingFeedback} records={feedbacks} noun="feedback" />
           <div className="space-y-4 py-4">
             <div className="space-y-2">
               <Label htmlFor="edit-feedback-message">Feedback Message</Label>
@@ -619,6 +660,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
                 placeholder="Enter feedback message"
                 rows={5}
               />
+              <FieldError message={dialogErrors.message} />
             </div>
           </div>
           <DialogFooter>
@@ -651,6 +693,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
                 onChange={(e) => setNewPollQuestion(e.target.value)}
                 placeholder="E.g., What should we plant this season?"
               />
+              <FieldError message={dialogErrors.question} />
             </div>
 
             {/* Poll Options */}
@@ -688,6 +731,12 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
                 <Plus className="h-4 w-4 mr-2" />
                 Add Option
               </Button>
+              <FieldError
+                message={
+                  dialogErrors.options ||
+                  Object.entries(dialogErrors).find(([field]) => field.startsWith("options."))?.[1]
+                }
+              />
             </div>
 
             {/* End Date */}
@@ -716,6 +765,7 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
                   />
                 </PopoverContent>
               </Popover>
+              <FieldError message={dialogErrors.endsAt} />
             </div>
           </div>
           <DialogFooter>
@@ -728,6 +778,51 @@ export function CommunityEngagement({ polls, feedbacks, onDataUpdate, isAdmin =
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RecordDetailsDialog
+        recordId={pollRoute.id}
+        noun="poll"
+        title={openPoll?.question}
+        details={openPoll ? [
+          ...openPoll.options.map((option) => ({ label: option.text, value: `${option.votes} votes` })),
+          { label: "Total Votes", value: String(openPoll.totalVotes) },
+          { label: "Ends", value: new Date(openPoll.endsAt).toLocaleDateString() },
+        ] : null}
+        onEdit={canManagePolls && openPoll ? () => { pollRoute.close(); handleEditPoll(openPoll); } : undefined}
+        onClose={pollRoute.close}
+      />
+      <RecordDetailsDialog
+        recordId={feedbackRoute.id}
+        noun="feedback"
+        title={openFeedback && `Feedback from ${openFeedback.name}`}
+        details={openFeedback ? [
+          { label: "Category", value: openFeedback.category },
+          { label: "Date", value: new Date(openFeedback.date).toLocaleDateString() },
+          { label: "Message", value: openFeedback.message },
+        ] : null}
+        onEdit={canModerateFeedback && openFeedback ? () => { feedbackRoute.close(); handleEditFeedback(openFeedback); } : undefined}
+        onClose={feedbackRoute.close}
+      />
+
+      {/* Merge prompts after an edit conflict */}
+      <ConflictDialog
+        conflict={pollConflict}
+        fields={POLL_FIELDS}
+        onSave={async (id, merged) => {
+          await pollsApi.update(id, merged);
+          onDataUpdate?.();
+        }}
+        onClose={() => setPollConflict(null)}
+      />
+      <ConflictDialog
+        conflict={feedbackConflict}
+        fields={FEEDBACK_FIELDS}
+        onSave={async (id, merged) => {
+          await feedbacksApi.update(id, merged);
+          onDataUpdate?.();
+        }}
+        onClose={() => setFeedbackConflict(null)}
+      />
     </div>
   );
 }
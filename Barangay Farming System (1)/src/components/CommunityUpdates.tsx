@@ -9,24 +9,35 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Calendar, Info, AlertCircle, CheckCircle, Plus, Pencil, Trash2 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner@2.0.3";
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { FieldError } from "./FieldError";
+import { ConflictDialog, EditedElsewhereNotice, type ConflictFields, type EditConflict } from "./ConflictDialog";
+import { RecordDetailsDialog, fieldDetails } from "./RecordDetails";
+import { getConflict, getFieldErrors } from "../utils/api";
+import { linkTo } from "../utils/router";
+import { useRecordRoute } from "../utils/routes";
+import type { Update, EntityInput, FieldErrors } from "../supabase/functions/_shared/types";
 
-export interface Update {
-  id: string;
-  title: string;
-  message: string;
-  date: string;
-  type: "info" | "success" | "warning" | "event";
-}
+export type { Update };
+
+// Fields shown in the merge prompt when someone else edited the same update
+const UPDATE_FIELDS: ConflictFields<Update> = {
+  title: "Title",
+  message: "Message",
+  type: "Type",
+  date: "Date",
+};
 
 interface CommunityUpdatesProps {
   updates: Update[];
-  isAdmin?: boolean;
-  onAdd?: (update: Omit<Update, "id">) => Promise<void>;
-  onUpdate?: (id: string, update: Partial<Update>) => Promise<void>;
-  onDelete?: (id: string) => Promise<void>;
+  canEdit?: boolean;
+  onAdd?: (update: EntityInput<Update>) => Promise<unknown>;
+  onUpdate?: (id: string, update: EntityInput<Update>) => Promise<unknown>;
+  onDelete?: (id: string) => Promise<unknown>;
+  onRestore?: (id: string) => Promise<unknown>;  // Undo a delete from the success toast
 }
 
-export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, onDelete }: CommunityUpdatesProps) {
+export function CommunityUpdates({ updates, canEdit = false, onAdd, onUpdate, onDelete, onRestore }: CommunityUpdatesProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingUpdate, setEditingUpdate] = useState<Update | null>(null);
   const [formData, setFormData] = useState({
@@ -36,6 +47,10 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
     date: "",
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [conflict, setConflict] = useState<EditConflict<Update> | null>(null);
+  const updateRoute = useRecordRoute("update");
+  const openUpdate = updates.find((update) => update.id === updateRoute.id);
 
   const getIcon = (type: Update["type"]) => {
     switch (type) {
@@ -81,6 +96,7 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
         date: new Date().toISOString(),
       });
     }
+    setFieldErrors({});
     setIsDialogOpen(true);
   };
 
@@ -101,17 +117,17 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
       return;
     }
 
+    const updateData = {
+      title: formData.title,
+      message: formData.message,
+      type: formData.type,
+      date: formData.date || new Date().toISOString(),
+    };
+
     setIsSubmitting(true);
     try {
-      const updateData = {
-        title: formData.title,
-        message: formData.message,
-        type: formData.type,
-        date: formData.date || new Date().toISOString(),
-      };
-
       if (editingUpdate && onUpdate) {
-        await onUpdate(editingUpdate.id, updateData);
+        await onUpdate(editingUpdate.id, { ...updateData, version: editingUpdate.version });
         toast.success("Update modified successfully!");
       } else if (onAdd) {
         await onAdd(updateData);
@@ -119,7 +135,14 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
       }
       handleCloseDialog();
     } catch (error) {
+      const current = getConflict<Update>(error);
+      if (current && editingUpdate) {
+        setConflict({ base: editingUpdate, mine: updateData, theirs: current });
+        handleCloseDialog();
+        return;
+      }
       console.error("Error saving update:", error);
+      setFieldErrors(getFieldErrors(error));
       toast.error("Failed to save update");
     } finally {
       setIsSubmitting(false);
@@ -132,7 +155,7 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
     if (window.confirm(`Are you sure you want to delete "${title}"?`)) {
       try {
         await onDelete(id);
-        toast.success("Update deleted successfully!");
+        toastDeletedWithUndo("Update deleted successfully!", onRestore && (() => onRestore(id)));
       } catch (error) {
         console.error("Error deleting update:", error);
         toast.error("Failed to delete update");
@@ -149,7 +172,7 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
               <CardTitle>Community Updates & Announcements</CardTitle>
               <CardDescription>Latest news and events from the barangay garden</CardDescription>
             </div>
-            {isAdmin && (
+            {canEdit && (
               <Button onClick={() => handleOpenDialog()}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Update
@@ -172,7 +195,11 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
                   <div className="flex-1">
                     <div className="flex items-start justify-between gap-4">
                       <div className="flex-1">
-                        <h4 className="mb-1">{update.title}</h4>
+                        <h4 className="mb-1">
+                          <a href={updateRoute.href(update.id)} onClick={linkTo(updateRoute.href(update.id))} className="hover:underline">
+                            {update.title}
+                          </a>
+                        </h4>
                         <p className="text-sm text-muted-foreground mb-2">{update.message}</p>
                         <p className="text-xs text-muted-foreground">
                           {new Date(update.date).toLocaleDateString()} • {new Date(update.date).toLocaleTimeString()}
@@ -182,7 +209,7 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
                         <Badge variant={getBadgeVariant(update.type)} className="capitalize">
                           {update.type}
                         </Badge>
-                        {isAdmin && (
+                        {canEdit && (
                           <div className="flex gap-1">
                             <Button
                               variant="ghost"
@@ -219,6 +246,7 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
               {editingUpdate ? "Modify community update" : "Post a new community update"}
             </DialogDescription>
           </DialogHeader>
+          <EditedElsewhereNotice editing={editingUpdate} records={updates} noun="update" />
 
           <div className="space-y-4">
             <div className="space-y-2">
@@ -229,6 +257,7 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
                 onChange={(e) => setFormData({ ...formData, title: e.target.value })}
                 placeholder="e.g., New Harvest Ready"
               />
+              <FieldError message={fieldErrors.title} />
             </div>
 
             <div className="space-y-2">
@@ -240,6 +269,7 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
                 placeholder="Write your message..."
                 rows={4}
               />
+              <FieldError message={fieldErrors.message} />
             </div>
 
             <div className="space-y-2">
@@ -255,6 +285,7 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
                   <SelectItem value="event">Event</SelectItem>
                 </SelectContent>
               </Select>
+              <FieldError message={fieldErrors.type} />
             </div>
           </div>
 
@@ -268,6 +299,26 @@ export function CommunityUpdates({ updates, isAdmin = false, onAdd, onUpdate, on
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Update opened by its link (/updates/:id) */}
+      <RecordDetailsDialog
+        recordId={updateRoute.id}
+        noun="update"
+        title={openUpdate?.title}
+        details={openUpdate ? fieldDetails(openUpdate, UPDATE_FIELDS) : null}
+        onEdit={canEdit && openUpdate ? () => { updateRoute.close(); handleOpenDialog(openUpdate); } : undefined}
+        onClose={updateRoute.close}
+      />
+
+      {/* Merge prompt after an edit conflict */}
+      {onUpdate && (
+        <ConflictDialog
+          conflict={conflict}
+          fields={UPDATE_FIELDS}
+          onSave={onUpdate}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </>
   );
 }
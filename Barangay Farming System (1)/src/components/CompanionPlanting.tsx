@@ -0,0 +1,340 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
+import { Search, Plus, Pencil, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner@2.0.3";
+import { FieldError } from "./FieldError";
+import { getFieldErrors } from "../utils/api";
+import { useSearchParam } from "../utils/router";
+import { RELATION_LABELS } from "../utils/companions";
+import type { CompanionPair, CompanionPlanting as CompanionPlantingData, CropVariety, FieldErrors } from "../supabase/functions/_shared/types";
+
+interface PairFormData {
+  first: string;
+  second: string;
+  relation: CompanionPair["relation"];
+  reason: string;
+}
+
+const EMPTY_FORM: PairFormData = { first: "", second: "", relation: "beneficial", reason: "" };
+
+interface CompanionPlantingProps {
+  data: CompanionPlantingData;
+  varieties: CropVariety[];   // Catalog crop names, suggested in the form
+  canEdit?: boolean;
+  onSave?: (data: CompanionPlantingData) => Promise<unknown>;
+}
+
+export function getRelationBadge(relation: CompanionPair["relation"]) {
+  return relation === "beneficial"
+    ? <Badge className="bg-green-600 hover:bg-green-700">{RELATION_LABELS.beneficial}</Badge>
+    : <Badge className="bg-red-600 hover:bg-red-700">{RELATION_LABELS.antagonistic}</Badge>;
+}
+
+/**
+ * The companion planting pairs the garden map and crop form check, which
+ * admins (catalog.manage) keep up to date. Every change saves the whole list.
+ */
+export function CompanionPlanting({ data, varieties, canEdit = false, onSave }: CompanionPlantingProps) {
+  const [searchTerm, setSearchTerm] = useSearchParam("q");
+  const [relationFilter, setRelationFilter] = useSearchParam("relation", "all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);  // Pair being edited (null = adding)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [deletingIndex, setDeletingIndex] = useState<number | null>(null);
+  const [formData, setFormData] = useState<PairFormData>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  // Crop names offered in the form: the catalog's and those already paired
+  const cropNames = [...new Set([...varieties.map((variety) => variety.name), ...data.pairs.flatMap((pair) => pair.crops)])]
+    .sort((a, b) => a.localeCompare(b));
+
+  const search = searchTerm.trim().toLowerCase();
+  const shownPairs = data.pairs
+    .map((pair, index) => ({ pair, index }))
+    .filter(({ pair }) => relationFilter === "all" || pair.relation === relationFilter)
+    .filter(({ pair }) => !search || pair.crops.some((name) => name.toLowerCase().includes(search)) || pair.reason.toLowerCase().includes(search));
+
+  const handleOpenDialog = (index: number | null = null) => {
+    const pair = index === null ? null : data.pairs[index];
+    setEditingIndex(pair ? index : null);
+    setFormData(pair ? { first: pair.crops[0], second: pair.crops[1], relation: pair.relation, reason: pair.reason } : EMPTY_FORM);
+    setFieldErrors({});
+    setIsDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setIsDialogOpen(false);
+    setEditingIndex(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  // The server reports errors by position, e.g. "pairs.3.reason"
+  const errorsAt = (error: unknown, index: number): FieldErrors => {
+    const prefix = `pairs.${index}.`;
+    const errors: FieldErrors = {};
+    for (const [field, message] of Object.entries(getFieldErrors(error))) {
+      if (field.startsWith(prefix)) errors[field.slice(prefix.length)] = message;
+    }
+    return errors;
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.first.trim() || !formData.second.trim() || !formData.reason.trim()) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+    if (!onSave) return;
+
+    const pair: CompanionPair = {
+      crops: [formData.first.trim(), formData.second.trim()],
+      relation: formData.relation,
+      reason: formData.reason.trim(),
+    };
+    const index = editingIndex ?? data.pairs.length;
+    const pairs = editingIndex === null
+      ? [...data.pairs, pair]
+      : data.pairs.map((existing, i) => (i === editingIndex ? pair : existing));
+
+    setIsSubmitting(true);
+    try {
+      await onSave({ pairs });
+      toast.success(editingIndex === null ? "Pair added successfully!" : "Pair updated successfully!");
+      handleCloseDialog();
+    } catch (error) {
+      console.error("Error saving companion planting:", error);
+      setFieldErrors(errorsAt(error, index));
+      toast.error(error instanceof Error ? error.message : "Failed to save the pair");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteClick = (index: number) => {
+    setDeletingIndex(index);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (deletingIndex === null || !onSave) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSave({ pairs: data.pairs.filter((_, i) => i !== deletingIndex) });
+      toast.success("Pair deleted successfully!");
+      setDeleteDialogOpen(false);
+      setDeletingIndex(null);
+    } catch (error) {
+      console.error("Error deleting companion pair:", error);
+      toast.error("Failed to delete the pair");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const deletingPair = deletingIndex === null ? null : data.pairs[deletingIndex];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Companion Planting</CardTitle>
+            <CardDescription>
+              Crops that help or hinder each other. The garden map and the crop form check crops sharing a plot and crops on neighboring plots.
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button onClick={() => handleOpenDialog()} className="bg-green-600 hover:bg-green-700">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Pair
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Search and Filters */}
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search crops or reasons..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={relationFilter} onValueChange={setRelationFilter}>
+            <SelectTrigger className="w-full md:w-[180px]">
+              <SelectValue placeholder="Filter by relation" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Pairs</SelectItem>
+              {Object.entries(RELATION_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Table */}
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Crop</TableHead>
+                <TableHead>Companion</TableHead>
+                <TableHead>Relation</TableHead>
+                <TableHead>Why</TableHead>
+                {canEdit && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shownPairs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 5 : 4} className="text-center text-muted-foreground">
+                    No pairs found matching your filters
+                  </TableCell>
+                </TableRow>
+              ) : (
+                shownPairs.map(({ pair, index }) => (
+                  <TableRow key={`${pair.crops[0]}|${pair.crops[1]}`}>
+                    <TableCell>{pair.crops[0]}</TableCell>
+                    <TableCell>{pair.crops[1]}</TableCell>
+                    <TableCell>{getRelationBadge(pair.relation)}</TableCell>
+                    <TableCell className="max-w-md whitespace-normal">{pair.reason}</TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleOpenDialog(index)}>
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteClick(index)}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingIndex === null ? "Add Pair" : "Edit Pair"}</DialogTitle>
+            <DialogDescription>
+              Name the crops as members enter them when planting; case doesn't matter
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="pair-first">Crop *</Label>
+              <Input
+                id="pair-first"
+                list="pair-crop-names"
+                value={formData.first}
+                onChange={(e) => setFormData({ ...formData, first: e.target.value })}
+                placeholder="e.g., Marigold"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pair-second">Companion *</Label>
+              <Input
+                id="pair-second"
+                list="pair-crop-names"
+                value={formData.second}
+                onChange={(e) => setFormData({ ...formData, second: e.target.value })}
+                placeholder="e.g., Tomato"
+              />
+            </div>
+            <datalist id="pair-crop-names">
+              {cropNames.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+            <div className="md:col-span-2">
+              <FieldError message={fieldErrors.crops} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="pair-relation">Relation *</Label>
+              <Select value={formData.relation} onValueChange={(value: CompanionPair["relation"]) => setFormData({ ...formData, relation: value })}>
+                <SelectTrigger id="pair-relation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RELATION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldErrors.relation} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="pair-reason">Why *</Label>
+              <Textarea
+                id="pair-reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="e.g., Marigold roots keep root-knot nematodes down"
+                rows={3}
+              />
+              <FieldError message={fieldErrors.reason} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCloseDialog} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting} className="bg-green-600 hover:bg-green-700">
+              {isSubmitting ? "Saving..." : editingIndex === null ? "Add Pair" : "Update Pair"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete the pair {deletingPair?.crops[0]} and {deletingPair?.crops[1]}.
+              The garden map and crop form will stop checking it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isSubmitting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Alert, AlertDescription } from "./ui/alert";
+import { AlertTriangle, GitMerge } from "lucide-react";
+import { toast } from "sonner@2.0.3";
+import { formatValue } from "./AuditChanges";
+import { getConflict } from "../utils/api";
+import type { EntityInput, Versioned } from "../supabase/functions/_shared/types";
+
+type VersionedRecord = { id: string } & Versioned;
+type Choice = "mine" | "theirs";
+
+/**
+ * An edit the server refused because someone else saved the record first
+ */
+export interface EditConflict<T extends VersionedRecord> {
+  base: T;               // The record as it was when the edit dialog opened
+  mine: Omit<T, "id">;   // What this user tried to save
+  theirs: T;             // The server's current copy
+}
+
+// Editable field -> label shown in the merge prompt
+export type ConflictFields<T> = Partial<Record<Exclude<keyof T, "id" | keyof Versioned> & string, string>>;
+
+interface ConflictDialogProps<T extends VersionedRecord> {
+  conflict: EditConflict<T> | null;
+  fields: ConflictFields<T>;
+  onSave: (id: string, merged: EntityInput<T>) => Promise<unknown>;
+  onClose: () => void;
+}
+
+// Long values (e.g. photo data: URLs) are shortened in the prompt
+const MAX_PREVIEW_LENGTH = 200;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function preview(value: unknown): string {
+  const text = formatValue(value);
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text;
+}
+
+/**
+ * Compare-and-merge prompt shown when an update hits a version conflict
+ * Each field that differs can keep this user's value or the saved one.
+ * Fields the user didn't touch default to the saved value, so the other
+ * person's changes survive unless deliberately overwritten.
+ */
+export function ConflictDialog<T extends VersionedRecord>({ conflict, fields, onSave, onClose }: ConflictDialogProps<T>) {
+  const [active, setActive] = useState<EditConflict<T> | null>(conflict);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fieldNames = Object.keys(fields) as Array<keyof Omit<T, "id"> & string>;
+  const differing = active
+    ? fieldNames.filter((field) => !sameValue(active.mine[field], active.theirs[field]))
+    : [];
+
+  useEffect(() => {
+    setActive(conflict);
+  }, [conflict]);
+
+  useEffect(() => {
+    if (!active) return;
+    const defaults: Record<string, Choice> = {};
+    for (const field of differing) {
+      defaults[field] = sameValue(active.mine[field], active.base[field]) ? "theirs" : "mine";
+    }
+    setChoices(defaults);
+  }, [active]);
+
+  const handleSave = async () => {
+    if (!active) return;
+
+    // Start from the saved copy and take this user's value where chosen
+    const { id, ...saved } = active.theirs;
+    const merged = { ...saved } as Record<string, unknown>;
+    for (const field of differing) {
+      if (choices[field] === "mine") {
+        merged[field] = active.mine[field];
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(id, merged as Omit<T, "id">);
+      toast.success("Changes merged and saved");
+      onClose();
+    } catch (error) {
+      const newer = getConflict<T>(error);
+      if (newer) {
+        // Saved again while merging: compare against the newest copy
+        setActive({ base: active.theirs, mine: merged as Omit<T, "id">, theirs: newer });
+        toast.error("The record changed again. Please review the latest version.");
+      } else {
+        console.error("Error saving merged changes:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to save changes");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const savedAt = active?.theirs.updatedAt ? new Date(active.theirs.updatedAt).toLocaleString() : null;
+
+  return (
+    <Dialog open={active !== null} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Someone Else Changed This Record</DialogTitle>
+          <DialogDescription>
+            It was saved {savedAt ? `at ${savedAt} ` : ""}while you were editing it.{" "}
+            {differing.length > 0
+              ? "Choose which value to keep for each field that differs."
+              : "Their changes don't touch the fields you edited, so yours can be saved on top."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {differing.length > 0 && (
+          <div className="space-y-4 py-2">
+            {differing.map((field) => (
+              <div key={field} className="space-y-2">
+                <p className="text-sm">{fields[field as keyof ConflictFields<T>]}</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {(["mine", "theirs"] as const).map((choice) => {
+                    const value = choice === "mine" ? active?.mine[field] : active?.theirs[field];
+                    const isChosen = choices[field] === choice;
+                    return (
+                      <button
+                        key={choice}
+                        type="button"
+                        aria-pressed={isChosen}
+                        onClick={() => setChoices({ ...choices, [field]: choice })}
+                        className={`rounded-md border p-3 text-left text-sm transition-colors ${
+                          isChosen ? "border-green-600 bg-green-50 dark:bg-green-950" : "hover:bg-muted"
+                        }`}
+                      >
+                        <span className="block text-xs text-muted-foreground mb-1">
+                          {choice === "mine" ? "Your version" : "Saved version"}
+                        </span>
+                        <span className="block break-all">{preview(value)}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Discard My Changes
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} className="bg-green-600 hover:bg-green-700">
+            <GitMerge className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Save Merged"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface EditedElsewhereNoticeProps<T extends VersionedRecord> {
+  editing: T | null;  // The record as it was when the edit dialog opened
+  records: T[];       // The live collection, kept current by the realtime stream
+  noun: string;       // e.g. "crop"
+}
+
+/**
+ * Warning shown in an open edit dialog once someone else saves or deletes
+ * the record being edited
+ */
+export function EditedElsewhereNotice<T extends VersionedRecord>({ editing, records, noun }: EditedElsewhereNoticeProps<T>) {
+  if (!editing) return null;
+
+  const live = records.find((record) => record.id === editing.id);
+  if (live && (live.version ?? 0) <= (editing.version ?? 0)) return null;
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50 text-amber-900 dark:bg-amber-950 dark:text-amber-100">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription className="text-inherit">
+        {live
+          ? `Someone else edited this ${noun} after you opened it. When you save, you can compare their changes with yours.`
+          : `Someone else deleted this ${noun} after you opened it. Your changes can't be saved.`}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,545 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
+import { Search, Plus, Pencil, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner@2.0.3";
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { FieldError } from "./FieldError";
+import { ConflictDialog, EditedElsewhereNotice, type ConflictFields, type EditConflict } from "./ConflictDialog";
+import { SortableTableHead, TablePagination, useSortParam } from "./ListControls";
+import { RecordDetailsDialog, fieldDetails } from "./RecordDetails";
+import { getConflict, getFieldErrors, varietiesApi } from "../utils/api";
+import { usePagedList } from "../utils/usePagedList";
+import { linkTo, useSearchParam } from "../utils/router";
+import { useRecordRoute } from "../utils/routes";
+import { varietyLabel } from "../utils/cropCatalog";
+import { FAMILY_LABELS } from "../utils/rotation";
+import type { CropVariety, EntityInput, FieldErrors, PlantFamily, VarietyListQuery } from "../supabase/functions/_shared/types";
+
+export type { CropVariety };
+
+// Fields shown in the merge prompt when someone else edited the same entry
+const VARIETY_FIELDS: ConflictFields<CropVariety> = {
+  name: "Crop Name",
+  variety: "Variety",
+  family: "Plant Family",
+  daysToMaturity: "Days to Maturity",
+  spacingCm: "Spacing (cm)",
+  waterNeeds: "Water Needs",
+  season: "Preferred Season",
+  yieldKgPerSqm: "Expected Yield (kg/m²)",
+  notes: "Notes",
+};
+
+// Columns the catalog can be sorted by (see LIST_OPTIONS on the server)
+const VARIETY_SORT_FIELDS: Array<keyof CropVariety & string> = ["name", "variety", "family", "daysToMaturity", "spacingCm", "waterNeeds", "season", "yieldKgPerSqm"];
+
+export const WATER_NEEDS_LABELS: Record<CropVariety["waterNeeds"], string> = {
+  "low": "Low",
+  "medium": "Medium",
+  "high": "High",
+};
+
+export const SEASON_LABELS: Record<CropVariety["season"], string> = {
+  "wet": "Wet season",
+  "dry": "Dry season",
+  "all-year": "All year",
+};
+
+interface VarietyFormData {
+  name: string;
+  variety: string;
+  family: PlantFamily;
+  daysToMaturity: string;  // Numbers are typed as text, parsed on save
+  spacingCm: string;
+  waterNeeds: CropVariety["waterNeeds"];
+  season: CropVariety["season"];
+  yieldKgPerSqm: string;
+  notes: string;
+}
+
+const EMPTY_FORM: VarietyFormData = {
+  name: "",
+  variety: "",
+  family: "other",
+  daysToMaturity: "",
+  spacingCm: "",
+  waterNeeds: "medium",
+  season: "all-year",
+  yieldKgPerSqm: "",
+  notes: "",
+};
+
+interface CropCatalogProps {
+  varieties: CropVariety[];  // The app's copy of the records - the table reloads its page when this changes
+  canEdit?: boolean;
+  onAdd?: (variety: EntityInput<CropVariety>) => Promise<unknown>;
+  onUpdate?: (id: string, variety: EntityInput<CropVariety>) => Promise<unknown>;
+  onDelete?: (id: string) => Promise<unknown>;
+  onRestore?: (id: string) => Promise<unknown>;  // Undo a delete from the success toast
+}
+
+export function getWaterNeedsBadge(waterNeeds: CropVariety["waterNeeds"]) {
+  switch (waterNeeds) {
+    case "low":
+      return <Badge variant="secondary">Low</Badge>;
+    case "medium":
+      return <Badge className="bg-blue-400 hover:bg-blue-500">Medium</Badge>;
+    case "high":
+      return <Badge className="bg-blue-600 hover:bg-blue-700">High</Badge>;
+  }
+}
+
+export function CropCatalog({ varieties, canEdit = false, onAdd, onUpdate, onDelete, onRestore }: CropCatalogProps) {
+  const [searchTerm, setSearchTerm] = useSearchParam("q");
+  const [familyFilter, setFamilyFilter] = useSearchParam("family", "all");
+  const [waterFilter, setWaterFilter] = useSearchParam("waterNeeds", "all");
+  const [seasonFilter, setSeasonFilter] = useSearchParam("season", "all");
+  const [sort, setSort] = useSortParam<CropVariety>({ field: "name", order: "asc" }, VARIETY_SORT_FIELDS);
+  const varietyRoute = useRecordRoute("variety");
+  const openVariety = varieties.find((variety) => variety.id === varietyRoute.id);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingVariety, setEditingVariety] = useState<CropVariety | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedVariety, setSelectedVariety] = useState<CropVariety | null>(null);
+  const [formData, setFormData] = useState<VarietyFormData>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [conflict, setConflict] = useState<EditConflict<CropVariety> | null>(null);
+
+  const handleOpenDialog = (variety?: CropVariety) => {
+    if (variety) {
+      setEditingVariety(variety);
+      setFormData({
+        name: variety.name,
+        variety: variety.variety,
+        family: variety.family,
+        daysToMaturity: variety.daysToMaturity.toString(),
+        spacingCm: variety.spacingCm.toString(),
+        waterNeeds: variety.waterNeeds,
+        season: variety.season,
+        yieldKgPerSqm: variety.yieldKgPerSqm.toString(),
+        notes: variety.notes,
+      });
+    } else {
+      setEditingVariety(null);
+      setFormData(EMPTY_FORM);
+    }
+    setFieldErrors({});
+    setIsDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setIsDialogOpen(false);
+    setEditingVariety(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name || !formData.variety || !formData.daysToMaturity || !formData.spacingCm || !formData.yieldKgPerSqm) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    const daysToMaturity = parseInt(formData.daysToMaturity, 10);
+    const spacingCm = parseFloat(formData.spacingCm);
+    const yieldKgPerSqm = parseFloat(formData.yieldKgPerSqm);
+    if (isNaN(daysToMaturity) || daysToMaturity < 1 || isNaN(spacingCm) || spacingCm < 0 || isNaN(yieldKgPerSqm) || yieldKgPerSqm < 0) {
+      toast.error("Please enter valid numbers");
+      return;
+    }
+
+    const varietyData = { ...formData, daysToMaturity, spacingCm, yieldKgPerSqm };
+
+    setIsSubmitting(true);
+    try {
+      if (editingVariety && onUpdate) {
+        await onUpdate(editingVariety.id, { ...varietyData, version: editingVariety.version });
+        toast.success("Catalog entry updated successfully!");
+      } else if (onAdd) {
+        await onAdd(varietyData);
+        toast.success("Catalog entry added successfully!");
+      }
+      handleCloseDialog();
+    } catch (error) {
+      const current = getConflict<CropVariety>(error);
+      if (current && editingVariety) {
+        setConflict({ base: editingVariety, mine: varietyData, theirs: current });
+        handleCloseDialog();
+        return;
+      }
+      console.error("Error saving catalog entry:", error);
+      setFieldErrors(getFieldErrors(error));
+      toast.error(error instanceof Error ? error.message : "Failed to save catalog entry");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteClick = (variety: CropVariety) => {
+    setSelectedVariety(variety);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedVariety || !onDelete) return;
+
+    setIsSubmitting(true);
+    try {
+      const id = selectedVariety.id;
+      await onDelete(id);
+      toastDeletedWithUndo("Catalog entry deleted successfully!", onRestore && (() => onRestore(id)));
+      setDeleteDialogOpen(false);
+      setSelectedVariety(null);
+    } catch (error) {
+      console.error("Error deleting catalog entry:", error);
+      toast.error("Failed to delete catalog entry");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Filtered, sorted and paged by the server
+  const listQuery: VarietyListQuery = {
+    q: searchTerm.trim() || undefined,
+    family: familyFilter === "all" ? undefined : familyFilter as PlantFamily,
+    waterNeeds: waterFilter === "all" ? undefined : waterFilter as CropVariety["waterNeeds"],
+    season: seasonFilter === "all" ? undefined : seasonFilter as CropVariety["season"],
+    sort: sort.field,
+    order: sort.order,
+  };
+  const varietyPage = usePagedList(varietiesApi.getPage, listQuery, varieties);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Crop Catalog</CardTitle>
+            <CardDescription>How long each variety takes, how far apart to plant it and what it yields</CardDescription>
+          </div>
+          {canEdit && (
+            <Button onClick={() => handleOpenDialog()} className="bg-green-600 hover:bg-green-700">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Variety
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Search and Filters */}
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search crop, variety or notes..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={familyFilter} onValueChange={setFamilyFilter}>
+            <SelectTrigger className="w-full md:w-[180px]">
+              <SelectValue placeholder="Filter by family" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Families</SelectItem>
+              {Object.entries(FAMILY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={waterFilter} onValueChange={setWaterFilter}>
+            <SelectTrigger className="w-full md:w-[180px]">
+              <SelectValue placeholder="Filter by water needs" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Water Needs</SelectItem>
+              {Object.entries(WATER_NEEDS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={seasonFilter} onValueChange={setSeasonFilter}>
+            <SelectTrigger className="w-full md:w-[180px]">
+              <SelectValue placeholder="Filter by season" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Seasons</SelectItem>
+              {Object.entries(SEASON_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Table */}
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <SortableTableHead field="name" sort={sort} onSort={setSort}>Crop</SortableTableHead>
+                <SortableTableHead field="variety" sort={sort} onSort={setSort}>Variety</SortableTableHead>
+                <SortableTableHead field="family" sort={sort} onSort={setSort}>Family</SortableTableHead>
+                <SortableTableHead field="daysToMaturity" sort={sort} onSort={setSort}>Days to Maturity</SortableTableHead>
+                <SortableTableHead field="spacingCm" sort={sort} onSort={setSort}>Spacing</SortableTableHead>
+                <SortableTableHead field="waterNeeds" sort={sort} onSort={setSort}>Water</SortableTableHead>
+                <SortableTableHead field="season" sort={sort} onSort={setSort}>Season</SortableTableHead>
+                <SortableTableHead field="yieldKgPerSqm" sort={sort} onSort={setSort}>Yield</SortableTableHead>
+                {canEdit && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!varietyPage.hasLoaded ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 9 : 8} className="text-center text-muted-foreground">
+                    Loading catalog...
+                  </TableCell>
+                </TableRow>
+              ) : varietyPage.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 9 : 8} className="text-center text-muted-foreground">
+                    No varieties found matching your filters
+                  </TableCell>
+                </TableRow>
+              ) : (
+                varietyPage.items.map((variety) => (
+                  <TableRow key={variety.id}>
+                    <TableCell>
+                      <a href={varietyRoute.href(variety.id)} onClick={linkTo(varietyRoute.href(variety.id))} className="hover:underline">
+                        {variety.name}
+                      </a>
+                    </TableCell>
+                    <TableCell>{variety.variety}</TableCell>
+                    <TableCell>{FAMILY_LABELS[variety.family]}</TableCell>
+                    <TableCell>{variety.daysToMaturity} days</TableCell>
+                    <TableCell>{variety.spacingCm} cm</TableCell>
+                    <TableCell>{getWaterNeedsBadge(variety.waterNeeds)}</TableCell>
+                    <TableCell>{SEASON_LABELS[variety.season]}</TableCell>
+                    <TableCell>{variety.yieldKgPerSqm} kg/m²</TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleOpenDialog(variety)}>
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteClick(variety)}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <TablePagination
+          page={varietyPage.page}
+          pageSize={varietyPage.pageSize}
+          total={varietyPage.total}
+          noun="varieties"
+          onPageChange={varietyPage.setPage}
+          disabled={varietyPage.isLoading}
+        />
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingVariety ? "Edit Variety" : "Add Variety"}</DialogTitle>
+            <DialogDescription>
+              {editingVariety
+                ? `Update ${varietyLabel(editingVariety)}. Crops already planted from it keep their dates.`
+                : "Add a variety members can choose when planting a crop"}
+            </DialogDescription>
+          </DialogHeader>
+          <EditedElsewhereNotice editing={editingVariety} records={varieties} noun="catalog entry" />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="variety-name">Crop Name *</Label>
+              <Input
+                id="variety-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Eggplant"
+              />
+              <FieldError message={fieldErrors.name} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variety-variety">Variety *</Label>
+              <Input
+                id="variety-variety"
+                value={formData.variety}
+                onChange={(e) => setFormData({ ...formData, variety: e.target.value })}
+                placeholder="e.g., Long Purple"
+              />
+              <FieldError message={fieldErrors.variety} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variety-family">Plant Family *</Label>
+              <Select value={formData.family} onValueChange={(value: PlantFamily) => setFormData({ ...formData, family: value })}>
+                <SelectTrigger id="variety-family">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FAMILY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldErrors.family} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variety-days">Days to Maturity *</Label>
+              <Input
+                id="variety-days"
+                type="number"
+                min="1"
+                step="1"
+                value={formData.daysToMaturity}
+                onChange={(e) => setFormData({ ...formData, daysToMaturity: e.target.value })}
+                placeholder="e.g., 75"
+              />
+              <FieldError message={fieldErrors.daysToMaturity} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variety-spacing">Spacing (cm) *</Label>
+              <Input
+                id="variety-spacing"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.spacingCm}
+                onChange={(e) => setFormData({ ...formData, spacingCm: e.target.value })}
+                placeholder="e.g., 60"
+              />
+              <FieldError message={fieldErrors.spacingCm} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variety-water">Water Needs *</Label>
+              <Select value={formData.waterNeeds} onValueChange={(value: CropVariety["waterNeeds"]) => setFormData({ ...formData, waterNeeds: value })}>
+                <SelectTrigger id="variety-water">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(WATER_NEEDS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldErrors.waterNeeds} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variety-season">Preferred Season *</Label>
+              <Select value={formData.season} onValueChange={(value: CropVariety["season"]) => setFormData({ ...formData, season: value })}>
+                <SelectTrigger id="variety-season">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SEASON_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldErrors.season} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="variety-yield">Expected Yield (kg/m²) *</Label>
+              <Input
+                id="variety-yield"
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.yieldKgPerSqm}
+                onChange={(e) => setFormData({ ...formData, yieldKgPerSqm: e.target.value })}
+                placeholder="e.g., 2.5"
+              />
+              <FieldError message={fieldErrors.yieldKgPerSqm} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="variety-notes">Notes</Label>
+              <Textarea
+                id="variety-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="e.g., Needs a trellis"
+                rows={3}
+              />
+              <FieldError message={fieldErrors.notes} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCloseDialog} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting} className="bg-green-600 hover:bg-green-700">
+              {isSubmitting ? "Saving..." : editingVariety ? "Update Variety" : "Add Variety"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Details of an entry opened by its link */}
+      <RecordDetailsDialog
+        recordId={varietyRoute.id}
+        noun="catalog entry"
+        title={openVariety && varietyLabel(openVariety)}
+        details={openVariety ? fieldDetails(openVariety, VARIETY_FIELDS) : null}
+        onEdit={canEdit && openVariety ? () => { varietyRoute.close(); handleOpenDialog(openVariety); } : undefined}
+        onClose={varietyRoute.close}
+      />
+
+      {/* Merge prompt after an edit conflict */}
+      {onUpdate && (
+        <ConflictDialog
+          conflict={conflict}
+          fields={VARIETY_FIELDS}
+          onSave={onUpdate}
+          onClose={() => setConflict(null)}
+        />
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete {selectedVariety && varietyLabel(selectedVariety)} from the catalog.
+              Crops already planted from it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isSubmitting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
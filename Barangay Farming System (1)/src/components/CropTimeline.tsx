@@ -0,0 +1,321 @@
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { ImageWithFallback } from "./figma/ImageWithFallback";
+import { ArrowRightLeft, Droplets, FlaskConical, HeartPulse, Plus, Scissors, Shovel, SprayCan, Sprout, Trash2, Upload, X } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { useRef, useState } from "react";
+import { toast } from "sonner@2.0.3";
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { FieldError } from "./FieldError";
+import { getFieldErrors } from "../utils/api";
+import type { Crop, CropActivity, CropActivityType, EntityInput, FieldErrors, GrowthStage, Volunteer } from "../supabase/functions/_shared/types";
+
+export const ACTIVITY_TYPES: Record<CropActivityType, { label: string; icon: LucideIcon }> = {
+  "watering": { label: "Watering", icon: Droplets },
+  "fertilizing": { label: "Fertilizing", icon: FlaskConical },
+  "weeding": { label: "Weeding", icon: Shovel },
+  "pest-treatment": { label: "Pest Treatment", icon: SprayCan },
+  "transplanting": { label: "Transplanting", icon: ArrowRightLeft },
+  "thinning": { label: "Thinning", icon: Scissors },
+  "growth-stage": { label: "Growth Stage", icon: Sprout },
+  "health": { label: "Health Change", icon: HeartPulse },
+};
+
+export const GROWTH_STAGE_LABELS: Record<GrowthStage, string> = {
+  "seedling": "Seedling",
+  "vegetative": "Vegetative",
+  "flowering": "Flowering",
+  "fruiting": "Fruiting",
+};
+
+// Health entries are logged by the server when the crop's health is edited
+const LOGGED_TYPES = (Object.keys(ACTIVITY_TYPES) as CropActivityType[]).filter((type) => type !== "health");
+
+interface ActivityFormData {
+  date: string;
+  type: CropActivityType;
+  stage: GrowthStage;
+  volunteer: string;
+  photoUrl: string;
+  notes: string;
+}
+
+const emptyForm = (): ActivityFormData => ({
+  date: new Date().toISOString().split("T")[0],
+  type: "watering",
+  stage: "seedling",
+  volunteer: "",
+  photoUrl: "",
+  notes: "",
+});
+
+interface CropTimelineProps {
+  crop: Crop;
+  activities: CropActivity[];  // Every crop's entries; this crop's are picked out
+  volunteers: Volunteer[];     // Names suggested for who did the work
+  canEdit?: boolean;
+  onAdd?: (activity: EntityInput<CropActivity>) => Promise<unknown>;
+  onDelete?: (id: string) => Promise<unknown>;
+  onRestore?: (id: string) => Promise<unknown>;  // Undo a delete from the success toast
+}
+
+/**
+ * A crop's dated activity entries, newest first, with a form to log one
+ */
+export function CropTimeline({ crop, activities, volunteers, canEdit = false, onAdd, onDelete, onRestore }: CropTimelineProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formData, setFormData] = useState<ActivityFormData>(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const entries = activities
+    .filter((activity) => activity.cropId === crop.id)
+    .sort((a, b) => b.date.localeCompare(a.date) || (b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""));
+  const stage = entries.find((activity) => activity.type === "growth-stage" && activity.stage)?.stage;
+
+  const handleOpenForm = () => {
+    setFormData(emptyForm());
+    setFieldErrors({});
+    setIsFormOpen(true);
+  };
+
+  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please select an image file");
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error("Image size should be less than 5MB");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onloadend = () => setFormData((current) => ({ ...current, photoUrl: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
+  const handleRemovePhoto = () => {
+    setFormData({ ...formData, photoUrl: "" });
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.date || !formData.volunteer) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (onAdd) {
+        await onAdd({
+          cropId: crop.id,
+          date: formData.date,
+          type: formData.type,
+          stage: formData.type === "growth-stage" ? formData.stage : undefined,
+          volunteer: formData.volunteer,
+          photoUrl: formData.photoUrl || undefined,
+          notes: formData.notes,
+        });
+        toast.success("Activity logged successfully!");
+        setIsFormOpen(false);
+      }
+    } catch (error) {
+      console.error("Error logging activity:", error);
+      setFieldErrors(getFieldErrors(error));
+      toast.error(error instanceof Error ? error.message : "Failed to log activity");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (activity: CropActivity) => {
+    if (!onDelete) return;
+
+    try {
+      await onDelete(activity.id);
+      toastDeletedWithUndo("Activity deleted successfully!", onRestore && (() => onRestore(activity.id)));
+    } catch (error) {
+      console.error("Error deleting activity:", error);
+      toast.error("Failed to delete activity");
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="font-medium">Activity</h3>
+          <p className="text-sm text-muted-foreground">
+            {stage ? `Growth stage: ${GROWTH_STAGE_LABELS[stage]}` : "No growth stage logged yet"}
+          </p>
+        </div>
+        {canEdit && !isFormOpen && (
+          <Button variant="outline" size="sm" onClick={handleOpenForm}>
+            <Plus className="h-4 w-4 mr-2" />
+            Log Activity
+          </Button>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="activity-type">Activity *</Label>
+              <Select value={formData.type} onValueChange={(value: CropActivityType) => setFormData({ ...formData, type: value })}>
+                <SelectTrigger id="activity-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOGGED_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{ACTIVITY_TYPES[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldErrors.type} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="activity-date">Date *</Label>
+              <Input
+                id="activity-date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              />
+              <FieldError message={fieldErrors.date} />
+            </div>
+            {formData.type === "growth-stage" && (
+              <div className="space-y-2">
+                <Label htmlFor="activity-stage">Stage Reached *</Label>
+                <Select value={formData.stage} onValueChange={(value: GrowthStage) => setFormData({ ...formData, stage: value })}>
+                  <SelectTrigger id="activity-stage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(GROWTH_STAGE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={fieldErrors.stage} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="activity-volunteer">Volunteer *</Label>
+              <Input
+                id="activity-volunteer"
+                list="activity-volunteers"
+                value={formData.volunteer}
+                onChange={(e) => setFormData({ ...formData, volunteer: e.target.value })}
+                placeholder="Who did the work"
+              />
+              <datalist id="activity-volunteers">
+                {volunteers.map((volunteer) => (
+                  <option key={volunteer.id} value={volunteer.name} />
+                ))}
+              </datalist>
+              <FieldError message={fieldErrors.volunteer} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="activity-notes">Notes</Label>
+              <Textarea
+                id="activity-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="e.g., Sprayed neem oil on the lower leaves"
+                rows={2}
+              />
+              <FieldError message={fieldErrors.notes} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Photo</Label>
+              {formData.photoUrl ? (
+                <div className="relative w-fit">
+                  <ImageWithFallback src={formData.photoUrl} alt="Preview" className="max-h-32 rounded-md border" />
+                  <Button variant="destructive" size="sm" className="absolute top-1 right-1" onClick={handleRemovePhoto}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    onChange={handlePhotoUpload}
+                    className="hidden"
+                  />
+                  <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Add Photo
+                  </Button>
+                </>
+              )}
+              <FieldError message={fieldErrors.photoUrl} />
+            </div>
+          </div>
+          <FieldError message={fieldErrors.cropId} />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsFormOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSubmit} disabled={isSubmitting} className="bg-green-600 hover:bg-green-700">
+              {isSubmitting ? "Saving..." : "Log Activity"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing logged for this crop yet</p>
+      ) : (
+        <ol className="space-y-3">
+          {entries.map((activity) => {
+            const { label, icon: Icon } = ACTIVITY_TYPES[activity.type];
+            return (
+              <li key={activity.id} className="flex gap-3">
+                <div className="mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-green-100 text-green-700">
+                  <Icon className="h-4 w-4" />
+                </div>
+                <div className="flex-1 space-y-1 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{label}</span>
+                    {activity.stage && <Badge variant="secondary">{GROWTH_STAGE_LABELS[activity.stage]}</Badge>}
+                    <span className="text-muted-foreground">
+                      {new Date(activity.date).toLocaleDateString()} · {activity.volunteer}
+                    </span>
+                  </div>
+                  {activity.notes && <p>{activity.notes}</p>}
+                  {activity.photoUrl && (
+                    <ImageWithFallback src={activity.photoUrl} alt={label} className="max-h-40 rounded-md border" />
+                  )}
+                </div>
+                {canEdit && activity.type !== "health" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(activity)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -5,40 +5,146 @@ import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Button } from "./ui/button";
+import { Alert, AlertDescription } from "./ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
-import { Search, Download, Printer, AlertCircle, Droplets, Bug, Plus, Pencil, Trash2 } from "lucide-react";
+import { Search, Download, Printer, AlertCircle, AlertTriangle, Droplets, Bug, Plus, Pencil, Sprout, Trash2, Upload } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner@2.0.3";
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { FieldError } from "./FieldError";
+import { ImportWizard } from "./ImportWizard";
+import { ConflictDialog, EditedElsewhereNotice, type ConflictFields, type EditConflict } from "./ConflictDialog";
+import { SortableTableHead, TablePagination, useSortParam } from "./ListControls";
+import { RecordDetailsDialog, fieldDetails } from "./RecordDetails";
+import { cropsApi, getConflict, getFieldErrors } from "../utils/api";
+import { usePagedList } from "../utils/usePagedList";
+import { linkTo, useSearchParam } from "../utils/router";
+import { recordPath, useRecordRoute } from "../utils/routes";
+import { estimateHarvestDate, findCatalogEntry, plantsForArea, varietyLabel } from "../utils/cropCatalog";
+import { rotationWarnings, type RotationWarning } from "../utils/rotation";
+import { RELATION_LABELS, plantingNotes, type CompanionNote } from "../utils/companions";
+import { SEASON_LABELS, WATER_NEEDS_LABELS } from "./CropCatalog";
+import { CropTimeline } from "./CropTimeline";
+import type { CompanionPlanting, Crop, CropActivity, CropListQuery, CropVariety, EntityInput, FieldErrors, GardenMap, Plot, Volunteer } from "../supabase/functions/_shared/types";
 
-export interface Crop {
-  id: string;
-  name: string;
-  variety: string;
-  plotNumber: string;
-  datePlanted: string;
-  estimatedHarvest: string;
-  status: "growing" | "ready" | "harvested";
-  quantity: string;
-  health?: "healthy" | "needs-water" | "pest-issue" | "disease";
-}
+export type { Crop };
+
+// Fields shown in the merge prompt when someone else edited the same crop
+const CROP_FIELDS: ConflictFields<Crop> = {
+  name: "Crop Name",
+  variety: "Variety",
+  plotNumber: "Plot",
+  quantity: "Quantity",
+  datePlanted: "Date Planted",
+  estimatedHarvest: "Estimated Harvest",
+  status: "Status",
+  health: "Health Status",
+};
+
+// Columns the crop list can be sorted by (see LIST_OPTIONS on the server)
+const CROP_SORT_FIELDS: Array<keyof Crop & string> = ["name", "variety", "plotNumber", "datePlanted", "estimatedHarvest", "status", "health"];
 
 interface CropsManagementProps {
-  crops: Crop[];
-  onAdd?: (crop: Omit<Crop, "id">) => Promise<void>;
-  onUpdate?: (id: string, crop: Omit<Crop, "id">) => Promise<void>;
-  onDelete?: (id: string) => Promise<void>;
+  crops: Crop[];  // The app's copy of the records - the table reloads its page when this changes
+  plots: Plot[];  // The plot registry, for the plot picker
+  varieties: CropVariety[];  // The crop catalog, for prefilling the form and rotation checks
+  gardenMap: GardenMap;      // Which plots are neighbors, for companion planting checks
+  companions: CompanionPlanting;
+  activities: CropActivity[];  // Timeline entries, shown on a crop's details
+  volunteers: Volunteer[];     // Names suggested when logging an activity
+  canEdit?: boolean;
+  onAdd?: (crop: EntityInput<Crop>) => Promise<unknown>;
+  onUpdate?: (id: string, crop: EntityInput<Crop>) => Promise<unknown>;
+  onDelete?: (id: string) => Promise<unknown>;
+  onRestore?: (id: string) => Promise<unknown>;  // Undo a delete from the success toast
+  onImported?: () => void;  // Reload after a spreadsheet import
+  onAddActivity?: (activity: EntityInput<CropActivity>) => Promise<unknown>;
+  onDeleteActivity?: (id: string) => Promise<unknown>;
+  onRestoreActivity?: (id: string) => Promise<unknown>;
+}
+
+// Crop rotation rules the planting in the form breaks; saving still goes ahead
+function RotationNotice({ warnings }: { warnings: RotationWarning[] }) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50 text-amber-900 dark:bg-amber-950 dark:text-amber-100">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription className="text-inherit">
+        <p className="font-medium">This planting breaks the crop rotation</p>
+        <ul className="list-disc pl-4">
+          {warnings.map((warning) => (
+            <li key={warning.rule}>{warning.message}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+// Good neighbors and conflicts of the planting in the form
+function CompanionNotice({ notes }: { notes: CompanionNote[] }) {
+  if (notes.length === 0) return null;
+
+  const hasConflict = notes.some((note) => note.relation === "antagonistic");
+  return (
+    <Alert
+      className={hasConflict
+        ? "border-amber-300 bg-amber-50 text-amber-900 dark:bg-amber-950 dark:text-amber-100"
+        : "border-green-300 bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-100"}
+    >
+      {hasConflict ? <AlertTriangle className="h-4 w-4" /> : <Sprout className="h-4 w-4" />}
+      <AlertDescription className="text-inherit">
+        <p className="font-medium">Companion planting</p>
+        <ul className="list-disc pl-4">
+          {notes.map(({ relation, reason, crops: [, other], samePlot }) => (
+            <li key={other.id}>
+              {RELATION_LABELS[relation]}: {other.name} {samePlot ? "on the same plot" : `on plot ${other.plotNumber} next door`}. {reason}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
 }
 
-export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManagementProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [healthFilter, setHealthFilter] = useState<string>("all");
+export function CropsManagement({
+  crops,
+  plots,
+  varieties,
+  gardenMap,
+  companions,
+  activities,
+  volunteers,
+  canEdit = false,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onRestore,
+  onImported,
+  onAddActivity,
+  onDeleteActivity,
+  onRestoreActivity,
+}: CropsManagementProps) {
+  const [searchTerm, setSearchTerm] = useSearchParam("q");
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useSearchParam("status", "all");
+  const [healthFilter, setHealthFilter] = useSearchParam("health", "all");
+  const [sort, setSort] = useSortParam<Crop>({ field: "datePlanted", order: "desc" }, CROP_SORT_FIELDS);
+  const cropRoute = useRecordRoute("crop");
+  const openCrop = crops.find((crop) => crop.id === cropRoute.id);
+  const plotOptions = [...plots].sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+  const catalogOptions = [...varieties].sort((a, b) => varietyLabel(a).localeCompare(varietyLabel(b)));
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedCrop, setSelectedCrop] = useState<Crop | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [conflict, setConflict] = useState<EditConflict<Crop> | null>(null);
+  const [catalogId, setCatalogId] = useState("");  // Catalog entry the form was filled from ("" = none)
+  const catalogEntry = varieties.find((variety) => variety.id === catalogId) ?? null;
 
   // Form state
   const [formData, setFormData] = useState<Omit<Crop, "id">>({
@@ -53,6 +159,8 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
   });
 
   const resetForm = () => {
+    setFieldErrors({});
+    setCatalogId("");
     setFormData({
       name: "",
       variety: "",
@@ -72,6 +180,8 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
 
   const handleEditClick = (crop: Crop) => {
     setSelectedCrop(crop);
+    setFieldErrors({});
+    setCatalogId(findCatalogEntry(varieties, crop.name, crop.variety)?.id ?? "");
     setFormData({
       name: crop.name,
       variety: crop.variety,
@@ -85,6 +195,49 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
     setIsEditDialogOpen(true);
   };
 
+  // Fill the name and variety from a catalog entry, the estimated harvest
+  // from the planting date and, if not entered yet, the number of plants
+  // that fit on the plot
+  const handleCatalogChange = (id: string) => {
+    const entry = varieties.find((variety) => variety.id === id);
+    if (!entry) return;
+
+    setCatalogId(id);
+    const plot = plots.find((candidate) => candidate.code === formData.plotNumber);
+    const plants = plot ? plantsForArea(plot.areaSqm, entry.spacingCm) : 0;
+    setFormData({
+      ...formData,
+      name: entry.name,
+      variety: entry.variety,
+      estimatedHarvest: formData.datePlanted
+        ? estimateHarvestDate(formData.datePlanted, entry.daysToMaturity)
+        : formData.estimatedHarvest,
+      quantity: formData.quantity || (plants > 0 ? `${plants} plants` : ""),
+    });
+  };
+
+  // A new planting date moves the estimated harvest while a catalog entry is chosen
+  const handleDatePlantedChange = (datePlanted: string) => {
+    setFormData({
+      ...formData,
+      datePlanted,
+      estimatedHarvest: catalogEntry && datePlanted
+        ? estimateHarvestDate(datePlanted, catalogEntry.daysToMaturity)
+        : formData.estimatedHarvest,
+    });
+  };
+
+  // Rotation rules broken by the form's planting, against the plot's other crops
+  const warnings = rotationWarnings({ ...formData, id: isEditDialogOpen ? selectedCrop?.id : undefined }, crops, varieties);
+
+  // Companion planting with the crops growing on the same and neighboring plots
+  const companionNotes = plantingNotes({ ...formData, id: isEditDialogOpen ? selectedCrop?.id : undefined }, crops, plots, gardenMap, companions);
+
+  // Growing details of the chosen entry, under the picker
+  const catalogSummary = (entry: CropVariety) =>
+    `${entry.daysToMaturity} days to harvest · ${entry.spacingCm} cm apart · ${WATER_NEEDS_LABELS[entry.waterNeeds]} water · ` +
+    `${SEASON_LABELS[entry.season]} · ${entry.yieldKgPerSqm} kg/m²`;
+
   const handleDeleteClick = (crop: Crop) => {
     setSelectedCrop(crop);
     setDeleteDialogOpen(true);
@@ -106,6 +259,7 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
       }
     } catch (error) {
       console.error("Error adding crop:", error);
+      setFieldErrors(getFieldErrors(error));
       toast.error("Failed to add crop");
     } finally {
       setIsSubmitting(false);
@@ -123,14 +277,21 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
     setIsSubmitting(true);
     try {
       if (onUpdate) {
-        await onUpdate(selectedCrop.id, formData);
+        await onUpdate(selectedCrop.id, { ...formData, version: selectedCrop.version });
         toast.success("Crop updated successfully!");
         setIsEditDialogOpen(false);
         setSelectedCrop(null);
         resetForm();
       }
     } catch (error) {
+      const current = getConflict<Crop>(error);
+      if (current) {
+        setIsEditDialogOpen(false);
+        setConflict({ base: selectedCrop, mine: formData, theirs: current });
+        return;
+      }
       console.error("Error updating crop:", error);
+      setFieldErrors(getFieldErrors(error));
       toast.error("Failed to update crop");
     } finally {
       setIsSubmitting(false);
@@ -143,8 +304,9 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
     setIsSubmitting(true);
     try {
       if (onDelete) {
-        await onDelete(selectedCrop.id);
-        toast.success("Crop deleted successfully!");
+        const id = selectedCrop.id;
+        await onDelete(id);
+        toastDeletedWithUndo("Crop deleted successfully!", onRestore && (() => onRestore(id)));
         setDeleteDialogOpen(false);
         setSelectedCrop(null);
       }
@@ -156,6 +318,17 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
     }
   };
 
+  // A crop's plot, linked to the plot's history page
+  const plotLink = (code: string) => {
+    const plot = plots.find((candidate) => candidate.code === code);
+    if (!plot) return code;
+    return (
+      <a href={recordPath("plot", plot.id)} onClick={linkTo(recordPath("plot", plot.id))} className="hover:underline">
+        {code}
+      </a>
+    );
+  };
+
   const getStatusBadge = (status: Crop["status"]) => {
     switch (status) {
       case "growing":
@@ -208,23 +381,29 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
     return `${diffDays} days`;
   };
 
-  // Filter crops
-  const filteredCrops = crops.filter((crop) => {
-    const matchesSearch = 
-      crop.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      crop.variety.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      crop.plotNumber.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = statusFilter === "all" || crop.status === statusFilter;
-    const matchesHealth = healthFilter === "all" || crop.health === healthFilter;
-    
-    return matchesSearch && matchesStatus && matchesHealth;
-  });
+  // Filtered, sorted and paged by the server
+  const listQuery: CropListQuery = {
+    q: searchTerm.trim() || undefined,
+    status: statusFilter === "all" ? undefined : statusFilter as Crop["status"],
+    health: healthFilter === "all" ? undefined : healthFilter as NonNullable<Crop["health"]>,
+    sort: sort.field,
+    order: sort.order,
+  };
+  const cropPage = usePagedList(cropsApi.getPage, listQuery, crops);
+
+  const handleExport = async () => {
+    let exportCrops: Crop[];
+    try {
+      exportCrops = await cropsApi.getAll(listQuery);  // Every matching crop, not just this page
+    } catch (error) {
+      console.error("Error exporting crops:", error);
+      toast.error("Failed to export crops");
+      return;
+    }
 
-  const handleExport = () => {
     const csvContent = [
       ["Crop Name", "Variety", "Plot", "Date Planted", "Est. Harvest", "Quantity", "Status", "Health"],
-      ...filteredCrops.map(crop => [
+      ...exportCrops.map(crop => [
         crop.name,
         crop.variety,
         crop.plotNumber,
@@ -259,12 +438,14 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
             <CardDescription>Current crops planted in the community garden</CardDescription>
           </div>
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={handleAddClick} className="bg-green-600 hover:bg-green-700">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Crop
-              </Button>
-            </DialogTrigger>
+            {canEdit && (
+              <DialogTrigger asChild>
+                <Button onClick={handleAddClick} className="bg-green-600 hover:bg-green-700">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Crop
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Add New Crop</DialogTitle>
@@ -273,6 +454,20 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                 </DialogDescription>
               </DialogHeader>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="catalogEntry">Catalog Entry</Label>
+                  <Select value={catalogId} onValueChange={handleCatalogChange}>
+                    <SelectTrigger id="catalogEntry">
+                      <SelectValue placeholder={catalogOptions.length > 0 ? "Choose a variety to fill in the details" : "The crop catalog is empty"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {catalogOptions.map((variety) => (
+                        <SelectItem key={variety.id} value={variety.id}>{varietyLabel(variety)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {catalogEntry && <p className="text-sm text-muted-foreground">{catalogSummary(catalogEntry)}</p>}
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="name">Crop Name *</Label>
                   <Input
@@ -281,6 +476,7 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                     onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                     placeholder="e.g., Tomatoes"
                   />
+                  <FieldError message={fieldErrors.name} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="variety">Variety *</Label>
@@ -290,15 +486,23 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                     onChange={(e) => setFormData({ ...formData, variety: e.target.value })}
                     placeholder="e.g., Cherry"
                   />
+                  <FieldError message={fieldErrors.variety} />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="plotNumber">Plot Number *</Label>
-                  <Input
-                    id="plotNumber"
-                    value={formData.plotNumber}
-                    onChange={(e) => setFormData({ ...formData, plotNumber: e.target.value })}
-                    placeholder="e.g., A1"
-                  />
+                  <Label htmlFor="plotNumber">Plot *</Label>
+                  <Select value={formData.plotNumber} onValueChange={(value) => setFormData({ ...formData, plotNumber: value })}>
+                    <SelectTrigger id="plotNumber">
+                      <SelectValue placeholder={plotOptions.length > 0 ? "Select a plot" : "No plots registered yet"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {plotOptions.map((plot) => (
+                        <SelectItem key={plot.id} value={plot.code}>
+                          {plot.status === "active" ? plot.code : `${plot.code} (${plot.status})`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FieldError message={fieldErrors.plotNumber} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="quantity">Quantity *</Label>
@@ -308,6 +512,7 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                     onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
                     placeholder="e.g., 50 plants"
                   />
+                  <FieldError message={fieldErrors.quantity} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="datePlanted">Date Planted *</Label>
@@ -315,8 +520,9 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                     id="datePlanted"
                     type="date"
                     value={formData.datePlanted}
-                    onChange={(e) => setFormData({ ...formData, datePlanted: e.target.value })}
+                    onChange={(e) => handleDatePlantedChange(e.target.value)}
                   />
+                  <FieldError message={fieldErrors.datePlanted} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="estimatedHarvest">Estimated Harvest *</Label>
@@ -326,6 +532,7 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                     value={formData.estimatedHarvest}
                     onChange={(e) => setFormData({ ...formData, estimatedHarvest: e.target.value })}
                   />
+                  <FieldError message={fieldErrors.estimatedHarvest} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="status">Status *</Label>
@@ -339,6 +546,7 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                       <SelectItem value="harvested">Harvested</SelectItem>
                     </SelectContent>
                   </Select>
+                  <FieldError message={fieldErrors.status} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="health">Health Status</Label>
@@ -353,8 +561,11 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                       <SelectItem value="disease">Disease</SelectItem>
                     </SelectContent>
                   </Select>
+                  <FieldError message={fieldErrors.health} />
                 </div>
               </div>
+              <RotationNotice warnings={warnings} />
+              <CompanionNotice notes={companionNotes} />
               <DialogFooter>
                 <Button variant="outline" onClick={() => setIsAddDialogOpen(false)} disabled={isSubmitting}>
                   Cancel
@@ -414,63 +625,88 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
             <Printer className="h-4 w-4 mr-2" />
             Print
           </Button>
+          {canEdit && (
+            <Button onClick={() => setIsImportOpen(true)} variant="outline" size="sm">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          )}
         </div>
 
+        <ImportWizard
+          entityType="crop"
+          open={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onImported={onImported}
+        />
+
         {/* Table */}
         <div className="overflow-x-auto">
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Crop Name</TableHead>
-                <TableHead>Variety</TableHead>
-                <TableHead>Plot</TableHead>
-                <TableHead>Date Planted</TableHead>
-                <TableHead>Est. Harvest</TableHead>
+                <SortableTableHead field="name" sort={sort} onSort={setSort}>Crop Name</SortableTableHead>
+                <SortableTableHead field="variety" sort={sort} onSort={setSort}>Variety</SortableTableHead>
+                <SortableTableHead field="plotNumber" sort={sort} onSort={setSort}>Plot</SortableTableHead>
+                <SortableTableHead field="datePlanted" sort={sort} onSort={setSort}>Date Planted</SortableTableHead>
+                <SortableTableHead field="estimatedHarvest" sort={sort} onSort={setSort}>Est. Harvest</SortableTableHead>
                 <TableHead>Days Until Harvest</TableHead>
                 <TableHead>Quantity</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Health</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
+                <SortableTableHead field="status" sort={sort} onSort={setSort}>Status</SortableTableHead>
+                <SortableTableHead field="health" sort={sort} onSort={setSort}>Health</SortableTableHead>
+                {canEdit && <TableHead className="text-right">Actions</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredCrops.length === 0 ? (
+              {!cropPage.hasLoaded ? (
                 <TableRow>
-                  <TableCell colSpan={10} className="text-center text-muted-foreground">
+                  <TableCell colSpan={canEdit ? 10 : 9} className="text-center text-muted-foreground">
+                    Loading crops...
+                  </TableCell>
+                </TableRow>
+              ) : cropPage.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 10 : 9} className="text-center text-muted-foreground">
                     No crops found matching your filters
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredCrops.map((crop) => (
+                cropPage.items.map((crop) => (
                   <TableRow key={crop.id}>
-                    <TableCell>{crop.name}</TableCell>
+                    <TableCell>
+                      <a href={cropRoute.href(crop.id)} onClick={linkTo(cropRoute.href(crop.id))} className="hover:underline">
+                        {crop.name}
+                      </a>
+                    </TableCell>
                     <TableCell>{crop.variety}</TableCell>
-                    <TableCell>{crop.plotNumber}</TableCell>
+                    <TableCell>{plotLink(crop.plotNumber)}</TableCell>
                     <TableCell>{new Date(crop.datePlanted).toLocaleDateString()}</TableCell>
                     <TableCell>{new Date(crop.estimatedHarvest).toLocaleDateString()}</TableCell>
                     <TableCell>{getDaysUntilHarvest(crop.estimatedHarvest)}</TableCell>
                     <TableCell>{crop.quantity}</TableCell>
                     <TableCell>{getStatusBadge(crop.status)}</TableCell>
                     <TableCell>{getHealthBadge(crop.health)}</TableCell>
-                    <TableCell className="text-right">
-                      <div className="flex justify-end gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleEditClick(crop)}
-                        >
-                          <Pencil className="h-3 w-3" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDeleteClick(crop)}
-                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                        >
-                          <Trash2 className="h-3 w-3" />
-                        </Button>
-                      </div>
-                    </TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEditClick(crop)}
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteClick(crop)}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
                   </TableRow>
                 ))
               )}
@@ -478,9 +714,14 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
           </Table>
         </div>
 
-        <p className="text-sm text-muted-foreground">
-          Showing {filteredCrops.length} of {crops.length} crops
-        </p>
+        <TablePagination
+          page={cropPage.page}
+          pageSize={cropPage.pageSize}
+          total={cropPage.total}
+          noun="crops"
+          onPageChange={cropPage.setPage}
+          disabled={cropPage.isLoading}
+        />
       </CardContent>
 
       {/* Edit Dialog */}
@@ -492,7 +733,22 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
               Update the details of {selectedCrop?.name}
             </DialogDescription>
           </DialogHeader>
+          <EditedElsewhereNotice editing={selectedCrop} records={crops} noun="crop" />
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="edit-catalogEntry">Catalog Entry</Label>
+              <Select value={catalogId} onValueChange={handleCatalogChange}>
+                <SelectTrigger id="edit-catalogEntry">
+                  <SelectValue placeholder={catalogOptions.length > 0 ? "Choose a variety to fill in the details" : "The crop catalog is empty"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {catalogOptions.map((variety) => (
+                    <SelectItem key={variety.id} value={variety.id}>{varietyLabel(variety)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {catalogEntry && <p className="text-sm text-muted-foreground">{catalogSummary(catalogEntry)}</p>}
+            </div>
             <div className="space-y-2">
               <Label htmlFor="edit-name">Crop Name *</Label>
               <Input
@@ -501,6 +757,7 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                 onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                 placeholder="e.g., Tomatoes"
               />
+              <FieldError message={fieldErrors.name} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-variety">Variety *</Label>
@@ -510,15 +767,23 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                 onChange={(e) => setFormData({ ...formData, variety: e.target.value })}
                 placeholder="e.g., Cherry"
               />
+              <FieldError message={fieldErrors.variety} />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="edit-plotNumber">Plot Number *</Label>
-              <Input
-                id="edit-plotNumber"
-                value={formData.plotNumber}
-                onChange={(e) => setFormData({ ...formData, plotNumber: e.target.value })}
-                placeholder="e.g., A1"
-              />
+              <Label htmlFor="edit-plotNumber">Plot *</Label>
+              <Select value={formData.plotNumber} onValueChange={(value) => setFormData({ ...formData, plotNumber: value })}>
+                <SelectTrigger id="edit-plotNumber">
+                  <SelectValue placeholder={plotOptions.length > 0 ? "Select a plot" : "No plots registered yet"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {plotOptions.map((plot) => (
+                    <SelectItem key={plot.id} value={plot.code}>
+                      {plot.status === "active" ? plot.code : `${plot.code} (${plot.status})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldErrors.plotNumber} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-quantity">Quantity *</Label>
@@ -528,6 +793,7 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                 onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
                 placeholder="e.g., 50 plants"
               />
+              <FieldError message={fieldErrors.quantity} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-datePlanted">Date Planted *</Label>
@@ -535,8 +801,9 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                 id="edit-datePlanted"
                 type="date"
                 value={formData.datePlanted}
-                onChange={(e) => setFormData({ ...formData, datePlanted: e.target.value })}
+                onChange={(e) => handleDatePlantedChange(e.target.value)}
               />
+              <FieldError message={fieldErrors.datePlanted} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-estimatedHarvest">Estimated Harvest *</Label>
@@ -546,6 +813,7 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                 value={formData.estimatedHarvest}
                 onChange={(e) => setFormData({ ...formData, estimatedHarvest: e.target.value })}
               />
+              <FieldError message={fieldErrors.estimatedHarvest} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-status">Status *</Label>
@@ -559,6 +827,7 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                   <SelectItem value="harvested">Harvested</SelectItem>
                 </SelectContent>
               </Select>
+              <FieldError message={fieldErrors.status} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-health">Health Status</Label>
@@ -573,8 +842,11 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
                   <SelectItem value="disease">Disease</SelectItem>
                 </SelectContent>
               </Select>
+              <FieldError message={fieldErrors.health} />
             </div>
           </div>
+          <RotationNotice warnings={warnings} />
+          <CompanionNotice notes={companionNotes} />
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsEditDialogOpen(false)} disabled={isSubmitting}>
               Cancel
@@ -586,6 +858,38 @@ export function CropsManagement({ crops, onAdd, onUpdate, onDelete }: CropsManag
         </DialogContent>
       </Dialog>
 
+      {/* Crop opened by its link (/crops/:id) */}
+      <RecordDetailsDialog
+        recordId={cropRoute.id}
+        noun="crop"
+        title={openCrop?.name}
+        details={openCrop ? fieldDetails(openCrop, CROP_FIELDS) : null}
+        onEdit={canEdit && openCrop ? () => { cropRoute.close(); handleEditClick(openCrop); } : undefined}
+        onClose={cropRoute.close}
+      >
+        {openCrop && (
+          <CropTimeline
+            crop={openCrop}
+            activities={activities}
+            volunteers={volunteers}
+            canEdit={canEdit}
+            onAdd={onAddActivity}
+            onDelete={onDeleteActivity}
+            onRestore={onRestoreActivity}
+          />
+        )}
+      </RecordDetailsDialog>
+
+      {/* Merge prompt after an edit conflict */}
+      {onUpdate && (
+        <ConflictDialog
+          conflict={conflict}
+          fields={CROP_FIELDS}
+          onSave={onUpdate}
+          onClose={() => setConflict(null)}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
@@ -0,0 +1,254 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Progress } from "./ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Database, Loader2, Play, RefreshCw } from "lucide-react";
+import { toast } from "sonner@2.0.3";
+import { ENTITY_LABELS } from "./AuditLog";
+import { migrationsApi } from "../utils/api";
+import type { MigrationRun, MigrationStatus } from "../supabase/functions/_shared/types";
+
+interface DataMigrationsProps {
+  onMigrated?: () => void;  // Reload app data after records were upgraded
+}
+
+// How often to check progress while a run is in progress
+const POLL_INTERVAL_MS = 2000;
+// Failures listed per run; the rest are counted
+const MAX_FAILURES_SHOWN = 10;
+
+function runResult(run: MigrationRun) {
+  if (!run.finishedAt) {
+    return <Badge variant="secondary">Running</Badge>;
+  }
+  if (run.failures.length > 0) {
+    return <Badge variant="destructive">{run.failures.length} failed</Badge>;
+  }
+  return <Badge>Completed</Badge>;
+}
+
+export function DataMigrations({ onMigrated }: DataMigrationsProps) {
+  const [status, setStatus] = useState<MigrationStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const loadStatus = async (showSpinner = true) => {
+    if (showSpinner) setIsLoading(true);
+    try {
+      setStatus(await migrationsApi.getStatus());
+    } catch (error) {
+      console.error("Error loading migration status:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load migration status");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Follow a run in progress - started here, at server startup or by another admin
+  const running = isRunning || Boolean(status?.running);
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => loadStatus(false), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const updated = await migrationsApi.run();
+      setStatus(updated);
+      if (updated.schemaVersion === updated.latestVersion) {
+        toast.success("All migrations have been applied");
+      } else {
+        toast.error("A migration failed for some records. See Recent Runs for details.");
+      }
+      if (onMigrated) {
+        onMigrated();
+      }
+    } catch (error) {
+      console.error("Error running migrations:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to run migrations");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const pendingCount = status ? status.migrations.filter((m) => !m.applied).length : 0;
+  const currentRun = status?.runs.find((run) => !run.finishedAt);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-green-600 mb-2">Data Migrations</h2>
+        <p className="text-muted-foreground">
+          Upgrades records saved by older versions of the system. Pending migrations run automatically when the server starts; you can also run them here.
+        </p>
+      </div>
+
+      {/* Schema version */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Database className="h-5 w-5 text-green-600" />
+                Schema Version
+              </CardTitle>
+              <CardDescription>
+                {status
+                  ? `Version ${status.schemaVersion} of ${status.latestVersion}`
+                  : "Loading..."}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {status && (
+                pendingCount === 0
+                  ? <Badge>Up to date</Badge>
+                  : <Badge variant="secondary">{pendingCount} pending</Badge>
+              )}
+              <Button onClick={() => loadStatus()} variant="outline" size="sm" disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button
+                onClick={handleRun}
+                size="sm"
+                disabled={isLoading || running || pendingCount === 0}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                {running ? "Running..." : "Run Pending Migrations"}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        {currentRun && (
+          <CardContent className="space-y-2">
+            <p className="text-sm">
+              Migration {currentRun.version}: {currentRun.name}
+            </p>
+            <Progress value={currentRun.total > 0 ? (currentRun.processed / currentRun.total) * 100 : 0} />
+            <p className="text-xs text-muted-foreground">
+              {currentRun.processed} of {currentRun.total} records checked, {currentRun.updated} updated
+            </p>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Known migrations */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Migrations</CardTitle>
+          <CardDescription>Applied in order, each one once</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && !status ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <Loader2 className="h-8 w-8 text-green-600 animate-spin mx-auto mb-2" />
+                <p className="text-muted-foreground">Loading migrations...</p>
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Migration</TableHead>
+                    <TableHead>Records</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {status?.migrations.map((migration) => (
+                    <TableRow key={migration.version}>
+                      <TableCell className="font-mono">{migration.version}</TableCell>
+                      <TableCell>{migration.name}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {migration.prefixes.map((prefix) => (
+                            <Badge key={prefix} variant="outline">{ENTITY_LABELS[prefix] || prefix}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {migration.applied ? <Badge>Applied</Badge> : <Badge variant="secondary">Pending</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Run history */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Runs</CardTitle>
+          <CardDescription>Most recent first, with the records that could not be upgraded</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!status || status.runs.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No migrations have run yet</p>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Migration</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Records</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {status.runs.map((run) => (
+                    <TableRow key={`${run.version}:${run.startedAt}`}>
+                      <TableCell className="align-top">
+                        <p className="text-sm">{run.name}</p>
+                        <p className="text-xs text-muted-foreground">Version {run.version}</p>
+                        {run.failures.length > 0 && (
+                          <ul className="mt-2 space-y-1 text-xs">
+                            {run.failures.slice(0, MAX_FAILURES_SHOWN).map((failure) => (
+                              <li key={failure.key}>
+                                <span className="font-mono">{failure.key}</span>
+                                <span className="text-red-600"> - {failure.error}</span>
+                              </li>
+                            ))}
+                            {run.failures.length > MAX_FAILURES_SHOWN && (
+                              <li className="text-muted-foreground">
+                                and {run.failures.length - MAX_FAILURES_SHOWN} more
+                              </li>
+                            )}
+                          </ul>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top text-sm">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="align-top text-sm">
+                        {run.processed} of {run.total} checked
+                        <p className="text-xs text-muted-foreground">{run.updated} updated</p>
+                      </TableCell>
+                      <TableCell className="align-top">{runResult(run)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
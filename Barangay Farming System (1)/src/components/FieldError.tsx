@@ -0,0 +1,13 @@
+interface FieldErrorProps {
+  message?: string;  // Validation message from the server for this field
+}
+
+/**
+ * Inline validation message shown under a form input
+ * Renders nothing when the field has no error
+ */
+export function FieldError({ message }: FieldErrorProps) {
+  if (!message) return null;
+
+  return <p className="text-sm text-destructive">{message}</p>;
+}
@@ -0,0 +1,619 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Badge } from "./ui/badge";
+import { Pencil, Printer, Save, Square, Pentagon, Eraser, X } from "lucide-react";
+import { useRef, useState, type PointerEvent } from "react";
+import { toast } from "sonner@2.0.3";
+import { getFieldErrors } from "../utils/api";
+import { linkTo, useSearchParam } from "../utils/router";
+import { recordPath } from "../utils/routes";
+import { currentCrop } from "../utils/plotHistory";
+import { RELATION_LABELS, companionNotes, type CompanionNote } from "../utils/companions";
+import type { CompanionPlanting, Crop, GardenMap, MapPoint, Plot, PlotShape } from "../supabase/functions/_shared/types";
+
+// Size of one grid cell in SVG units (the map scales to the page width)
+const CELL = 32;
+
+// The badge colours of CropsManagement (Tailwind blue-500, green-500, ...)
+const CROP_STATUS_COLORS: Record<Crop["status"], string> = {
+  growing: "#3b82f6",
+  ready: "#22c55e",
+  harvested: "#d1d5db",
+};
+
+const CROP_HEALTH_COLORS: Record<NonNullable<Crop["health"]>, string> = {
+  "healthy": "#22c55e",
+  "needs-water": "#60a5fa",
+  "pest-issue": "#f97316",
+  "disease": "#ef4444",
+};
+
+const EMPTY_PLOT_COLOR = "#ffffff";
+const RESERVED_PLOT_COLOR = "#f3f4f6";
+const FALLOW_COLOR = "#d97706";
+const OUTLINE_COLOR = "#6b7280";
+const HIGHLIGHT_COLOR = "#111827";
+const GOOD_NEIGHBOR_COLOR = "#16a34a";
+const CONFLICT_COLOR = "#dc2626";
+
+// Overlays members can switch on; plots they don't match are faded out
+const OVERLAYS: Array<{ id: string; label: string; matches: (plot: Plot, crop: Crop | null) => boolean }> = [
+  { id: "needs-water", label: "Needs water", matches: (_plot, crop) => crop?.health === "needs-water" },
+  { id: "ready", label: "Ready to harvest", matches: (_plot, crop) => crop?.status === "ready" },
+  { id: "pests", label: "Pests or disease", matches: (_plot, crop) => crop?.health === "pest-issue" || crop?.health === "disease" },
+  { id: "fallow", label: "Fallow", matches: (plot) => plot.status === "fallow" },
+  { id: "empty", label: "Empty", matches: (plot, crop) => plot.status === "active" && !crop },
+];
+
+type Tool = "rectangle" | "polygon";
+
+interface GardenMapViewProps {
+  map: GardenMap;
+  plots: Plot[];
+  crops: Crop[];        // For each plot's current crop
+  companions: CompanionPlanting;  // Pairs checked between neighboring plots and within a plot
+  canEdit?: boolean;    // Draw the layout (settings.manage)
+  onSave?: (map: GardenMap) => Promise<unknown>;
+}
+
+const samePoint = (a: MapPoint, b: MapPoint) => a.x === b.x && a.y === b.y;
+
+const toPath = (points: MapPoint[]) => points.map(({ x, y }) => `${x * CELL},${y * CELL}`).join(" ");
+
+function centerOf(points: MapPoint[]): MapPoint {
+  return {
+    x: (points.reduce((sum, point) => sum + point.x, 0) / points.length) * CELL,
+    y: (points.reduce((sum, point) => sum + point.y, 0) / points.length) * CELL,
+  };
+}
+
+function rectangle(from: MapPoint, to: MapPoint): MapPoint[] {
+  return [from, { x: to.x, y: from.y }, to, { x: from.x, y: to.y }];
+}
+
+const noteColor = (notes: CompanionNote[]) =>
+  notes.some((note) => note.relation === "antagonistic") ? CONFLICT_COLOR : GOOD_NEIGHBOR_COLOR;
+
+const noteText = ({ relation, reason, crops: [a, b] }: CompanionNote) =>
+  `${RELATION_LABELS[relation]}: ${a.name} (${a.plotNumber}) and ${b.name} (${b.plotNumber}). ${reason}`;
+
+/**
+ * Companion notes grouped by the plots they concern: one group per plot
+ * for crops sharing it, one per pair of neighboring plots
+ */
+function groupNotes(notes: CompanionNote[]): Map<string, CompanionNote[]> {
+  const groups = new Map<string, CompanionNote[]>();
+  for (const note of notes) {
+    const key = [note.crops[0].plotNumber, note.crops[1].plotNumber].sort().join("|");
+    groups.set(key, [...(groups.get(key) ?? []), note]);
+  }
+  return groups;
+}
+
+/**
+ * How a plot is drawn: fill from its crop's status, outline from its health
+ */
+function plotStyle(plot: Plot, crop: Crop | null) {
+  if (plot.status === "fallow") {
+    return { fill: "url(#garden-map-fallow)", stroke: FALLOW_COLOR, strokeWidth: 2, strokeDasharray: undefined };
+  }
+  if (plot.status === "reserved") {
+    return { fill: RESERVED_PLOT_COLOR, stroke: OUTLINE_COLOR, strokeWidth: 2, strokeDasharray: "6 4" };
+  }
+  if (!crop) {
+    return { fill: EMPTY_PLOT_COLOR, stroke: OUTLINE_COLOR, strokeWidth: 2, strokeDasharray: undefined };
+  }
+  const health = crop.health ?? "healthy";
+  return {
+    fill: CROP_STATUS_COLORS[crop.status],
+    stroke: health === "healthy" ? OUTLINE_COLOR : CROP_HEALTH_COLORS[health],
+    strokeWidth: health === "healthy" ? 2 : 5,
+    strokeDasharray: undefined,
+  };
+}
+
+/**
+ * The garden drawn to scale on a grid, each plot colored by what grows on it
+ * Admins draw the layout in edit mode: pick a plot, then drag a rectangle
+ * or click the corners of a polygon on the grid.
+ */
+export function GardenMapView({ map, plots, crops, companions, canEdit = false, onSave }: GardenMapViewProps) {
+  const [shown, setShown] = useSearchParam("show");
+  const overlays = shown ? shown.split(",") : [];
+  const [draft, setDraft] = useState<GardenMap | null>(null);  // The layout being edited (null = viewing)
+  const [selectedPlotId, setSelectedPlotId] = useState("");
+  const [tool, setTool] = useState<Tool>("rectangle");
+  const [corners, setCorners] = useState<MapPoint[]>([]);      // Polygon corners placed so far
+  const [dragStart, setDragStart] = useState<MapPoint | null>(null);
+  const [cursor, setCursor] = useState<MapPoint | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const layout = draft ?? map;
+  const isEditing = draft !== null;
+  const sortedPlots = [...plots].sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+  const mappedIds = new Set(layout.shapes.map((shape) => shape.plotId));
+  const unmappedPlots = sortedPlots.filter((plot) => !mappedIds.has(plot.id));
+
+  // Shapes of plots this device has (a deleted plot's shape is kept but not drawn)
+  const drawn = layout.shapes
+    .map((shape) => {
+      const plot = plots.find((candidate) => candidate.id === shape.plotId);
+      return plot ? { shape, plot, crop: currentCrop(crops, plot.code) } : null;
+    })
+    .filter((entry): entry is { shape: PlotShape; plot: Plot; crop: Crop | null } => entry !== null);
+
+  // Good neighbors and conflicts between the crops now growing
+  const notes = isEditing ? [] : companionNotes(crops, plots, layout, companions);
+  const centers = new Map(drawn.map(({ shape, plot }) => [plot.code, centerOf(shape.points)]));
+
+  const toggleOverlay = (id: string) => {
+    const next = overlays.includes(id) ? overlays.filter((overlay) => overlay !== id) : [...overlays, id];
+    setShown(next.join(","));
+  };
+
+  const isHighlighted = (plot: Plot, crop: Crop | null) =>
+    overlays.length === 0 || OVERLAYS.some((overlay) => overlays.includes(overlay.id) && overlay.matches(plot, crop));
+
+  // ============================================
+  // EDITING
+  // ============================================
+
+  const resetDrawing = () => {
+    setCorners([]);
+    setDragStart(null);
+    setCursor(null);
+  };
+
+  const handleStartEditing = () => {
+    setDraft(structuredClone(map));
+    setSelectedPlotId(unmappedPlots[0]?.id ?? sortedPlots[0]?.id ?? "");
+    resetDrawing();
+  };
+
+  const handleDiscard = () => {
+    setDraft(null);
+    resetDrawing();
+  };
+
+  const handleSave = async () => {
+    if (!draft || !onSave) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      toast.success("Garden map saved");
+      setDraft(null);
+      resetDrawing();
+    } catch (error) {
+      console.error("Error saving garden map:", error);
+      const [fieldError] = Object.values(getFieldErrors(error));
+      toast.error(fieldError ?? (error instanceof Error ? error.message : "Failed to save the garden map"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setShape = (plotId: string, points: MapPoint[] | null) => {
+    setDraft((current) => current && {
+      ...current,
+      shapes: [
+        ...current.shapes.filter((shape) => shape.plotId !== plotId),
+        ...(points ? [{ plotId, points }] : []),
+      ],
+    });
+  };
+
+  // A shape may not be cut off by making the grid smaller
+  const handleGridSize = (field: "columns" | "rows", value: string) => {
+    if (!draft) return;
+    const size = parseInt(value, 10);
+    if (isNaN(size) || size < 1 || size > 200) return;
+
+    const used = Math.max(0, ...draft.shapes.flatMap((shape) => shape.points.map((point) => field === "columns" ? point.x : point.y)));
+    if (size < used) {
+      toast.error(`A plot reaches ${field === "columns" ? "column" : "row"} ${used}. Move or remove it first.`);
+      return;
+    }
+    setDraft({ ...draft, [field]: size });
+  };
+
+  // The grid point nearest the pointer
+  const gridPoint = (event: PointerEvent<SVGSVGElement>): MapPoint | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return {
+      x: Math.min(layout.columns, Math.max(0, Math.round(point.x / CELL))),
+      y: Math.min(layout.rows, Math.max(0, Math.round(point.y / CELL))),
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (!isEditing) return;
+    const point = gridPoint(event);
+    if (!point) return;
+    if (!selectedPlotId) {
+      toast.error("Pick the plot to draw first");
+      return;
+    }
+
+    if (tool === "rectangle") {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDragStart(point);
+      setCursor(point);
+      return;
+    }
+
+    // Polygon: clicking the first corner again closes the shape
+    if (corners.length >= 3 && samePoint(point, corners[0])) {
+      setShape(selectedPlotId, corners);
+      resetDrawing();
+    } else if (corners.length === 0 || !samePoint(point, corners[corners.length - 1])) {
+      setCorners([...corners, point]);
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (!isEditing) return;
+    setCursor(gridPoint(event));
+  };
+
+  const handlePointerUp = (event: PointerEvent<SVGSVGElement>) => {
+    if (!isEditing || tool !== "rectangle" || !dragStart) return;
+    const point = gridPoint(event);
+    if (point && point.x !== dragStart.x && point.y !== dragStart.y) {
+      setShape(selectedPlotId, rectangle(dragStart, point));
+    }
+    setDragStart(null);
+  };
+
+  const handleFinishPolygon = () => {
+    if (corners.length < 3) return;
+    setShape(selectedPlotId, corners);
+    resetDrawing();
+  };
+
+  const width = layout.columns * CELL;
+  const height = layout.rows * CELL;
+  const selectedHasShape = layout.shapes.some((shape) => shape.plotId === selectedPlotId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Garden Map</CardTitle>
+            <CardDescription>
+              {isEditing
+                ? "Pick a plot, then drag a rectangle or click the corners of its shape on the grid"
+                : `The garden's plots as of ${new Date().toLocaleDateString()}. Click a plot to see what grows there.`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 print:hidden">
+            {isEditing ? (
+              <>
+                <Button variant="outline" onClick={handleDiscard} disabled={isSaving}>
+                  Discard
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving} className="bg-green-600 hover:bg-green-700">
+                  <Save className="h-4 w-4 mr-2" />
+                  {isSaving ? "Saving..." : "Save Map"}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => window.print()}>
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print
+                </Button>
+                {canEdit && onSave && (
+                  <Button onClick={handleStartEditing} className="bg-green-600 hover:bg-green-700">
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit Layout
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEditing ? (
+          /* Drawing tools */
+          <div className="flex flex-col md:flex-row md:items-end gap-4 print:hidden">
+            <div className="space-y-2">
+              <Label htmlFor="map-plot">Plot</Label>
+              <Select value={selectedPlotId} onValueChange={(value) => { setSelectedPlotId(value); resetDrawing(); }}>
+                <SelectTrigger id="map-plot" className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Select a plot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortedPlots.map((plot) => (
+                    <SelectItem key={plot.id} value={plot.id}>
+                      {mappedIds.has(plot.id) ? plot.code : `${plot.code} (not drawn)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant={tool === "rectangle" ? "default" : "outline"}
+                aria-pressed={tool === "rectangle"}
+                onClick={() => { setTool("rectangle"); resetDrawing(); }}
+              >
+                <Square className="h-4 w-4 mr-2" />
+                Rectangle
+              </Button>
+              <Button
+                variant={tool === "polygon" ? "default" : "outline"}
+                aria-pressed={tool === "polygon"}
+                onClick={() => { setTool("polygon"); resetDrawing(); }}
+              >
+                <Pentagon className="h-4 w-4 mr-2" />
+                Polygon
+              </Button>
+            </div>
+            {tool === "polygon" && corners.length > 0 && (
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleFinishPolygon} disabled={corners.length < 3}>
+                  Finish Shape
+                </Button>
+                <Button variant="outline" onClick={resetDrawing}>
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            )}
+            {selectedHasShape && (
+              <Button variant="outline" onClick={() => setShape(selectedPlotId, null)} className="text-red-600 hover:text-red-700 hover:bg-red-50">
+                <Eraser className="h-4 w-4 mr-2" />
+                Remove From Map
+              </Button>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="map-columns">Columns</Label>
+              <Input
+                id="map-columns"
+                type="number"
+                min="1"
+                max="200"
+                value={layout.columns}
+                onChange={(e) => handleGridSize("columns", e.target.value)}
+                className="w-24"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="map-rows">Rows</Label>
+              <Input
+                id="map-rows"
+                type="number"
+                min="1"
+                max="200"
+                value={layout.rows}
+                onChange={(e) => handleGridSize("rows", e.target.value)}
+                className="w-24"
+              />
+            </div>
+          </div>
+        ) : (
+          /* Overlays */
+          <div className="flex flex-wrap gap-2 print:hidden">
+            {OVERLAYS.map((overlay) => (
+              <Button
+                key={overlay.id}
+                variant={overlays.includes(overlay.id) ? "default" : "outline"}
+                size="sm"
+                aria-pressed={overlays.includes(overlay.id)}
+                onClick={() => toggleOverlay(overlay.id)}
+              >
+                {overlay.label}
+              </Button>
+            ))}
+            {overlays.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setShown("")}>
+                Show All
+              </Button>
+            )}
+          </div>
+        )}
+
+        {plots.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No plots registered yet. Add plots on the Plots page first.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <svg
+              ref={svgRef}
+              viewBox={`-2 -2 ${width + 4} ${height + 4}`}
+              className="w-full h-auto border rounded-lg bg-white touch-none"
+              role="img"
+              aria-label="Map of the garden plots"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={() => !dragStart && setCursor(null)}
+            >
+              <defs>
+                <pattern id="garden-map-grid" width={CELL} height={CELL} patternUnits="userSpaceOnUse">
+                  <path d={`M ${CELL} 0 L 0 0 0 ${CELL}`} fill="none" stroke="#e5e7eb" strokeWidth="1" />
+                </pattern>
+                <pattern id="garden-map-fallow" width="10" height="10" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+                  <rect width="10" height="10" fill="#fef3c7" />
+                  <line x1="0" y1="0" x2="0" y2="10" stroke={FALLOW_COLOR} strokeWidth="3" />
+                </pattern>
+              </defs>
+              <rect width={width} height={height} fill="url(#garden-map-grid)" stroke="#d1d5db" />
+
+              {drawn.map(({ shape, plot, crop }) => {
+                const style = plotStyle(plot, crop);
+                const center = centerOf(shape.points);
+                const isSelected = isEditing && plot.id === selectedPlotId;
+                const target = crop ? recordPath("crop", crop.id) : recordPath("plot", plot.id);
+                const label = (
+                  <>
+                    <polygon
+                      points={toPath(shape.points)}
+                      fill={style.fill}
+                      fillOpacity={crop && plot.status === "active" ? 0.75 : 1}
+                      stroke={isSelected ? HIGHLIGHT_COLOR : style.stroke}
+                      strokeWidth={isSelected ? 4 : style.strokeWidth}
+                      strokeDasharray={isSelected ? "8 4" : style.strokeDasharray}
+                      strokeLinejoin="round"
+                    />
+                    <text x={center.x} y={center.y} textAnchor="middle" fontSize="13" fontWeight="600" fill={HIGHLIGHT_COLOR}>
+                      {plot.code}
+                    </text>
+                    <text x={center.x} y={center.y + 14} textAnchor="middle" fontSize="10" fill={HIGHLIGHT_COLOR}>
+                      {crop ? crop.name : plot.status === "active" ? "Empty" : plot.status === "fallow" ? "Fallow" : "Reserved"}
+                    </text>
+                  </>
+                );
+
+                // While drawing, clicks go to the grid instead of opening the plot
+                return isEditing ? (
+                  <g key={plot.id} pointerEvents="none">{label}</g>
+                ) : (
+                  <a
+                    key={plot.id}
+                    href={target}
+                    onClick={linkTo(target)}
+                    style={{ opacity: isHighlighted(plot, crop) ? 1 : 0.2 }}
+                  >
+                    <title>
+                      {`Plot ${plot.code}: ${crop ? `${crop.name} (${crop.status}, ${crop.health ?? "healthy"})` : plot.status === "active" ? "empty" : plot.status}`}
+                    </title>
+                    {label}
+                  </a>
+                );
+              })}
+
+              {/* Companion planting: lines between neighboring plots, dots on shared plots */}
+              {[...groupNotes(notes)].map(([key, group]) => {
+                const [first, second] = key.split("|");
+                const from = centers.get(first);
+                const to = centers.get(second);
+                if (!from || !to) return null;
+                const color = noteColor(group);
+                return (
+                  <g key={key} pointerEvents="visibleStroke">
+                    <title>{group.map(noteText).join("\n")}</title>
+                    {first === second ? (
+                      <circle cx={from.x} cy={from.y - 24} r={6} fill={color} stroke="#ffffff" strokeWidth={2} pointerEvents="visible" />
+                    ) : (
+                      <line
+                        x1={from.x}
+                        y1={from.y}
+                        x2={to.x}
+                        y2={to.y}
+                        stroke={color}
+                        strokeWidth={4}
+                        strokeOpacity={0.8}
+                        strokeDasharray={color === CONFLICT_COLOR ? "8 6" : undefined}
+                        strokeLinecap="round"
+                      />
+                    )}
+                  </g>
+                );
+              })}
+
+              {/* Shape being drawn */}
+              {isEditing && tool === "rectangle" && dragStart && cursor && (
+                <polygon points={toPath(rectangle(dragStart, cursor))} fill={HIGHLIGHT_COLOR} fillOpacity={0.1} stroke={HIGHLIGHT_COLOR} strokeWidth={2} strokeDasharray="6 4" pointerEvents="none" />
+              )}
+              {isEditing && tool === "polygon" && corners.length > 0 && (
+                <polyline
+                  points={toPath(cursor ? [...corners, cursor] : corners)}
+                  fill="none"
+                  stroke={HIGHLIGHT_COLOR}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  pointerEvents="none"
+                />
+              )}
+              {isEditing && corners.map((corner, index) => (
+                <circle key={index} cx={corner.x * CELL} cy={corner.y * CELL} r={index === 0 ? 6 : 4} fill={HIGHLIGHT_COLOR} pointerEvents="none" />
+              ))}
+              {isEditing && cursor && (
+                <circle cx={cursor.x * CELL} cy={cursor.y * CELL} r={4} fill="none" stroke={HIGHLIGHT_COLOR} strokeWidth={2} pointerEvents="none" />
+              )}
+            </svg>
+          </div>
+        )}
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-4 text-sm">
+          {Object.entries(CROP_STATUS_COLORS).map(([status, color]) => (
+            <span key={status} className="flex items-center gap-2 capitalize">
+              <svg width="16" height="16" aria-hidden="true"><rect width="16" height="16" rx="2" fill={color} fillOpacity={0.75} stroke={OUTLINE_COLOR} /></svg>
+              {status}
+            </span>
+          ))}
+          {Object.entries(CROP_HEALTH_COLORS).filter(([health]) => health !== "healthy").map(([health, color]) => (
+            <span key={health} className="flex items-center gap-2 capitalize">
+              <svg width="16" height="16" aria-hidden="true"><rect x="2" y="2" width="12" height="12" rx="2" fill="#ffffff" stroke={color} strokeWidth="3" /></svg>
+              {health.replace("-", " ")}
+            </span>
+          ))}
+          <span className="flex items-center gap-2">
+            <svg width="16" height="16" aria-hidden="true"><rect width="16" height="16" rx="2" fill="url(#garden-map-fallow)" stroke={FALLOW_COLOR} /></svg>
+            Fallow
+          </span>
+          <span className="flex items-center gap-2">
+            <svg width="16" height="16" aria-hidden="true"><rect width="16" height="16" rx="2" fill={RESERVED_PLOT_COLOR} stroke={OUTLINE_COLOR} strokeDasharray="3 2" /></svg>
+            Reserved
+          </span>
+          <span className="flex items-center gap-2">
+            <svg width="16" height="16" aria-hidden="true"><rect width="16" height="16" rx="2" fill={EMPTY_PLOT_COLOR} stroke={OUTLINE_COLOR} /></svg>
+            Empty
+          </span>
+          <span className="flex items-center gap-2">
+            <svg width="24" height="16" aria-hidden="true"><line x1="2" y1="8" x2="22" y2="8" stroke={GOOD_NEIGHBOR_COLOR} strokeWidth="4" strokeLinecap="round" /></svg>
+            Good neighbors
+          </span>
+          <span className="flex items-center gap-2">
+            <svg width="24" height="16" aria-hidden="true"><line x1="2" y1="8" x2="22" y2="8" stroke={CONFLICT_COLOR} strokeWidth="4" strokeDasharray="6 4" /></svg>
+            Conflict
+          </span>
+        </div>
+
+        {notes.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Companion Planting</h3>
+            <ul className="space-y-2 text-sm">
+              {notes.map((note) => (
+                <li key={`${note.crops[0].id}|${note.crops[1].id}`} className="flex flex-wrap items-start gap-2">
+                  <Badge
+                    className={note.relation === "beneficial" ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"}
+                  >
+                    {RELATION_LABELS[note.relation]}
+                  </Badge>
+                  <span>
+                    <span className="font-medium">
+                      {note.samePlot
+                        ? `${note.crops[0].name} and ${note.crops[1].name} on plot ${note.crops[0].plotNumber}`
+                        : `${note.crops[0].name} (${note.crops[0].plotNumber}) next to ${note.crops[1].name} (${note.crops[1].plotNumber})`}
+                    </span>
+                    {" — "}
+                    <span className="text-muted-foreground">{note.reason}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {(canEdit || isEditing) && unmappedPlots.length > 0 && (
+          <p className="text-sm text-muted-foreground print:hidden">
+            Not on the map yet: {unmappedPlots.map((plot) => plot.code).join(", ")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,29 +5,55 @@ import { Button } from "./ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Label } from "./ui/label";
 import { Textarea } from "./ui/textarea";
-import { Search, Download, Printer, Calendar, Plus, Pencil, Trash2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Search, Download, Printer, Calendar, Plus, Pencil, Trash2, Upload } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner@2.0.3";
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { FieldError } from "./FieldError";
+import { ImportWizard } from "./ImportWizard";
+import { ConflictDialog, EditedElsewhereNotice, type ConflictFields, type EditConflict } from "./ConflictDialog";
+import { SortableTableHead, TablePagination, useSortParam } from "./ListControls";
+import { RecordDetailsDialog, fieldDetails } from "./RecordDetails";
+import { harvestsApi, getConflict, getFieldErrors } from "../utils/api";
+import { usePagedList } from "../utils/usePagedList";
+import { linkTo, useSearchParam } from "../utils/router";
+import { useRecordRoute } from "../utils/routes";
+import type { Harvest, HarvestListQuery, EntityInput, FieldErrors } from "../supabase/functions/_shared/types";
 
-export interface Harvest {
-  id: string;
-  cropName: string;
-  harvestDate: string;
-  quantity: string;
-  distributionMethod: string;
-  notes: string;
-}
+export type { Harvest };
+
+// Fields shown in the merge prompt when someone else edited the same harvest
+const HARVEST_FIELDS: ConflictFields<Harvest> = {
+  cropName: "Crop Name",
+  harvestDate: "Harvest Date",
+  quantity: "Quantity",
+  distributionMethod: "Distribution Method",
+  notes: "Notes",
+};
+
+// Columns the harvest list can be sorted by (see LIST_OPTIONS on the server)
+const HARVEST_SORT_FIELDS: Array<keyof Harvest & string> = ["cropName", "harvestDate", "distributionMethod"];
 
 interface HarvestTrackerProps {
-  harvests: Harvest[];
-  isAdmin?: boolean;
-  onAdd?: (harvest: Omit<Harvest, "id">) => Promise<void>;
-  onUpdate?: (id: string, harvest: Partial<Harvest>) => Promise<void>;
-  onDelete?: (id: string) => Promise<void>;
+  harvests: Harvest[];  // The app's copy of the records - the table reloads its page when this changes
+  canEdit?: boolean;
+  onAdd?: (harvest: EntityInput<Harvest>) => Promise<unknown>;
+  onUpdate?: (id: string, harvest: EntityInput<Harvest>) => Promise<unknown>;
+  onDelete?: (id: string) => Promise<unknown>;
+  onRestore?: (id: string) => Promise<unknown>;  // Undo a delete from the success toast
+  onImported?: () => void;  // Reload after a spreadsheet import
 }
 
-export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onDelete }: HarvestTrackerProps) {
-  const [searchTerm, setSearchTerm] = useState("");
+export function HarvestTracker({ harvests, canEdit = false, onAdd, onUpdate, onDelete, onRestore, onImported }: HarvestTrackerProps) {
+  const [searchTerm, setSearchTerm] = useSearchParam("q");
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [cropFilter, setCropFilter] = useSearchParam("crop", "all");
+  const [fromDate, setFromDate] = useSearchParam("from");
+  const [toDate, setToDate] = useSearchParam("to");
+  const [sort, setSort] = useSortParam<Harvest>({ field: "harvestDate", order: "desc" }, HARVEST_SORT_FIELDS);
+  const harvestRoute = useRecordRoute("harvest");
+  const openHarvest = harvests.find((harvest) => harvest.id === harvestRoute.id);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingHarvest, setEditingHarvest] = useState<Harvest | null>(null);
   const [formData, setFormData] = useState({
@@ -38,20 +64,36 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
     notes: "",
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [conflict, setConflict] = useState<EditConflict<Harvest> | null>(null);
 
-  // Filter harvests
-  const filteredHarvests = harvests.filter((harvest) => {
-    return (
-      harvest.cropName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      harvest.distributionMethod.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      harvest.notes.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-  });
+  // Crop names for the filter
+  const cropNames = Array.from(new Set(harvests.map((harvest) => harvest.cropName))).sort();
+
+  // Filtered, sorted and paged by the server
+  const listQuery: HarvestListQuery = {
+    q: searchTerm.trim() || undefined,
+    cropName: cropFilter === "all" ? undefined : cropFilter,
+    from: fromDate || undefined,
+    to: toDate || undefined,
+    sort: sort.field,
+    order: sort.order,
+  };
+  const harvestPage = usePagedList(harvestsApi.getPage, listQuery, harvests);
+
+  const handleExport = async () => {
+    let exportHarvests: Harvest[];
+    try {
+      exportHarvests = await harvestsApi.getAll(listQuery);  // Every matching record, not just this page
+    } catch (error) {
+      console.error("Error exporting harvests:", error);
+      toast.error("Failed to export harvest data");
+      return;
+    }
 
-  const handleExport = () => {
     const csvContent = [
       ["Crop Name", "Harvest Date", "Quantity", "Distribution", "Notes"],
-      ...filteredHarvests.map(harvest => [
+      ...exportHarvests.map(harvest => [
         harvest.cropName,
         new Date(harvest.harvestDate).toLocaleDateString(),
         harvest.quantity,
@@ -94,6 +136,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
         notes: "",
       });
     }
+    setFieldErrors({});
     setIsDialogOpen(true);
   };
 
@@ -118,7 +161,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
     setIsSubmitting(true);
     try {
       if (editingHarvest && onUpdate) {
-        await onUpdate(editingHarvest.id, formData);
+        await onUpdate(editingHarvest.id, { ...formData, version: editingHarvest.version });
         toast.success("Harvest updated successfully!");
       } else if (onAdd) {
         await onAdd(formData);
@@ -126,7 +169,14 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
       }
       handleCloseDialog();
     } catch (error) {
+      const current = getConflict<Harvest>(error);
+      if (current && editingHarvest) {
+        setConflict({ base: editingHarvest, mine: formData, theirs: current });
+        handleCloseDialog();
+        return;
+      }
       console.error("Error saving harvest:", error);
+      setFieldErrors(getFieldErrors(error));
       toast.error("Failed to save harvest");
     } finally {
       setIsSubmitting(false);
@@ -139,7 +189,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
     if (window.confirm(`Are you sure you want to delete the harvest record for ${cropName}?`)) {
       try {
         await onDelete(id);
-        toast.success("Harvest deleted successfully!");
+        toastDeletedWithUndo("Harvest deleted successfully!", onRestore && (() => onRestore(id)));
       } catch (error) {
         console.error("Error deleting harvest:", error);
         toast.error("Failed to delete harvest");
@@ -156,7 +206,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
               <CardTitle>Harvest Records</CardTitle>
               <CardDescription>History of completed harvests and their distribution</CardDescription>
             </div>
-            {isAdmin && (
+            {canEdit && (
               <Button onClick={() => handleOpenDialog()}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Harvest
@@ -165,7 +215,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          {/* Search */}
+          {/* Search and Filters */}
           <div className="flex flex-col md:flex-row gap-4">
             <div className="flex-1 relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -176,6 +226,31 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
                 className="pl-10"
               />
             </div>
+            <Select value={cropFilter} onValueChange={setCropFilter}>
+              <SelectTrigger className="w-full md:w-[180px]">
+                <SelectValue placeholder="Filter by crop" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Crops</SelectItem>
+                {cropNames.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              aria-label="Harvested from"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-full md:w-[160px]"
+            />
+            <Input
+              type="date"
+              aria-label="Harvested to"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-full md:w-[160px]"
+            />
           </div>
 
           {/* Export Buttons */}
@@ -188,32 +263,55 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
               <Printer className="h-4 w-4 mr-2" />
               Print
             </Button>
+            {canEdit && (
+              <Button onClick={() => setIsImportOpen(true)} variant="outline" size="sm">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            )}
           </div>
 
+          <ImportWizard
+            entityType="harvest"
+            open={isImportOpen}
+            onClose={() => setIsImportOpen(false)}
+            onImported={onImported}
+          />
+
           {/* Table */}
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Crop Name</TableHead>
-                  <TableHead>Harvest Date</TableHead>
+                  <SortableTableHead field="cropName" sort={sort} onSort={setSort}>Crop Name</SortableTableHead>
+                  <SortableTableHead field="harvestDate" sort={sort} onSort={setSort}>Harvest Date</SortableTableHead>
                   <TableHead>Quantity</TableHead>
-                  <TableHead>Distribution</TableHead>
+                  <SortableTableHead field="distributionMethod" sort={sort} onSort={setSort}>Distribution</SortableTableHead>
                   <TableHead>Notes</TableHead>
-                  {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredHarvests.length === 0 ? (
+                {!harvestPage.hasLoaded ? (
                   <TableRow>
-                    <TableCell colSpan={isAdmin ? 6 : 5} className="text-center text-muted-foreground">
+                    <TableCell colSpan={canEdit ? 6 : 5} className="text-center text-muted-foreground">
+                      Loading harvest records...
+                    </TableCell>
+                  </TableRow>
+                ) : harvestPage.items.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={canEdit ? 6 : 5} className="text-center text-muted-foreground">
                       No harvest records found
                     </TableCell>
                   </TableRow>
                 ) : (
-                  filteredHarvests.map((harvest) => (
+                  harvestPage.items.map((harvest) => (
                     <TableRow key={harvest.id}>
-                      <TableCell>{harvest.cropName}</TableCell>
+                      <TableCell>
+                        <a href={harvestRoute.href(harvest.id)} onClick={linkTo(harvestRoute.href(harvest.id))} className="hover:underline">
+                          {harvest.cropName}
+                        </a>
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Calendar className="h-4 w-4 text-muted-foreground" />
@@ -223,7 +321,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
                       <TableCell>{harvest.quantity}</TableCell>
                       <TableCell>{harvest.distributionMethod}</TableCell>
                       <TableCell>{harvest.notes}</TableCell>
-                      {isAdmin && (
+                      {canEdit && (
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-2">
                             <Button
@@ -250,9 +348,14 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
             </Table>
           </div>
 
-          <p className="text-sm text-muted-foreground">
-            Showing {filteredHarvests.length} of {harvests.length} harvest records
-          </p>
+          <TablePagination
+            page={harvestPage.page}
+            pageSize={harvestPage.pageSize}
+            total={harvestPage.total}
+            noun="harvest records"
+            onPageChange={harvestPage.setPage}
+            disabled={harvestPage.isLoading}
+          />
         </CardContent>
       </Card>
 
@@ -265,6 +368,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
               {editingHarvest ? "Update harvest record details" : "Record a new harvest"}
             </DialogDescription>
           </DialogHeader>
+          <EditedElsewhereNotice editing={editingHarvest} records={harvests} noun="harvest" />
 
           <div className="space-y-4">
             <div className="space-y-2">
@@ -275,6 +379,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
                 onChange={(e) => setFormData({ ...formData, cropName: e.target.value })}
                 placeholder="e.g., Tomatoes, Lettuce"
               />
+              <FieldError message={fieldErrors.cropName} />
             </div>
 
             <div className="space-y-2">
@@ -285,6 +390,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
                 value={formData.harvestDate}
                 onChange={(e) => setFormData({ ...formData, harvestDate: e.target.value })}
               />
+              <FieldError message={fieldErrors.harvestDate} />
             </div>
 
             <div className="space-y-2">
@@ -295,6 +401,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
                 onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
                 placeholder="e.g., 50 kg, 200 pieces"
               />
+              <FieldError message={fieldErrors.quantity} />
             </div>
 
             <div className="space-y-2">
@@ -305,6 +412,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
                 onChange={(e) => setFormData({ ...formData, distributionMethod: e.target.value })}
                 placeholder="e.g., Community distribution, Market sale"
               />
+              <FieldError message={fieldErrors.distributionMethod} />
             </div>
 
             <div className="space-y-2">
@@ -316,6 +424,7 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
                 placeholder="Additional information about this harvest..."
                 rows={3}
               />
+              <FieldError message={fieldErrors.notes} />
             </div>
           </div>
 
@@ -329,6 +438,26 @@ export function HarvestTracker({ harvests, isAdmin = false, onAdd, onUpdate, onD
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Harvest opened by its link (/harvest/:id) */}
+      <RecordDetailsDialog
+        recordId={harvestRoute.id}
+        noun="harvest"
+        title={openHarvest?.cropName}
+        details={openHarvest ? fieldDetails(openHarvest, HARVEST_FIELDS) : null}
+        onEdit={canEdit && openHarvest ? () => { harvestRoute.close(); handleOpenDialog(openHarvest); } : undefined}
+        onClose={harvestRoute.close}
+      />
+
+      {/* Merge prompt after an edit conflict */}
+      {onUpdate && (
+        <ConflictDialog
+          conflict={conflict}
+          fields={HARVEST_FIELDS}
+          onSave={onUpdate}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,359 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { toast } from "sonner@2.0.3";
+import { importApi } from "../utils/api";
+import {
+  IMPORT_FIELDS,
+  guessMapping,
+  isRequiredField,
+  mapRows,
+  readSpreadsheet,
+  type ColumnMapping,
+  type SpreadsheetData,
+} from "../utils/spreadsheetImport";
+import type { DuplicateAction, ImportEntityType, ImportReport, ImportRowResult } from "../supabase/functions/_shared/types";
+
+interface ImportWizardProps {
+  entityType: ImportEntityType;
+  open: boolean;
+  onClose: () => void;
+  onImported?: () => void;  // Reload app data after records were created or updated
+}
+
+type Step = "upload" | "map" | "preview" | "report";
+
+const ENTITY_TITLES: Record<ImportEntityType, string> = {
+  crop: "Crops",
+  harvest: "Harvests",
+  budget: "Budget Expenses",
+  volunteer: "Volunteers",
+};
+
+// Select value for a field that isn't read from the file (Select can't use "")
+const NOT_IMPORTED = "none";
+// Rows listed in the preview and report; the rest are counted
+const MAX_ROWS_SHOWN = 200;
+// Fields shown to identify each row
+const SUMMARY_FIELDS = 3;
+
+/**
+ * Badge for what happened - or, in a preview, will happen - to a row
+ */
+function outcomeBadge(result: ImportRowResult, dryRun: boolean) {
+  const isDuplicate = result.duplicateOf !== undefined || result.duplicateOfRow !== undefined;
+  if (result.fieldErrors) {
+    return <Badge variant="destructive">Invalid</Badge>;
+  }
+  if (result.outcome === "created") {
+    return <Badge>{dryRun ? "New" : "Created"}</Badge>;
+  }
+  if (result.outcome === "updated") {
+    return <Badge variant="secondary">{dryRun ? "Will update" : "Updated"}</Badge>;
+  }
+  return <Badge variant="outline">{isDuplicate ? "Duplicate" : "Skipped"}</Badge>;
+}
+
+export function ImportWizard({ entityType, open, onClose, onImported }: ImportWizardProps) {
+  const fields = IMPORT_FIELDS[entityType];
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [onDuplicate, setOnDuplicate] = useState<DuplicateAction>("skip");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const fieldLabel = (field: string) => fields.find((f) => f.field === field)?.label || field;
+  const rows = data ? mapRows(entityType, data, mapping) : [];
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setData(null);
+    setMapping({});
+    setOnDuplicate("skip");
+    setReport(null);
+  };
+
+  const handleClose = () => {
+    if (report && !report.dryRun && report.created + report.updated > 0 && onImported) {
+      onImported();
+    }
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const spreadsheet = await readSpreadsheet(file);
+      if (spreadsheet.rows.length === 0) {
+        toast.error("The file has no rows below its header");
+        return;
+      }
+      setFileName(file.name);
+      setData(spreadsheet);
+      setMapping(guessMapping(entityType, spreadsheet.columns));
+      setStep("map");
+    } catch (error) {
+      console.error("Error reading spreadsheet:", error);
+      toast.error(error instanceof Error ? error.message : "Could not read the file");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Check every row on the server without saving anything
+  const runPreview = async (duplicates: DuplicateAction) => {
+    setIsWorking(true);
+    try {
+      setReport(await importApi.run(entityType, rows, duplicates, true));
+      setStep("preview");
+    } catch (error) {
+      console.error("Error checking import:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to check the rows");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDuplicateChange = (value: string) => {
+    setOnDuplicate(value as DuplicateAction);
+    runPreview(value as DuplicateAction);
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const result = await importApi.run(entityType, rows, onDuplicate, false);
+      setReport(result);
+      setStep("report");
+      toast.success(`Imported ${result.created + result.updated} of ${rows.length} rows`);
+    } catch (error) {
+      console.error("Error importing rows:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import rows");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const rowDetails = (result: ImportRowResult) => {
+    if (result.fieldErrors) {
+      return Object.entries(result.fieldErrors).map(([field, message]) => `${fieldLabel(field)}: ${message}`).join("; ");
+    }
+    if (result.duplicateOfRow !== undefined) {
+      return `Same as row ${result.duplicateOfRow + 1}`;
+    }
+    if (result.duplicateOf !== undefined) {
+      return "Matches an existing record";
+    }
+    return "";
+  };
+
+  const handleDownloadReport = () => {
+    if (!report) return;
+    const csvContent = [
+      ["Row", ...fields.map((f) => f.label), "Result", "Details"],
+      ...report.rows.map((result) => [
+        result.row + 1,
+        ...fields.map((f) => rows[result.row]?.[f.field] ?? ""),
+        result.outcome,
+        rowDetails(result),
+      ]),
+    ].map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")).join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `import-report-${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+  };
+
+  const missingRequired = fields.filter((f) => isRequiredField(entityType, f) && mapping[f.field] == null);
+  const invalidCount = report ? report.rows.filter((r) => r.fieldErrors).length : 0;
+  const duplicateCount = report ? report.rows.filter((r) => r.duplicateOf !== undefined || r.duplicateOfRow !== undefined).length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {ENTITY_TITLES[entityType]}</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel file. The first row must hold the column names."}
+            {step === "map" && `${fileName}: ${data?.rows.length} rows. Choose the column each field is read from.`}
+            {step === "preview" && "Nothing has been saved yet. Check the rows, then import."}
+            {step === "report" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: upload */}
+        {step === "upload" && (
+          <div className="space-y-2 py-4">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={isWorking}
+            />
+            <p className="text-xs text-muted-foreground">
+              Files exported with Export CSV can be imported as they are. Only the first sheet of an Excel file is read.
+            </p>
+          </div>
+        )}
+
+        {/* Step 2: map columns */}
+        {step === "map" && data && (
+          <div className="space-y-3">
+            {fields.map((field) => (
+              <div key={field.field} className="grid grid-cols-2 items-center gap-4">
+                <Label>
+                  {field.label}
+                  {isRequiredField(entityType, field) && <span className="text-red-600"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field.field] == null ? NOT_IMPORTED : String(mapping[field.field])}
+                  onValueChange={(value) =>
+                    setMapping({ ...mapping, [field.field]: value === NOT_IMPORTED ? null : Number(value) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_IMPORTED}>
+                      {field.defaultValue ? "Not imported (use default)" : "Not imported"}
+                    </SelectItem>
+                    {data.columns.map((column, i) => (
+                      <SelectItem key={i} value={String(i)}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600">
+                Choose a column for: {missingRequired.map((f) => f.label).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Steps 3 and 4: preview and report */}
+        {(step === "preview" || step === "report") && report && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge>{report.created} {report.dryRun ? "new" : "created"}</Badge>
+              <Badge variant="secondary">{report.updated} {report.dryRun ? "to update" : "updated"}</Badge>
+              <Badge variant="outline">{report.skipped} {report.dryRun ? "to skip" : "skipped"}</Badge>
+              {invalidCount > 0 && <Badge variant="destructive">{invalidCount} invalid</Badge>}
+            </div>
+
+            {step === "preview" && duplicateCount > 0 && (
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label>{duplicateCount} rows look like records that already exist</Label>
+                <Select value={onDuplicate} onValueChange={handleDuplicateChange} disabled={isWorking}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Skip them</SelectItem>
+                    <SelectItem value="update">Update the existing records</SelectItem>
+                    <SelectItem value="create">Import them as new records</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    {fields.slice(0, SUMMARY_FIELDS).map((field) => (
+                      <TableHead key={field.field}>{field.label}</TableHead>
+                    ))}
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.slice(0, MAX_ROWS_SHOWN).map((result) => (
+                    <TableRow key={result.row}>
+                      <TableCell className="align-top text-muted-foreground">{result.row + 1}</TableCell>
+                      {fields.slice(0, SUMMARY_FIELDS).map((field) => (
+                        <TableCell key={field.field} className="align-top">
+                          {String(rows[result.row]?.[field.field] ?? "")}
+                        </TableCell>
+                      ))}
+                      <TableCell className="align-top">
+                        {outcomeBadge(result, report.dryRun)}
+                        {rowDetails(result) && (
+                          <p className={`text-xs mt-1 ${result.fieldErrors ? "text-red-600" : "text-muted-foreground"}`}>
+                            {rowDetails(result)}
+                          </p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {report.rows.length > MAX_ROWS_SHOWN && (
+              <p className="text-xs text-muted-foreground">
+                and {report.rows.length - MAX_ROWS_SHOWN} more rows{step === "report" ? " (see the downloaded report)" : ""}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={isWorking}>Back</Button>
+              <Button
+                onClick={() => runPreview(onDuplicate)}
+                disabled={isWorking || missingRequired.length > 0}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview Rows
+              </Button>
+            </>
+          )}
+          {step === "preview" && report && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")} disabled={isWorking}>Back</Button>
+              <Button
+                onClick={handleImport}
+                disabled={isWorking || report.created + report.updated === 0}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {isWorking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSpreadsheet className="h-4 w-4 mr-2" />}
+                Import {report.created + report.updated} Rows
+              </Button>
+            </>
+          )}
+          {step === "report" && (
+            <>
+              <Button variant="outline" onClick={handleDownloadReport}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </Button>
+              <Button onClick={handleClose} className="bg-green-600 hover:bg-green-700">Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,22 +2,26 @@ import { useState } from "react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
-import { Eye, EyeOff, Sprout, Mail, Lock } from "lucide-react";
+import { Eye, EyeOff, Sprout, Mail, Lock, Wand2 } from "lucide-react";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { toast } from "sonner@2.0.3";
 import { signIn } from "../utils/auth";
 import { SignUpDialog } from "./SignUpDialog";
+import { PasswordResetDialog } from "./PasswordResetDialog";
+import { AUTH_PROVIDER } from "../utils/serverConfig";
 
 interface LandingPageProps {
   onLogin: (accessToken: string) => void;
+  needsSetup?: boolean;  // True on a fresh install with no administrator yet
 }
 
-export function LandingPage({ onLogin }: LandingPageProps) {
+export function LandingPage({ onLogin, needsSetup = false }: LandingPageProps) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showSignUpDialog, setShowSignUpDialog] = useState(false);
+  const [showResetDialog, setShowResetDialog] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -147,6 +151,17 @@ export function LandingPage({ onLogin }: LandingPageProps) {
             </p>
           </div>
 
+          {/* First-run notice */}
+          {needsSetup && (
+            <div className="rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-950 p-4 flex gap-3">
+              <Wand2 className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-800 dark:text-green-200">
+                This is a new installation. Sign up and sign in to start the setup wizard. 
+                The first account becomes the barangay's administrator.
+              </p>
+            </div>
+          )}
+
           {/* Login Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
@@ -210,6 +225,8 @@ export function LandingPage({ onLogin }: LandingPageProps) {
               <button
                 type="button"
                 className="text-sm text-green-600 hover:text-green-700 whitespace-nowrap"
+                // With local auth an administrator hands out reset codes
+                onClick={AUTH_PROVIDER === "local" ? () => setShowResetDialog(true) : undefined}
               >
                 Forgot password?
               </button>
@@ -245,6 +262,12 @@ export function LandingPage({ onLogin }: LandingPageProps) {
         onClose={() => setShowSignUpDialog(false)}
         onSignUpSuccess={handleSignUpSuccess}
       />
+
+      {/* Password Reset Dialog (local auth only) */}
+      <PasswordResetDialog
+        open={showResetDialog}
+        onClose={() => setShowResetDialog(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,120 @@
+import type { ReactNode } from "react";
+import { TableHead } from "./ui/table";
+import { Button } from "./ui/button";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react";
+import type { SortOrder } from "../supabase/functions/_shared/types";
+import { updateSearchParams, useLocation } from "../utils/router";
+
+export interface SortState<T> {
+  field: Extract<keyof T, string>;
+  order: SortOrder;
+}
+
+/**
+ * Sort state kept in the query string (?sort=amount&order=asc), so a
+ * sorted list survives a refresh and can be shared
+ * A field not in `fields` (e.g. from an old link) falls back to the default.
+ */
+export function useSortParam<T>(
+  defaultSort: SortState<T>,
+  fields: Array<Extract<keyof T, string>>
+): [SortState<T>, (sort: SortState<T>) => void] {
+  const params = new URLSearchParams(useLocation().search);
+  const field = fields.find((name) => name === params.get("sort"));
+  const order = params.get("order");
+  const sort: SortState<T> = {
+    field: field ?? defaultSort.field,
+    order: order === "asc" || order === "desc" ? order : defaultSort.order,
+  };
+
+  const setSort = (next: SortState<T>) => {
+    const isDefault = next.field === defaultSort.field && next.order === defaultSort.order;
+    updateSearchParams({ sort: isDefault ? null : next.field, order: isDefault ? null : next.order });
+  };
+
+  return [sort, setSort];
+}
+
+/**
+ * Sort by a new column (ascending), or flip the order of the current one
+ */
+export function toggleSort<T>(current: SortState<T>, field: Extract<keyof T, string>): SortState<T> {
+  if (current.field === field) {
+    return { field, order: current.order === "asc" ? "desc" : "asc" };
+  }
+  return { field, order: "asc" };
+}
+
+interface SortableTableHeadProps<T> {
+  field: Extract<keyof T, string>;
+  sort: SortState<T>;
+  onSort: (sort: SortState<T>) => void;
+  children: ReactNode;
+  className?: string;
+}
+
+export function SortableTableHead<T>({ field, sort, onSort, children, className }: SortableTableHeadProps<T>) {
+  const isActive = sort.field === field;
+  const Icon = !isActive ? ArrowUpDown : sort.order === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead className={className} aria-sort={isActive ? (sort.order === "asc" ? "ascending" : "descending") : "none"}>
+      <button
+        type="button"
+        onClick={() => onSort(toggleSort(sort, field))}
+        className="inline-flex items-center gap-1 hover:text-foreground"
+      >
+        {children}
+        <Icon className={`h-3 w-3 ${isActive ? "" : "opacity-40"}`} />
+      </button>
+    </TableHead>
+  );
+}
+
+interface TablePaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  noun: string;  // e.g. "crops"
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+export function TablePagination({ page, pageSize, total, noun, onPageChange, disabled = false }: TablePaginationProps) {
+  const pageCount = pageSize > 0 ? Math.max(1, Math.ceil(total / pageSize)) : 1;
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+      <p className="text-sm text-muted-foreground">
+        Showing {first}–{last} of {total} {noun}
+      </p>
+      {pageCount > 1 && (
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page - 1)}
+            disabled={disabled || page <= 1}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page + 1)}
+            disabled={disabled || page >= pageCount}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,21 +6,16 @@ import { Label } from "./ui/label";
 import { MapPin, Save, Loader2, Navigation, AlertCircle, CheckCircle2 } from "lucide-react";
 import { Alert, AlertDescription } from "./ui/alert";
 import { toast } from "sonner@2.0.3";
-import { projectId, publicAnonKey } from "../utils/supabase/info";
-
-interface LocationData {
-  city: string;
-  latitude: number;
-  longitude: number;
-  country: string;
-}
+import { publicAnonKey } from "../utils/supabase/info";
+import { SERVER_URL } from "../utils/serverConfig";
+import type { BarangayLocation } from "../supabase/functions/_shared/types";
 
 interface LocationSettingsProps {
   accessToken: string | null;
 }
 
 export function LocationSettings({ accessToken }: LocationSettingsProps) {
-  const [location, setLocation] = useState<LocationData>({
+  const [location, setLocation] = useState<BarangayLocation>({
     city: "",
     latitude: 0,
     longitude: 0,
@@ -40,7 +35,7 @@ export function LocationSettings({ accessToken }: LocationSettingsProps) {
     setIsLoading(true);
     try {
       const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-a8901673/settings/location`,
+        `${SERVER_URL}/settings/location`,
         {
           method: "GET",
           headers: {
@@ -92,7 +87,7 @@ export function LocationSettings({ accessToken }: LocationSettingsProps) {
     setIsSaving(true);
     try {
       const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-a8901673/settings/location`,
+        `${SERVER_URL}/settings/location`,
         {
           method: "PUT",
           headers: {
@@ -192,7 +187,7 @@ export function LocationSettings({ accessToken }: LocationSettingsProps) {
     );
   };
 
-  const handleInputChange = (field: keyof LocationData, value: string | number) => {
+  const handleInputChange = (field: keyof BarangayLocation, value: string | number) => {
     setLocation(prev => ({ ...prev, [field]: value }));
     setHasChanges(true);
   };
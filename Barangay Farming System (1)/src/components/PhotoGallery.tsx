@@ -10,25 +10,36 @@ import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { Calendar, Plus, Pencil, Trash2, Upload, X } from "lucide-react";
 import { useState, useRef } from "react";
 import { toast } from "sonner@2.0.3";
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { FieldError } from "./FieldError";
+import { ConflictDialog, EditedElsewhereNotice, type ConflictFields, type EditConflict } from "./ConflictDialog";
+import { RecordDetailsDialog, fieldDetails } from "./RecordDetails";
+import { getConflict, getFieldErrors } from "../utils/api";
+import { linkTo } from "../utils/router";
+import { useRecordRoute } from "../utils/routes";
+import type { Photo, EntityInput, FieldErrors } from "../supabase/functions/_shared/types";
 
-export interface Photo {
-  id: string;
-  url: string;
-  title: string;
-  description: string;
-  date: string;
-  category: "harvest" | "planting" | "event" | "progress";
-}
+export type { Photo };
+
+// Fields shown in the merge prompt when someone else edited the same photo
+const PHOTO_FIELDS: ConflictFields<Photo> = {
+  title: "Title",
+  description: "Description",
+  category: "Category",
+  date: "Date",
+  url: "Image",
+};
 
 interface PhotoGalleryProps {
   photos: Photo[];
-  isAdmin?: boolean;
-  onAdd?: (photo: Omit<Photo, "id">) => Promise<void>;
-  onUpdate?: (id: string, photo: Partial<Photo>) => Promise<void>;
-  onDelete?: (id: string) => Promise<void>;
+  canEdit?: boolean;
+  onAdd?: (photo: EntityInput<Photo>) => Promise<unknown>;
+  onUpdate?: (id: string, photo: EntityInput<Photo>) => Promise<unknown>;
+  onDelete?: (id: string) => Promise<unknown>;
+  onRestore?: (id: string) => Promise<unknown>;  // Undo a delete from the success toast
 }
 
-export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelete }: PhotoGalleryProps) {
+export function PhotoGallery({ photos, canEdit = false, onAdd, onUpdate, onDelete, onRestore }: PhotoGalleryProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingPhoto, setEditingPhoto] = useState<Photo | null>(null);
   const [formData, setFormData] = useState({
@@ -40,6 +51,17 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
   });
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [conflict, setConflict] = useState<EditConflict<Photo> | null>(null);
+  const photoRoute = useRecordRoute("photo");
+  const openPhoto = photos.find((photo) => photo.id === photoRoute.id);
+
+  // The photo itself in place of its URL
+  const openPhotoDetails = openPhoto && fieldDetails(openPhoto, PHOTO_FIELDS).map((detail) =>
+    detail.label === PHOTO_FIELDS.url
+      ? { ...detail, value: <ImageWithFallback src={openPhoto.url} alt={openPhoto.title} className="w-full rounded-md" /> }
+      : detail
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const getCategoryColor = (category: Photo["category"]) => {
@@ -77,6 +99,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
       });
       setImagePreview(null);
     }
+    setFieldErrors({});
     setIsDialogOpen(true);
   };
 
@@ -134,18 +157,18 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
       return;
     }
 
+    const photoData = {
+      title: formData.title,
+      description: formData.description,
+      category: formData.category,
+      date: formData.date || new Date().toISOString(),
+      url: formData.url,
+    };
+
     setIsSubmitting(true);
     try {
-      const photoData = {
-        title: formData.title,
-        description: formData.description,
-        category: formData.category,
-        date: formData.date || new Date().toISOString(),
-        url: formData.url,
-      };
-
       if (editingPhoto && onUpdate) {
-        await onUpdate(editingPhoto.id, photoData);
+        await onUpdate(editingPhoto.id, { ...photoData, version: editingPhoto.version });
         toast.success("Photo updated successfully!");
       } else if (onAdd) {
         await onAdd(photoData);
@@ -153,7 +176,14 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
       }
       handleCloseDialog();
     } catch (error) {
+      const current = getConflict<Photo>(error);
+      if (current && editingPhoto) {
+        setConflict({ base: editingPhoto, mine: photoData, theirs: current });
+        handleCloseDialog();
+        return;
+      }
       console.error("Error saving photo:", error);
+      setFieldErrors(getFieldErrors(error));
       toast.error("Failed to save photo");
     } finally {
       setIsSubmitting(false);
@@ -166,7 +196,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
     if (window.confirm(`Are you sure you want to delete "${title}"?`)) {
       try {
         await onDelete(id);
-        toast.success("Photo deleted successfully!");
+        toastDeletedWithUndo("Photo deleted successfully!", onRestore && (() => onRestore(id)));
       } catch (error) {
         console.error("Error deleting photo:", error);
         toast.error("Failed to delete photo");
@@ -183,7 +213,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
               <CardTitle>Photo Gallery</CardTitle>
               <CardDescription>Visual documentation of our garden journey</CardDescription>
             </div>
-            {isAdmin && (
+            {canEdit && (
               <Button onClick={() => handleOpenDialog()}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Photo
@@ -194,7 +224,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
         <CardContent>
           {photos.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
-              <p>No photos yet. {isAdmin && "Click 'Add Photo' to get started!"}</p>
+              <p>No photos yet. {canEdit && "Click 'Add Photo' to get started!"}</p>
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -209,7 +239,11 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
                   </div>
                   <div className="p-4">
                     <div className="flex items-start justify-between mb-2">
-                      <h4>{photo.title}</h4>
+                      <h4>
+                        <a href={photoRoute.href(photo.id)} onClick={linkTo(photoRoute.href(photo.id))} className="hover:underline">
+                          {photo.title}
+                        </a>
+                      </h4>
                       <Badge className={getCategoryColor(photo.category)}>
                         {photo.category}
                       </Badge>
@@ -220,7 +254,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
                         <Calendar className="h-3 w-3" />
                         <span>{new Date(photo.date).toLocaleDateString()}</span>
                       </div>
-                      {isAdmin && (
+                      {canEdit && (
                         <div className="flex gap-1">
                           <Button
                             variant="ghost"
@@ -256,6 +290,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
               {editingPhoto ? "Update photo details" : "Upload a new photo to the gallery"}
             </DialogDescription>
           </DialogHeader>
+          <EditedElsewhereNotice editing={editingPhoto} records={photos} noun="photo" />
 
           <div className="space-y-4">
             {/* Image Upload */}
@@ -324,6 +359,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
                     value={formData.url}
                     onChange={(e) => handleImageUrlInput(e.target.value)}
                   />
+                  <FieldError message={fieldErrors.url} />
                 </div>
               )}
             </div>
@@ -336,6 +372,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
                 onChange={(e) => setFormData({ ...formData, title: e.target.value })}
                 placeholder="e.g., First Harvest of Tomatoes"
               />
+              <FieldError message={fieldErrors.title} />
             </div>
 
             <div className="space-y-2">
@@ -347,6 +384,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
                 placeholder="Describe the photo..."
                 rows={3}
               />
+              <FieldError message={fieldErrors.description} />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -366,6 +404,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
                     <SelectItem value="progress">Progress</SelectItem>
                   </SelectContent>
                 </Select>
+                <FieldError message={fieldErrors.category} />
               </div>
 
               <div className="space-y-2">
@@ -376,6 +415,7 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
                   value={formData.date}
                   onChange={(e) => setFormData({ ...formData, date: e.target.value })}
                 />
+                <FieldError message={fieldErrors.date} />
               </div>
             </div>
           </div>
@@ -390,6 +430,26 @@ export function PhotoGallery({ photos, isAdmin = false, onAdd, onUpdate, onDelet
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Photo opened by its link (/gallery/:id) */}
+      <RecordDetailsDialog
+        recordId={photoRoute.id}
+        noun="photo"
+        title={openPhoto?.title}
+        details={openPhotoDetails ?? null}
+        onEdit={canEdit && openPhoto ? () => { photoRoute.close(); handleOpenDialog(openPhoto); } : undefined}
+        onClose={photoRoute.close}
+      />
+
+      {/* Merge prompt after an edit conflict */}
+      {onUpdate && (
+        <ConflictDialog
+          conflict={conflict}
+          fields={PHOTO_FIELDS}
+          onSave={onUpdate}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </>
   );
 }
@@ -2,14 +2,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/
 import { Calendar } from "./ui/calendar";
 import { Badge } from "./ui/badge";
 import { useState } from "react";
+import type { ScheduleEvent } from "../supabase/functions/_shared/types";
 
-export interface ScheduleEvent {
-  id: string;
-  date: string;
-  title: string;
-  type: "planting" | "harvest" | "maintenance" | "event";
-  description: string;
-}
+export type { ScheduleEvent };
 
 interface PlantingScheduleProps {
   events: ScheduleEvent[];
@@ -0,0 +1,660 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
+import { ArrowLeft, Search, Plus, Pencil, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner@2.0.3";
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { FieldError } from "./FieldError";
+import { ConflictDialog, EditedElsewhereNotice, type ConflictFields, type EditConflict } from "./ConflictDialog";
+import { SortableTableHead, TablePagination, useSortParam } from "./ListControls";
+import { getConflict, getFieldErrors, plotsApi } from "../utils/api";
+import { usePagedList } from "../utils/usePagedList";
+import { linkTo, useSearchParam } from "../utils/router";
+import { recordPath, useRecordRoute } from "../utils/routes";
+import { currentCrop, plotHistory } from "../utils/plotHistory";
+import type { Crop, EntityInput, FieldErrors, Harvest, Plot, PlotListQuery } from "../supabase/functions/_shared/types";
+
+export type { Plot };
+
+// Fields shown in the merge prompt when someone else edited the same plot
+const PLOT_FIELDS: ConflictFields<Plot> = {
+  code: "Plot Code",
+  areaSqm: "Area (m²)",
+  soilType: "Soil Type",
+  irrigation: "Irrigation",
+  shade: "Shade",
+  status: "Status",
+  notes: "Notes",
+};
+
+// Columns the plot list can be sorted by (see LIST_OPTIONS on the server)
+const PLOT_SORT_FIELDS: Array<keyof Plot & string> = ["code", "areaSqm", "soilType", "irrigation", "shade", "status"];
+
+export const IRRIGATION_LABELS: Record<Plot["irrigation"], string> = {
+  "none": "No water access",
+  "nearby": "Water nearby",
+  "on-plot": "Water on the plot",
+};
+
+export const SHADE_LABELS: Record<Plot["shade"], string> = {
+  "full-sun": "Full sun",
+  "partial-shade": "Partial shade",
+  "full-shade": "Full shade",
+};
+
+interface PlotFormData {
+  code: string;
+  areaSqm: string;   // Typed as text, parsed on save
+  soilType: string;
+  irrigation: Plot["irrigation"];
+  shade: Plot["shade"];
+  status: Plot["status"];
+  notes: string;
+}
+
+const EMPTY_FORM: PlotFormData = {
+  code: "",
+  areaSqm: "",
+  soilType: "",
+  irrigation: "none",
+  shade: "full-sun",
+  status: "active",
+  notes: "",
+};
+
+interface PlotRegistryProps {
+  plots: Plot[];        // The app's copy of the records - the table reloads its page when this changes
+  crops: Crop[];        // For each plot's current crop and history
+  harvests: Harvest[];  // For the harvests in a plot's history
+  canEdit?: boolean;
+  onAdd?: (plot: EntityInput<Plot>) => Promise<unknown>;
+  onUpdate?: (id: string, plot: EntityInput<Plot>) => Promise<unknown>;
+  onDelete?: (id: string) => Promise<unknown>;
+  onRestore?: (id: string) => Promise<unknown>;  // Undo a delete from the success toast
+}
+
+export function getPlotStatusBadge(status: Plot["status"]) {
+  switch (status) {
+    case "active":
+      return <Badge className="bg-green-500 hover:bg-green-600">Active</Badge>;
+    case "fallow":
+      return <Badge className="bg-amber-500 hover:bg-amber-600">Fallow</Badge>;
+    case "reserved":
+      return <Badge variant="secondary">Reserved</Badge>;
+  }
+}
+
+export function PlotRegistry({ plots, crops, harvests, canEdit = false, onAdd, onUpdate, onDelete, onRestore }: PlotRegistryProps) {
+  const [searchTerm, setSearchTerm] = useSearchParam("q");
+  const [statusFilter, setStatusFilter] = useSearchParam("status", "all");
+  const [sort, setSort] = useSortParam<Plot>({ field: "code", order: "asc" }, PLOT_SORT_FIELDS);
+  const plotRoute = useRecordRoute("plot");
+  const openPlot = plots.find((plot) => plot.id === plotRoute.id);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPlot, setEditingPlot] = useState<Plot | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedPlot, setSelectedPlot] = useState<Plot | null>(null);
+  const [formData, setFormData] = useState<PlotFormData>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [conflict, setConflict] = useState<EditConflict<Plot> | null>(null);
+
+  const handleOpenDialog = (plot?: Plot) => {
+    if (plot) {
+      setEditingPlot(plot);
+      setFormData({
+        code: plot.code,
+        areaSqm: plot.areaSqm.toString(),
+        soilType: plot.soilType,
+        irrigation: plot.irrigation,
+        shade: plot.shade,
+        status: plot.status,
+        notes: plot.notes,
+      });
+    } else {
+      setEditingPlot(null);
+      setFormData(EMPTY_FORM);
+    }
+    setFieldErrors({});
+    setIsDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setIsDialogOpen(false);
+    setEditingPlot(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.code || !formData.areaSqm || !formData.soilType) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    const areaSqm = parseFloat(formData.areaSqm);
+    if (isNaN(areaSqm) || areaSqm < 0) {
+      toast.error("Please enter a valid area");
+      return;
+    }
+
+    const plotData = { ...formData, areaSqm };
+
+    setIsSubmitting(true);
+    try {
+      if (editingPlot && onUpdate) {
+        await onUpdate(editingPlot.id, { ...plotData, version: editingPlot.version });
+        toast.success("Plot updated successfully!");
+      } else if (onAdd) {
+        await onAdd(plotData);
+        toast.success("Plot added successfully!");
+      }
+      handleCloseDialog();
+    } catch (error) {
+      const current = getConflict<Plot>(error);
+      if (current && editingPlot) {
+        setConflict({ base: editingPlot, mine: plotData, theirs: current });
+        handleCloseDialog();
+        return;
+      }
+      console.error("Error saving plot:", error);
+      setFieldErrors(getFieldErrors(error));
+      toast.error(error instanceof Error ? error.message : "Failed to save plot");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteClick = (plot: Plot) => {
+    setSelectedPlot(plot);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedPlot || !onDelete) return;
+
+    setIsSubmitting(true);
+    try {
+      const id = selectedPlot.id;
+      await onDelete(id);
+      toastDeletedWithUndo("Plot deleted successfully!", onRestore && (() => onRestore(id)));
+      setDeleteDialogOpen(false);
+      setSelectedPlot(null);
+    } catch (error) {
+      console.error("Error deleting plot:", error);
+      // e.g. crops were planted on it; the server says to mark it fallow instead
+      toast.error(error instanceof Error ? error.message : "Failed to delete plot");
+      setDeleteDialogOpen(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Filtered, sorted and paged by the server
+  const listQuery: PlotListQuery = {
+    q: searchTerm.trim() || undefined,
+    status: statusFilter === "all" ? undefined : statusFilter as Plot["status"],
+    sort: sort.field,
+    order: sort.order,
+  };
+  const plotPage = usePagedList(plotsApi.getPage, listQuery, plots);
+
+  const totalArea = plots.reduce((sum, plot) => sum + plot.areaSqm, 0);
+  const emptyPlots = plots.filter((plot) => plot.status === "active" && !currentCrop(crops, plot.code)).length;
+
+  return (
+    <>
+      {plotRoute.id ? (
+        <PlotDetails
+          plot={openPlot}
+          crops={crops}
+          harvests={harvests}
+          onEdit={canEdit && openPlot ? () => handleOpenDialog(openPlot) : undefined}
+          onBack={plotRoute.close}
+        />
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Plot Registry</CardTitle>
+                <CardDescription>The garden's plots and what grows on them</CardDescription>
+              </div>
+              {canEdit && (
+                <Button onClick={() => handleOpenDialog()} className="bg-green-600 hover:bg-green-700">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Plot
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Plots</p>
+                <p className="text-2xl">{plots.length}</p>
+              </div>
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Total Area</p>
+                <p className="text-2xl">{totalArea.toLocaleString()} m²</p>
+              </div>
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Empty Active Plots</p>
+                <p className="text-2xl">{emptyPlots}</p>
+              </div>
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Fallow</p>
+                <p className="text-2xl">{plots.filter((plot) => plot.status === "fallow").length}</p>
+              </div>
+            </div>
+
+            {/* Search and Filters */}
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search plot code, soil or notes..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Filter by status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Status</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="fallow">Fallow</SelectItem>
+                  <SelectItem value="reserved">Reserved</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Table */}
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <SortableTableHead field="code" sort={sort} onSort={setSort}>Plot</SortableTableHead>
+                    <SortableTableHead field="areaSqm" sort={sort} onSort={setSort}>Area</SortableTableHead>
+                    <SortableTableHead field="soilType" sort={sort} onSort={setSort}>Soil</SortableTableHead>
+                    <SortableTableHead field="irrigation" sort={sort} onSort={setSort}>Irrigation</SortableTableHead>
+                    <SortableTableHead field="shade" sort={sort} onSort={setSort}>Shade</SortableTableHead>
+                    <SortableTableHead field="status" sort={sort} onSort={setSort}>Status</SortableTableHead>
+                    <TableHead>Growing Now</TableHead>
+                    {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!plotPage.hasLoaded ? (
+                    <TableRow>
+                      <TableCell colSpan={canEdit ? 8 : 7} className="text-center text-muted-foreground">
+                        Loading plots...
+                      </TableCell>
+                    </TableRow>
+                  ) : plotPage.items.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={canEdit ? 8 : 7} className="text-center text-muted-foreground">
+                        No plots found matching your filters
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    plotPage.items.map((plot) => {
+                      const growing = currentCrop(crops, plot.code);
+                      return (
+                        <TableRow key={plot.id}>
+                          <TableCell>
+                            <a href={plotRoute.href(plot.id)} onClick={linkTo(plotRoute.href(plot.id))} className="hover:underline">
+                              {plot.code}
+                            </a>
+                          </TableCell>
+                          <TableCell>{plot.areaSqm.toLocaleString()} m²</TableCell>
+                          <TableCell>{plot.soilType}</TableCell>
+                          <TableCell>{IRRIGATION_LABELS[plot.irrigation]}</TableCell>
+                          <TableCell>{SHADE_LABELS[plot.shade]}</TableCell>
+                          <TableCell>{getPlotStatusBadge(plot.status)}</TableCell>
+                          <TableCell>
+                            {growing ? (
+                              <a href={recordPath("crop", growing.id)} onClick={linkTo(recordPath("crop", growing.id))} className="hover:underline">
+                                {growing.name}
+                              </a>
+                            ) : (
+                              <span className="text-muted-foreground">Empty</span>
+                            )}
+                          </TableCell>
+                          {canEdit && (
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                <Button variant="outline" size="sm" onClick={() => handleOpenDialog(plot)}>
+                                  <Pencil className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleDeleteClick(plot)}
+                                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <TablePagination
+              page={plotPage.page}
+              pageSize={plotPage.pageSize}
+              total={plotPage.total}
+              noun="plots"
+              onPageChange={plotPage.setPage}
+              disabled={plotPage.isLoading}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPlot ? "Edit Plot" : "Add Plot"}</DialogTitle>
+            <DialogDescription>
+              {editingPlot
+                ? `Update plot ${editingPlot.code}. A new code is changed on its crops too.`
+                : "Register a plot so crops can be planted on it"}
+            </DialogDescription>
+          </DialogHeader>
+          <EditedElsewhereNotice editing={editingPlot} records={plots} noun="plot" />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="plot-code">Plot Code *</Label>
+              <Input
+                id="plot-code"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                placeholder="e.g., A1"
+              />
+              <FieldError message={fieldErrors.code} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plot-area">Area (m²) *</Label>
+              <Input
+                id="plot-area"
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.areaSqm}
+                onChange={(e) => setFormData({ ...formData, areaSqm: e.target.value })}
+                placeholder="e.g., 20"
+              />
+              <FieldError message={fieldErrors.areaSqm} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plot-soil">Soil Type *</Label>
+              <Input
+                id="plot-soil"
+                value={formData.soilType}
+                onChange={(e) => setFormData({ ...formData, soilType: e.target.value })}
+                placeholder="e.g., Clay loam"
+              />
+              <FieldError message={fieldErrors.soilType} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plot-status">Status *</Label>
+              <Select value={formData.status} onValueChange={(value: Plot["status"]) => setFormData({ ...formData, status: value })}>
+                <SelectTrigger id="plot-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="fallow">Fallow</SelectItem>
+                  <SelectItem value="reserved">Reserved</SelectItem>
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldErrors.status} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plot-irrigation">Irrigation *</Label>
+              <Select value={formData.irrigation} onValueChange={(value: Plot["irrigation"]) => setFormData({ ...formData, irrigation: value })}>
+                <SelectTrigger id="plot-irrigation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(IRRIGATION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldErrors.irrigation} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plot-shade">Shade *</Label>
+              <Select value={formData.shade} onValueChange={(value: Plot["shade"]) => setFormData({ ...formData, shade: value })}>
+                <SelectTrigger id="plot-shade">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SHADE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FieldError message={fieldErrors.shade} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="plot-notes">Notes</Label>
+              <Textarea
+                id="plot-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="e.g., Floods after heavy rain"
+                rows={3}
+              />
+              <FieldError message={fieldErrors.notes} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCloseDialog} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting} className="bg-green-600 hover:bg-green-700">
+              {isSubmitting ? "Saving..." : editingPlot ? "Update Plot" : "Add Plot"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge prompt after an edit conflict */}
+      {onUpdate && (
+        <ConflictDialog
+          conflict={conflict}
+          fields={PLOT_FIELDS}
+          onSave={onUpdate}
+          onClose={() => setConflict(null)}
+        />
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete plot {selectedPlot?.code}. Only plots that never had crops can be
+              deleted; mark a used plot fallow instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isSubmitting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+interface PlotDetailsProps {
+  plot?: Plot;             // Undefined when the linked plot doesn't exist
+  crops: Crop[];
+  harvests: Harvest[];
+  onEdit?: () => void;     // Shown to users who may edit plots
+  onBack: () => void;
+}
+
+/**
+ * A plot opened by its link (/plots/:id): its details and every crop grown
+ * on it, newest first, with the harvests each produced
+ */
+function PlotDetails({ plot, crops, harvests, onEdit, onBack }: PlotDetailsProps) {
+  if (!plot) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Plot not found</CardTitle>
+          <CardDescription>This plot doesn't exist or was deleted. It may be in the trash.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All Plots
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const history = plotHistory(plot, crops, harvests);
+  const harvestCount = history.reduce((sum, planting) => sum + planting.harvests.length, 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Button variant="ghost" size="sm" onClick={onBack} className="mb-2 -ml-2">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                All Plots
+              </Button>
+              <CardTitle className="flex items-center gap-2">
+                Plot {plot.code}
+                {getPlotStatusBadge(plot.status)}
+              </CardTitle>
+              <CardDescription>
+                {history.length} planting{history.length === 1 ? "" : "s"} and {harvestCount} harvest{harvestCount === 1 ? "" : "s"} recorded
+              </CardDescription>
+            </div>
+            {onEdit && (
+              <Button onClick={onEdit} className="bg-green-600 hover:bg-green-700">
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit Plot
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-[auto_1fr] md:grid-cols-[auto_1fr_auto_1fr] gap-x-4 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Area</dt>
+            <dd>{plot.areaSqm.toLocaleString()} m²</dd>
+            <dt className="text-muted-foreground">Soil Type</dt>
+            <dd>{plot.soilType}</dd>
+            <dt className="text-muted-foreground">Irrigation</dt>
+            <dd>{IRRIGATION_LABELS[plot.irrigation]}</dd>
+            <dt className="text-muted-foreground">Shade</dt>
+            <dd>{SHADE_LABELS[plot.shade]}</dd>
+            {plot.notes && (
+              <>
+                <dt className="text-muted-foreground">Notes</dt>
+                <dd className="md:col-span-3 break-words">{plot.notes}</dd>
+              </>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Planting History</CardTitle>
+          <CardDescription>Every crop grown on this plot and the harvests it produced</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Crop</TableHead>
+                  <TableHead>Variety</TableHead>
+                  <TableHead>Date Planted</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Harvests</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      Nothing has been planted on this plot yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  history.map(({ crop, harvests: cropHarvests }) => (
+                    <TableRow key={crop.id}>
+                      <TableCell>
+                        <a href={recordPath("crop", crop.id)} onClick={linkTo(recordPath("crop", crop.id))} className="hover:underline">
+                          {crop.name}
+                        </a>
+                      </TableCell>
+                      <TableCell>{crop.variety}</TableCell>
+                      <TableCell>{new Date(crop.datePlanted).toLocaleDateString()}</TableCell>
+                      <TableCell className="capitalize">{crop.status}</TableCell>
+                      <TableCell>
+                        {cropHarvests.length === 0 ? (
+                          <span className="text-muted-foreground">None recorded</span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {cropHarvests.map((harvest) => (
+                              <li key={harvest.id}>
+                                <a href={recordPath("harvest", harvest.id)} onClick={linkTo(recordPath("harvest", harvest.id))} className="hover:underline">
+                                  {new Date(harvest.harvestDate).toLocaleDateString()}: {harvest.quantity}
+                                </a>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
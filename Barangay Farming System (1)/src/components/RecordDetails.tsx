@@ -0,0 +1,94 @@
+import type { ReactNode } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Link2, Pencil } from "lucide-react";
+import { toast } from "sonner@2.0.3";
+import { formatValue } from "./AuditChanges";
+
+export interface RecordDetail {
+  label: string;
+  value: ReactNode;
+}
+
+interface RecordDetailsDialogProps {
+  recordId: string | null;          // The record open in the URL (null = closed)
+  noun: string;                     // e.g. "crop"
+  title?: string;                   // The record's name, when it was found
+  details: RecordDetail[] | null;   // null when no such record is loaded
+  onEdit?: () => void;              // Shown to users who may edit the record
+  onClose: () => void;
+  children?: ReactNode;             // More about the record under its details (e.g. a crop's timeline)
+}
+
+/**
+ * Details for the fields a page already labels (its merge prompt fields)
+ */
+export function fieldDetails<T extends object>(record: T, fields: Partial<Record<keyof T & string, string>>): RecordDetail[] {
+  return Object.entries(fields).map(([field, label]) => ({
+    label: label as string,
+    value: formatValue(record[field as keyof T]),
+  }));
+}
+
+/**
+ * A record opened by its link (e.g. /crops/:id), shown over its page
+ * The link may point at a record that was since deleted, or one this
+ * device hasn't loaded; the dialog says so instead.
+ */
+export function RecordDetailsDialog({ recordId, noun, title, details, onEdit, onClose, children }: RecordDetailsDialogProps) {
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied");
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast.error("Couldn't copy the link. Copy it from the address bar instead.");
+    }
+  };
+
+  return (
+    <Dialog open={recordId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="capitalize">{details ? title || noun : `${noun} not found`}</DialogTitle>
+          <DialogDescription>
+            {details
+              ? `Details of this ${noun}`
+              : `This ${noun} doesn't exist or was deleted. It may be in the trash.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {details && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+            {details.map((detail) => (
+              <div key={detail.label} className="contents">
+                <dt className="text-muted-foreground">{detail.label}</dt>
+                <dd className="break-words">{detail.value || "—"}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {details && children}
+
+        <DialogFooter className="gap-2">
+          {details && (
+            <Button variant="outline" onClick={handleCopyLink}>
+              <Link2 className="h-4 w-4 mr-2" />
+              Copy Link
+            </Button>
+          )}
+          {details && onEdit && (
+            <Button onClick={onEdit} className="bg-green-600 hover:bg-green-700">
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
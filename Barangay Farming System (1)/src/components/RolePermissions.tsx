@@ -0,0 +1,187 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { KeyRound, Save, Loader2, AlertCircle, RotateCcw } from "lucide-react";
+import { toast } from "sonner@2.0.3";
+import { rolesApi } from "../utils/api";
+import {
+  ROLES,
+  ROLE_LABELS,
+  PERMISSIONS,
+  PERMISSION_LABELS,
+  DEFAULT_PERMISSION_MATRIX,
+  normalizePermissionMatrix,
+  type Permission,
+  type PermissionMatrix,
+  type Role,
+} from "../supabase/functions/_shared/permissions";
+
+interface RolePermissionsProps {
+  onMatrixSaved?: (matrix: PermissionMatrix) => void;
+}
+
+export function RolePermissions({ onMatrixSaved }: RolePermissionsProps) {
+  const [matrix, setMatrix] = useState<PermissionMatrix>(DEFAULT_PERMISSION_MATRIX);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const loadMatrix = async () => {
+    setIsLoading(true);
+    try {
+      const data = await rolesApi.getPermissions();
+      setMatrix(normalizePermissionMatrix(data));
+      setHasChanges(false);
+    } catch (error) {
+      console.error("Error loading role permissions:", error);
+      toast.error("Failed to load role permissions");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMatrix();
+  }, []);
+
+  const handleToggle = (role: Role, permission: Permission, checked: boolean) => {
+    setMatrix(prev => ({
+      ...prev,
+      [role]: checked
+        ? [...prev[role], permission]
+        : prev[role].filter(p => p !== permission),
+    }));
+    setHasChanges(true);
+  };
+
+  const handleResetDefaults = () => {
+    setMatrix(DEFAULT_PERMISSION_MATRIX);
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await rolesApi.updatePermissions(matrix);
+      setMatrix(saved);
+      setHasChanges(false);
+      onMatrixSaved?.(saved);
+      toast.success("Role permissions saved successfully!");
+    } catch (error) {
+      console.error("Error saving role permissions:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save role permissions");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-green-600 mb-2">Roles & Permissions</h2>
+        <p className="text-muted-foreground">
+          Choose what each role in the barangay is allowed to do.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5 text-green-600" />
+                Permission Matrix
+              </CardTitle>
+              <CardDescription>
+                Administrators always have every permission
+              </CardDescription>
+            </div>
+            <Button
+              onClick={handleResetDefaults}
+              variant="outline"
+              size="sm"
+              disabled={isLoading || isSaving}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to Defaults
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 text-green-600 animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Permission</TableHead>
+                      {ROLES.map((role) => (
+                        <TableHead key={role} className="text-center whitespace-nowrap">
+                          {ROLE_LABELS[role]}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {PERMISSIONS.map((permission) => (
+                      <TableRow key={permission}>
+                        <TableCell>
+                          <p>{PERMISSION_LABELS[permission]}</p>
+                          <p className="text-xs text-muted-foreground font-mono">{permission}</p>
+                        </TableCell>
+                        {ROLES.map((role) => (
+                          <TableCell key={role} className="text-center">
+                            <Checkbox
+                              checked={matrix[role].includes(permission)}
+                              disabled={role === "admin" || isSaving}
+                              onCheckedChange={(checked) => handleToggle(role, permission, checked === true)}
+                              aria-label={`${ROLE_LABELS[role]}: ${PERMISSION_LABELS[permission]}`}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Save button */}
+              <div className="flex gap-3">
+                <Button
+                  onClick={handleSave}
+                  disabled={isSaving || !hasChanges}
+                  className="w-full sm:w-auto"
+                >
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save Permissions
+                    </>
+                  )}
+                </Button>
+                {hasChanges && !isSaving && (
+                  <span className="text-sm text-muted-foreground flex items-center">
+                    <AlertCircle className="h-4 w-4 mr-1" />
+                    Unsaved changes
+                  </span>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
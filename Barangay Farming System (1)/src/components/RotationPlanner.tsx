@@ -0,0 +1,224 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { CalendarPlus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner@2.0.3";
+import { eventsApi } from "../utils/api";
+import { linkTo, useSearchParam } from "../utils/router";
+import { recordPath } from "../utils/routes";
+import { cropsOnPlot } from "../utils/plotHistory";
+import { varietyLabel } from "../utils/cropCatalog";
+import {
+  FAMILY_LABELS,
+  FAMILY_REST_SEASONS,
+  GROUP_LABELS,
+  familyOf,
+  planRotation,
+  seasonLabel,
+  seasonOf,
+  type PlannedPlanting,
+} from "../utils/rotation";
+import type { Crop, CropVariety, Plot, ScheduleEvent } from "../supabase/functions/_shared/types";
+
+// Earlier plantings listed on each plot's card
+const HISTORY_SHOWN = 4;
+
+// Seasons planned ahead on each plot
+const SEASONS_PLANNED = 4;
+
+interface RotationPlannerProps {
+  plots: Plot[];
+  crops: Crop[];
+  varieties: CropVariety[];   // The crop catalog, for each crop's family and the suggestions
+  events: ScheduleEvent[];    // The planting schedule, so accepted plans aren't added twice
+  canSchedule?: boolean;
+  onScheduled?: () => void;   // Reload the schedule after plantings are added
+}
+
+const plotSuffix = (plot: Plot) => ` on plot ${plot.code}`;
+
+const eventTitle = (plot: Plot, planting: PlannedPlanting) =>
+  `Plant ${planting.variety ? varietyLabel(planting.variety) : GROUP_LABELS[planting.group].toLowerCase()}${plotSuffix(plot)}`;
+
+/**
+ * Each plot's recent plantings and a suggested rotation for the coming
+ * seasons, which can be added to the planting schedule
+ */
+export function RotationPlanner({ plots, crops, varieties, events, canSchedule = false, onScheduled }: RotationPlannerProps) {
+  const [plotFilter, setPlotFilter] = useSearchParam("plot", "all");
+  const [schedulingId, setSchedulingId] = useState<string | null>(null);
+
+  // Reserved plots aren't planted, so they get no plan
+  const plannedPlots = plots
+    .filter((plot) => plot.status !== "reserved")
+    .sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+  const shownPlots = plannedPlots.filter((plot) => plotFilter === "all" || plot.code === plotFilter);
+
+  // Matched by plot and season rather than date: the first planting of a
+  // free plot is dated today, so its date moves on after it is scheduled
+  const isScheduled = (plot: Plot, planting: PlannedPlanting) =>
+    events.some((event) =>
+      event.type === "planting" &&
+      event.title.endsWith(plotSuffix(plot)) &&
+      seasonOf(event.date).index === planting.season.index
+    );
+
+  const handleSchedule = async (plot: Plot, plan: PlannedPlanting[]) => {
+    const unscheduled = plan.filter((planting) => planting.variety && !isScheduled(plot, planting));
+    if (unscheduled.length === 0) {
+      toast.info(`The plan for plot ${plot.code} is already on the schedule`);
+      return;
+    }
+
+    setSchedulingId(plot.id);
+    try {
+      for (const planting of unscheduled) {
+        await eventsApi.create({
+          date: planting.date,
+          title: eventTitle(plot, planting),
+          type: "planting",
+          description: `${seasonLabel(planting.season)} in the crop rotation of plot ${plot.code}: ${GROUP_LABELS[planting.group].toLowerCase()}.`,
+        });
+      }
+      toast.success(`Added ${unscheduled.length} planting${unscheduled.length === 1 ? "" : "s"} to the schedule`);
+    } catch (error) {
+      console.error("Error scheduling rotation:", error);
+      toast.error("Failed to add the plan to the schedule");
+    } finally {
+      setSchedulingId(null);
+      onScheduled?.();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Crop Rotation Planner</CardTitle>
+          <CardDescription>
+            Plantings follow fruit crops with legumes, then leafy crops, then roots and bulbs, and a plant family
+            waits {FAMILY_REST_SEASONS} seasons before returning to the same plot. Families come from the crop catalog.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select value={plotFilter} onValueChange={setPlotFilter}>
+            <SelectTrigger className="w-full md:w-[200px]">
+              <SelectValue placeholder="Filter by plot" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Plots</SelectItem>
+              {plannedPlots.map((plot) => (
+                <SelectItem key={plot.id} value={plot.code}>Plot {plot.code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {shownPlots.length === 0 && (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No plots to plan yet. Add plots in the plot registry first.
+          </CardContent>
+        </Card>
+      )}
+
+      {shownPlots.map((plot) => {
+        const history = cropsOnPlot(crops, plot.code).slice(0, HISTORY_SHOWN);
+        const plan = planRotation(plot, crops, varieties, SEASONS_PLANNED);
+        const canAccept = plan.some((planting) => planting.variety && !isScheduled(plot, planting));
+
+        return (
+          <Card key={plot.id}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>
+                  <a href={recordPath("plot", plot.id)} onClick={linkTo(recordPath("plot", plot.id))} className="hover:underline">
+                    Plot {plot.code}
+                  </a>
+                </CardTitle>
+                <CardDescription>
+                  {plot.areaSqm} m² · {plot.soilType || "Soil not recorded"}
+                </CardDescription>
+              </div>
+              {canSchedule && (
+                <Button
+                  size="sm"
+                  onClick={() => handleSchedule(plot, plan)}
+                  disabled={!canAccept || schedulingId !== null}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  {schedulingId === plot.id ? "Adding..." : canAccept ? "Add to Schedule" : "Scheduled"}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Recent Plantings</h3>
+                {history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing planted on this plot yet</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {history.map((crop) => {
+                      const family = familyOf(varieties, crop);
+                      return (
+                        <Badge key={crop.id} variant="outline" className="font-normal">
+                          {crop.name} · {seasonLabel(seasonOf(crop.datePlanted))}
+                          {family ? ` · ${FAMILY_LABELS[family]}` : " · Not in the catalog"}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Season</TableHead>
+                      <TableHead>Plant From</TableHead>
+                      <TableHead>Rotation Group</TableHead>
+                      <TableHead>Suggested Crop</TableHead>
+                      <TableHead>Schedule</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.map((planting) => (
+                      <TableRow key={planting.season.index}>
+                        <TableCell>{seasonLabel(planting.season)}</TableCell>
+                        <TableCell>{new Date(planting.date).toLocaleDateString()}</TableCell>
+                        <TableCell>{GROUP_LABELS[planting.group]}</TableCell>
+                        <TableCell>
+                          {planting.variety ? (
+                            <>
+                              {varietyLabel(planting.variety)}
+                              <span className="block text-xs text-muted-foreground">{FAMILY_LABELS[planting.variety.family]}</span>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">No catalog entry fits this season</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {isScheduled(plot, planting) ? (
+                            <Badge className="bg-green-500 hover:bg-green-600">Scheduled</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">Not scheduled</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import { Sprout, MapPin, Navigation, ShieldCheck, Loader2, ArrowLeft, ArrowRight } from "lucide-react";
+import { toast } from "sonner@2.0.3";
+import { setupApi } from "../utils/api";
+import type { BarangayLocation, UserProfile } from "../supabase/functions/_shared/types";
+
+interface SetupWizardProps {
+  userProfile: UserProfile | null;
+  onComplete: (profile: UserProfile) => void;
+}
+
+const STEPS = ["Barangay", "Location", "Administrator"];
+
+export function SetupWizard({ userProfile, onComplete }: SetupWizardProps) {
+  const [step, setStep] = useState(0);
+  const [barangayName, setBarangayName] = useState("");
+  const [location, setLocation] = useState<BarangayLocation>({
+    city: "",
+    latitude: 0,
+    longitude: 0,
+    country: "PH",
+  });
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validateStep = (): boolean => {
+    if (step === 0 && !barangayName.trim()) {
+      toast.error("Barangay name is required");
+      return false;
+    }
+
+    if (step === 1) {
+      if (!location.city.trim()) {
+        toast.error("City name is required");
+        return false;
+      }
+      if (location.latitude < -90 || location.latitude > 90) {
+        toast.error("Latitude must be between -90 and 90");
+        return false;
+      }
+      if (location.longitude < -180 || location.longitude > 180) {
+        toast.error("Longitude must be between -180 and 180");
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const handleNext = () => {
+    if (validateStep()) {
+      setStep(step + 1);
+    }
+  };
+
+  const handleAutoDetect = () => {
+    if (!navigator.geolocation) {
+      toast.error("Geolocation is not supported by your browser");
+      return;
+    }
+
+    setIsDetecting(true);
+
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const lat = position.coords.latitude;
+        const lon = position.coords.longitude;
+
+        try {
+          // Reverse geocode the coordinates to a city name (OpenStreetMap Nominatim)
+          const response = await fetch(
+            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lon}`
+          );
+          const data = await response.json();
+
+          const city = data.address?.city ||
+                      data.address?.municipality ||
+                      data.address?.town ||
+                      data.address?.village ||
+                      "";
+
+          setLocation({
+            city,
+            latitude: lat,
+            longitude: lon,
+            country: data.address?.country_code?.toUpperCase() || "PH",
+          });
+          toast.success(city ? `Location detected: ${city}` : "Coordinates detected. Please enter city name manually.");
+        } catch (error) {
+          console.error("Error getting city name:", error);
+          setLocation(prev => ({ ...prev, latitude: lat, longitude: lon }));
+          toast.success("Coordinates detected. Please enter city name manually.");
+        } finally {
+          setIsDetecting(false);
+        }
+      },
+      () => {
+        toast.error("Unable to retrieve your location");
+        setIsDetecting(false);
+      }
+    );
+  };
+
+  const handleFinish = async () => {
+    setIsSubmitting(true);
+    try {
+      const profile = await setupApi.complete({
+        barangayName: barangayName.trim(),
+        location: { ...location, city: location.city.trim() },
+      });
+      toast.success(`Welcome, administrator of Barangay ${barangayName.trim()}!`);
+      onComplete(profile);
+    } catch (error) {
+      console.error("Error completing setup:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to complete setup");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-emerald-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <Card className="w-full max-w-xl">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="bg-green-600 p-2 rounded-lg">
+              <Sprout className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <CardTitle>Set Up Your Barangay</CardTitle>
+              <CardDescription>
+                Step {step + 1} of {STEPS.length}: {STEPS[step]}
+              </CardDescription>
+            </div>
+          </div>
+          <Progress value={((step + 1) / STEPS.length) * 100} />
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Step 1 - Barangay name */}
+          {step === 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="setup-barangay">Barangay Name</Label>
+              <Input
+                id="setup-barangay"
+                value={barangayName}
+                onChange={(e) => setBarangayName(e.target.value)}
+                placeholder="e.g., San Isidro"
+                autoFocus
+              />
+              <p className="text-sm text-muted-foreground">
+                Shown in the header for everyone using the system
+              </p>
+            </div>
+          )}
+
+          {/* Step 2 - Location */}
+          {step === 1 && (
+            <div className="space-y-4">
+              <div>
+                <Button
+                  onClick={handleAutoDetect}
+                  disabled={isDetecting}
+                  variant="outline"
+                  className="w-full sm:w-auto"
+                >
+                  <Navigation className={`h-4 w-4 mr-2 ${isDetecting ? 'animate-spin' : ''}`} />
+                  {isDetecting ? "Detecting Location..." : "Auto-Detect Current Location"}
+                </Button>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Used for the weather forecast. You can change it later in Location Settings.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="setup-city">City/Municipality</Label>
+                  <div className="relative">
+                    <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="setup-city"
+                      value={location.city}
+                      onChange={(e) => setLocation({ ...location, city: e.target.value })}
+                      placeholder="e.g., Kabankalan City"
+                      className="pl-9"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="setup-country">Country Code</Label>
+                  <Input
+                    id="setup-country"
+                    value={location.country}
+                    onChange={(e) => setLocation({ ...location, country: e.target.value.toUpperCase() })}
+                    placeholder="e.g., PH"
+                    maxLength={2}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="setup-latitude">Latitude</Label>
+                  <Input
+                    id="setup-latitude"
+                    type="number"
+                    step="0.000001"
+                    value={location.latitude}
+                    onChange={(e) => setLocation({ ...location, latitude: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="setup-longitude">Longitude</Label>
+                  <Input
+                    id="setup-longitude"
+                    type="number"
+                    step="0.000001"
+                    value={location.longitude}
+                    onChange={(e) => setLocation({ ...location, longitude: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Step 3 - Confirm initial administrator */}
+          {step === 2 && (
+            <div className="space-y-4">
+              <div className="rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-950 p-4 flex gap-3">
+                <ShieldCheck className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+                <div className="text-sm">
+                  <p className="text-green-900 dark:text-green-100">
+                    <strong>{userProfile?.name || userProfile?.email}</strong> will become the administrator.
+                  </p>
+                  <p className="text-green-700 dark:text-green-300 mt-1">
+                    Administrators can register users, change roles and edit permissions.
+                    You can promote other administrators later from User Management.
+                  </p>
+                </div>
+              </div>
+
+              <div className="text-sm space-y-1">
+                <p><span className="text-muted-foreground">Barangay:</span> {barangayName.trim()}</p>
+                <p>
+                  <span className="text-muted-foreground">Location:</span> {location.city.trim()}, {location.country}{" "}
+                  <span className="text-xs text-muted-foreground">
+                    ({location.latitude.toFixed(4)}, {location.longitude.toFixed(4)})
+                  </span>
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Navigation */}
+          <div className="flex justify-between pt-2">
+            <Button
+              variant="outline"
+              onClick={() => setStep(step - 1)}
+              disabled={step === 0 || isSubmitting}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            {step < STEPS.length - 1 ? (
+              <Button onClick={handleNext}>
+                Next
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            ) : (
+              <Button onClick={handleFinish} disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Finishing...
+                  </>
+                ) : (
+                  "Finish Setup"
+                )}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,17 +1,26 @@
-import { LayoutDashboard, Sprout, Calendar, Wallet, Bell, CalendarDays, Users, Image, Heart, X, User, UserPlus, Users2, MapPin } from "lucide-react";
+import { LayoutDashboard, Sprout, Calendar, Wallet, Bell, CalendarDays, Users, Image, Heart, X, User, UserPlus, Users2, MapPin, KeyRound, ScrollText, Trash2, Database, Archive, LayoutGrid, LandPlot, BookOpen, Repeat, Handshake } from "lucide-react";
 import { cn } from "./ui/utils";
+import type { MouseEvent } from "react";
+import { isPlainClick } from "../utils/router";
+import { ADMIN_PAGE_PERMISSIONS, pagePath } from "../utils/routes";
+import type { Permission } from "../supabase/functions/_shared/permissions";
 
 interface SidebarProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
   isMobileOpen: boolean;
   onMobileClose: () => void;
-  isAdmin?: boolean;
+  permissions?: Permission[];
 }
 
 const navigationItems = [
   { id: "dashboard", label: "Dashboard", icon: LayoutDashboard },
   { id: "crops", label: "Crops", icon: Sprout },
+  { id: "plots", label: "Plots", icon: LayoutGrid },
+  { id: "garden-map", label: "Garden Map", icon: LandPlot },
+  { id: "catalog", label: "Crop Catalog", icon: BookOpen },
+  { id: "rotation", label: "Rotation Planner", icon: Repeat },
+  { id: "companions", label: "Companion Planting", icon: Handshake },
   { id: "harvest", label: "Harvest", icon: Calendar },
   { id: "budget", label: "Budget", icon: Wallet },
   { id: "volunteers", label: "Volunteers", icon: Users },
@@ -22,21 +31,33 @@ const navigationItems = [
   { id: "profile", label: "Profile", icon: User },
 ];
 
+// Each administration page is shown only to roles holding its permission
+// (ADMIN_PAGE_PERMISSIONS in utils/routes.ts)
 const adminNavigationItems = [
-  { id: "register", label: "Register User", icon: UserPlus, adminOnly: true },
-  { id: "user-management", label: "User Management", icon: Users2, adminOnly: true },
-  { id: "location-settings", label: "Location Settings", icon: MapPin, adminOnly: true },
+  { id: "register", label: "Register User", icon: UserPlus },
+  { id: "user-management", label: "User Management", icon: Users2 },
+  { id: "role-permissions", label: "Roles & Permissions", icon: KeyRound },
+  { id: "location-settings", label: "Location Settings", icon: MapPin },
+  { id: "audit-log", label: "Audit Log", icon: ScrollText },
+  { id: "trash", label: "Trash", icon: Trash2 },
+  { id: "migrations", label: "Data Migrations", icon: Database },
+  { id: "backup", label: "Backup & Restore", icon: Archive },
 ];
 
-export function Sidebar({ activeTab, onTabChange, isMobileOpen, onMobileClose, isAdmin = false }: SidebarProps) {
-  const handleItemClick = (id: string) => {
+export function Sidebar({ activeTab, onTabChange, isMobileOpen, onMobileClose, permissions = [] }: SidebarProps) {
+  const visibleAdminItems = adminNavigationItems.filter((item) => permissions.includes(ADMIN_PAGE_PERMISSIONS[item.id]));
+
+  // Items are links, so they can also be opened in a new tab
+  const handleItemClick = (event: MouseEvent, id: string) => {
+    if (!isPlainClick(event)) return;
+    event.preventDefault();
     onTabChange(id);
     onMobileClose();
   };
 
   return (
     <aside className={cn(
-      "fixed left-0 top-0 z-40 h-full w-64 bg-card border-r transition-transform duration-300 ease-in-out overflow-y-auto",
+      "fixed left-0 top-0 z-40 h-full w-64 bg-card border-r transition-transform duration-300 ease-in-out overflow-y-auto print:hidden",
       "lg:translate-x-0",
       isMobileOpen ? "translate-x-0" : "-translate-x-full"
     )}>
@@ -68,9 +89,11 @@ export function Sidebar({ activeTab, onTabChange, isMobileOpen, onMobileClose, i
           const isActive = activeTab === item.id;
           
           return (
-            <button
+            <a
               key={item.id}
-              onClick={() => handleItemClick(item.id)}
+              href={pagePath(item.id)}
+              onClick={(event) => handleItemClick(event, item.id)}
+              aria-current={isActive ? "page" : undefined}
               className={cn(
                 "w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors",
                 isActive
@@ -80,26 +103,28 @@ export function Sidebar({ activeTab, onTabChange, isMobileOpen, onMobileClose, i
             >
               <Icon className="h-5 w-5" />
               <span>{item.label}</span>
-            </button>
+            </a>
           );
         })}
 
-        {/* Admin-only navigation items */}
-        {isAdmin && (
+        {/* Administration items the user has permission for */}
+        {visibleAdminItems.length > 0 && (
           <>
             <div className="pt-2 mt-2 border-t">
               <p className="px-4 py-2 text-xs uppercase tracking-wider text-muted-foreground">
                 Administration
               </p>
             </div>
-            {adminNavigationItems.map((item) => {
+            {visibleAdminItems.map((item) => {
               const Icon = item.icon;
               const isActive = activeTab === item.id;
               
               return (
-                <button
+                <a
                   key={item.id}
-                  onClick={() => handleItemClick(item.id)}
+                  href={pagePath(item.id)}
+                  onClick={(event) => handleItemClick(event, item.id)}
+                  aria-current={isActive ? "page" : undefined}
                   className={cn(
                     "w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors",
                     isActive
@@ -109,7 +134,7 @@ export function Sidebar({ activeTab, onTabChange, isMobileOpen, onMobileClose, i
                 >
                   <Icon className="h-5 w-5" />
                   <span>{item.label}</span>
-                </button>
+                </a>
               );
             })}
           </>
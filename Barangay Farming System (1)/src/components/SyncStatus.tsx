@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Button } from "./ui/button";
+import { AlertTriangle, Cloud, CloudUpload, RefreshCw, WifiOff } from "lucide-react";
+import { ConflictDialog, type ConflictFields, type EditConflict } from "./ConflictDialog";
+import { QUERY_KEYS, discardQueuedChange, saveMergedChange, syncPendingChanges } from "../utils/useCollections";
+import { retryChange, useSyncStatus, type QueuedChange, type QueuedRecord } from "../utils/syncQueue";
+
+type ReviewRecord = QueuedRecord & Record<string, unknown>;
+
+interface Review {
+  change: QueuedChange;
+  conflict: EditConflict<ReviewRecord>;
+  fields: ConflictFields<ReviewRecord>;
+}
+
+// Cache key -> what a record is called in the problem list
+const RECORD_NOUNS: Record<string, string> = {
+  [QUERY_KEYS.plots]: "plot",
+  [QUERY_KEYS.varieties]: "catalog entry",
+  [QUERY_KEYS.crops]: "crop",
+  [QUERY_KEYS.cropActivities]: "crop activity",
+  [QUERY_KEYS.harvests]: "harvest record",
+  [QUERY_KEYS.budgetItems]: "expense",
+  [QUERY_KEYS.volunteers]: "volunteer",
+  [QUERY_KEYS.tasks]: "task",
+  [QUERY_KEYS.polls]: "poll",
+  [QUERY_KEYS.feedbacks]: "feedback",
+  [QUERY_KEYS.photos]: "photo",
+  [QUERY_KEYS.updates]: "update",
+};
+
+// Fields that name a record, in order of preference
+const NAME_FIELDS = ["name", "title", "cropName", "question", "description", "code"];
+
+// Fields the server manages, left out of the merge prompt
+const SERVER_FIELDS = ["version", "updatedAt", "deletedAt"];
+
+function describeChange(change: QueuedChange): string {
+  const noun = RECORD_NOUNS[change.key] ?? "record";
+  const record: Record<string, unknown> = { ...change.base, ...change.input };
+  const name = NAME_FIELDS.map((field) => record[field]).find((value) => typeof value === "string" && value);
+  const action = change.action === "create" ? "New" : change.action === "update" ? "Edited" : "Deleted";
+  return `${action} ${noun}${name ? `: ${name}` : ""}`;
+}
+
+// "plotNumber" -> "Plot number"
+function fieldLabel(field: string): string {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function timeAgo(date: string): string {
+  const diff = Math.floor((Date.now() - new Date(date).getTime()) / 1000); // seconds
+
+  if (diff < 60) return "just now";
+  if (diff < 3600) return `${Math.floor(diff / 60)} min ago`;
+  if (diff < 86400) return `${Math.floor(diff / 3600)} hr ago`;
+  return new Date(date).toLocaleString();
+}
+
+/**
+ * Header indicator for offline use: connection, changes waiting to sync,
+ * the last sync time, and changes the server refused
+ * A refused edit (someone else saved the record first) opens the merge
+ * prompt; other refused changes can be retried or discarded.
+ */
+export function SyncStatus() {
+  const { isOnline, isSyncing, lastSyncedAt, pending, problems } = useSyncStatus();
+  const [review, setReview] = useState<Review | null>(null);
+  const [, setTick] = useState(0);
+
+  // Keep "synced ... ago" current
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const openReview = (change: QueuedChange) => {
+    const theirs = change.problem?.current as ReviewRecord;
+    const mine = (change.input ?? {}) as Omit<ReviewRecord, "id">;
+    const fields: ConflictFields<ReviewRecord> = {};
+    for (const field of Object.keys(mine)) {
+      if (!SERVER_FIELDS.includes(field)) {
+        fields[field] = fieldLabel(field);
+      }
+    }
+    setReview({
+      change,
+      conflict: { base: (change.base as ReviewRecord) ?? theirs, mine, theirs },
+      fields,
+    });
+  };
+
+  const handleRetry = (change: QueuedChange) => {
+    retryChange(change.id);
+    syncPendingChanges();
+  };
+
+  let icon = <Cloud className="h-4 w-4 text-green-600" />;
+  let label = lastSyncedAt ? `Synced ${timeAgo(lastSyncedAt)}` : "Online";
+  if (!isOnline) {
+    icon = <WifiOff className="h-4 w-4 text-amber-600" />;
+    label = pending.length > 0 ? `Offline • ${pending.length} pending` : "Offline";
+  } else if (isSyncing) {
+    icon = <RefreshCw className="h-4 w-4 animate-spin text-green-600" />;
+    label = "Syncing...";
+  } else if (problems.length > 0) {
+    icon = <AlertTriangle className="h-4 w-4 text-amber-600" />;
+    label = `${problems.length} to review`;
+  } else if (pending.length > 0) {
+    icon = <CloudUpload className="h-4 w-4 text-amber-600" />;
+    label = `${pending.length} pending`;
+  }
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="rounded-full gap-2" aria-label={`Sync status: ${label}`}>
+            {icon}
+            <span className="hidden sm:inline text-xs">{label}</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-3">
+          <div>
+            <p className="text-sm">{isOnline ? "Online" : "Offline"}</p>
+            <p className="text-xs text-muted-foreground">
+              {lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}` : "Not synced yet on this device"}
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {pending.length === 0
+                ? "All changes are saved to the server."
+                : `${pending.length} change${pending.length === 1 ? "" : "s"} waiting to sync`}
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => syncPendingChanges()}
+              disabled={!isOnline || isSyncing || pending.length === 0}
+            >
+              <RefreshCw className={`h-3 w-3 mr-1 ${isSyncing ? "animate-spin" : ""}`} />
+              Sync Now
+            </Button>
+          </div>
+
+          {problems.length > 0 && (
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-sm">Couldn't sync</p>
+              {problems.map((change) => (
+                <div key={change.id} className="rounded-md border p-2 space-y-2">
+                  <div>
+                    <p className="text-sm">{describeChange(change)}</p>
+                    <p className="text-xs text-muted-foreground">{change.problem?.message}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    {change.action === "update" && change.problem?.current ? (
+                      <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => openReview(change)}>
+                        Review
+                      </Button>
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => handleRetry(change)} disabled={!isOnline}>
+                        Retry
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => discardQueuedChange(change)}>
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {/* Merge prompt for an offline edit someone else overtook */}
+      <ConflictDialog
+        conflict={review?.conflict ?? null}
+        fields={review?.fields ?? {}}
+        onSave={(_id, merged) => saveMergedChange(review!.change, merged)}
+        onClose={() => {
+          if (review) discardQueuedChange(review.change);
+          setReview(null);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
+import { Trash2, Loader2, RefreshCw, RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner@2.0.3";
+import { FieldError } from "./FieldError";
+import { ENTITY_LABELS } from "./AuditLog";
+import { trashApi, getFieldErrors } from "../utils/api";
+import type { FieldErrors, TrashItem } from "../supabase/functions/_shared/types";
+
+interface TrashBinProps {
+  onRestored?: () => void;  // Reload app data after a record comes back
+}
+
+export function TrashBin({ onRestored }: TrashBinProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+  const [retentionDays, setRetentionDays] = useState("");
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+  const [retentionErrors, setRetentionErrors] = useState<FieldErrors>({});
+
+  const loadTrash = async () => {
+    setIsLoading(true);
+    try {
+      const [trashItems, settings] = await Promise.all([
+        trashApi.list(),
+        trashApi.getSettings(),
+      ]);
+      setItems(trashItems);
+      setRetentionDays(settings.retentionDays.toString());
+    } catch (error) {
+      console.error("Error loading trash:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load trash");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await trashApi.restore(item.entityType, item.id);
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      toast.success(`"${item.label}" restored`);
+      if (onRestored) {
+        onRestored();
+      }
+    } catch (error) {
+      console.error("Error restoring item:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to restore item");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!itemToPurge) return;
+
+    const item = itemToPurge;
+    setBusyId(item.id);
+    try {
+      await trashApi.purge(item.entityType, item.id);
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      toast.success(`"${item.label}" permanently deleted`);
+      setItemToPurge(null);
+    } catch (error) {
+      console.error("Error purging item:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete item");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    setIsSavingRetention(true);
+    setRetentionErrors({});
+    try {
+      const settings = await trashApi.updateSettings({ retentionDays: Number(retentionDays) });
+      setRetentionDays(settings.retentionDays.toString());
+      toast.success(`Deleted records will be kept for ${settings.retentionDays} days`);
+    } catch (error) {
+      console.error("Error saving trash retention:", error);
+      setRetentionErrors(getFieldErrors(error));
+      toast.error("Failed to save retention period");
+    } finally {
+      setIsSavingRetention(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-green-600 mb-2">Trash</h2>
+        <p className="text-muted-foreground">
+          Deleted records are kept here so they can be restored. They are purged automatically once the retention period has passed.
+        </p>
+      </div>
+
+      {/* Retention setting */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Retention Period</CardTitle>
+          <CardDescription>How long deleted records stay in the trash</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trash-retention">Days</Label>
+              <Input
+                id="trash-retention"
+                type="number"
+                min={1}
+                max={365}
+                value={retentionDays}
+                onChange={(e) => setRetentionDays(e.target.value)}
+                className="w-full sm:w-[120px]"
+              />
+            </div>
+            <Button onClick={handleSaveRetention} disabled={isSavingRetention || isLoading}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSavingRetention ? "Saving..." : "Save"}
+            </Button>
+          </div>
+          <FieldError message={retentionErrors.retentionDays} />
+        </CardContent>
+      </Card>
+
+      {/* Deleted records */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>Deleted Records</CardTitle>
+              <CardDescription>Most recently deleted first</CardDescription>
+            </div>
+            <Button onClick={loadTrash} variant="outline" size="sm" disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <Loader2 className="h-8 w-8 text-green-600 animate-spin mx-auto mb-2" />
+                <p className="text-muted-foreground">Loading trash...</p>
+              </div>
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12">
+              <Trash2 className="h-12 w-12 text-muted-foreground mx-auto mb-3 opacity-50" />
+              <p className="text-muted-foreground">The trash is empty</p>
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Deleted</TableHead>
+                    <TableHead>Purged On</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={`${item.entityType}:${item.id}`}>
+                      <TableCell>
+                        <Badge variant="secondary" className="mb-1">
+                          {ENTITY_LABELS[item.entityType] || item.entityType}
+                        </Badge>
+                        <p className="text-sm max-w-md truncate">{item.label}</p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <p>{new Date(item.deletedAt).toLocaleString()}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{item.deletedByEmail || "Unknown"}</p>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(item.purgeAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRestore(item)}
+                            disabled={busyId === item.id}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Restore
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setItemToPurge(item)}
+                            disabled={busyId === item.id}
+                            className="text-red-600 hover:text-red-700"
+                            aria-label={`Permanently delete ${item.label}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Confirm permanent delete */}
+      <AlertDialog open={itemToPurge !== null} onOpenChange={(open) => !open && setItemToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{itemToPurge?.label}" will be deleted for good. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busyId !== null}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmPurge();
+              }}
+              disabled={busyId !== null}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {busyId !== null ? "Deleting..." : "Delete Permanently"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
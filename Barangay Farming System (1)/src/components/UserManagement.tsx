@@ -3,28 +3,38 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/
 import { Input } from "./ui/input";
 import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
-import { Search, Users2, Shield, Mail, Calendar, User, Loader2, RefreshCw } from "lucide-react";
+import { Search, Users2, Shield, Mail, Calendar, User, Loader2, RefreshCw, History, ArrowRight, UserX, UserCheck, Trash2, KeyRound } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
 import { toast } from "sonner@2.0.3";
-import { projectId, publicAnonKey } from "../utils/supabase/info";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "./ui/alert-dialog";
+import { ROLES, ROLE_LABELS, isRole, type Role } from "../supabase/functions/_shared/permissions";
+import { usersApi } from "../utils/api";
+import { useSearchParam } from "../utils/router";
+import { AUTH_PROVIDER } from "../utils/serverConfig";
+import type { PasswordResetCode, RoleChange, UserSummary } from "../supabase/functions/_shared/types";
 
-interface UserData {
-  id: string;
-  email: string;
-  name: string;
-  role: "admin" | "member";
-  joinedDate: string;
-}
+// An account action waiting for the admin to confirm it
+type PendingAction =
+  | { type: "role"; user: UserSummary; role: Role }
+  | { type: "suspend" | "reactivate" | "delete" | "reset"; user: UserSummary };
 
 interface UserManagementProps {
   accessToken: string | null;
+  currentUserId?: string;  // Admins can't suspend or delete themselves
+  currentUserRole?: Role;  // Only admins may grant or remove the admin role
 }
 
-export function UserManagement({ accessToken }: UserManagementProps) {
-  const [users, setUsers] = useState<UserData[]>([]);
+export function UserManagement({ accessToken, currentUserId, currentUserRole }: UserManagementProps) {
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [roleChanges, setRoleChanges] = useState<RoleChange[]>([]);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [issuedCode, setIssuedCode] = useState<{ user: UserSummary } & PasswordResetCode | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [filterRole, setFilterRole] = useState<"all" | "admin" | "member">("all");
+  const [searchQuery, setSearchQuery] = useSearchParam("q");
+  const [roleParam, setFilterRole] = useSearchParam("role", "all");
+  const filterRole: "all" | Role = isRole(roleParam) ? roleParam : "all";
 
   const loadUsers = async () => {
     if (!accessToken) {
@@ -34,28 +44,12 @@ export function UserManagement({ accessToken }: UserManagementProps) {
 
     setIsLoading(true);
     try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-a8901673/users/list`,
-        {
-          method: "GET",
-          headers: {
-            "Authorization": `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || "Failed to fetch users");
-      }
-
-      if (result.success && result.data) {
-        setUsers(result.data);
-      } else {
-        throw new Error(result.error || "Failed to fetch users");
-      }
+      const [userList, changes] = await Promise.all([
+        usersApi.list(),
+        usersApi.getRoleChanges(),
+      ]);
+      setUsers(userList);
+      setRoleChanges(changes);
     } catch (error) {
       console.error("Error loading users:", error);
       toast.error(error instanceof Error ? error.message : "Failed to load users");
@@ -64,6 +58,56 @@ export function UserManagement({ accessToken }: UserManagementProps) {
     }
   };
 
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+
+    const { user } = pendingAction;
+    setIsSubmitting(true);
+    try {
+      switch (pendingAction.type) {
+        case "role":
+          await usersApi.changeRole(user.id, pendingAction.role);
+          toast.success(`${user.name} is now ${ROLE_LABELS[pendingAction.role]}`);
+          break;
+        case "suspend":
+          await usersApi.suspend(user.id);
+          toast.success(`${user.name} has been suspended`);
+          break;
+        case "reactivate":
+          await usersApi.reactivate(user.id);
+          toast.success(`${user.name} has been reactivated`);
+          break;
+        case "delete":
+          await usersApi.delete(user.id);
+          toast.success(`${user.name}'s account has been deleted`);
+          break;
+        case "reset":
+          setIssuedCode({ user, ...(await usersApi.createResetCode(user.id)) });
+          break;
+      }
+      setPendingAction(null);
+      await loadUsers();
+    } catch (error) {
+      console.error(`Error performing ${pendingAction.type} on user:`, error);
+      toast.error(error instanceof Error ? error.message : "Failed to update user");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Admin accounts can only be changed by admins
+  const canChangeUser = (user: UserSummary) => user.role !== "admin" || currentUserRole === "admin";
+
+  const confirmTitle = {
+    role: "Change role?",
+    suspend: "Suspend account?",
+    reactivate: "Reactivate account?",
+    delete: "Delete account?",
+    reset: "Create password reset code?",
+  };
+
+  const roleLabel = (role: string) => (isRole(role) ? ROLE_LABELS[role] : role);
+
   useEffect(() => {
     loadUsers();
   }, [accessToken]);
@@ -80,7 +124,7 @@ export function UserManagement({ accessToken }: UserManagementProps) {
   });
 
   const adminCount = users.filter(u => u.role === "admin").length;
-  const memberCount = users.filter(u => u.role === "member").length;
+  const memberCount = users.length - adminCount;
 
   return (
     <div className="space-y-6">
@@ -88,7 +132,7 @@ export function UserManagement({ accessToken }: UserManagementProps) {
       <div>
         <h2 className="text-green-600 mb-2">User Management</h2>
         <p className="text-muted-foreground">
-          View all registered users and administrators for account recovery assistance.
+          View registered users, change their roles, suspend or delete accounts and review past role changes.
         </p>
       </div>
 
@@ -170,31 +214,17 @@ export function UserManagement({ accessToken }: UserManagementProps) {
                 className="pl-9"
               />
             </div>
-            <div className="flex gap-2">
-              <Button
-                variant={filterRole === "all" ? "default" : "outline"}
-                size="sm"
-                onClick={() => setFilterRole("all")}
-              >
-                All
-              </Button>
-              <Button
-                variant={filterRole === "admin" ? "default" : "outline"}
-                size="sm"
-                onClick={() => setFilterRole("admin")}
-              >
-                <Shield className="h-4 w-4 mr-2" />
-                Admins
-              </Button>
-              <Button
-                variant={filterRole === "member" ? "default" : "outline"}
-                size="sm"
-                onClick={() => setFilterRole("member")}
-              >
-                <User className="h-4 w-4 mr-2" />
-                Members
-              </Button>
-            </div>
+            <Select value={filterRole} onValueChange={(value: "all" | Role) => setFilterRole(value)}>
+              <SelectTrigger className="w-full md:w-[200px]">
+                <SelectValue placeholder="Filter by role" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Roles</SelectItem>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Users Table */}
@@ -223,6 +253,7 @@ export function UserManagement({ accessToken }: UserManagementProps) {
                     <TableHead>Name</TableHead>
                     <TableHead>Role</TableHead>
                     <TableHead>Joined Date</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -240,22 +271,32 @@ export function UserManagement({ accessToken }: UserManagementProps) {
                             <Shield className="h-4 w-4 text-yellow-600" />
                           )}
                           <span>{user.name}</span>
+                          {user.suspended && (
+                            <Badge variant="destructive">Suspended</Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge
-                          variant={user.role === "admin" ? "default" : "secondary"}
-                          className={
-                            user.role === "admin"
-                              ? "bg-yellow-500 hover:bg-yellow-600 text-white"
-                              : ""
-                          }
+                        <Select
+                          value={user.role}
+                          onValueChange={(value: Role) => setPendingAction({ type: "role", user, role: value })}
+                          disabled={isSubmitting || !canChangeUser(user)}
                         >
-                          {user.role === "admin" && (
-                            <Shield className="h-3 w-3 mr-1" />
-                          )}
-                          {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
-                        </Badge>
+                          <SelectTrigger className="w-[180px]" aria-label={`Role for ${user.email}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLES.map((role) => (
+                              <SelectItem
+                                key={role}
+                                value={role}
+                                disabled={role === "admin" && currentUserRole !== "admin"}
+                              >
+                                {ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -263,6 +304,51 @@ export function UserManagement({ accessToken }: UserManagementProps) {
                           {new Date(user.joinedDate).toLocaleDateString()}
                         </div>
                       </TableCell>
+                      <TableCell>
+                        {user.id !== currentUserId && canChangeUser(user) && (
+                          <div className="flex justify-end gap-2">
+                            {/* Local auth has no reset email - the admin hands over a code */}
+                            {AUTH_PROVIDER === "local" && !user.suspended && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPendingAction({ type: "reset", user })}
+                                aria-label={`Create a password reset code for ${user.email}`}
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {user.suspended ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPendingAction({ type: "reactivate", user })}
+                                aria-label={`Reactivate ${user.email}`}
+                              >
+                                <UserCheck className="h-4 w-4" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPendingAction({ type: "suspend", user })}
+                                aria-label={`Suspend ${user.email}`}
+                              >
+                                <UserX className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setPendingAction({ type: "delete", user })}
+                              className="text-red-600 hover:text-red-700"
+                              aria-label={`Delete ${user.email}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -279,6 +365,105 @@ export function UserManagement({ accessToken }: UserManagementProps) {
         </CardContent>
       </Card>
 
+      {/* Confirm account action */}
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction && confirmTitle[pendingAction.type]}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === "role" &&
+                `${pendingAction.user.name} (${pendingAction.user.email}) will change from ${ROLE_LABELS[pendingAction.user.role]} to ${ROLE_LABELS[pendingAction.role]}.`}
+              {pendingAction?.type === "suspend" &&
+                `${pendingAction.user.name} (${pendingAction.user.email}) will be signed out and unable to sign in until reactivated.`}
+              {pendingAction?.type === "reactivate" &&
+                `${pendingAction.user.name} (${pendingAction.user.email}) will be able to sign in again.`}
+              {pendingAction?.type === "delete" &&
+                `This will permanently delete ${pendingAction.user.name} (${pendingAction.user.email}), their profile and profile picture. This action cannot be undone.`}
+              {pendingAction?.type === "reset" &&
+                `${pendingAction.user.name} (${pendingAction.user.email}) will get a one-time code for setting a new password. Any earlier code stops working.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmAction();
+              }}
+              disabled={isSubmitting}
+              className={pendingAction?.type === "delete" || pendingAction?.type === "suspend" ? "bg-red-600 hover:bg-red-700" : ""}
+            >
+              {isSubmitting ? "Working..." : "Confirm"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Issued password reset code */}
+      <AlertDialog open={issuedCode !== null} onOpenChange={(open) => !open && setIssuedCode(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Password Reset Code</AlertDialogTitle>
+            <AlertDialogDescription>
+              Give this code to {issuedCode?.user.name} ({issuedCode?.user.email}). They enter it under
+              "Forgot password?" on the sign-in page. It works once and expires at{" "}
+              {issuedCode && new Date(issuedCode.expiresAt).toLocaleTimeString()}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <p className="text-center font-mono text-2xl tracking-widest py-2 select-all">{issuedCode?.code}</p>
+          <AlertDialogFooter>
+            <AlertDialogAction onClick={() => setIssuedCode(null)}>Done</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Role Change History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-green-600" />
+            Role Change History
+          </CardTitle>
+          <CardDescription>
+            Who changed each user's role and when
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {roleChanges.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No role changes recorded yet
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {roleChanges.map((change) => (
+                <div key={change.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 border-b pb-3 last:border-0 last:pb-0">
+                  <div>
+                    <p className="text-sm">
+                      <span>{change.userName}</span>{" "}
+                      <span className="text-muted-foreground font-mono text-xs">{change.userEmail}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      by {change.changedByEmail}
+                      {change.reason && ` • ${change.reason}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant="secondary">{roleLabel(change.fromRole)}</Badge>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <Badge variant={change.toRole === "admin" ? "default" : "secondary"}>
+                      {roleLabel(change.toRole)}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {new Date(change.changedAt).toLocaleString()}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Help Text */}
       <Card className="bg-blue-50 dark:bg-blue-950 border-blue-200 dark:border-blue-800">
         <CardContent className="pt-6">
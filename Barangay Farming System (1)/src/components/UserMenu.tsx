@@ -10,6 +10,7 @@ import {
 import { User, LogOut, Settings, Shield } from "lucide-react";
 import { Badge } from "./ui/badge";
 import { toast } from "sonner@2.0.3";
+import { isRole, ROLE_LABELS } from "../supabase/functions/_shared/permissions";
 
 interface UserMenuProps {
   userName: string;
@@ -51,7 +52,7 @@ export function UserMenu({ userName, userEmail, userRole = "member", userAvatar,
               <p className="text-sm leading-none">{userName}</p>
               {isAdmin && <Shield className="h-3 w-3 text-yellow-600" />}
             </div>
-            <p className="text-xs text-muted-foreground capitalize">{userRole}</p>
+            <p className="text-xs text-muted-foreground">{isRole(userRole) ? ROLE_LABELS[userRole] : userRole}</p>
           </div>
         </button>
       </DropdownMenuTrigger>
@@ -8,6 +8,7 @@ import { Badge } from "./ui/badge";
 import { Eye, EyeOff, User, Mail, Lock, UserPlus, Shield, CheckCircle2 } from "lucide-react";
 import { toast } from "sonner@2.0.3";
 import { adminRegisterUser } from "../utils/auth";
+import { ROLES, ROLE_LABELS, type Role } from "../supabase/functions/_shared/permissions";
 
 interface UserRegistrationProps {
   accessToken: string | null;
@@ -18,7 +19,7 @@ export function UserRegistration({ accessToken }: UserRegistrationProps) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
-  const [role, setRole] = useState<"member" | "admin">("member");
+  const [role, setRole] = useState<Role>("member");
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -55,7 +56,7 @@ export function UserRegistration({ accessToken }: UserRegistrationProps) {
       toast.success(
         <div className="flex items-center gap-2">
           <CheckCircle2 className="h-4 w-4" />
-          <span>User "{name}" created successfully as {role}!</span>
+          <span>User "{name}" created successfully as {ROLE_LABELS[role]}!</span>
         </div>
       );
       
@@ -191,29 +192,25 @@ export function UserRegistration({ accessToken }: UserRegistrationProps) {
 
               <div className="space-y-2">
                 <Label htmlFor="role">User Role *</Label>
-                <Select value={role} onValueChange={(value: "member" | "admin") => setRole(value)} disabled={isLoading}>
+                <Select value={role} onValueChange={(value: Role) => setRole(value)} disabled={isLoading}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="member">
-                      <div className="flex items-center gap-2">
-                        <User className="h-4 w-4" />
-                        <span>Member</span>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="admin">
-                      <div className="flex items-center gap-2">
-                        <Shield className="h-4 w-4" />
-                        <span>Administrator</span>
-                      </div>
-                    </SelectItem>
+                    {ROLES.map((r) => (
+                      <SelectItem key={r} value={r}>
+                        <div className="flex items-center gap-2">
+                          {r === "admin" ? <Shield className="h-4 w-4" /> : <User className="h-4 w-4" />}
+                          <span>{ROLE_LABELS[r]}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <p className="text-xs text-muted-foreground">
                   {role === "admin" 
                     ? "Admins can manage all aspects of the system including user registration" 
-                    : "Members can view data and participate in community engagement"}
+                    : "What this role can do is set on the Roles & Permissions page"}
                 </p>
               </div>
             </div>
@@ -279,7 +276,7 @@ export function UserRegistration({ accessToken }: UserRegistrationProps) {
             <div className="w-1.5 h-1.5 rounded-full bg-green-600 mt-2" />
             <p>
               <strong className="text-foreground">Role assignment:</strong> The role you select above will be assigned to the new user. 
-              Choose "Admin" to give full system access or "Member" for view-only with community participation.
+              Choose "Administrator" to give full system access; every other role gets the permissions set on the Roles & Permissions page.
             </p>
           </div>
           <div className="flex items-start gap-2">
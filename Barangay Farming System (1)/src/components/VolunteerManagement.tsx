@@ -6,57 +6,80 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
-import { Award, Users, CheckCircle, Plus, Pencil, Trash2 } from "lucide-react";
+import { Award, Users, CheckCircle, Plus, Pencil, Trash2, Upload } from "lucide-react";
 import { Progress } from "./ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { useState } from "react";
 import { toast } from "sonner@2.0.3";
-
-export interface Volunteer {
-  id: string;
-  name: string;
-  hoursContributed: number;
-  tasksCompleted: number;
-  lastActivity: string;
-  role: string;
-}
-
-export interface Task {
-  id: string;
-  title: string;
-  assignedTo: string;
-  dueDate: string;
-  status: "pending" | "in-progress" | "completed";
-  priority: "low" | "medium" | "high";
-}
+import { toastDeletedWithUndo } from "../utils/undoToast";
+import { FieldError } from "./FieldError";
+import { ImportWizard } from "./ImportWizard";
+import { ConflictDialog, EditedElsewhereNotice, type ConflictFields, type EditConflict } from "./ConflictDialog";
+import { RecordDetailsDialog, fieldDetails } from "./RecordDetails";
+import { getConflict, getFieldErrors } from "../utils/api";
+import { linkTo } from "../utils/router";
+import { useRecordRoute } from "../utils/routes";
+import type { Volunteer, Task, EntityInput, FieldErrors } from "../supabase/functions/_shared/types";
+
+export type { Volunteer, Task };
+
+// Fields shown in the merge prompts when someone else edited the same record
+const VOLUNTEER_FIELDS: ConflictFields<Volunteer> = {
+  name: "Name",
+  role: "Role",
+  hoursContributed: "Hours Contributed",
+  tasksCompleted: "Tasks Completed",
+  lastActivity: "Last Activity",
+};
+
+const TASK_FIELDS: ConflictFields<Task> = {
+  title: "Task Title",
+  assignedTo: "Assigned To",
+  dueDate: "Due Date",
+  status: "Status",
+  priority: "Priority",
+};
 
 interface VolunteerManagementProps {
   volunteers: Volunteer[];
   tasks: Task[];
-  isAdmin?: boolean;
-  onAddVolunteer?: (volunteer: Omit<Volunteer, "id">) => Promise<void>;
-  onUpdateVolunteer?: (id: string, volunteer: Partial<Volunteer>) => Promise<void>;
-  onDeleteVolunteer?: (id: string) => Promise<void>;
-  onAddTask?: (task: Omit<Task, "id">) => Promise<void>;
-  onUpdateTask?: (id: string, task: Partial<Task>) => Promise<void>;
-  onDeleteTask?: (id: string) => Promise<void>;
+  canManageVolunteers?: boolean;
+  canManageTasks?: boolean;
+  onAddVolunteer?: (volunteer: EntityInput<Volunteer>) => Promise<unknown>;
+  onUpdateVolunteer?: (id: string, volunteer: EntityInput<Volunteer>) => Promise<unknown>;
+  onDeleteVolunteer?: (id: string) => Promise<unknown>;
+  onRestoreVolunteer?: (id: string) => Promise<unknown>;  // Undo a delete from the success toast
+  onAddTask?: (task: EntityInput<Task>) => Promise<unknown>;
+  onUpdateTask?: (id: string, task: EntityInput<Task>) => Promise<unknown>;
+  onDeleteTask?: (id: string) => Promise<unknown>;
+  onRestoreTask?: (id: string) => Promise<unknown>;
+  onImported?: () => void;  // Reload after a spreadsheet import
 }
 
 export function VolunteerManagement({ 
   volunteers, 
   tasks, 
-  isAdmin = false,
+  canManageVolunteers = false,
+  canManageTasks = false,
   onAddVolunteer,
   onUpdateVolunteer,
   onDeleteVolunteer,
+  onRestoreVolunteer,
   onAddTask,
   onUpdateTask,
-  onDeleteTask
+  onDeleteTask,
+  onRestoreTask,
+  onImported
 }: VolunteerManagementProps) {
   const [volunteerDialogOpen, setVolunteerDialogOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [taskDialogOpen, setTaskDialogOpen] = useState(false);
   const [editingVolunteer, setEditingVolunteer] = useState<Volunteer | null>(null);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [volunteerErrors, setVolunteerErrors] = useState<FieldErrors>({});
+  const [taskErrors, setTaskErrors] = useState<FieldErrors>({});
+  const [volunteerConflict, setVolunteerConflict] = useState<EditConflict<Volunteer> | null>(null);
+  const [taskConflict, setTaskConflict] = useState<EditConflict<Task> | null>(null);
   const [volunteerForm, setVolunteerForm] = useState({
     name: "",
     role: "",
@@ -72,6 +95,10 @@ export function VolunteerManagement({
     priority: "medium" as Task["priority"],
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const volunteerRoute = useRecordRoute("volunteer");
+  const taskRoute = useRecordRoute("task");
+  const openVolunteer = volunteers.find((volunteer) => volunteer.id === volunteerRoute.id);
+  const openTask = tasks.find((task) => task.id === taskRoute.id);
 
   const totalHours = volunteers.reduce((sum, v) => sum + v.hoursContributed, 0);
   const totalTasks = tasks.length;
@@ -121,6 +148,7 @@ export function VolunteerManagement({
         lastActivity: new Date().toISOString().split('T')[0],
       });
     }
+    setVolunteerErrors({});
     setVolunteerDialogOpen(true);
   };
 
@@ -135,18 +163,18 @@ export function VolunteerManagement({
       return;
     }
 
+    const data = {
+      name: volunteerForm.name,
+      role: volunteerForm.role,
+      hoursContributed: parseInt(volunteerForm.hoursContributed) || 0,
+      tasksCompleted: parseInt(volunteerForm.tasksCompleted) || 0,
+      lastActivity: volunteerForm.lastActivity || new Date().toISOString(),
+    };
+
     setIsSubmitting(true);
     try {
-      const data = {
-        name: volunteerForm.name,
-        role: volunteerForm.role,
-        hoursContributed: parseInt(volunteerForm.hoursContributed) || 0,
-        tasksCompleted: parseInt(volunteerForm.tasksCompleted) || 0,
-        lastActivity: volunteerForm.lastActivity || new Date().toISOString(),
-      };
-
       if (editingVolunteer && onUpdateVolunteer) {
-        await onUpdateVolunteer(editingVolunteer.id, data);
+        await onUpdateVolunteer(editingVolunteer.id, { ...data, version: editingVolunteer.version });
         toast.success("Volunteer updated successfully!");
       } else if (onAddVolunteer) {
         await onAddVolunteer(data);
@@ -154,7 +182,14 @@ export function VolunteerManagement({
       }
       handleCloseVolunteerDialog();
     } catch (error) {
+      const current = getConflict<Volunteer>(error);
+      if (current && editingVolunteer) {
+        setVolunteerConflict({ base: editingVolunteer, mine: data, theirs: current });
+        handleCloseVolunteerDialog();
+        return;
+      }
       console.error("Error saving volunteer:", error);
+      setVolunteerErrors(getFieldErrors(error));
       toast.error("Failed to save volunteer");
     } finally {
       setIsSubmitting(false);
@@ -167,7 +202,7 @@ export function VolunteerManagement({
     if (window.confirm(`Are you sure you want to remove ${name} from volunteers?`)) {
       try {
         await onDeleteVolunteer(id);
-        toast.success("Volunteer removed successfully!");
+        toastDeletedWithUndo("Volunteer removed successfully!", onRestoreVolunteer && (() => onRestoreVolunteer(id)));
       } catch (error) {
         console.error("Error deleting volunteer:", error);
         toast.error("Failed to delete volunteer");
@@ -196,6 +231,7 @@ export function VolunteerManagement({
         priority: "medium",
       });
     }
+    setTaskErrors({});
     setTaskDialogOpen(true);
   };
 
@@ -210,18 +246,18 @@ export function VolunteerManagement({
       return;
     }
 
+    const data = {
+      title: taskForm.title,
+      assignedTo: taskForm.assignedTo,
+      dueDate: taskForm.dueDate,
+      status: taskForm.status,
+      priority: taskForm.priority,
+    };
+
     setIsSubmitting(true);
     try {
-      const data = {
-        title: taskForm.title,
-        assignedTo: taskForm.assignedTo,
-        dueDate: taskForm.dueDate,
-        status: taskForm.status,
-        priority: taskForm.priority,
-      };
-
       if (editingTask && onUpdateTask) {
-        await onUpdateTask(editingTask.id, data);
+        await onUpdateTask(editingTask.id, { ...data, version: editingTask.version });
         toast.success("Task updated successfully!");
       } else if (onAddTask) {
         await onAddTask(data);
@@ -229,7 +265,14 @@ export function VolunteerManagement({
       }
       handleCloseTaskDialog();
     } catch (error) {
+      const current = getConflict<Task>(error);
+      if (current && editingTask) {
+        setTaskConflict({ base: editingTask, mine: data, theirs: current });
+        handleCloseTaskDialog();
+        return;
+      }
       console.error("Error saving task:", error);
+      setTaskErrors(getFieldErrors(error));
       toast.error("Failed to save task");
     } finally {
       setIsSubmitting(false);
@@ -242,7 +285,7 @@ export function VolunteerManagement({
     if (window.confirm(`Are you sure you want to delete task "${title}"?`)) {
       try {
         await onDeleteTask(id);
-        toast.success("Task deleted successfully!");
+        toastDeletedWithUndo("Task deleted successfully!", onRestoreTask && (() => onRestoreTask(id)));
       } catch (error) {
         console.error("Error deleting task:", error);
         toast.error("Failed to delete task");
@@ -334,11 +377,17 @@ export function VolunteerManagement({
                 <CardTitle>All Volunteers</CardTitle>
                 <CardDescription>Complete list of community contributors</CardDescription>
               </div>
-              {isAdmin && (
-                <Button onClick={() => handleOpenVolunteerDialog()}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Volunteer
-                </Button>
+              {canManageVolunteers && (
+                <div className="flex gap-2">
+                  <Button onClick={() => setIsImportOpen(true)} variant="outline">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                  <Button onClick={() => handleOpenVolunteerDialog()}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Volunteer
+                  </Button>
+                </div>
               )}
             </div>
           </CardHeader>
@@ -352,25 +401,29 @@ export function VolunteerManagement({
                     <TableHead>Hours</TableHead>
                     <TableHead>Tasks</TableHead>
                     <TableHead>Last Activity</TableHead>
-                    {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                    {canManageVolunteers && <TableHead className="text-right">Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {volunteers.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={isAdmin ? 6 : 5} className="text-center text-muted-foreground">
+                      <TableCell colSpan={canManageVolunteers ? 6 : 5} className="text-center text-muted-foreground">
                         No volunteers found
                       </TableCell>
                     </TableRow>
                   ) : (
                     volunteers.map((volunteer) => (
                       <TableRow key={volunteer.id}>
-                        <TableCell>{volunteer.name}</TableCell>
+                        <TableCell>
+                          <a href={volunteerRoute.href(volunteer.id)} onClick={linkTo(volunteerRoute.href(volunteer.id))} className="hover:underline">
+                            {volunteer.name}
+                          </a>
+                        </TableCell>
                         <TableCell>{volunteer.role}</TableCell>
                         <TableCell>{volunteer.hoursContributed}</TableCell>
                         <TableCell>{volunteer.tasksCompleted}</TableCell>
                         <TableCell>{new Date(volunteer.lastActivity).toLocaleDateString()}</TableCell>
-                        {isAdmin && (
+                        {canManageVolunteers && (
                           <TableCell className="text-right">
                             <div className="flex justify-end gap-2">
                               <Button
@@ -407,7 +460,7 @@ export function VolunteerManagement({
                 <CardTitle>Task Assignment</CardTitle>
                 <CardDescription>Current tasks and their status</CardDescription>
               </div>
-              {isAdmin && (
+              {canManageTasks && (
                 <Button onClick={() => handleOpenTaskDialog()}>
                   <Plus className="h-4 w-4 mr-2" />
                   Add Task
@@ -425,25 +478,29 @@ export function VolunteerManagement({
                     <TableHead>Due Date</TableHead>
                     <TableHead>Priority</TableHead>
                     <TableHead>Status</TableHead>
-                    {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                    {canManageTasks && <TableHead className="text-right">Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {tasks.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={isAdmin ? 6 : 5} className="text-center text-muted-foreground">
+                      <TableCell colSpan={canManageTasks ? 6 : 5} className="text-center text-muted-foreground">
                         No tasks assigned
                       </TableCell>
                     </TableRow>
                   ) : (
                     tasks.map((task) => (
                       <TableRow key={task.id}>
-                        <TableCell>{task.title}</TableCell>
+                        <TableCell>
+                          <a href={taskRoute.href(task.id)} onClick={linkTo(taskRoute.href(task.id))} className="hover:underline">
+                            {task.title}
+                          </a>
+                        </TableCell>
                         <TableCell>{task.assignedTo}</TableCell>
                         <TableCell>{new Date(task.dueDate).toLocaleDateString()}</TableCell>
                         <TableCell>{getPriorityBadge(task.priority)}</TableCell>
                         <TableCell>{getStatusBadge(task.status)}</TableCell>
-                        {isAdmin && (
+                        {canManageTasks && (
                           <TableCell className="text-right">
                             <div className="flex justify-end gap-2">
                               <Button
@@ -482,6 +539,7 @@ export function VolunteerManagement({
               {editingVolunteer ? "Update volunteer information" : "Add a new community volunteer"}
             </DialogDescription>
           </DialogHeader>
+          <EditedElsewhereNotice editing={editingVolunteer} records={volunteers} noun="volunteer" />
 
           <div className="space-y-4">
             <div className="space-y-2">
@@ -492,6 +550,7 @@ export function VolunteerManagement({
                 onChange={(e) => setVolunteerForm({ ...volunteerForm, name: e.target.value })}
                 placeholder="John Doe"
               />
+              <FieldError message={volunteerErrors.name} />
             </div>
 
             <div className="space-y-2">
@@ -502,6 +561,7 @@ export function VolunteerManagement({
                 onChange={(e) => setVolunteerForm({ ...volunteerForm, role: e.target.value })}
                 placeholder="Garden Coordinator"
               />
+              <FieldError message={volunteerErrors.role} />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -514,6 +574,7 @@ export function VolunteerManagement({
                   onChange={(e) => setVolunteerForm({ ...volunteerForm, hoursContributed: e.target.value })}
                   placeholder="0"
                 />
+                <FieldError message={volunteerErrors.hoursContributed} />
               </div>
 
               <div className="space-y-2">
@@ -525,6 +586,7 @@ export function VolunteerManagement({
                   onChange={(e) => setVolunteerForm({ ...volunteerForm, tasksCompleted: e.target.value })}
                   placeholder="0"
                 />
+                <FieldError message={volunteerErrors.tasksCompleted} />
               </div>
             </div>
 
@@ -536,6 +598,7 @@ export function VolunteerManagement({
                 value={volunteerForm.lastActivity}
                 onChange={(e) => setVolunteerForm({ ...volunteerForm, lastActivity: e.target.value })}
               />
+              <FieldError message={volunteerErrors.lastActivity} />
             </div>
           </div>
 
@@ -559,6 +622,7 @@ export function VolunteerManagement({
               {editingTask ? "Update task details" : "Create a new task assignment"}
             </DialogDescription>
           </DialogHeader>
+          <EditedElsewhereNotice editing={editingTask} records={tasks} noun="task" />
 
           <div className="space-y-4">
             <div className="space-y-2">
@@ -569,6 +633,7 @@ export function VolunteerManagement({
                 onChange={(e) => setTaskForm({ ...taskForm, title: e.target.value })}
                 placeholder="Water the plants"
               />
+              <FieldError message={taskErrors.title} />
             </div>
 
             <div className="space-y-2">
@@ -579,6 +644,7 @@ export function VolunteerManagement({
                 onChange={(e) => setTaskForm({ ...taskForm, assignedTo: e.target.value })}
                 placeholder="Volunteer name"
               />
+              <FieldError message={taskErrors.assignedTo} />
             </div>
 
             <div className="space-y-2">
@@ -589,6 +655,7 @@ export function VolunteerManagement({
                 value={taskForm.dueDate}
                 onChange={(e) => setTaskForm({ ...taskForm, dueDate: e.target.value })}
               />
+              <FieldError message={taskErrors.dueDate} />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -604,6 +671,7 @@ export function VolunteerManagement({
                     <SelectItem value="high">High</SelectItem>
                   </SelectContent>
                 </Select>
+                <FieldError message={taskErrors.priority} />
               </div>
 
               <div className="space-y-2">
@@ -618,6 +686,7 @@ export function VolunteerManagement({
                     <SelectItem value="completed">Completed</SelectItem>
                   </SelectContent>
                 </Select>
+                <FieldError message={taskErrors.status} />
               </div>
             </div>
           </div>
@@ -632,6 +701,49 @@ export function VolunteerManagement({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Records opened by their links (/volunteers/:id, /volunteers/tasks/:id) */}
+      <RecordDetailsDialog
+        recordId={volunteerRoute.id}
+        noun="volunteer"
+        title={openVolunteer?.name}
+        details={openVolunteer ? fieldDetails(openVolunteer, VOLUNTEER_FIELDS) : null}
+        onEdit={canManageVolunteers && openVolunteer ? () => { volunteerRoute.close(); handleOpenVolunteerDialog(openVolunteer); } : undefined}
+        onClose={volunteerRoute.close}
+      />
+      <RecordDetailsDialog
+        recordId={taskRoute.id}
+        noun="task"
+        title={openTask?.title}
+        details={openTask ? fieldDetails(openTask, TASK_FIELDS) : null}
+        onEdit={canManageTasks && openTask ? () => { taskRoute.close(); handleOpenTaskDialog(openTask); } : undefined}
+        onClose={taskRoute.close}
+      />
+
+      {/* Merge prompts after an edit conflict */}
+      {onUpdateVolunteer && (
+        <ConflictDialog
+          conflict={volunteerConflict}
+          fields={VOLUNTEER_FIELDS}
+          onSave={onUpdateVolunteer}
+          onClose={() => setVolunteerConflict(null)}
+        />
+      )}
+      {onUpdateTask && (
+        <ConflictDialog
+          conflict={taskConflict}
+          fields={TASK_FIELDS}
+          onSave={onUpdateTask}
+          onClose={() => setTaskConflict(null)}
+        />
+      )}
+
+      <ImportWizard
+        entityType="volunteer"
+        open={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={onImported}
+      />
     </>
   );
 }
@@ -2,6 +2,19 @@
   import { createRoot } from "react-dom/client";
   import App from "./App.tsx";
   import "./index.css";
+  import { hydrateQueryCache } from "./utils/queryCache";
+  import { loadSyncQueue } from "./utils/syncQueue";
 
-  createRoot(document.getElementById("root")!).render(<App />);
-  
\ No newline at end of file
+  // Cache the app shell so the installed app opens offline (public/sw.js)
+  if ("serviceWorker" in navigator && import.meta.env.PROD) {
+    window.addEventListener("load", () => {
+      navigator.serviceWorker.register("/sw.js").catch((error) => {
+        console.error("Service worker registration failed:", error);
+      });
+    });
+  }
+
+  // Start with the data and queued changes saved on this device
+  Promise.all([hydrateQueryCache(), loadSyncQueue()]).finally(() => {
+    createRoot(document.getElementById("root")!).render(<App />);
+  });
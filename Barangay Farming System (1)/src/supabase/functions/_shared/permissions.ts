@@ -0,0 +1,151 @@
+/**
+ * ============================================
+ * ROLES & PERMISSIONS (shared by server and client)
+ * ============================================
+ *
+ * Every user has one role. Each role maps to a list of granular
+ * permissions through the permission matrix. The server stores the
+ * admin-edited matrix under `settings:role_permissions`; anything missing
+ * falls back to DEFAULT_PERMISSION_MATRIX.
+ *
+ * The admin role always holds every permission so the system can never
+ * be locked out by a bad matrix edit.
+ */
+
+export const ROLES = [
+  "admin",
+  "coordinator",
+  "treasurer",
+  "volunteer-lead",
+  "member",
+  "viewer",
+] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Administrator",
+  coordinator: "Coordinator",
+  treasurer: "Treasurer",
+  "volunteer-lead": "Volunteer Lead",
+  member: "Member",
+  viewer: "Viewer (read-only)",
+};
+
+export const PERMISSIONS = [
+  "plots.write",
+  "catalog.manage",
+  "crops.write",
+  "harvests.write",
+  "budget.write",
+  "volunteers.write",
+  "tasks.write",
+  "polls.manage",
+  "polls.vote",
+  "feedbacks.submit",
+  "feedbacks.moderate",
+  "photos.write",
+  "updates.write",
+  "events.write",
+  "settings.manage",
+  "users.manage",
+  "roles.manage",
+  "audit.view",
+  "trash.manage",
+  "backup.manage",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  "plots.write": "Manage the plot registry",
+  "catalog.manage": "Maintain the crop catalog and companion planting pairs",
+  "crops.write": "Add, edit and delete crops and log their activities",
+  "harvests.write": "Record and edit harvests",
+  "budget.write": "Manage budget expenses and total budget",
+  "volunteers.write": "Manage volunteers",
+  "tasks.write": "Manage volunteer tasks",
+  "polls.manage": "Create, edit and delete polls",
+  "polls.vote": "Vote on polls",
+  "feedbacks.submit": "Submit feedback",
+  "feedbacks.moderate": "Edit and delete feedback",
+  "photos.write": "Manage gallery photos",
+  "updates.write": "Post community updates",
+  "events.write": "Manage schedule events",
+  "settings.manage": "Change system settings (location, garden map, data migrations)",
+  "users.manage": "Register and view user accounts",
+  "roles.manage": "Edit this permission matrix",
+  "audit.view": "View the audit log of record changes",
+  "trash.manage": "Restore or permanently delete records in the trash",
+  "backup.manage": "Download backups and restore data from them",
+};
+
+export type PermissionMatrix = Record<Role, Permission[]>;
+
+export const DEFAULT_PERMISSION_MATRIX: PermissionMatrix = {
+  admin: [...PERMISSIONS],
+  coordinator: [
+    "plots.write",
+    "crops.write",
+    "harvests.write",
+    "volunteers.write",
+    "tasks.write",
+    "polls.manage",
+    "polls.vote",
+    "feedbacks.submit",
+    "feedbacks.moderate",
+    "photos.write",
+    "updates.write",
+    "events.write",
+  ],
+  treasurer: ["budget.write", "polls.vote", "feedbacks.submit"],
+  "volunteer-lead": [
+    "plots.write",
+    "crops.write",
+    "harvests.write",
+    "volunteers.write",
+    "tasks.write",
+    "polls.vote",
+    "feedbacks.submit",
+  ],
+  member: ["crops.write", "polls.vote", "feedbacks.submit"],
+  viewer: [],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Clean up a stored or submitted matrix
+ * - Unknown roles and permissions are dropped
+ * - Roles missing from the input get their defaults
+ * - Admin always keeps every permission
+ */
+export function normalizePermissionMatrix(input?: Partial<Record<string, unknown>> | null): PermissionMatrix {
+  const matrix = {} as PermissionMatrix;
+
+  for (const role of ROLES) {
+    const value = input?.[role];
+    matrix[role] = Array.isArray(value)
+      ? PERMISSIONS.filter((permission) => value.includes(permission))
+      : [...DEFAULT_PERMISSION_MATRIX[role]];
+  }
+
+  matrix.admin = [...PERMISSIONS];
+  return matrix;
+}
+
+/**
+ * Check whether a role holds a permission under the given matrix
+ */
+export function roleHasPermission(matrix: PermissionMatrix, role: string | undefined, permission: Permission): boolean {
+  if (!isRole(role)) {
+    return false;
+  }
+  return matrix[role].includes(permission);
+}
@@ -0,0 +1,263 @@
+/**
+ * ============================================
+ * ENTITY SCHEMAS (shared by server and client)
+ * ============================================
+ *
+ * One schema per stored entity (interfaces are in types.ts). The server
+ * validates every create/update body against these before writing to the
+ * KV store. Each schema must list every field of its interface, so adding
+ * a field without a rule is a compile error.
+ *
+ * Validation failures are returned as field-level errors, keyed by field
+ * path (e.g. "amount" or "options.1.text"), so dialogs can show each
+ * message next to the input that caused it.
+ */
+
+import type {
+  Plot,
+  CropVariety,
+  Crop,
+  CropActivity,
+  Harvest,
+  BudgetItem,
+  Volunteer,
+  Task,
+  PollOption,
+  Poll,
+  Feedback,
+  Photo,
+  Update,
+  ScheduleEvent,
+  FieldErrors,
+  Versioned,
+} from "./types.ts";
+
+// ============================================
+// SCHEMA DEFINITIONS
+// ============================================
+
+export type FieldRule =
+  | { type: "string"; required?: boolean; maxLength?: number; oneOf?: readonly string[]; date?: boolean }
+  | { type: "number"; required?: boolean; min?: number; integer?: boolean }
+  | { type: "array"; required?: boolean; minItems?: number; items: Record<string, FieldRule> };
+
+// Every field of T (except the server-assigned id and version stamps) must have a rule
+export type Schema<T> = { [K in Exclude<keyof T, "id" | keyof Versioned>]-?: FieldRule };
+
+export type ValidationResult<T> =
+  | { success: true; data: Omit<T, "id"> }
+  | { success: false; errors: FieldErrors };
+
+const text = (maxLength = 200, required = true): FieldRule => ({ type: "string", required, maxLength });
+const date = (required = true): FieldRule => ({ type: "string", required, date: true });
+const oneOf = (values: readonly string[], required = true): FieldRule => ({ type: "string", required, oneOf: values });
+const count = (): FieldRule => ({ type: "number", required: true, min: 0, integer: true });
+
+export const plotSchema: Schema<Plot> = {
+  code: text(50),
+  areaSqm: { type: "number", required: true, min: 0 },
+  soilType: text(100),
+  irrigation: oneOf(["none", "nearby", "on-plot"]),
+  shade: oneOf(["full-sun", "partial-shade", "full-shade"]),
+  status: oneOf(["active", "fallow", "reserved"]),
+  notes: text(1000, false),
+};
+
+export const varietySchema: Schema<CropVariety> = {
+  name: text(),
+  variety: text(100),
+  family: oneOf(["solanaceae", "cucurbits", "brassicas", "legumes", "alliums", "malvaceae", "asteraceae", "convolvulaceae", "other"]),
+  daysToMaturity: { type: "number", required: true, min: 1, integer: true },
+  spacingCm: { type: "number", required: true, min: 0 },
+  waterNeeds: oneOf(["low", "medium", "high"]),
+  season: oneOf(["wet", "dry", "all-year"]),
+  yieldKgPerSqm: { type: "number", required: true, min: 0 },
+  notes: text(1000, false),
+};
+
+export const cropSchema: Schema<Crop> = {
+  name: text(),
+  variety: text(100),
+  plotNumber: text(50),
+  datePlanted: date(),
+  estimatedHarvest: date(),
+  status: oneOf(["growing", "ready", "harvested"]),
+  quantity: text(100),
+  health: oneOf(["healthy", "needs-water", "pest-issue", "disease"], false),
+};
+
+export const cropActivitySchema: Schema<CropActivity> = {
+  cropId: text(100),
+  date: date(),
+  type: oneOf(["watering", "fertilizing", "weeding", "pest-treatment", "transplanting", "thinning", "growth-stage", "health"]),
+  stage: oneOf(["seedling", "vegetative", "flowering", "fruiting"], false),
+  health: oneOf(["healthy", "needs-water", "pest-issue", "disease"], false),
+  volunteer: text(),
+  photoUrl: { type: "string", required: false },  // May be a data: URL for uploaded images
+  notes: text(1000, false),
+};
+
+export const harvestSchema: Schema<Harvest> = {
+  cropName: text(),
+  harvestDate: date(),
+  quantity: text(100),
+  distributionMethod: text(200, false),
+  notes: text(1000, false),
+};
+
+export const budgetItemSchema: Schema<BudgetItem> = {
+  category: text(100),
+  description: text(500),
+  amount: { type: "number", required: true, min: 0 },
+  date: date(),
+};
+
+export const volunteerSchema: Schema<Volunteer> = {
+  name: text(),
+  hoursContributed: { type: "number", required: true, min: 0 },
+  tasksCompleted: count(),
+  lastActivity: date(),
+  role: text(100),
+};
+
+export const taskSchema: Schema<Task> = {
+  title: text(),
+  assignedTo: text(),
+  dueDate: date(),
+  status: oneOf(["pending", "in-progress", "completed"]),
+  priority: oneOf(["low", "medium", "high"]),
+};
+
+// Options keep their client-generated id so votes can reference them
+export const pollOptionSchema: Record<keyof PollOption, FieldRule> = {
+  id: text(50),
+  text: text(),
+  votes: count(),
+};
+
+export const pollSchema: Schema<Poll> = {
+  question: text(500),
+  options: { type: "array", required: true, minItems: 2, items: pollOptionSchema },
+  totalVotes: count(),
+  endsAt: date(),
+};
+
+export const feedbackSchema: Schema<Feedback> = {
+  name: text(),
+  message: text(2000),
+  date: date(),
+  category: text(50),
+};
+
+export const photoSchema: Schema<Photo> = {
+  url: { type: "string", required: true },  // May be a data: URL for uploaded images
+  title: text(),
+  description: text(1000, false),
+  date: date(),
+  category: oneOf(["harvest", "planting", "event", "progress"]),
+};
+
+export const updateSchema: Schema<Update> = {
+  title: text(),
+  message: text(2000),
+  date: date(),
+  type: oneOf(["info", "success", "warning", "event"]),
+};
+
+export const scheduleEventSchema: Schema<ScheduleEvent> = {
+  date: date(),
+  title: text(),
+  type: oneOf(["planting", "harvest", "maintenance", "event"]),
+  description: text(1000, false),
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Check a single value against its rule
+ * Returns the cleaned value or adds messages to `errors`
+ */
+function validateField(rule: FieldRule, value: unknown, path: string, errors: FieldErrors): unknown {
+  if (isEmpty(value)) {
+    if (rule.required) {
+      errors[path] = "This field is required";
+    }
+    return rule.type === "string" && typeof value === "string" ? value : undefined;
+  }
+
+  switch (rule.type) {
+    case "string": {
+      if (typeof value !== "string") {
+        errors[path] = "Must be text";
+        return undefined;
+      }
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        errors[path] = `Must be at most ${rule.maxLength} characters`;
+      } else if (rule.oneOf && !rule.oneOf.includes(value)) {
+        errors[path] = `Must be one of: ${rule.oneOf.join(", ")}`;
+      } else if (rule.date && isNaN(Date.parse(value))) {
+        errors[path] = "Must be a valid date";
+      }
+      return value;
+    }
+
+    case "number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors[path] = "Must be a number";
+        return undefined;
+      }
+      if (rule.integer && !Number.isInteger(value)) {
+        errors[path] = "Must be a whole number";
+      } else if (rule.min !== undefined && value < rule.min) {
+        errors[path] = `Must be at least ${rule.min}`;
+      }
+      return value;
+    }
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        errors[path] = "Must be a list";
+        return undefined;
+      }
+      if (rule.minItems !== undefined && value.length < rule.minItems) {
+        errors[path] = `Must have at least ${rule.minItems} items`;
+      }
+      return value.map((item, index) => validateObject(rule.items, item, `${path}.${index}.`, errors));
+    }
+  }
+}
+
+function validateObject(schema: Record<string, FieldRule>, input: unknown, prefix: string, errors: FieldErrors) {
+  const source = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = validateField(rule, source[field], `${prefix}${field}`, errors);
+    if (value !== undefined) {
+      result[field] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate a request body against an entity schema
+ * Unknown fields (including any client-sent id) are dropped
+ */
+export function validateEntity<T>(schema: Schema<T>, input: unknown): ValidationResult<T> {
+  const errors: FieldErrors = {};
+  const data = validateObject(schema as Record<string, FieldRule>, input, "", errors);
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  return { success: true, data: data as Omit<T, "id"> };
+}
@@ -0,0 +1,655 @@
+/**
+ * ============================================
+ * DOMAIN TYPES (shared by server and client)
+ * ============================================
+ *
+ * The single definition of every record the server stores and every
+ * response shape the client reads. The Hono server, the API client in
+ * utils/api.ts and the components all import from here, so a change to
+ * a field is a compile error everywhere it is used.
+ *
+ * Validation rules for these types live in schemas.ts.
+ */
+
+import type { Role } from "./permissions.ts";
+
+// ============================================
+// FARMING ENTITIES
+// Stored in the KV store as `{prefix}:{id}`
+// ============================================
+
+/**
+ * Stamps the server keeps on editable records (optimistic concurrency)
+ * An update sends back the `version` it was based on; if someone else has
+ * saved the record since, the server answers 409 with its current copy.
+ */
+export interface Versioned {
+  version?: number;    // 1 on create, bumped by every update (missing on records saved before versioning)
+  updatedAt?: string;  // ISO date-time of the last create/update
+}
+
+/**
+ * A garden plot in the plot registry
+ * Crops name their plot by its code (Crop.plotNumber), so a plot's
+ * history is every crop ever planted under that code.
+ */
+export interface Plot extends Versioned {
+  id: string;
+  code: string;                                       // Unique, e.g. "A-1"
+  areaSqm: number;                                    // Area in square meters
+  soilType: string;                                   // e.g. "Clay loam"
+  irrigation: "none" | "nearby" | "on-plot";          // Access to water
+  shade: "full-sun" | "partial-shade" | "full-shade";
+  status: "active" | "fallow" | "reserved";
+  notes: string;
+}
+
+// Botanical families, for crop rotation
+export type PlantFamily =
+  | "solanaceae"      // Eggplant, tomato, pepper
+  | "cucurbits"       // Ampalaya, squash, gourds
+  | "brassicas"       // Pechay, mustasa, cabbage
+  | "legumes"         // Sitaw, sigarilyas, peanut
+  | "alliums"         // Onion, garlic
+  | "malvaceae"       // Okra
+  | "asteraceae"      // Lettuce
+  | "convolvulaceae"  // Kangkong, kamote
+  | "other";
+
+/**
+ * A crop variety in the crop catalog
+ * Choosing one when adding a crop fills in its name and variety and
+ * works out the estimated harvest from the planting date.
+ */
+export interface CropVariety extends Versioned {
+  id: string;
+  name: string;                                // e.g. "Eggplant"
+  variety: string;                             // e.g. "Long Purple"
+  family: PlantFamily;
+  daysToMaturity: number;                      // From planting to first harvest
+  spacingCm: number;                           // Between plants
+  waterNeeds: "low" | "medium" | "high";
+  season: "wet" | "dry" | "all-year";          // Preferred planting season
+  yieldKgPerSqm: number;                       // Expected yield per square meter
+  notes: string;
+}
+
+export interface Crop extends Versioned {
+  id: string;
+  name: string;
+  variety: string;
+  plotNumber: string;  // Code of the plot it grows on (see Plot)
+  datePlanted: string;
+  estimatedHarvest: string;
+  status: "growing" | "ready" | "harvested";
+  quantity: string;
+  health?: "healthy" | "needs-water" | "pest-issue" | "disease";
+}
+
+export type CropActivityType =
+  | "watering"
+  | "fertilizing"
+  | "weeding"
+  | "pest-treatment"
+  | "transplanting"
+  | "thinning"
+  | "growth-stage"
+  | "health";
+
+export type GrowthStage = "seedling" | "vegetative" | "flowering" | "fruiting";
+
+/**
+ * A dated entry in a crop's activity timeline
+ * "health" entries are written by the server when a crop's health changes.
+ */
+export interface CropActivity extends Versioned {
+  id: string;
+  cropId: string;
+  date: string;                             // YYYY-MM-DD
+  type: CropActivityType;
+  stage?: GrowthStage;                      // The stage reached, on "growth-stage" entries
+  health?: NonNullable<Crop["health"]>;     // The new health, on "health" entries
+  volunteer: string;                        // Who did the work (a volunteer's name)
+  photoUrl?: string;                        // May be a data: URL for uploaded images
+  notes: string;
+}
+
+export interface Harvest extends Versioned {
+  id: string;
+  cropName: string;
+  harvestDate: string;
+  quantity: string;
+  distributionMethod: string;
+  notes: string;
+}
+
+export interface BudgetItem extends Versioned {
+  id: string;
+  category: string;
+  description: string;
+  amount: number;
+  date: string;
+}
+
+export interface Volunteer extends Versioned {
+  id: string;
+  name: string;
+  hoursContributed: number;
+  tasksCompleted: number;
+  lastActivity: string;
+  role: string;
+}
+
+export interface Task extends Versioned {
+  id: string;
+  title: string;
+  assignedTo: string;
+  dueDate: string;
+  status: "pending" | "in-progress" | "completed";
+  priority: "low" | "medium" | "high";
+}
+
+export interface PollOption {
+  id: string;
+  text: string;
+  votes: number;
+}
+
+export interface Poll extends Versioned {
+  id: string;
+  question: string;
+  options: PollOption[];
+  totalVotes: number;
+  endsAt: string;
+}
+
+export interface Feedback extends Versioned {
+  id: string;
+  name: string;
+  message: string;
+  date: string;
+  category: string;
+}
+
+export interface Photo extends Versioned {
+  id: string;
+  url: string;
+  title: string;
+  description: string;
+  date: string;
+  category: "harvest" | "planting" | "event" | "progress";
+}
+
+export interface Update extends Versioned {
+  id: string;
+  title: string;
+  message: string;
+  date: string;
+  type: "info" | "success" | "warning" | "event";
+}
+
+export interface ScheduleEvent {
+  id: string;
+  date: string;
+  title: string;
+  type: "planting" | "harvest" | "maintenance" | "event";
+  description: string;
+}
+
+// Body for creating/updating an entity (the server assigns the id; updates include `version`)
+export type EntityInput<T extends { id: string }> = Omit<T, "id">;
+
+// ============================================
+// LIST QUERIES
+// Query parameters of the GET list routes, e.g. GET /crops?page=2&status=growing
+// ============================================
+
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Paging, sorting and range parameters shared by every list route (all optional)
+ * Without `page` a route returns every matching record as a plain array;
+ * with it the route returns a Page.
+ */
+export interface ListQuery<T> {
+  page?: number;                    // 1-based page number
+  pageSize?: number;                // Records per page (default 20, at most 100)
+  sort?: Extract<keyof T, string>;  // Field to sort by (each route has its own default)
+  order?: SortOrder;
+  q?: string;                       // Case-insensitive text search
+  from?: string;                    // YYYY-MM-DD, inclusive, on the record's main date
+  to?: string;                      // YYYY-MM-DD, inclusive
+}
+
+// Per-entity filters - each matches the record field of the same name exactly
+export interface CropListQuery extends ListQuery<Crop> {
+  status?: Crop["status"];
+  health?: NonNullable<Crop["health"]>;
+  plotNumber?: string;
+}
+
+export interface PlotListQuery extends ListQuery<Plot> {
+  status?: Plot["status"];
+  irrigation?: Plot["irrigation"];
+  shade?: Plot["shade"];
+}
+
+export interface VarietyListQuery extends ListQuery<CropVariety> {
+  family?: PlantFamily;
+  waterNeeds?: CropVariety["waterNeeds"];
+  season?: CropVariety["season"];
+}
+
+export interface CropActivityListQuery extends ListQuery<CropActivity> {
+  cropId?: string;
+  type?: CropActivityType;
+}
+
+export interface HarvestListQuery extends ListQuery<Harvest> {
+  cropName?: string;
+  distributionMethod?: string;
+}
+
+export interface BudgetListQuery extends ListQuery<BudgetItem> {
+  category?: string;
+}
+
+export interface VolunteerListQuery extends ListQuery<Volunteer> {
+  role?: string;
+}
+
+export interface TaskListQuery extends ListQuery<Task> {
+  status?: Task["status"];
+  priority?: Task["priority"];
+  assignedTo?: string;
+}
+
+export type PollListQuery = ListQuery<Poll>;
+
+export interface FeedbackListQuery extends ListQuery<Feedback> {
+  category?: string;
+}
+
+export interface PhotoListQuery extends ListQuery<Photo> {
+  category?: Photo["category"];
+}
+
+export interface UpdateListQuery extends ListQuery<Update> {
+  type?: Update["type"];
+}
+
+export interface ScheduleEventListQuery extends ListQuery<ScheduleEvent> {
+  type?: ScheduleEvent["type"];
+}
+
+/**
+ * One page of a list route (returned when the query has `page`)
+ */
+export interface Page<T> {
+  items: T[];
+  total: number;     // Records matching the filters across all pages
+  page: number;
+  pageSize: number;
+}
+
+// ============================================
+// USERS
+// ============================================
+
+/**
+ * User profile stored under `user_profile:{id}`
+ */
+export interface UserProfile {
+  id: string;                // Unique user ID from Supabase Auth
+  email: string;             // User's email address
+  name: string;              // Full name
+  role: Role;                // User role (admin, coordinator, treasurer, volunteer-lead, member, viewer)
+  joinedDate: string;        // Date user registered
+  avatar: string | null;     // Profile picture URL (if uploaded)
+  suspended?: boolean;       // Set while an admin has suspended the account
+  bio?: string;              // User biography/description
+  location?: string;         // User's location
+  tasksCompleted?: number;   // Number of tasks completed
+  hoursContributed?: number; // Hours volunteered
+  eventsAttended?: number;   // Number of events attended
+  recentActivities?: Array<{
+    type: string;            // Activity type (crop, task, harvest, etc.)
+    description: string;     // Activity description
+    timestamp: string;       // When it happened
+  }>;
+}
+
+/**
+ * One row of GET /users/list
+ */
+export interface UserSummary {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  joinedDate: string;
+  suspended: boolean;
+}
+
+/**
+ * Session issued by the server when AUTH_PROVIDER=local
+ * (with Supabase Auth, supabase-js manages the session instead)
+ */
+export interface LocalSession {
+  accessToken: string;   // JWT sent as the bearer token
+  refreshToken: string;  // Exchanged for a new session before the access token expires
+  expiresAt: string;     // When the access token expires (ISO date-time)
+  user: { id: string; email: string };
+}
+
+/**
+ * One-time password reset code an administrator hands to a user (local auth only)
+ */
+export interface PasswordResetCode {
+  code: string;
+  expiresAt: string;     // ISO date-time
+}
+
+/**
+ * Role change record stored under `role_change:{id}`
+ */
+export interface RoleChange {
+  id: string;
+  userId: string;
+  userEmail: string;
+  userName: string;
+  fromRole: string;
+  toRole: string;
+  changedById: string;
+  changedByEmail: string;
+  changedAt: string;
+  reason: string | null;
+}
+
+// ============================================
+// SETTINGS
+// ============================================
+
+/**
+ * Weather location stored under `settings:location`
+ */
+export interface BarangayLocation {
+  city: string;
+  latitude: number;
+  longitude: number;
+  country: string;  // ISO 3166 alpha-2 code, e.g. "PH"
+}
+
+/**
+ * Garden layout stored under `settings:garden_map`
+ * Coordinates are grid points counted from the top-left corner, so a
+ * map of 20 x 12 cells has points from (0, 0) to (20, 12).
+ */
+export interface GardenMap {
+  columns: number;      // Width in grid cells
+  rows: number;         // Height in grid cells
+  shapes: PlotShape[];  // At most one per plot
+}
+
+export interface PlotShape {
+  plotId: string;
+  points: MapPoint[];   // Corners in drawing order; a rectangle has 4
+}
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Companion planting data stored under `settings:companion_planting`
+ * Pairs name crops the way members enter them (matched ignoring case), so
+ * a pair can include plants that aren't in the crop catalog, e.g. marigold.
+ */
+export interface CompanionPlanting {
+  pairs: CompanionPair[];  // At most one per pair of crops
+}
+
+export interface CompanionPair {
+  crops: [string, string];
+  relation: "beneficial" | "antagonistic";
+  reason: string;          // Why, shown with the indicator
+}
+
+export interface SetupStatus {
+  needsSetup: boolean;          // True while no administrator exists
+  barangayName: string | null;  // Name entered during setup
+}
+
+export interface SetupData {
+  barangayName: string;
+  location: BarangayLocation;
+}
+
+// ============================================
+// AUDIT TRAIL
+// ============================================
+
+// "delete" moves a record to the trash, "purge" removes it for good
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+
+// One changed top-level field (null stands for "not set")
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Audit entry stored under `audit:{id}`, appended on every record write
+ */
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  entityType: string;        // KV key prefix, e.g. "budget" or "user_profile"
+  entityId: string;          // Rest of the KV key, e.g. the record id
+  actorId: string | null;    // Who made the change (null for system writes)
+  actorEmail: string | null;
+  timestamp: string;         // ISO date-time of the write
+  changes: AuditChange[];
+}
+
+/**
+ * Query parameters accepted by GET /audit (all optional)
+ */
+export interface AuditFilters {
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  from?: string;  // YYYY-MM-DD, inclusive
+  to?: string;    // YYYY-MM-DD, inclusive
+}
+
+// ============================================
+// TRASH
+// ============================================
+
+/**
+ * A soft-deleted record - still stored under its key, hidden from list routes
+ */
+export type Trashed<T> = T & {
+  deletedAt: string;             // When it was moved to the trash
+  deletedBy: string | null;      // User id of whoever deleted it
+  deletedByEmail: string | null;
+};
+
+/**
+ * One row of GET /trash
+ */
+export interface TrashItem {
+  entityType: string;            // KV key prefix, e.g. "harvest"
+  id: string;
+  label: string;                 // Name/title of the record
+  deletedAt: string;
+  deletedByEmail: string | null;
+  purgeAt: string;               // When it will be purged automatically
+}
+
+export interface TrashSettings {
+  retentionDays: number;         // Days a record stays in the trash before it is purged
+}
+
+// ============================================
+// DATA MIGRATIONS
+// ============================================
+
+export interface MigrationFailure {
+  key: string;                   // KV key of the record, e.g. "crop:123"
+  error: string;
+}
+
+/**
+ * One run of one migration (kept under `migrations:runs`)
+ */
+export interface MigrationRun {
+  version: number;
+  name: string;
+  startedAt: string;
+  finishedAt: string | null;     // Null while the run is in progress
+  processed: number;             // Records looked at so far
+  total: number;                 // Records the migration has to look at
+  updated: number;               // Records that needed a change
+  failures: MigrationFailure[];
+}
+
+export interface MigrationInfo {
+  version: number;
+  name: string;
+  prefixes: string[];            // Entity types it upgrades, e.g. ["crop"]
+  applied: boolean;
+}
+
+/**
+ * Response of GET /migrations
+ */
+export interface MigrationStatus {
+  schemaVersion: number;         // Highest migration applied (0 before any)
+  latestVersion: number;         // Highest migration this server knows
+  running: boolean;
+  migrations: MigrationInfo[];
+  runs: MigrationRun[];          // Most recent first
+}
+
+// ============================================
+// BACKUPS
+// ============================================
+
+/**
+ * A snapshot of all community data (GET /backup?format=json)
+ * The ZIP format holds the same data as manifest.json plus one
+ * records/{entityType}.json file per entity type.
+ */
+export interface BackupArchive {
+  format: "plant-n-plan-backup";
+  formatVersion: number;            // Layout of this file; restore refuses newer ones
+  createdAt: string;                // ISO date-time
+  createdBy: string | null;         // Email of the admin who downloaded it
+  schemaVersion: number;            // Data migration version of the records (see migrations.tsx)
+  records: Record<string, unknown>; // KV key -> stored value, e.g. "crop:123" -> Crop
+}
+
+// merge: add and overwrite archived records, keep the rest
+// replace: also remove records that aren't in the archive
+export type RestoreMode = "merge" | "replace";
+
+export interface RestoreCounts {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+/**
+ * What a restore changed - or, for a dry run, would change
+ */
+export interface RestoreReport {
+  mode: RestoreMode;
+  dryRun: boolean;
+  archiveCreatedAt: string;
+  archiveSchemaVersion: number;
+  changes: Record<string, RestoreCounts>;                     // By entity type ("settings" for settings)
+  warnings: Array<{ key: string; fieldErrors: FieldErrors }>; // Written records that fail today's validation (restored as-is)
+  skipped: Array<{ key: string; reason: string }>;            // Archived records left as they are
+}
+
+// ============================================
+// SPREADSHEET IMPORTS
+// ============================================
+
+export type ImportEntityType = "crop" | "harvest" | "budget" | "volunteer";
+
+// What to do with a row that looks like a record that already exists
+// skip: leave the record alone; update: overwrite it with the row; create: import the row as a new record
+export type DuplicateAction = "skip" | "update" | "create";
+
+/**
+ * Body of POST /crops/import (and /harvests, /budget, /volunteers)
+ * Rows are field values already mapped from the file's columns.
+ */
+export interface ImportRequest {
+  rows: Array<Record<string, unknown>>;
+  onDuplicate?: DuplicateAction;    // Default skip
+}
+
+export type ImportOutcome = "created" | "updated" | "skipped";
+
+export interface ImportRowResult {
+  row: number;                      // Index in the request's rows
+  outcome: ImportOutcome;
+  id?: string;                      // Record created or updated (not set in a dry run)
+  duplicateOf?: string;             // Id of the existing record the row matches
+  duplicateOfRow?: number;          // Or the earlier row of the same file it matches
+  fieldErrors?: FieldErrors;        // Why an invalid row was skipped
+}
+
+/**
+ * Result of an import - or, for a dry run, what it would do
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  skipped: number;
+  rows: ImportRowResult[];
+}
+
+// ============================================
+// REALTIME SYNC
+// ============================================
+
+/**
+ * One record change, streamed to signed-in clients by GET /realtime
+ */
+export interface ChangeEvent {
+  seq: string;               // Orders events; sent as the SSE id so a reconnect resumes after it
+  action: AuditAction;
+  entityType: string;        // KV key prefix, e.g. "crop" or "settings"
+  entityId: string;          // Record id, or the setting's name
+  record: unknown;           // Stored value after the change (null once removed)
+  tooLarge?: boolean;        // record left out for size (e.g. a photo); refetch the collection
+  actorId: string | null;    // Who made the change (null for system writes)
+  timestamp: string;
+}
+
+// ============================================
+// API RESPONSES
+// ============================================
+
+// Field path -> error message (e.g. "amount" or "options.1.text")
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Standard response envelope returned by every server route
+ */
+export interface ApiResponse<T> {
+  success: boolean;           // Whether the request succeeded
+  data?: T;                   // Response data (if successful)
+  error?: string;             // Error message (if failed)
+  fieldErrors?: FieldErrors;  // Per-field messages when validation fails
+  conflict?: unknown;         // Current server copy when an update was based on a stale version (409)
+}
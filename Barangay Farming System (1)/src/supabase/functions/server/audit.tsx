@@ -0,0 +1,143 @@
+/**
+ * ============================================
+ * AUDIT TRAIL
+ * ============================================
+ *
+ * Routes write records through auditedSet/auditedDel instead of calling
+ * kv.set/kv.del directly. Each write appends an entry under `audit:{id}`
+ * holding the actor, time, entity and a field-by-field before/after diff.
+ *
+ * Audit entries themselves (and the role change log) are written with the
+ * plain KV functions so they are never audited recursively.
+ *
+ * Each write is also published to the realtime stream (realtime.tsx).
+ */
+
+import * as kv from "./storage.tsx";
+import { publishChange } from "./realtime.tsx";
+import type { AuditAction, AuditChange, AuditEntry, AuditFilters } from "../_shared/types.ts";
+
+// Who made a change - the Supabase user from the request (null for system writes)
+export type AuditActor = { id: string; email?: string | null } | null | undefined;
+
+// Long values (e.g. photo data: URLs) are shortened in diffs
+const MAX_VALUE_LENGTH = 200;
+
+// Bookkeeping fields that change on every write and aren't worth listing
+const IGNORED_FIELDS = new Set(["id", "version", "updatedAt"]);
+
+/**
+ * Split a KV key into entity type and id
+ * e.g. "budget:123" -> ["budget", "123"], "settings:location" -> ["settings", "location"]
+ */
+function parseKey(key: string): [string, string] {
+  const separator = key.indexOf(":");
+  return separator === -1 ? [key, ""] : [key.slice(0, separator), key.slice(separator + 1)];
+}
+
+function summarize(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === "string" && value.length > MAX_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_VALUE_LENGTH)}… (${value.length} characters)`;
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare two stored values field by field
+ * Plain values (numbers, strings) are reported as a single "value" field
+ */
+export function diffValues(before: unknown, after: unknown): AuditChange[] {
+  if (!isRecord(before) && !isRecord(after)) {
+    return JSON.stringify(before) === JSON.stringify(after)
+      ? []
+      : [{ field: "value", before: summarize(before), after: summarize(after) }];
+  }
+
+  const beforeRecord = isRecord(before) ? before : {};
+  const afterRecord = isRecord(after) ? after : {};
+  const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+  const changes: AuditChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (JSON.stringify(beforeRecord[field]) !== JSON.stringify(afterRecord[field])) {
+      changes.push({ field, before: summarize(beforeRecord[field]), after: summarize(afterRecord[field]) });
+    }
+  }
+
+  return changes;
+}
+
+async function appendEntry(actor: AuditActor, action: AuditAction, key: string, changes: AuditChange[]) {
+  const [entityType, entityId] = parseKey(key);
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    action,
+    entityType,
+    entityId,
+    actorId: actor?.id ?? null,
+    actorEmail: actor?.email ?? null,
+    timestamp: new Date().toISOString(),
+    changes,
+  };
+  await kv.set(`audit:${entry.id}`, entry);
+}
+
+/**
+ * Store a value and record the create/update in the audit log
+ * Writes that change nothing (e.g. re-saving an unchanged profile) are not logged
+ * `action` overrides the logged action (the trash uses "delete" and "restore")
+ */
+export async function auditedSet(actor: AuditActor, key: string, value: unknown, action?: AuditAction): Promise<void> {
+  const before = await kv.get(key);
+  await kv.set(key, value);
+
+  const changes = diffValues(before, value);
+  if (before !== null && before !== undefined && changes.length === 0) {
+    return;
+  }
+
+  const loggedAction = action ?? (before === null || before === undefined ? "create" : "update");
+  await appendEntry(actor, loggedAction, key, changes);
+  await publishChange(actor?.id ?? null, loggedAction, ...parseKey(key), value);
+}
+
+/**
+ * Delete a value and record what it held in the audit log
+ */
+export async function auditedDel(actor: AuditActor, key: string, action: AuditAction = "delete"): Promise<void> {
+  const before = await kv.get(key);
+  await kv.del(key);
+
+  if (before === null || before === undefined) {
+    return;
+  }
+
+  await appendEntry(actor, action, key, diffValues(before, null));
+  await publishChange(actor?.id ?? null, action, ...parseKey(key), null);
+}
+
+/**
+ * List audit entries matching the filters, newest first
+ */
+export async function listAuditEntries(filters: AuditFilters = {}): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = await kv.getByPrefix("audit:");
+
+  return entries
+    .filter((entry) => {
+      const day = entry.timestamp.slice(0, 10);
+      return (!filters.entityType || entry.entityType === filters.entityType) &&
+        (!filters.entityId || entry.entityId === filters.entityId) &&
+        (!filters.actorId || entry.actorId === filters.actorId) &&
+        (!filters.from || day >= filters.from) &&
+        (!filters.to || day <= filters.to);
+    })
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
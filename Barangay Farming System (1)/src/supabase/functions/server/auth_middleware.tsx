@@ -0,0 +1,252 @@
+/**
+ * ============================================
+ * AUTH MIDDLEWARE - ROUTE PERMISSIONS
+ * ============================================
+ *
+ * Verifies the caller's access token, loads their `user_profile:{id}`
+ * record and checks it against the route permission table below.
+ *
+ * Tokens are checked by the configured auth provider (auth_provider.tsx).
+ * Only routes listed in ROUTE_PERMISSIONS are guarded here. Routes that
+ * only need a signed-in user (profile, avatar) or none at all (signup,
+ * sign-in, public location) check for themselves.
+ */
+
+import type { Context, Next } from "npm:hono@4";
+import * as kv from "./storage.tsx";
+import { getAuthProvider } from "./auth_provider.tsx";
+import {
+  normalizePermissionMatrix,
+  roleHasPermission,
+  type Permission,
+  type PermissionMatrix,
+} from "../_shared/permissions.ts";
+
+// All server routes are mounted under this prefix
+export const ROUTE_PREFIX = "/make-server-a8901673";
+
+/**
+ * Per-route permission table
+ * Key format: "METHOD /path" (":param" segments match any value)
+ * Value: permission the caller's role must hold (see _shared/permissions.ts)
+ */
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  // Plots
+  "POST /plots": "plots.write",
+  "PUT /plots/:id": "plots.write",
+  "DELETE /plots/:id": "plots.write",
+  "POST /plots/:id/restore": "plots.write",
+
+  // Crop catalog
+  "POST /varieties": "catalog.manage",
+  "PUT /varieties/:id": "catalog.manage",
+  "DELETE /varieties/:id": "catalog.manage",
+  "POST /varieties/:id/restore": "catalog.manage",
+
+  // Crops
+  "POST /crops": "crops.write",
+  "POST /crops/import": "crops.write",
+  "PUT /crops/:id": "crops.write",
+  "DELETE /crops/:id": "crops.write",
+  "POST /crops/:id/restore": "crops.write",
+
+  // Crop activity timelines
+  "POST /crop-activities": "crops.write",
+  "PUT /crop-activities/:id": "crops.write",
+  "DELETE /crop-activities/:id": "crops.write",
+  "POST /crop-activities/:id/restore": "crops.write",
+
+  // Harvests
+  "POST /harvests": "harvests.write",
+  "POST /harvests/import": "harvests.write",
+  "PUT /harvests/:id": "harvests.write",
+  "DELETE /harvests/:id": "harvests.write",
+  "POST /harvests/:id/restore": "harvests.write",
+
+  // Budget
+  "POST /budget": "budget.write",
+  "POST /budget/import": "budget.write",
+  "PUT /budget/:id": "budget.write",
+  "DELETE /budget/:id": "budget.write",
+  "POST /budget/:id/restore": "budget.write",
+  "PUT /settings/total-budget": "budget.write",
+
+  // Volunteers
+  "POST /volunteers": "volunteers.write",
+  "POST /volunteers/import": "volunteers.write",
+  "PUT /volunteers/:id": "volunteers.write",
+  "DELETE /volunteers/:id": "volunteers.write",
+  "POST /volunteers/:id/restore": "volunteers.write",
+
+  // Tasks
+  "POST /tasks": "tasks.write",
+  "PUT /tasks/:id": "tasks.write",
+  "DELETE /tasks/:id": "tasks.write",
+  "POST /tasks/:id/restore": "tasks.write",
+
+  // Polls
+  "POST /polls": "polls.manage",
+  "PUT /polls/:id": "polls.manage",
+  "DELETE /polls/:id": "polls.manage",
+  "POST /polls/:id/restore": "polls.manage",
+  "POST /polls/:id/vote": "polls.vote",
+
+  // Feedbacks
+  "POST /feedbacks": "feedbacks.submit",
+  "PUT /feedbacks/:id": "feedbacks.moderate",
+  "DELETE /feedbacks/:id": "feedbacks.moderate",
+  "POST /feedbacks/:id/restore": "feedbacks.moderate",
+
+  // Photos
+  "POST /photos": "photos.write",
+  "PUT /photos/:id": "photos.write",
+  "DELETE /photos/:id": "photos.write",
+  "POST /photos/:id/restore": "photos.write",
+
+  // Updates
+  "POST /updates": "updates.write",
+  "PUT /updates/:id": "updates.write",
+  "DELETE /updates/:id": "updates.write",
+  "POST /updates/:id/restore": "updates.write",
+
+  // Events
+  "POST /events": "events.write",
+
+  // Settings & setup
+  "GET /settings/location": "settings.manage",
+  "PUT /settings/location": "settings.manage",
+  "PUT /settings/garden-map": "settings.manage",
+  "PUT /settings/companions": "catalog.manage",
+  "POST /init-sample-data": "settings.manage",
+
+  // Users & roles
+  "POST /auth/admin-register": "users.manage",
+  "GET /users/list": "users.manage",
+  "GET /users/role-changes": "users.manage",
+  "PUT /users/:id/role": "users.manage",
+  "POST /users/:id/suspend": "users.manage",
+  "POST /users/:id/reactivate": "users.manage",
+  "POST /users/:id/reset-code": "users.manage",
+  "DELETE /users/:id": "users.manage",
+  "PUT /roles/permissions": "roles.manage",
+
+  // Audit log
+  "GET /audit": "audit.view",
+
+  // Trash
+  "GET /trash": "trash.manage",
+  "POST /trash/:entityType/:id/restore": "trash.manage",
+  "DELETE /trash/:entityType/:id": "trash.manage",
+  "GET /settings/trash-retention": "trash.manage",
+  "PUT /settings/trash-retention": "trash.manage",
+
+  // Data migrations
+  "GET /migrations": "settings.manage",
+  "POST /migrations/run": "settings.manage",
+
+  // Backups
+  "GET /backup": "backup.manage",
+  "POST /backup/restore": "backup.manage",
+};
+
+/**
+ * Load the role permission matrix
+ * Falls back to the defaults for anything an admin hasn't customised
+ */
+export async function getPermissionMatrix(): Promise<PermissionMatrix> {
+  const stored = await kv.get("settings:role_permissions");
+  return normalizePermissionMatrix(stored);
+}
+
+/**
+ * Check whether a request path matches a route pattern
+ * e.g. "/crops/123" matches "/crops/:id"
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const patternParts = pattern.split("/").filter(Boolean);
+  const pathParts = path.split("/").filter(Boolean);
+
+  if (patternParts.length !== pathParts.length) {
+    return false;
+  }
+
+  return patternParts.every((part, i) => part.startsWith(":") || part === pathParts[i]);
+}
+
+/**
+ * Find the permission a request needs, or null if the route is not guarded
+ */
+export function findRoutePermission(method: string, path: string): Permission | null {
+  const relativePath = path.startsWith(ROUTE_PREFIX) ? path.slice(ROUTE_PREFIX.length) : path;
+
+  for (const [route, permission] of Object.entries(ROUTE_PERMISSIONS)) {
+    const [routeMethod, routePattern] = route.split(" ");
+    if (routeMethod === method && matchesPattern(routePattern, relativePath)) {
+      return permission;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verify the bearer token on a request and load the user's profile
+ * Returns null if the token is missing, invalid, has no profile or the
+ * account is suspended
+ */
+export async function authenticate(c: Context) {
+  const accessToken = c.req.header("Authorization")?.split(" ")[1];
+
+  if (!accessToken) {
+    return null;
+  }
+
+  const { data: user, error } = await getAuthProvider().getUser(accessToken);
+
+  if (error || !user) {
+    console.log("Auth error while verifying request:", error);
+    return null;
+  }
+
+  const profile = await kv.get(`user_profile:${user.id}`);
+  if (!profile || profile.suspended) {
+    return null;
+  }
+
+  return { user, profile };
+}
+
+/**
+ * Hono middleware that enforces ROUTE_PERMISSIONS
+ * On success the user and profile are available as c.get("user") / c.get("profile")
+ */
+export async function requirePermission(c: Context, next: Next) {
+  const permission = findRoutePermission(c.req.method, c.req.path);
+
+  // Route isn't in the table - let the handler decide
+  if (!permission) {
+    return next();
+  }
+
+  try {
+    const auth = await authenticate(c);
+
+    if (!auth) {
+      return c.json({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const matrix = await getPermissionMatrix();
+    if (!roleHasPermission(matrix, auth.profile.role, permission)) {
+      console.log(`User ${auth.user.email} (${auth.profile.role}) lacks ${permission} for ${c.req.method} ${c.req.path}`);
+      return c.json({ success: false, error: "You do not have permission to perform this action" }, 403);
+    }
+
+    c.set("user", auth.user);
+    c.set("profile", auth.profile);
+  } catch (error) {
+    console.log("Error checking route permission:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+
+  return next();
+}
@@ -0,0 +1,108 @@
+/**
+ * ============================================
+ * AUTH PROVIDER - PLUGGABLE USER ACCOUNTS
+ * ============================================
+ *
+ * Routes verify tokens and manage accounts through this module instead
+ * of calling supabase.auth directly. The AUTH_PROVIDER environment
+ * variable picks the implementation:
+ *
+ * - supabase (default): Supabase Auth, via auth_provider_supabase.tsx
+ * - local: accounts kept in the storage backend (auth_provider_local.tsx),
+ *   for a self-hosted server with no Supabase project. The server then
+ *   also issues sessions (sign-in, refresh, sign-out) and password reset
+ *   codes - with Supabase the client gets those from Supabase directly.
+ */
+
+import { createSupabaseAuthProvider } from "./auth_provider_supabase.tsx";
+import { createLocalAuthProvider } from "./auth_provider_local.tsx";
+import type { LocalSession, PasswordResetCode } from "../_shared/types.ts";
+
+export type AuthProviderName = "supabase" | "local";
+
+const PROVIDERS: readonly AuthProviderName[] = ["supabase", "local"];
+
+/**
+ * The account fields routes rely on (a Supabase User has all of them)
+ */
+export interface AuthUser {
+  id: string;
+  email?: string;
+  user_metadata?: { name?: string; [key: string]: unknown };
+  created_at?: string;
+}
+
+export type AuthResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: { message: string } };
+
+export interface NewAccount {
+  email: string;
+  password: string;
+  name: string;
+}
+
+/**
+ * What every auth provider offers the routes
+ */
+export interface AuthProvider {
+  name: AuthProviderName;
+  getUser(accessToken: string): Promise<AuthResult<AuthUser>>;
+  createUser(account: NewAccount): Promise<AuthResult<AuthUser>>;
+  listUsers(): Promise<AuthResult<AuthUser[]>>;
+  setSuspended(userId: string, suspended: boolean): Promise<AuthResult<null>>;
+  deleteUser(userId: string): Promise<AuthResult<null>>;
+}
+
+/**
+ * The local provider also runs the sessions Supabase would otherwise handle
+ */
+export interface LocalAuthProvider extends AuthProvider {
+  name: "local";
+  signIn(email: string, password: string): Promise<AuthResult<LocalSession>>;
+  refreshSession(refreshToken: string): Promise<AuthResult<LocalSession>>;
+  signOut(refreshToken: string): Promise<void>;
+  createResetCode(userId: string): Promise<AuthResult<PasswordResetCode>>;
+  resetPassword(email: string, code: string, newPassword: string): Promise<AuthResult<null>>;
+}
+
+let provider: AuthProvider | null = null;
+
+export function authOk<T>(data: T): AuthResult<T> {
+  return { data, error: null };
+}
+
+export function authFail<T>(message: string): AuthResult<T> {
+  return { data: null, error: { message } };
+}
+
+/**
+ * The provider named by AUTH_PROVIDER (defaults to supabase)
+ */
+export function getAuthProviderName(): AuthProviderName {
+  const name = (Deno.env.get("AUTH_PROVIDER") || "supabase").toLowerCase();
+  if (!PROVIDERS.includes(name as AuthProviderName)) {
+    throw new Error(`Unknown AUTH_PROVIDER "${name}" (expected one of: ${PROVIDERS.join(", ")})`);
+  }
+  return name as AuthProviderName;
+}
+
+/**
+ * The configured provider, created on first use
+ */
+export function getAuthProvider(): AuthProvider {
+  if (!provider) {
+    const name = getAuthProviderName();
+    console.log(`Using ${name} auth`);
+    provider = name === "local" ? createLocalAuthProvider() : createSupabaseAuthProvider();
+  }
+  return provider;
+}
+
+/**
+ * The local provider, or null when accounts live in Supabase Auth
+ */
+export function getLocalAuth(): LocalAuthProvider | null {
+  const auth = getAuthProvider();
+  return auth.name === "local" ? auth as LocalAuthProvider : null;
+}
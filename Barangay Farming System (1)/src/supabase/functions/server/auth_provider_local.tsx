@@ -0,0 +1,401 @@
+/**
+ * ============================================
+ * LOCAL AUTH PROVIDER
+ * ============================================
+ *
+ * Built-in accounts for fully self-hosted deployments (AUTH_PROVIDER=local),
+ * stored in the same storage backend as everything else:
+ *
+ * - Passwords are hashed with PBKDF2-SHA256 and a random salt
+ * - Access tokens are HS256 JWTs signed with AUTH_JWT_SECRET (or a random
+ *   secret generated on first use and kept in storage), valid for an hour
+ * - Refresh tokens are random, stored only as a hash, valid for 30 days
+ *   and replaced on every refresh
+ * - Password reset codes are created by an administrator (there is no
+ *   email server on an intranet), valid for 30 minutes and 5 attempts
+ *
+ * Storage keys:
+ *   auth_user:{id}                  account (email, password hash, suspended flag)
+ *   auth_email:{email}              id of the account with that email
+ *   auth_refresh:{userId}:{hash}    refresh token
+ *   auth_reset:{userId}             pending password reset code
+ *   auth_secret:jwt                 generated signing secret
+ */
+
+import * as kv from "./storage.tsx";
+import { authFail, authOk, type AuthUser, type LocalAuthProvider } from "./auth_provider.tsx";
+import type { LocalSession } from "../_shared/types.ts";
+
+interface StoredAccount extends AuthUser {
+  email: string;
+  passwordHash: string;
+  suspended?: boolean;
+}
+
+interface StoredRefreshToken {
+  userId: string;
+  tokenHash: string;
+  expiresAt: string;
+}
+
+interface StoredResetCode {
+  codeHash: string;
+  expiresAt: string;
+  attemptsLeft: number;
+}
+
+const ACCESS_TOKEN_SECONDS = 60 * 60;
+const REFRESH_TOKEN_DAYS = 30;
+const RESET_CODE_MINUTES = 30;
+const RESET_CODE_ATTEMPTS = 5;
+const MIN_PASSWORD_LENGTH = 6;
+const PBKDF2_ITERATIONS = 210_000;
+
+// 32 characters (no 0/O or 1/I), so a random byte maps onto it evenly
+const RESET_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RESET_CODE_LENGTH = 8;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ============================================
+// ENCODING & HASHING HELPERS
+// ============================================
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function randomBytes(length: number) {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(text));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i];
+  return difference === 0;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// ============================================
+// PASSWORDS
+// Stored as "pbkdf2-sha256$<iterations>$<salt>$<hash>"
+// ============================================
+
+async function deriveKey(password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2-sha256$${PBKDF2_ITERATIONS}$${toBase64Url(salt)}$${toBase64Url(hash)}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split("$");
+  if (scheme !== "pbkdf2-sha256" || !iterations || !salt || !hash) return false;
+  const derived = await deriveKey(password, fromBase64Url(salt), Number(iterations));
+  return timingSafeEqual(derived, fromBase64Url(hash));
+}
+
+function passwordProblem(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password should be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+// ============================================
+// ACCESS TOKENS (HS256 JWT)
+// ============================================
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+async function loadSigningKey(): Promise<CryptoKey> {
+  let secret = Deno.env.get("AUTH_JWT_SECRET");
+  if (!secret) {
+    secret = await kv.get("auth_secret:jwt");
+    if (!secret) {
+      secret = toBase64Url(randomBytes(32));
+      await kv.set("auth_secret:jwt", secret);
+      console.log("Generated a JWT signing secret (set AUTH_JWT_SECRET to choose your own)");
+    }
+  }
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKey) signingKey = loadSigningKey();
+  return signingKey;
+}
+
+async function signJwt(payload: Record<string, unknown>): Promise<string> {
+  const header = toBase64Url(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(`${header}.${body}`));
+  return `${header}.${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Payload of a valid, unexpired token (null otherwise)
+ */
+async function verifyJwt(token: string): Promise<{ sub: string; exp: number } | null> {
+  const [header, body, signature] = token.split(".");
+  if (!header || !body || !signature) return null;
+
+  try {
+    if (JSON.parse(decoder.decode(fromBase64Url(header))).alg !== "HS256") return null;
+
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(`${header}.${body}`)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body)));
+    if (typeof payload.sub !== "string" || typeof payload.exp !== "number") return null;
+    return payload.exp * 1000 > Date.now() ? payload : null;
+  } catch {
+    // Malformed base64 or JSON
+    return null;
+  }
+}
+
+// ============================================
+// ACCOUNTS & SESSIONS
+// ============================================
+
+// Account without its password hash
+function toAuthUser({ passwordHash: _passwordHash, suspended: _suspended, ...user }: StoredAccount): AuthUser {
+  return user;
+}
+
+async function findAccountByEmail(email: string): Promise<StoredAccount | null> {
+  const userId: string | undefined = await kv.get(`auth_email:${normalizeEmail(email)}`);
+  return userId ? (await kv.get(`auth_user:${userId}`)) ?? null : null;
+}
+
+async function issueSession(account: StoredAccount): Promise<LocalSession> {
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = await signJwt({
+    sub: account.id,
+    email: account.email,
+    role: "authenticated",
+    iat: now,
+    exp: now + ACCESS_TOKEN_SECONDS,
+  });
+
+  // "{userId}.{secret}" - only a hash of the secret is stored
+  const secret = toBase64Url(randomBytes(32));
+  const tokenHash = await sha256(secret);
+  const refreshToken: StoredRefreshToken = {
+    userId: account.id,
+    tokenHash,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  };
+  await kv.set(`auth_refresh:${account.id}:${tokenHash}`, refreshToken);
+
+  return {
+    accessToken,
+    refreshToken: `${account.id}.${secret}`,
+    expiresAt: new Date((now + ACCESS_TOKEN_SECONDS) * 1000).toISOString(),
+    user: { id: account.id, email: account.email },
+  };
+}
+
+// Storage key of a refresh token (null if it isn't shaped like one)
+async function refreshTokenKey(refreshToken: string): Promise<string | null> {
+  const [userId, secret] = String(refreshToken).split(".");
+  if (!userId || !secret) return null;
+  return `auth_refresh:${userId}:${await sha256(secret)}`;
+}
+
+async function revokeAllSessions(userId: string): Promise<void> {
+  const tokens: StoredRefreshToken[] = await kv.getByPrefix(`auth_refresh:${userId}:`);
+  await kv.mdel(tokens.map((token) => `auth_refresh:${userId}:${token.tokenHash}`));
+}
+
+function generateResetCode(): string {
+  return Array.from(randomBytes(RESET_CODE_LENGTH), (byte) => RESET_CODE_ALPHABET[byte % RESET_CODE_ALPHABET.length]).join("");
+}
+
+export function createLocalAuthProvider(): LocalAuthProvider {
+  return {
+    name: "local",
+
+    async getUser(accessToken) {
+      const payload = await verifyJwt(accessToken);
+      if (!payload) {
+        return authFail("Invalid or expired access token");
+      }
+
+      const account: StoredAccount | undefined = await kv.get(`auth_user:${payload.sub}`);
+      if (!account) {
+        return authFail("User not found");
+      }
+      if (account.suspended) {
+        return authFail("User is suspended");
+      }
+      return authOk(toAuthUser(account));
+    },
+
+    async createUser({ email, password, name }) {
+      if (!email || typeof email !== "string" || !email.includes("@")) {
+        return authFail("A valid email address is required");
+      }
+      const problem = passwordProblem(password);
+      if (problem) {
+        return authFail(problem);
+      }
+      if (await findAccountByEmail(email)) {
+        return authFail("A user with this email address has already been registered");
+      }
+
+      const account: StoredAccount = {
+        id: crypto.randomUUID(),
+        email: normalizeEmail(email),
+        passwordHash: await hashPassword(password),
+        user_metadata: { name },
+        created_at: new Date().toISOString(),
+      };
+      await kv.mset(
+        [`auth_user:${account.id}`, `auth_email:${account.email}`],
+        [account, account.id]
+      );
+      return authOk(toAuthUser(account));
+    },
+
+    async listUsers() {
+      const accounts: StoredAccount[] = await kv.getByPrefix("auth_user:");
+      return authOk(accounts.map(toAuthUser));
+    },
+
+    async setSuspended(userId, suspended) {
+      const account: StoredAccount | undefined = await kv.get(`auth_user:${userId}`);
+      if (!account) {
+        return authFail("User not found");
+      }
+
+      await kv.set(`auth_user:${userId}`, { ...account, suspended });
+      if (suspended) {
+        await revokeAllSessions(userId);
+      }
+      return authOk(null);
+    },
+
+    async deleteUser(userId) {
+      const account: StoredAccount | undefined = await kv.get(`auth_user:${userId}`);
+      if (!account) {
+        return authFail("User not found");
+      }
+
+      await revokeAllSessions(userId);
+      await kv.mdel([`auth_user:${userId}`, `auth_email:${account.email}`, `auth_reset:${userId}`]);
+      return authOk(null);
+    },
+
+    async signIn(email, password) {
+      const account = email && password ? await findAccountByEmail(email) : null;
+      if (!account || !(await verifyPassword(password, account.passwordHash))) {
+        return authFail("Invalid login credentials");
+      }
+      if (account.suspended) {
+        return authFail("This account has been suspended");
+      }
+      return authOk(await issueSession(account));
+    },
+
+    async refreshSession(refreshToken) {
+      const key = await refreshTokenKey(refreshToken);
+      const stored: StoredRefreshToken | undefined = key ? await kv.get(key) : undefined;
+      if (!key || !stored || new Date(stored.expiresAt).getTime() < Date.now()) {
+        return authFail("Invalid or expired refresh token");
+      }
+
+      // Each refresh token works once
+      await kv.del(key);
+
+      const account: StoredAccount | undefined = await kv.get(`auth_user:${stored.userId}`);
+      if (!account || account.suspended) {
+        return authFail("Invalid or expired refresh token");
+      }
+      return authOk(await issueSession(account));
+    },
+
+    async signOut(refreshToken) {
+      const key = await refreshTokenKey(refreshToken);
+      if (key) {
+        await kv.del(key);
+      }
+    },
+
+    async createResetCode(userId) {
+      const account: StoredAccount | undefined = await kv.get(`auth_user:${userId}`);
+      if (!account) {
+        return authFail("User not found");
+      }
+
+      const code = generateResetCode();
+      const expiresAt = new Date(Date.now() + RESET_CODE_MINUTES * 60 * 1000).toISOString();
+      const reset: StoredResetCode = { codeHash: await sha256(code), expiresAt, attemptsLeft: RESET_CODE_ATTEMPTS };
+      await kv.set(`auth_reset:${userId}`, reset);
+      return authOk({ code, expiresAt });
+    },
+
+    async resetPassword(email, code, newPassword) {
+      const problem = passwordProblem(newPassword);
+      if (problem) {
+        return authFail(problem);
+      }
+
+      const invalid = "Invalid or expired reset code";
+      const account = email ? await findAccountByEmail(email) : null;
+      if (!account) {
+        return authFail(invalid);
+      }
+
+      const key = `auth_reset:${account.id}`;
+      const reset: StoredResetCode | undefined = await kv.get(key);
+      if (!reset || new Date(reset.expiresAt).getTime() < Date.now()) {
+        return authFail(invalid);
+      }
+
+      const normalizedCode = String(code || "").trim().toUpperCase();
+      if ((await sha256(normalizedCode)) !== reset.codeHash) {
+        // Too many wrong guesses use the code up
+        if (reset.attemptsLeft <= 1) {
+          await kv.del(key);
+        } else {
+          await kv.set(key, { ...reset, attemptsLeft: reset.attemptsLeft - 1 });
+        }
+        return authFail(invalid);
+      }
+
+      await kv.set(`auth_user:${account.id}`, { ...account, passwordHash: await hashPassword(newPassword) });
+      await kv.del(key);
+      // Sign out everywhere the old password was used
+      await revokeAllSessions(account.id);
+      return authOk(null);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * ============================================
+ * SUPABASE AUTH PROVIDER
+ * ============================================
+ *
+ * Accounts live in Supabase Auth. The client signs in, refreshes and
+ * signs out with supabase-js directly; the server only verifies tokens
+ * and manages accounts with the service role key.
+ */
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { authFail, authOk, type AuthProvider } from "./auth_provider.tsx";
+
+// ~100 years - Supabase Auth has no permanent ban
+const SUSPENDED_BAN_DURATION = "876000h";
+
+export function createSupabaseAuthProvider(): AuthProvider {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  return {
+    name: "supabase",
+
+    async getUser(accessToken) {
+      const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+      if (error || !user) {
+        return authFail(error?.message || "Invalid access token");
+      }
+      return authOk(user);
+    },
+
+    async createUser({ email, password, name }) {
+      const { data, error } = await supabase.auth.admin.createUser({
+        email,
+        password,
+        user_metadata: { name },
+        // Automatically confirm email since email server hasn't been configured
+        // In production, you'd send a confirmation email
+        email_confirm: true,
+      });
+      return error ? authFail(error.message) : authOk(data.user);
+    },
+
+    async listUsers() {
+      const { data: { users }, error } = await supabase.auth.admin.listUsers();
+      return error ? authFail(error.message) : authOk(users);
+    },
+
+    async setSuspended(userId, suspended) {
+      const { error } = await supabase.auth.admin.updateUserById(userId, {
+        ban_duration: suspended ? SUSPENDED_BAN_DURATION : "none",
+      });
+      return error ? authFail(error.message) : authOk(null);
+    },
+
+    async deleteUser(userId) {
+      const { error } = await supabase.auth.admin.deleteUser(userId);
+      return error ? authFail(error.message) : authOk(null);
+    },
+  };
+}
@@ -0,0 +1,407 @@
+/**
+ * ============================================
+ * BACKUP AND RESTORE
+ * ============================================
+ *
+ * Exports all community data into one archive and restores it.
+ *
+ * An archive holds every record of the entity types below (trashed ones
+ * included), the barangay settings, and the data migration version the
+ * records were saved at. Audit history, accounts, sessions and migration
+ * bookkeeping are left out: restoring old data doesn't rewrite history,
+ * and passwords never leave the server.
+ *
+ * A restore is planned first; a dry run returns the plan's report without
+ * writing. Writes go through the audit trail. After restoring records from
+ * an older version, the schema version is rewound so their migrations run
+ * again (migrations are safe to apply twice).
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from "npm:fflate@0.8.2";
+import * as kv from "./storage.tsx";
+import { auditedDel, auditedSet, type AuditActor } from "./audit.tsx";
+import { getAuthProvider } from "./auth_provider.tsx";
+import {
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  rewindSchemaVersion,
+  runPendingMigrations,
+} from "./migrations.tsx";
+import {
+  budgetItemSchema,
+  cropActivitySchema,
+  cropSchema,
+  feedbackSchema,
+  harvestSchema,
+  photoSchema,
+  plotSchema,
+  pollSchema,
+  scheduleEventSchema,
+  taskSchema,
+  updateSchema,
+  validateEntity,
+  varietySchema,
+  volunteerSchema,
+  type Schema,
+} from "../_shared/schemas.ts";
+import type { BackupArchive, RestoreCounts, RestoreMode, RestoreReport, UserProfile } from "../_shared/types.ts";
+
+export type ArchiveResult =
+  | { success: true; archive: BackupArchive }
+  | { success: false; problems: string[] };
+
+export const BACKUP_FORMAT = "plant-n-plan-backup";
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Entity types stored as `{type}:{id}`
+const ENTITY_TYPES = [
+  "plot",
+  "variety",
+  "crop",
+  "crop_activity",
+  "harvest",
+  "budget",
+  "volunteer",
+  "task",
+  "poll",
+  "feedback",
+  "photo",
+  "update",
+  "event",
+  "user_profile",
+  "role_change",
+];
+
+// Settings are single keys; getByPrefix can't list them, so they're named here
+const SETTINGS_KEYS = [
+  "settings:location",
+  "settings:barangay_name",
+  "settings:total_budget",
+  "settings:role_permissions",
+  "settings:trash_retention_days",
+  "settings:garden_map",
+  "settings:companion_planting",
+];
+
+// Validation of the entity types users edit; archived records that fail it
+// are still restored, with a warning
+const SCHEMAS: Record<string, Schema<any>> = {
+  plot: plotSchema,
+  variety: varietySchema,
+  crop: cropSchema,
+  crop_activity: cropActivitySchema,
+  harvest: harvestSchema,
+  budget: budgetItemSchema,
+  volunteer: volunteerSchema,
+  task: taskSchema,
+  poll: pollSchema,
+  feedback: feedbackSchema,
+  photo: photoSchema,
+  update: updateSchema,
+  event: scheduleEventSchema,
+};
+
+// Keys that decide who may do what; only an admin restores them
+const ACCESS_KEYS = ["settings:role_permissions"];
+const ACCESS_TYPES = ["role_change"];
+
+// Problems listed before a broken archive is rejected
+const MAX_PROBLEMS = 20;
+
+/**
+ * Report group of a key: its entity type, or "settings"
+ */
+function recordType(key: string): string {
+  return SETTINGS_KEYS.includes(key) ? "settings" : key.slice(0, key.indexOf(":"));
+}
+
+function isAccessKey(key: string): boolean {
+  return ACCESS_KEYS.includes(key) || ACCESS_TYPES.includes(recordType(key));
+}
+
+/**
+ * JSON with object keys sorted, so equal records compare equal whatever
+ * order the storage backend returned their fields in
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]))
+      : v
+  );
+}
+
+/**
+ * Every stored record an archive covers, by key
+ */
+async function currentRecords(): Promise<Map<string, unknown>> {
+  const records = new Map<string, unknown>();
+
+  for (const type of ENTITY_TYPES) {
+    for (const record of await kv.getByPrefix(`${type}:`)) {
+      records.set(`${type}:${record.id}`, record);
+    }
+  }
+
+  const settings = await Promise.all(SETTINGS_KEYS.map((key) => kv.get(key)));
+  SETTINGS_KEYS.forEach((key, i) => {
+    if (settings[i] !== undefined && settings[i] !== null) {
+      records.set(key, settings[i]);
+    }
+  });
+
+  return records;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export async function createBackup(actor: AuditActor): Promise<BackupArchive> {
+  const [records, schemaVersion] = await Promise.all([currentRecords(), getSchemaVersion()]);
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy: actor?.email || null,
+    schemaVersion,
+    records: Object.fromEntries(records),
+  };
+}
+
+/**
+ * The archive as a ZIP: manifest.json plus records/{type}.json
+ */
+export function archiveToZip(archive: BackupArchive): Uint8Array {
+  const { records, ...manifest } = archive;
+  const byType: Record<string, Record<string, unknown>> = {};
+  for (const [key, value] of Object.entries(records)) {
+    (byType[recordType(key)] ||= {})[key] = value;
+  }
+
+  return zipSync({
+    "manifest.json": strToU8(JSON.stringify(manifest, null, 2)),
+    ...Object.fromEntries(
+      Object.entries(byType).map(([type, typeRecords]) => [
+        `records/${type}.json`,
+        strToU8(JSON.stringify(typeRecords, null, 2)),
+      ])
+    ),
+  });
+}
+
+/**
+ * Read an archive back from archiveToZip's layout (not yet validated)
+ */
+export function zipToArchive(bytes: Uint8Array): unknown {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch {
+    throw new Error("The file is not a valid ZIP archive");
+  }
+
+  if (!files["manifest.json"]) {
+    throw new Error("The ZIP archive has no manifest.json");
+  }
+
+  const records: Record<string, unknown> = {};
+  for (const [name, content] of Object.entries(files)) {
+    if (name.startsWith("records/") && name.endsWith(".json")) {
+      Object.assign(records, JSON.parse(strFromU8(content)));
+    }
+  }
+
+  return { ...JSON.parse(strFromU8(files["manifest.json"])), records };
+}
+
+// ============================================
+// RESTORE
+// ============================================
+
+/**
+ * Check that an uploaded archive can be restored by this server
+ */
+export function validateArchive(input: any): ArchiveResult {
+  if (!input || typeof input !== "object" || input.format !== BACKUP_FORMAT) {
+    return { success: false, problems: ["This is not a Plant n' Plan backup"] };
+  }
+
+  const problems: string[] = [];
+  if (!Number.isInteger(input.formatVersion) || input.formatVersion < 1) {
+    problems.push("formatVersion is missing");
+  } else if (input.formatVersion > BACKUP_FORMAT_VERSION) {
+    problems.push("The backup was made by a newer version of the system; update the server first");
+  }
+  if (typeof input.createdAt !== "string" || isNaN(new Date(input.createdAt).getTime())) {
+    problems.push("createdAt is missing or not a date");
+  }
+  if (!Number.isInteger(input.schemaVersion) || input.schemaVersion < 0) {
+    problems.push("schemaVersion is missing");
+  } else if (input.schemaVersion > LATEST_SCHEMA_VERSION) {
+    problems.push(`The backup's data is at schema version ${input.schemaVersion}, newer than this server's ${LATEST_SCHEMA_VERSION}; update the server first`);
+  }
+  if (!input.records || typeof input.records !== "object" || Array.isArray(input.records)) {
+    return { success: false, problems: [...problems, "records is missing"] };
+  }
+
+  for (const [key, value] of Object.entries<any>(input.records)) {
+    if (problems.length >= MAX_PROBLEMS) break;
+
+    if (SETTINGS_KEYS.includes(key)) {
+      if (value === null || value === undefined) {
+        problems.push(`${key}: empty value`);
+      }
+      continue;
+    }
+
+    const type = recordType(key);
+    if (!ENTITY_TYPES.includes(type)) {
+      problems.push(`${key}: not a record type that backups contain`);
+    } else if (!value || typeof value !== "object" || Array.isArray(value)) {
+      problems.push(`${key}: not a record`);
+    } else if (`${type}:${value.id}` !== key) {
+      problems.push(`${key}: id doesn't match its key`);
+    }
+  }
+
+  if (problems.length > 0) {
+    return { success: false, problems };
+  }
+  return { success: true, archive: input as BackupArchive };
+}
+
+interface RestorePlan {
+  writes: Array<{ key: string; value: unknown }>;
+  deletes: string[];
+  report: RestoreReport;
+}
+
+/**
+ * Account ids the auth provider knows, which restored profiles must belong to
+ */
+async function accountIds(): Promise<Set<string>> {
+  const { data: users, error } = await getAuthProvider().listUsers();
+  if (error) {
+    throw new Error(`Couldn't list accounts: ${error.message}`);
+  }
+  return new Set(users.map((user) => user.id));
+}
+
+/**
+ * Work out what restoring an archive changes
+ * The acting admin's own profile is left alone, so a restore can't lock
+ * them out. Profiles follow the accounts, which backups don't hold: those
+ * of accounts deleted since are left out, and none are removed in replace
+ * mode (an account without a profile can't sign in). Only an admin
+ * restores roles, suspensions, role permissions and role changes; for
+ * anyone else they stay as they are, so `backup.manage` alone can't be
+ * used to grant more access.
+ */
+async function planRestore(actor: AuditActor, archive: BackupArchive, mode: RestoreMode): Promise<RestorePlan> {
+  const current = await currentRecords();
+  const protectedKey = actor ? `user_profile:${actor.id}` : null;
+  const accounts = await accountIds();
+  const actorIsAdmin = (current.get(protectedKey ?? "") as UserProfile | undefined)?.role === "admin";
+
+  const plan: RestorePlan = {
+    writes: [],
+    deletes: [],
+    report: {
+      mode,
+      dryRun: true,
+      archiveCreatedAt: archive.createdAt,
+      archiveSchemaVersion: archive.schemaVersion,
+      changes: {},
+      warnings: [],
+      skipped: [],
+    },
+  };
+
+  const count = (key: string, change: keyof RestoreCounts) => {
+    const type = recordType(key);
+    const counts = plan.report.changes[type] ||= { added: 0, updated: 0, removed: 0, unchanged: 0 };
+    counts[change]++;
+  };
+
+  for (const [key, archived] of Object.entries(archive.records)) {
+    if (key === protectedKey) continue;
+    if (!actorIsAdmin && isAccessKey(key)) {
+      if (canonicalJson(current.get(key)) !== canonicalJson(archived)) {
+        plan.report.skipped.push({ key, reason: "Only an admin can restore roles and permissions" });
+      }
+      continue;
+    }
+
+    let value = archived;
+    if (recordType(key) === "user_profile") {
+      const profile = archived as UserProfile;
+      if (!accounts.has(profile.id)) {
+        plan.report.skipped.push({ key, reason: "The account was deleted after the backup" });
+        continue;
+      }
+      if (!actorIsAdmin) {
+        const existing = current.get(key) as UserProfile | undefined;
+        value = { ...profile, role: existing?.role ?? "member", suspended: existing?.suspended };
+      }
+    }
+
+    if (current.has(key) && canonicalJson(current.get(key)) === canonicalJson(value)) {
+      count(key, "unchanged");
+      continue;
+    }
+
+    count(key, current.has(key) ? "updated" : "added");
+    plan.writes.push({ key, value });
+
+    const schema = SCHEMAS[recordType(key)];
+    const result = schema && validateEntity(schema, value);
+    if (result && !result.success) {
+      plan.report.warnings.push({ key, fieldErrors: result.errors });
+    }
+  }
+
+  if (mode === "replace") {
+    for (const key of current.keys()) {
+      const kept = key === protectedKey || recordType(key) === "user_profile" || (!actorIsAdmin && isAccessKey(key));
+      if (!kept && !(key in archive.records)) {
+        plan.deletes.push(key);
+        count(key, "removed");
+      }
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Restore a validated archive; with dryRun, only report what would change
+ */
+export async function restoreBackup(
+  actor: AuditActor,
+  archive: BackupArchive,
+  mode: RestoreMode,
+  dryRun: boolean
+): Promise<RestoreReport> {
+  const plan = await planRestore(actor, archive, mode);
+  if (dryRun) {
+    return plan.report;
+  }
+
+  for (const { key, value } of plan.writes) {
+    await auditedSet(actor, key, value);
+  }
+  for (const key of plan.deletes) {
+    await auditedDel(actor, key, "purge");
+  }
+
+  await rewindSchemaVersion(archive.schemaVersion);
+  const migrated = await runPendingMigrations(actor);
+  if (!migrated.success) {
+    console.log("Migrations after restore did not run:", migrated.error);
+  }
+
+  console.log(`Restored backup from ${archive.createdAt} (${mode}): ${plan.writes.length} written, ${plan.deletes.length} removed`);
+  return { ...plan.report, dryRun: false };
+}
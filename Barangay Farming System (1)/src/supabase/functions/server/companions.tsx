@@ -0,0 +1,108 @@
+/**
+ * ============================================
+ * COMPANION PLANTING
+ * ============================================
+ *
+ * Which crops help or hinder each other when grown together, kept as one
+ * settings record (`settings:companion_planting`). The app checks crops
+ * sharing a plot, and crops on plots next to each other on the garden
+ * map, against these pairs.
+ *
+ * Pairs name crops rather than catalog entries, so they also cover plants
+ * like marigold that are grown for their effect on their neighbors. Until
+ * an admin saves the data, DEFAULT_COMPANION_PLANTING is used.
+ */
+
+import * as kv from "./storage.tsx";
+import type { CompanionPair, CompanionPlanting, FieldErrors } from "../_shared/types.ts";
+
+export const COMPANION_PLANTING_KEY = "settings:companion_planting";
+
+const MAX_PAIRS = 500;
+const MAX_NAME_LENGTH = 60;
+const MAX_REASON_LENGTH = 300;
+
+const RELATIONS: CompanionPair["relation"][] = ["beneficial", "antagonistic"];
+
+// Pairings commonly given for lowland vegetable gardens
+export const DEFAULT_COMPANION_PLANTING: CompanionPlanting = {
+  pairs: [
+    { crops: ["Marigold", "Tomato"], relation: "beneficial", reason: "Marigold roots keep root-knot nematodes down and its scent repels whiteflies." },
+    { crops: ["Marigold", "Eggplant"], relation: "beneficial", reason: "Marigold draws aphids and whiteflies away from the eggplant." },
+    { crops: ["Basil", "Tomato"], relation: "beneficial", reason: "Basil repels thrips and fruit flies." },
+    { crops: ["Onion", "Pechay"], relation: "beneficial", reason: "The smell of onions keeps cabbage moths and their caterpillars away." },
+    { crops: ["Onion", "Cabbage"], relation: "beneficial", reason: "The smell of onions keeps cabbage moths and their caterpillars away." },
+    { crops: ["Corn", "Sitaw"], relation: "beneficial", reason: "The beans climb the corn stalks and put back the nitrogen the corn uses." },
+    { crops: ["Corn", "Kalabasa"], relation: "beneficial", reason: "Squash leaves shade out weeds and keep the soil around the corn moist." },
+    { crops: ["Cabbage", "Strawberry"], relation: "antagonistic", reason: "Cabbage stunts strawberries and competes with them for nutrients." },
+    { crops: ["Mustasa", "Strawberry"], relation: "antagonistic", reason: "Mustard stunts strawberries and competes with them for nutrients." },
+    { crops: ["Onion", "Sitaw"], relation: "antagonistic", reason: "Onions hold back the growth of beans." },
+    { crops: ["Cabbage", "Tomato"], relation: "antagonistic", reason: "Tomatoes hold back the growth of cabbage." },
+    { crops: ["Eggplant", "Tomato"], relation: "antagonistic", reason: "Both are nightshades: they share bacterial wilt and fruit borers, which spread between them." },
+  ],
+};
+
+export type CompanionPlantingValidation =
+  | { success: true; data: CompanionPlanting }
+  | { success: false; errors: FieldErrors };
+
+export async function getCompanionPlanting(): Promise<CompanionPlanting> {
+  return (await kv.get(COMPANION_PLANTING_KEY)) ?? DEFAULT_COMPANION_PLANTING;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Check companion planting data sent by the editor
+ * Errors are keyed like the other forms, e.g. "pairs.2.reason".
+ */
+export function validateCompanionPlanting(body: any): CompanionPlantingValidation {
+  const errors: FieldErrors = {};
+
+  if (!Array.isArray(body?.pairs)) {
+    return { success: false, errors: { pairs: "Must be a list of crop pairs" } };
+  }
+  if (body.pairs.length > MAX_PAIRS) {
+    return { success: false, errors: { pairs: `At most ${MAX_PAIRS} pairs` } };
+  }
+
+  const seen = new Set<string>();
+  const pairs: CompanionPair[] = [];
+
+  body.pairs.forEach((pair: any, index: number) => {
+    const path = `pairs.${index}`;
+
+    const crops: unknown[] = Array.isArray(pair?.crops) ? pair.crops : [];
+    const names = crops.map((name) => (typeof name === "string" ? name.trim() : ""));
+    if (names.length !== 2 || names.some((name) => !name || name.length > MAX_NAME_LENGTH)) {
+      errors[`${path}.crops`] = `Name two crops of up to ${MAX_NAME_LENGTH} characters`;
+      return;
+    }
+    if (normalize(names[0]) === normalize(names[1])) {
+      errors[`${path}.crops`] = "Choose two different crops";
+      return;
+    }
+    const key = names.map(normalize).sort().join("|");
+    if (seen.has(key)) {
+      errors[`${path}.crops`] = "These crops are already paired";
+      return;
+    }
+    seen.add(key);
+
+    if (!RELATIONS.includes(pair.relation)) {
+      errors[`${path}.relation`] = `Must be one of: ${RELATIONS.join(", ")}`;
+      return;
+    }
+    if (typeof pair.reason !== "string" || !pair.reason.trim() || pair.reason.length > MAX_REASON_LENGTH) {
+      errors[`${path}.reason`] = `Explain the pairing in up to ${MAX_REASON_LENGTH} characters`;
+      return;
+    }
+
+    pairs.push({ crops: [names[0], names[1]], relation: pair.relation, reason: pair.reason.trim() });
+  });
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+  return { success: true, data: { pairs } };
+}
@@ -0,0 +1,69 @@
+/**
+ * ============================================
+ * CROP ACTIVITY LOG
+ * ============================================
+ *
+ * Each crop has a timeline of dated entries (`crop_activity:{id}`):
+ * watering, weeding, treatments, growth stages and so on, with who did
+ * the work and an optional photo. Entries point at their crop by id, so
+ * a crop moved to the trash keeps its timeline for when it's restored.
+ *
+ * Health changes aren't entered by hand: whenever a crop is saved with a
+ * different health (from its form or a spreadsheet import), a "health"
+ * entry is added under the name of the member who saved it.
+ */
+
+import * as kv from "./storage.tsx";
+import { auditedSet, type AuditActor } from "./audit.tsx";
+import { getActive } from "./trash.tsx";
+import { initialVersion } from "./versioning.tsx";
+import type { Crop, CropActivity, FieldErrors } from "../_shared/types.ts";
+
+const HEALTH_LABELS: Record<NonNullable<Crop["health"]>, string> = {
+  "healthy": "Healthy",
+  "needs-water": "Needs Water",
+  "pest-issue": "Pest Issue",
+  "disease": "Disease",
+};
+
+/**
+ * Check an entry beyond its schema, as the create and update routes need
+ * `previous` is the stored entry being edited, if any
+ */
+export async function checkCropActivity(
+  activity: Omit<CropActivity, "id">,
+  previous?: CropActivity | null
+): Promise<FieldErrors | null> {
+  if (!(await getActive<Crop>(`crop:${activity.cropId}`))) {
+    return { cropId: "Not a crop in the garden" };
+  }
+  if (activity.type === "health" && previous?.type !== "health") {
+    return { type: "Health changes are logged when the crop's health is edited" };
+  }
+  if (activity.type === "growth-stage" && !activity.stage) {
+    return { stage: "Choose the stage the crop reached" };
+  }
+  return null;
+}
+
+/**
+ * Add a "health" entry to a crop's timeline if an update changed its health
+ * (crops saved before health existed count as healthy)
+ */
+export async function logHealthChange(actor: AuditActor, before: Crop | null, after: Crop): Promise<void> {
+  const from = before?.health ?? "healthy";
+  if (!before || !after.health || from === after.health) return;
+
+  const profile = actor ? await kv.get(`user_profile:${actor.id}`) : null;
+  const activity: CropActivity = {
+    id: crypto.randomUUID(),
+    cropId: after.id,
+    date: new Date().toISOString().split("T")[0],
+    type: "health",
+    health: after.health,
+    volunteer: profile?.name || actor?.email || "Unknown",
+    notes: `Health changed from ${HEALTH_LABELS[from]} to ${HEALTH_LABELS[after.health]}`,
+    ...initialVersion(),
+  };
+  await auditedSet(actor, `crop_activity:${activity.id}`, activity);
+}
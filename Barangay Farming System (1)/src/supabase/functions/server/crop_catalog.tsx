@@ -0,0 +1,64 @@
+/**
+ * ============================================
+ * CROP CATALOG
+ * ============================================
+ *
+ * Growing details of the crop varieties the garden plants, so members
+ * adding a crop don't have to look up how long it takes to mature.
+ * Crops copy the name and variety of the entry they were planted from
+ * rather than pointing at it, so editing or deleting an entry leaves
+ * existing crops as they are.
+ *
+ * A name and variety pair appears once (ignoring case and surrounding
+ * spaces). Migration 4 seeds STARTER_VARIETIES into an empty catalog;
+ * migration 5 gives entries saved before families existed the family of
+ * the starter crop with the same name.
+ */
+
+import { listActive } from "./trash.tsx";
+import type { CropVariety, PlantFamily } from "../_shared/types.ts";
+
+const normalize = (value: unknown) => String(value ?? "").trim().toLowerCase();
+
+/**
+ * The catalog entry with a name and variety, leaving out the entry
+ * `exceptId` (so an entry being edited doesn't clash with itself)
+ */
+export async function findVariety(
+  entry: Pick<CropVariety, "name" | "variety">,
+  exceptId?: string
+): Promise<CropVariety | null> {
+  const varieties = await listActive<CropVariety>("variety");
+  return varieties.find((variety) =>
+    variety.id !== exceptId &&
+    normalize(variety.name) === normalize(entry.name) &&
+    normalize(variety.variety) === normalize(entry.variety)
+  ) ?? null;
+}
+
+// Vegetables commonly grown in barangay gardens, with figures from typical
+// lowland growing guides; admins adjust them to what the garden sees
+export const STARTER_VARIETIES: Array<Omit<CropVariety, "id">> = [
+  { name: "Eggplant", variety: "Long Purple", family: "solanaceae", daysToMaturity: 75, spacingCm: 60, waterNeeds: "medium", season: "all-year", yieldKgPerSqm: 2.5, notes: "Talong. Harvest every few days once fruiting starts." },
+  { name: "Ampalaya", variety: "Galaxy", family: "cucurbits", daysToMaturity: 60, spacingCm: 100, waterNeeds: "medium", season: "dry", yieldKgPerSqm: 2, notes: "Bitter gourd. Needs a trellis." },
+  { name: "Pechay", variety: "Native", family: "brassicas", daysToMaturity: 30, spacingCm: 20, waterNeeds: "high", season: "all-year", yieldKgPerSqm: 2, notes: "Bok choy. Good for quick rotations between longer crops." },
+  { name: "Okra", variety: "Smooth Green", family: "malvaceae", daysToMaturity: 55, spacingCm: 40, waterNeeds: "low", season: "all-year", yieldKgPerSqm: 1.5, notes: "Pick pods young, every other day." },
+  { name: "Tomato", variety: "Diamante Max", family: "solanaceae", daysToMaturity: 70, spacingCm: 50, waterNeeds: "medium", season: "dry", yieldKgPerSqm: 3, notes: "Kamatis. Stake the plants; prone to wilt in the wet season." },
+  { name: "Sitaw", variety: "Native", family: "legumes", daysToMaturity: 55, spacingCm: 30, waterNeeds: "medium", season: "all-year", yieldKgPerSqm: 1.2, notes: "String beans. Needs a trellis." },
+  { name: "Kangkong", variety: "Upland", family: "convolvulaceae", daysToMaturity: 30, spacingCm: 15, waterNeeds: "high", season: "wet", yieldKgPerSqm: 2.5, notes: "Water spinach. Cut regrowth every two to three weeks." },
+  { name: "Kalabasa", variety: "Suprema", family: "cucurbits", daysToMaturity: 90, spacingCm: 150, waterNeeds: "medium", season: "dry", yieldKgPerSqm: 2, notes: "Squash. Vines spread widely; tops are also eaten." },
+  { name: "Upo", variety: "Native", family: "cucurbits", daysToMaturity: 65, spacingCm: 150, waterNeeds: "medium", season: "all-year", yieldKgPerSqm: 3, notes: "Bottle gourd. Needs a trellis." },
+  { name: "Mustasa", variety: "Native", family: "brassicas", daysToMaturity: 35, spacingCm: 25, waterNeeds: "high", season: "dry", yieldKgPerSqm: 1.5, notes: "Mustard greens." },
+  { name: "Lettuce", variety: "Romaine", family: "asteraceae", daysToMaturity: 50, spacingCm: 25, waterNeeds: "high", season: "dry", yieldKgPerSqm: 1.5, notes: "Bolts in hot weather; give it partial shade." },
+  { name: "Siling Labuyo", variety: "Native", family: "solanaceae", daysToMaturity: 90, spacingCm: 50, waterNeeds: "low", season: "all-year", yieldKgPerSqm: 0.5, notes: "Bird's eye chili. Keeps fruiting for months." },
+  { name: "Patola", variety: "Native", family: "cucurbits", daysToMaturity: 60, spacingCm: 100, waterNeeds: "medium", season: "wet", yieldKgPerSqm: 2, notes: "Sponge gourd. Needs a trellis." },
+  { name: "Cabbage", variety: "Scorpio", family: "brassicas", daysToMaturity: 75, spacingCm: 45, waterNeeds: "high", season: "dry", yieldKgPerSqm: 3, notes: "Repolyo. Heat-tolerant lowland variety." },
+  { name: "Sigarilyas", variety: "Native", family: "legumes", daysToMaturity: 70, spacingCm: 40, waterNeeds: "medium", season: "wet", yieldKgPerSqm: 1, notes: "Winged bean. Needs a trellis." },
+];
+
+/**
+ * Family of the starter crop with a name ("other" for crops not in the starter set)
+ */
+export function starterFamily(name: string): PlantFamily {
+  return STARTER_VARIETIES.find((starter) => normalize(starter.name) === normalize(name))?.family ?? "other";
+}
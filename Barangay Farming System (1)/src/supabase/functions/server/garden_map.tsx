@@ -0,0 +1,97 @@
+/**
+ * ============================================
+ * GARDEN MAP
+ * ============================================
+ *
+ * The drawn layout of the plots, kept as one settings record
+ * (`settings:garden_map`). Each plot has at most one shape: a polygon of
+ * grid points, a rectangle being a polygon with four corners.
+ *
+ * Shapes refer to plots by id, so renaming a plot keeps its shape. The
+ * shape of a deleted plot stays in the map and shows again if the plot is
+ * restored; the app leaves out shapes of plots it doesn't have.
+ */
+
+import * as kv from "./storage.tsx";
+import type { FieldErrors, GardenMap, MapPoint, PlotShape } from "../_shared/types.ts";
+
+export const GARDEN_MAP_KEY = "settings:garden_map";
+
+// Enough for a barangay garden drawn in 1 m cells
+const MAX_GRID_SIZE = 200;
+const MAX_SHAPE_POINTS = 100;
+
+export const DEFAULT_GARDEN_MAP: GardenMap = { columns: 24, rows: 16, shapes: [] };
+
+export type GardenMapValidation =
+  | { success: true; data: GardenMap }
+  | { success: false; errors: FieldErrors };
+
+export async function getGardenMap(): Promise<GardenMap> {
+  return (await kv.get(GARDEN_MAP_KEY)) ?? DEFAULT_GARDEN_MAP;
+}
+
+const isGridSize = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= MAX_GRID_SIZE;
+
+/**
+ * Check a garden map sent by the editor
+ * Errors are keyed like the other forms, e.g. "columns" or "shapes.2.points".
+ */
+export async function validateGardenMap(body: any): Promise<GardenMapValidation> {
+  const errors: FieldErrors = {};
+
+  if (!isGridSize(body?.columns)) {
+    errors.columns = `Must be a whole number from 1 to ${MAX_GRID_SIZE}`;
+  }
+  if (!isGridSize(body?.rows)) {
+    errors.rows = `Must be a whole number from 1 to ${MAX_GRID_SIZE}`;
+  }
+  if (!Array.isArray(body?.shapes)) {
+    errors.shapes = "Must be a list of plot shapes";
+  }
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  // Shapes may belong to plots in the trash (see above). Shapes of plots
+  // purged from the trash are dropped, since the editor still sends them.
+  const plotIds = new Set((await kv.getByPrefix("plot:")).map((plot) => plot.id));
+  const seen = new Set<string>();
+  const shapes: PlotShape[] = [];
+
+  body.shapes.forEach((shape: any, index: number) => {
+    const path = `shapes.${index}`;
+
+    if (typeof shape?.plotId !== "string") {
+      errors[`${path}.plotId`] = "Not a plot in the plot registry";
+      return;
+    }
+    if (!plotIds.has(shape.plotId)) return;
+    if (seen.has(shape.plotId)) {
+      errors[`${path}.plotId`] = "This plot is already on the map";
+      return;
+    }
+    seen.add(shape.plotId);
+
+    const points: unknown[] = Array.isArray(shape.points) ? shape.points : [];
+    if (points.length < 3 || points.length > MAX_SHAPE_POINTS) {
+      errors[`${path}.points`] = `A shape needs 3 to ${MAX_SHAPE_POINTS} corners`;
+      return;
+    }
+    const onGrid = (point: any): point is MapPoint =>
+      Number.isInteger(point?.x) && Number.isInteger(point?.y) &&
+      point.x >= 0 && point.x <= body.columns && point.y >= 0 && point.y <= body.rows;
+    if (!points.every(onGrid)) {
+      errors[`${path}.points`] = "Every corner must be a grid point inside the map";
+      return;
+    }
+
+    shapes.push({ plotId: shape.plotId, points: points.map(({ x, y }: any) => ({ x, y })) });
+  });
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+  return { success: true, data: { columns: body.columns, rows: body.rows, shapes } };
+}
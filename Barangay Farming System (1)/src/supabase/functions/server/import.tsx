@@ -0,0 +1,172 @@
+/**
+ * ============================================
+ * SPREADSHEET IMPORTS
+ * ============================================
+ *
+ * Batch creation of records from rows of a CSV or Excel file. The client
+ * reads the file and maps its columns to fields; each row then goes
+ * through the same schema as the single-record create route.
+ *
+ * A row "looks like" an existing record when the fields in its duplicate
+ * key match (ignoring case and surrounding spaces). Earlier rows of the
+ * same file count too, so a file listing an expense twice imports it once.
+ * Updating a match only changes the fields the file's columns were mapped to.
+ * Invalid rows are skipped, never half-written.
+ *
+ * A dry run returns the same report without writing, for the preview.
+ */
+
+import { auditedSet, type AuditActor } from "./audit.tsx";
+import { listActive } from "./trash.tsx";
+import { checkCropPlot } from "./plots.tsx";
+import { logHealthChange } from "./crop_activity.tsx";
+import { bumpVersion, initialVersion } from "./versioning.tsx";
+import {
+  budgetItemSchema,
+  cropSchema,
+  harvestSchema,
+  validateEntity,
+  volunteerSchema,
+  type Schema,
+} from "../_shared/schemas.ts";
+import type {
+  DuplicateAction,
+  FieldErrors,
+  ImportEntityType,
+  ImportReport,
+  ImportRequest,
+  ImportRowResult,
+  Versioned,
+} from "../_shared/types.ts";
+
+export type ImportRequestResult =
+  | { success: true; request: Required<ImportRequest> }
+  | { success: false; error: string };
+
+// Rows accepted in one request
+export const MAX_IMPORT_ROWS = 1000;
+
+const DUPLICATE_ACTIONS: readonly DuplicateAction[] = ["skip", "update", "create"];
+
+type StoredRecord = Versioned & { id: string; [field: string]: unknown };
+
+interface ImportOptions {
+  schema: Schema<any>;
+  duplicateKey: string[];  // Fields that together identify the same record
+  check?: (data: any) => Promise<FieldErrors | null>;  // Checks beyond the schema, as the create route makes them
+  afterUpdate?: (actor: AuditActor, before: any, after: any) => Promise<void>;  // What the update route does after saving
+}
+
+const IMPORT_OPTIONS: Record<ImportEntityType, ImportOptions> = {
+  crop: {
+    schema: cropSchema,
+    duplicateKey: ["name", "variety", "plotNumber", "datePlanted"],
+    check: checkCropPlot,
+    afterUpdate: logHealthChange,
+  },
+  harvest: { schema: harvestSchema, duplicateKey: ["cropName", "harvestDate", "quantity"] },
+  budget: { schema: budgetItemSchema, duplicateKey: ["date", "category", "description", "amount"] },
+  volunteer: { schema: volunteerSchema, duplicateKey: ["name"] },
+};
+
+export function isImportable(entityType: string): entityType is ImportEntityType {
+  return entityType in IMPORT_OPTIONS;
+}
+
+function duplicateKey(options: ImportOptions, record: Record<string, unknown>): string {
+  return options.duplicateKey.map((field) => String(record[field] ?? "").trim().toLowerCase()).join("|");
+}
+
+/**
+ * Check the shape of an import body (rows themselves are validated one by one)
+ */
+export function parseImportRequest(body: any): ImportRequestResult {
+  if (!body || !Array.isArray(body.rows)) {
+    return { success: false, error: "rows must be a list" };
+  }
+  if (body.rows.length === 0) {
+    return { success: false, error: "There are no rows to import" };
+  }
+  if (body.rows.length > MAX_IMPORT_ROWS) {
+    return { success: false, error: `At most ${MAX_IMPORT_ROWS} rows can be imported at once; split the file` };
+  }
+  const onDuplicate = body.onDuplicate ?? "skip";
+  if (!DUPLICATE_ACTIONS.includes(onDuplicate)) {
+    return { success: false, error: `onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(", ")}` };
+  }
+  return { success: true, request: { rows: body.rows, onDuplicate } };
+}
+
+/**
+ * Create, update or skip each row; with dryRun, only report what would happen
+ */
+export async function importRecords(
+  actor: AuditActor,
+  entityType: ImportEntityType,
+  request: Required<ImportRequest>,
+  dryRun: boolean
+): Promise<ImportReport> {
+  const options = IMPORT_OPTIONS[entityType];
+  const report: ImportReport = { dryRun, created: 0, updated: 0, skipped: 0, rows: [] };
+
+  // Records a row can match, by duplicate key; `row` is set for records from this file
+  const known = new Map<string, { record: StoredRecord; row?: number }>();
+  for (const record of await listActive<StoredRecord>(entityType)) {
+    known.set(duplicateKey(options, record), { record });
+  }
+
+  for (const [row, values] of request.rows.entries()) {
+    const result = validateEntity<any>(options.schema, values);
+    const fieldErrors = result.success ? await options.check?.(result.data) : result.errors;
+    if (!result.success || fieldErrors) {
+      report.rows.push({ row, outcome: "skipped", fieldErrors: fieldErrors ?? undefined });
+      report.skipped++;
+      continue;
+    }
+
+    const key = duplicateKey(options, result.data);
+    const match = known.get(key);
+    const action: DuplicateAction = match ? request.onDuplicate : "create";
+    const rowResult: ImportRowResult = { row, outcome: "skipped" };
+    if (match) {
+      if (match.row === undefined) {
+        rowResult.duplicateOf = match.record.id;
+      } else {
+        rowResult.duplicateOfRow = match.row;
+      }
+    }
+
+    if (action === "skip") {
+      report.skipped++;
+    } else if (match && action === "update") {
+      // Fields the file didn't map keep their stored values
+      const record = bumpVersion({ ...match.record, ...result.data, id: match.record.id });
+      if (!dryRun) {
+        await auditedSet(actor, `${entityType}:${record.id}`, record);
+        await options.afterUpdate?.(actor, match.record, record);
+        rowResult.id = record.id;
+      }
+      known.set(key, { ...match, record });
+      rowResult.outcome = "updated";
+      report.updated++;
+    } else {
+      const record = { ...result.data, id: crypto.randomUUID(), ...initialVersion() };
+      if (!dryRun) {
+        await auditedSet(actor, `${entityType}:${record.id}`, record);
+        rowResult.id = record.id;
+      }
+      if (!match) {
+        known.set(key, { record, row });
+      }
+      rowResult.outcome = "created";
+      report.created++;
+    }
+
+    report.rows.push(rowResult);
+  }
+
+  if (!dryRun) {
+    console.log(`Imported ${entityType} rows: ${report.created} created, ${report.updated} updated, ${report.skipped} skipped`);
+  }
+  return report;
+}
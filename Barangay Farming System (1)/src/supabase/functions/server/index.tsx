@@ -9,11 +9,15 @@
  * Technology Stack:
  * - Hono: Web framework (lightweight, fast)
  * - Deno: Runtime environment
- * - Supabase: Database, Auth, and Storage
+ * - Supabase: Database, Auth, and Storage (or storage.tsx and
+ *   auth_provider.tsx backends for a self-hosted server)
  * 
  * Routes:
- * - /auth/* - Authentication (signup, login, profile)
+ * - /auth/* - Authentication (signup, login, profile; sessions and password reset with local auth)
+ * - /plots/* - Plot registry
+ * - /varieties/* - Crop catalog
  * - /crops/* - Crop management
+ * - /crop-activities/* - Crop activity timelines
  * - /harvests/* - Harvest tracking
  * - /budget/* - Budget transparency
  * - /volunteers/* - Volunteer management
@@ -23,15 +27,87 @@
  * - /photos/* - Photo gallery
  * - /updates/* - Community updates
  * - /events/* - Events calendar
- * - /settings/* - System settings
+ * - /settings/* - System settings and the garden map
+ * - /setup/* - First-run setup wizard
+ * - /users/* - User list, role changes, suspend/reactivate and delete
+ * - /roles/* - Role permission matrix
+ * - /audit - Audit log of every record change
+ * - /trash/* - Deleted records: restore or purge
+ * - /migrations/* - Data migration status and runs
+ * - /backup/* - Download a backup of all data, restore from one
+ * - /realtime - Stream of record changes (server-sent events)
  * - /profile/avatar/* - Profile picture upload
  */
 
 import { Hono } from "npm:hono@4";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
+import { streamSSE } from "npm:hono/streaming";
 import { createClient } from "npm:@supabase/supabase-js@2";
-import * as kv from "./kv_store.tsx";
+import * as kv from "./storage.tsx";
+import { getStorageBackend } from "./storage.tsx";
+import { authenticate, requirePermission, getPermissionMatrix } from "./auth_middleware.tsx";
+import { getAuthProvider, getAuthProviderName, getLocalAuth } from "./auth_provider.tsx";
+import { auditedSet, auditedDel, listAuditEntries } from "./audit.tsx";
+import { queryActive } from "./list_query.tsx";
+import { initialVersion, bumpVersion, expectedVersion, updateVersioned } from "./versioning.tsx";
+import { getMigrationStatus, runPendingMigrations } from "./migrations.tsx";
+import { createBackup, archiveToZip, zipToArchive, validateArchive, restoreBackup } from "./backup.tsx";
+import { parseImportRequest, importRecords } from "./import.tsx";
+import { streamChanges } from "./realtime.tsx";
+import { checkCropPlot, cropsOnPlot, findPlotByCode, renamePlotOnCrops } from "./plots.tsx";
+import { findVariety } from "./crop_catalog.tsx";
+import { checkCropActivity, logHealthChange } from "./crop_activity.tsx";
+import { GARDEN_MAP_KEY, getGardenMap, validateGardenMap } from "./garden_map.tsx";
+import { COMPANION_PLANTING_KEY, getCompanionPlanting, validateCompanionPlanting } from "./companions.tsx";
+import {
+  getActive,
+  isInTrash,
+  isTrashable,
+  moveToTrash,
+  restoreFromTrash,
+  checkRestore,
+  purgeFromTrash,
+  listTrash,
+  getTrashSettings,
+  setTrashSettings,
+} from "./trash.tsx";
+import { ROLES, isRole, normalizePermissionMatrix } from "../_shared/permissions.ts";
+import {
+  validateEntity,
+  plotSchema,
+  varietySchema,
+  cropSchema,
+  cropActivitySchema,
+  harvestSchema,
+  budgetItemSchema,
+  volunteerSchema,
+  taskSchema,
+  pollSchema,
+  feedbackSchema,
+  photoSchema,
+  updateSchema,
+  scheduleEventSchema,
+} from "../_shared/schemas.ts";
+import type {
+  Plot,
+  CropVariety,
+  Crop,
+  CropActivity,
+  Harvest,
+  BudgetItem,
+  Volunteer,
+  Task,
+  Poll,
+  Feedback,
+  Photo,
+  Update,
+  ScheduleEvent,
+  UserProfile,
+  RoleChange,
+  FieldErrors,
+  ImportEntityType,
+} from "../_shared/types.ts";
 
 // Create Hono app instance
 const app = new Hono();
@@ -41,15 +117,28 @@ const app = new Hono();
 // ============================================
 app.use("*", cors());               // Enable CORS for all routes (allows frontend to call API)
 app.use("*", logger(console.log));  // Log all requests for debugging
+app.use("*", requirePermission);    // Verify user token and role for guarded routes (see auth_middleware.tsx)
 
 // ============================================
 // INITIALIZE SUPABASE CLIENT
-// Uses service role key for full database access
+// Uses service role key; only profile pictures (Supabase Storage) need it.
+// Created on first use, so a self-hosted server with no Supabase project
+// (AUTH_PROVIDER=local, KV_BACKEND=sqlite) still starts.
 // ============================================
-const supabase = createClient(
-  Deno.env.get("SUPABASE_URL")!,
-  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-);
+let supabaseClient: ReturnType<typeof createClient> | null = null;
+
+const supabase = () => {
+  if (!supabaseClient) {
+    supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+  }
+  return supabaseClient;
+};
+
+// Answer for session routes when Supabase Auth (not this server) runs sessions
+const LOCAL_AUTH_ONLY = "Only available when the server runs with AUTH_PROVIDER=local";
 
 /**
  * Helper function to generate unique IDs
@@ -57,6 +146,38 @@ const supabase = createClient(
  */
 const generateId = () => crypto.randomUUID();
 
+/**
+ * Respond with field-level validation errors (see _shared/schemas.ts)
+ * The client shows each message next to the matching form input
+ */
+const validationError = (c: any, fieldErrors: FieldErrors) =>
+  c.json({ success: false, error: "Please correct the highlighted fields", fieldErrors }, 400);
+
+/**
+ * Respond to an update based on a stale version (see versioning.tsx)
+ * The client shows its edit next to the current copy so the user can merge them
+ */
+const versionConflict = (c: any, current: unknown) =>
+  c.json({ success: false, error: "Someone else saved this record while you were editing it", conflict: current }, 409);
+
+/**
+ * Handler for POST /{entity}/import - rows mapped from a CSV or Excel file (see import.tsx)
+ * ?dryRun=true only reports what would be created, updated and skipped
+ */
+const importRoute = (entityType: ImportEntityType) => async (c: any) => {
+  try {
+    const parsed = parseImportRequest(await c.req.json());
+    if (!parsed.success) {
+      return c.json({ success: false, error: parsed.error }, 400);
+    }
+    const report = await importRecords(c.get("user"), entityType, parsed.request, c.req.query("dryRun") === "true");
+    return c.json({ success: true, data: report });
+  } catch (error) {
+    console.log(`Error importing ${entityType} rows:`, error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+};
+
 // ============================================
 // AUTHENTICATION ROUTES
 // Handle user signup, login, and profile management
@@ -84,33 +205,22 @@ app.post("/make-server-a8901673/auth/signup", async (c) => {
       return c.json({ success: false, error: "Email, password, and name are required" }, 400);
     }
 
-    // Create user with Supabase Auth
-    const { data, error } = await supabase.auth.admin.createUser({
-      email,
-      password,
-      user_metadata: { name },
-      // Automatically confirm email since email server hasn't been configured
-      // In production, you'd send a confirmation email
-      email_confirm: true
-    });
+    // Create the account with the auth provider
+    const { data: user, error } = await getAuthProvider().createUser({ email, password, name });
 
     if (error) {
       console.log("Sign up error:", error);
       return c.json({ success: false, error: error.message }, 400);
     }
 
-    // Special admin user check
-    // The email francisjohngorres@gmail.com automatically gets admin role
-    const adminEmail = "francisjohngorres@gmail.com";
-    const isAdmin = email.toLowerCase() === adminEmail.toLowerCase();
-    
     // Store user profile in KV database
-    // This stores additional info beyond what Supabase Auth provides
-    await kv.set(`user_profile:${data.user.id}`, {
-      id: data.user.id,
+    // This stores additional info beyond what the auth provider keeps
+    // Everyone starts as a member - the first admin is created by the setup wizard
+    await auditedSet(user, `user_profile:${user.id}`, {
+      id: user.id,
       email,
       name,
-      role: isAdmin ? "admin" : "member",  // Assign role
+      role: "member",
       joinedDate: new Date().toISOString(),
       avatar: null,  // No profile picture yet
       bio: null,
@@ -124,7 +234,7 @@ app.post("/make-server-a8901673/auth/signup", async (c) => {
     return c.json({ 
       success: true, 
       data: { 
-        user: data.user,
+        user,
         message: "Account created successfully! You can now sign in."
       } 
     });
@@ -134,46 +244,29 @@ app.post("/make-server-a8901673/auth/signup", async (c) => {
   }
 });
 
-// Admin-only registration route
+// Admin-only registration route (requires users.manage, checked by requirePermission)
 app.post("/make-server-a8901673/auth/admin-register", async (c) => {
   try {
-    // Verify admin access
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
-    
-    if (!accessToken) {
-      return c.json({ success: false, error: "No access token provided" }, 401);
-    }
-
-    const { data: { user: adminUser }, error: authError } = await supabase.auth.getUser(accessToken);
-    
-    if (authError || !adminUser) {
-      console.log("Auth error while verifying admin:", authError);
-      return c.json({ success: false, error: "Unauthorized" }, 401);
-    }
-
-    // Check if the requesting user is an admin
-    const adminProfile = await kv.get(`user_profile:${adminUser.id}`);
-    if (!adminProfile || adminProfile.role !== "admin") {
-      return c.json({ success: false, error: "Admin access required" }, 403);
-    }
+    const adminUser = c.get("user");
+    const adminProfile = c.get("profile");
 
     const { email, password, name, role } = await c.req.json();
 
     // Validate role
-    if (role && role !== "admin" && role !== "member") {
-      return c.json({ success: false, error: "Invalid role. Must be 'admin' or 'member'" }, 400);
+    if (role && !isRole(role)) {
+      return c.json({ success: false, error: `Invalid role. Must be one of: ${ROLES.join(", ")}` }, 400);
     }
 
-    // Create user using Supabase Auth
-    const { data, error } = await supabase.auth.admin.createUser({
-      email,
-      password,
-      user_metadata: { name },
-      email_confirm: true,
-    });
+    // Creating admin accounts is reserved for admins, like promoting one
+    if (role === "admin" && adminProfile.role !== "admin") {
+      return c.json({ success: false, error: "Only administrators can create administrator accounts" }, 403);
+    }
+
+    // Create the account with the auth provider
+    const { data: user, error } = await getAuthProvider().createUser({ email, password, name });
 
     if (error) {
-      console.log("Supabase auth error during admin registration:", error);
+      console.log("Auth error during admin registration:", error);
       return c.json({ success: false, error: error.message }, 400);
     }
 
@@ -181,8 +274,8 @@ app.post("/make-server-a8901673/auth/admin-register", async (c) => {
     const userRole = role || "member";
     
     // Store additional user profile data in KV store
-    await kv.set(`user_profile:${data.user.id}`, {
-      id: data.user.id,
+    await auditedSet(adminUser, `user_profile:${user.id}`, {
+      id: user.id,
       email,
       name,
       role: userRole,
@@ -201,7 +294,7 @@ app.post("/make-server-a8901673/auth/admin-register", async (c) => {
     return c.json({ 
       success: true, 
       data: { 
-        user: data.user,
+        user,
         role: userRole,
         message: `User created successfully with ${userRole} role!`
       } 
@@ -212,6 +305,104 @@ app.post("/make-server-a8901673/auth/admin-register", async (c) => {
   }
 });
 
+/**
+ * Local sign-in route (AUTH_PROVIDER=local only)
+ * POST /auth/session
+ *
+ * Request body: { email, password }
+ * Returns: LocalSession (access token, refresh token, expiry, user)
+ */
+app.post("/make-server-a8901673/auth/session", async (c) => {
+  try {
+    const local = getLocalAuth();
+    if (!local) {
+      return c.json({ success: false, error: LOCAL_AUTH_ONLY }, 404);
+    }
+
+    const { email, password } = await c.req.json();
+    const { data: session, error } = await local.signIn(email, password);
+
+    if (error) {
+      console.log("Sign in error:", error);
+      return c.json({ success: false, error: error.message }, 401);
+    }
+
+    return c.json({ success: true, data: session });
+  } catch (error) {
+    console.log("Sign in server error:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Exchange a refresh token for a new session (local auth only)
+app.post("/make-server-a8901673/auth/refresh", async (c) => {
+  try {
+    const local = getLocalAuth();
+    if (!local) {
+      return c.json({ success: false, error: LOCAL_AUTH_ONLY }, 404);
+    }
+
+    const { refreshToken } = await c.req.json();
+    const { data: session, error } = await local.refreshSession(refreshToken);
+
+    if (error) {
+      return c.json({ success: false, error: error.message }, 401);
+    }
+
+    return c.json({ success: true, data: session });
+  } catch (error) {
+    console.log("Error refreshing session:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Sign out: the refresh token stops working (local auth only)
+app.post("/make-server-a8901673/auth/signout", async (c) => {
+  try {
+    const local = getLocalAuth();
+    if (!local) {
+      return c.json({ success: false, error: LOCAL_AUTH_ONLY }, 404);
+    }
+
+    const { refreshToken } = await c.req.json();
+    await local.signOut(refreshToken);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error signing out:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+/**
+ * Set a new password with a reset code from an administrator (local auth only)
+ * POST /auth/password-reset
+ *
+ * Request body: { email, code, password }
+ */
+app.post("/make-server-a8901673/auth/password-reset", async (c) => {
+  try {
+    const local = getLocalAuth();
+    if (!local) {
+      return c.json({ success: false, error: LOCAL_AUTH_ONLY }, 404);
+    }
+
+    const { email, code, password } = await c.req.json();
+    const { error } = await local.resetPassword(email, code, password);
+
+    if (error) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+
+    console.log(`Password reset with a code for ${email}`);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error resetting password:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
 // Get user profile
 app.get("/make-server-a8901673/auth/profile", async (c) => {
   try {
@@ -222,19 +413,15 @@ app.get("/make-server-a8901673/auth/profile", async (c) => {
     }
 
     // Verify the user
-    const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+    const { data: user, error } = await getAuthProvider().getUser(accessToken);
     
     if (error || !user) {
       console.log("Auth error while fetching profile:", error);
       return c.json({ success: false, error: "Unauthorized" }, 401);
     }
 
-    // Get user profile from KV store
-    let profile = await kv.get(`user_profile:${user.id}`);
-    
-    // Admin email configuration
-    const adminEmail = "francisjohngorres@gmail.com";
-    const isAdmin = user.email?.toLowerCase() === adminEmail.toLowerCase();
+    // Get user profile from KV store (older profiles are upgraded by migrations.tsx)
+    const profile = await kv.get(`user_profile:${user.id}`);
     
     if (!profile) {
       // Create default profile if it doesn't exist
@@ -244,7 +431,7 @@ app.get("/make-server-a8901673/auth/profile", async (c) => {
         id: user.id,
         email: user.email,
         name: userName,
-        role: isAdmin ? "admin" : "member",
+        role: "member",
         joinedDate: new Date().toISOString(),
         avatar: null,
         bio: null,
@@ -254,40 +441,9 @@ app.get("/make-server-a8901673/auth/profile", async (c) => {
         eventsAttended: 0,
         recentActivities: [],
       };
-      await kv.set(`user_profile:${user.id}`, defaultProfile);
+      await auditedSet(user, `user_profile:${user.id}`, defaultProfile);
       return c.json({ success: true, data: defaultProfile });
     }
-    
-    // Migrate existing profiles to include new activity fields
-    let needsUpdate = false;
-    if (profile.tasksCompleted === undefined) {
-      profile.tasksCompleted = 0;
-      needsUpdate = true;
-    }
-    if (profile.hoursContributed === undefined) {
-      profile.hoursContributed = 0;
-      needsUpdate = true;
-    }
-    if (profile.eventsAttended === undefined) {
-      profile.eventsAttended = 0;
-      needsUpdate = true;
-    }
-    if (profile.recentActivities === undefined) {
-      profile.recentActivities = [];
-      needsUpdate = true;
-    }
-    
-    // Update existing profile to admin if email matches
-    if (isAdmin && profile.role !== "admin") {
-      profile.role = "admin";
-      needsUpdate = true;
-      console.log(`Updated ${user.email} to admin role`);
-    }
-    
-    // Save migrated profile
-    if (needsUpdate) {
-      await kv.set(`user_profile:${user.id}`, profile);
-    }
 
     return c.json({ success: true, data: profile });
   } catch (error) {
@@ -306,7 +462,7 @@ app.put("/make-server-a8901673/auth/profile", async (c) => {
     }
 
     // Verify the user
-    const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+    const { data: user, error } = await getAuthProvider().getUser(accessToken);
     
     if (error || !user) {
       console.log("Auth error while updating profile:", error);
@@ -318,24 +474,21 @@ app.put("/make-server-a8901673/auth/profile", async (c) => {
     // Get existing profile
     const existingProfile = await kv.get(`user_profile:${user.id}`);
     
-    // Ensure user activity fields exist (migration for existing users)
-    const profileDefaults = {
-      tasksCompleted: 0,
-      hoursContributed: 0,
-      eventsAttended: 0,
-      recentActivities: [],
-    };
-    
-    // Update profile
+    // Update profile: only the fields users edit themselves. Role, suspension,
+    // counters and version stay as the server keeps them.
+    const { name, bio, location, avatar } = updateData;
+    const edits = Object.fromEntries(
+      Object.entries({ name, bio, location, avatar }).filter(([, value]) => value !== undefined)
+    );
     const updatedProfile = {
-      ...profileDefaults,
       ...existingProfile,
-      ...updateData,
+      ...edits,
       id: user.id, // Ensure ID doesn't change
       email: user.email, // Ensure email doesn't change
+      role: existingProfile?.role || "member", // Roles are only changed by admins, never self-assigned
     };
     
-    await kv.set(`user_profile:${user.id}`, updatedProfile);
+    await auditedSet(user, `user_profile:${user.id}`, updatedProfile);
 
     return c.json({ success: true, data: updatedProfile });
   } catch (error) {
@@ -345,243 +498,757 @@ app.put("/make-server-a8901673/auth/profile", async (c) => {
 });
 
 // ============================================
-// CROPS ROUTES
+// PLOTS ROUTES
+// Codes are unique; crops refer to plots by code (see plots.tsx)
 // ============================================
 
-app.get("/make-server-a8901673/crops", async (c) => {
+// List query (see list_query.tsx): page, pageSize, sort, order, q
+// Filters: status, irrigation, shade
+app.get("/make-server-a8901673/plots", async (c) => {
   try {
-    const crops = await kv.getByPrefix("crop:");
-    return c.json({ success: true, data: crops });
+    const result = await queryActive<Plot>("plot", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
   } catch (error) {
-    console.log("Error fetching crops:", error);
+    console.log("Error fetching plots:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.post("/make-server-a8901673/crops", async (c) => {
+app.post("/make-server-a8901673/plots", async (c) => {
   try {
-    const body = await c.req.json();
+    const result = validateEntity(plotSchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await findPlotByCode(result.data.code)) {
+      return validationError(c, { code: "Another plot already has this code" });
+    }
     const id = generateId();
-    const crop = { ...body, id };
-    await kv.set(`crop:${id}`, crop);
-    return c.json({ success: true, data: crop });
+    const plot: Plot = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `plot:${id}`, plot);
+    return c.json({ success: true, data: plot });
   } catch (error) {
-    console.log("Error creating crop:", error);
+    console.log("Error creating plot:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.put("/make-server-a8901673/crops/:id", async (c) => {
+// A new code is also written to the plot's crops
+app.put("/make-server-a8901673/plots/:id", async (c) => {
   try {
     const id = c.req.param("id");
     const body = await c.req.json();
-    const crop = { ...body, id };
-    await kv.set(`crop:${id}`, crop);
-    return c.json({ success: true, data: crop });
+    const result = validateEntity(plotSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`plot:${id}`)) {
+      return c.json({ success: false, error: "Plot is in the trash. Restore it before editing." }, 409);
+    }
+    if (await findPlotByCode(result.data.code, id)) {
+      return validationError(c, { code: "Another plot already has this code" });
+    }
+    const previous: Plot | null = await kv.get(`plot:${id}`);
+    const update = await updateVersioned<Plot>(c.get("user"), `plot:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Plot not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    if (previous && previous.code !== update.record.code) {
+      await renamePlotOnCrops(c.get("user"), previous.code, update.record.code);
+    }
+    return c.json({ success: true, data: update.record });
   } catch (error) {
-    console.log("Error updating crop:", error);
+    console.log("Error updating plot:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.delete("/make-server-a8901673/crops/:id", async (c) => {
+// Plots with crops keep their history; they can be marked fallow instead
+app.delete("/make-server-a8901673/plots/:id", async (c) => {
   try {
     const id = c.req.param("id");
-    await kv.del(`crop:${id}`);
+    const plot = await getActive<Plot>(`plot:${id}`);
+    if (!plot) {
+      return c.json({ success: false, error: "Plot not found" }, 404);
+    }
+    const crops = await cropsOnPlot(plot.code);
+    if (crops.length > 0) {
+      return c.json({
+        success: false,
+        error: `${crops.length} crop${crops.length === 1 ? " was" : "s were"} planted on this plot. Mark it fallow instead of deleting it.`,
+      }, 409);
+    }
+    await moveToTrash(c.get("user"), `plot:${id}`);
     return c.json({ success: true });
   } catch (error) {
-    console.log("Error deleting crop:", error);
+    console.log("Error deleting plot:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Take a deleted plot back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/plots/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const conflict = await checkRestore("plot", id);
+    if (conflict) {
+      return c.json({ success: false, error: conflict }, 409);
+    }
+    const plotRecord = await restoreFromTrash<Plot>(c.get("user"), `plot:${id}`);
+    if (!plotRecord) {
+      return c.json({ success: false, error: "Plot not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: plotRecord });
+  } catch (error) {
+    console.log("Error restoring plot:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
 // ============================================
-// HARVESTS ROUTES
+// CROP CATALOG ROUTES
+// One entry per name and variety (see crop_catalog.tsx)
 // ============================================
 
-app.get("/make-server-a8901673/harvests", async (c) => {
+// List query (see list_query.tsx): page, pageSize, sort, order, q
+// Filters: waterNeeds, season
+app.get("/make-server-a8901673/varieties", async (c) => {
   try {
-    const harvests = await kv.getByPrefix("harvest:");
-    return c.json({ success: true, data: harvests });
+    const result = await queryActive<CropVariety>("variety", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
   } catch (error) {
-    console.log("Error fetching harvests:", error);
+    console.log("Error fetching crop varieties:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.post("/make-server-a8901673/harvests", async (c) => {
+app.post("/make-server-a8901673/varieties", async (c) => {
   try {
-    const body = await c.req.json();
+    const result = validateEntity(varietySchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await findVariety(result.data)) {
+      return validationError(c, { variety: "This variety is already in the catalog" });
+    }
     const id = generateId();
-    const harvest = { ...body, id };
-    await kv.set(`harvest:${id}`, harvest);
-    return c.json({ success: true, data: harvest });
+    const variety: CropVariety = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `variety:${id}`, variety);
+    return c.json({ success: true, data: variety });
   } catch (error) {
-    console.log("Error creating harvest:", error);
+    console.log("Error creating crop variety:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.put("/make-server-a8901673/harvests/:id", async (c) => {
+app.put("/make-server-a8901673/varieties/:id", async (c) => {
   try {
     const id = c.req.param("id");
     const body = await c.req.json();
-    const harvest = { ...body, id };
-    await kv.set(`harvest:${id}`, harvest);
-    return c.json({ success: true, data: harvest });
+    const result = validateEntity(varietySchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`variety:${id}`)) {
+      return c.json({ success: false, error: "Variety is in the trash. Restore it before editing." }, 409);
+    }
+    if (await findVariety(result.data, id)) {
+      return validationError(c, { variety: "This variety is already in the catalog" });
+    }
+    const update = await updateVersioned<CropVariety>(c.get("user"), `variety:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Variety not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
   } catch (error) {
-    console.log("Error updating harvest:", error);
+    console.log("Error updating crop variety:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.delete("/make-server-a8901673/harvests/:id", async (c) => {
+// Crops planted from the entry keep their name and variety
+app.delete("/make-server-a8901673/varieties/:id", async (c) => {
   try {
     const id = c.req.param("id");
-    await kv.del(`harvest:${id}`);
+    if (!(await moveToTrash(c.get("user"), `variety:${id}`))) {
+      return c.json({ success: false, error: "Variety not found" }, 404);
+    }
     return c.json({ success: true });
   } catch (error) {
-    console.log("Error deleting harvest:", error);
+    console.log("Error deleting crop variety:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/varieties/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const conflict = await checkRestore("variety", id);
+    if (conflict) {
+      return c.json({ success: false, error: conflict }, 409);
+    }
+    const variety = await restoreFromTrash<CropVariety>(c.get("user"), `variety:${id}`);
+    if (!variety) {
+      return c.json({ success: false, error: "Variety not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: variety });
+  } catch (error) {
+    console.log("Error restoring crop variety:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
 // ============================================
-// BUDGET ROUTES
+// CROPS ROUTES
+// Each crop must grow on a registered plot (see plots.tsx); a change of
+// health is added to its activity timeline (see crop_activity.tsx)
 // ============================================
 
-app.get("/make-server-a8901673/budget", async (c) => {
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: status, health, plotNumber
+app.get("/make-server-a8901673/crops", async (c) => {
   try {
-    const budgetItems = await kv.getByPrefix("budget:");
-    return c.json({ success: true, data: budgetItems });
+    const result = await queryActive<Crop>("crop", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
   } catch (error) {
-    console.log("Error fetching budget:", error);
+    console.log("Error fetching crops:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.post("/make-server-a8901673/budget", async (c) => {
+app.post("/make-server-a8901673/crops", async (c) => {
   try {
-    const body = await c.req.json();
+    const result = validateEntity(cropSchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const plotErrors = await checkCropPlot(result.data);
+    if (plotErrors) {
+      return validationError(c, plotErrors);
+    }
     const id = generateId();
-    const budgetItem = { ...body, id };
-    await kv.set(`budget:${id}`, budgetItem);
-    return c.json({ success: true, data: budgetItem });
+    const crop: Crop = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `crop:${id}`, crop);
+    return c.json({ success: true, data: crop });
   } catch (error) {
-    console.log("Error creating budget item:", error);
+    console.log("Error creating crop:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.put("/make-server-a8901673/budget/:id", async (c) => {
+app.post("/make-server-a8901673/crops/import", importRoute("crop"));
+
+app.put("/make-server-a8901673/crops/:id", async (c) => {
   try {
     const id = c.req.param("id");
     const body = await c.req.json();
-    const budgetItem = { ...body, id };
-    await kv.set(`budget:${id}`, budgetItem);
-    return c.json({ success: true, data: budgetItem });
+    const result = validateEntity(cropSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const plotErrors = await checkCropPlot(result.data);
+    if (plotErrors) {
+      return validationError(c, plotErrors);
+    }
+    if (await isInTrash(`crop:${id}`)) {
+      return c.json({ success: false, error: "Crop is in the trash. Restore it before editing." }, 409);
+    }
+    const previous: Crop | null = await kv.get(`crop:${id}`);
+    const update = await updateVersioned<Crop>(c.get("user"), `crop:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Crop not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    await logHealthChange(c.get("user"), previous, update.record);
+    return c.json({ success: true, data: update.record });
   } catch (error) {
-    console.log("Error updating budget item:", error);
+    console.log("Error updating crop:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.delete("/make-server-a8901673/budget/:id", async (c) => {
+app.delete("/make-server-a8901673/crops/:id", async (c) => {
   try {
     const id = c.req.param("id");
-    await kv.del(`budget:${id}`);
+    if (!(await moveToTrash(c.get("user"), `crop:${id}`))) {
+      return c.json({ success: false, error: "Crop not found" }, 404);
+    }
     return c.json({ success: true });
   } catch (error) {
-    console.log("Error deleting budget item:", error);
+    console.log("Error deleting crop:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Take a deleted crop back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/crops/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const cropRecord = await restoreFromTrash<Crop>(c.get("user"), `crop:${id}`);
+    if (!cropRecord) {
+      return c.json({ success: false, error: "Crop not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: cropRecord });
+  } catch (error) {
+    console.log("Error restoring crop:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
 // ============================================
-// VOLUNTEERS ROUTES
+// CROP ACTIVITY ROUTES
+// Timeline entries of a crop (see crop_activity.tsx)
 // ============================================
 
-app.get("/make-server-a8901673/volunteers", async (c) => {
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: cropId, type
+app.get("/make-server-a8901673/crop-activities", async (c) => {
   try {
-    const volunteers = await kv.getByPrefix("volunteer:");
-    return c.json({ success: true, data: volunteers });
+    const result = await queryActive<CropActivity>("crop_activity", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
   } catch (error) {
-    console.log("Error fetching volunteers:", error);
+    console.log("Error fetching crop activities:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.post("/make-server-a8901673/volunteers", async (c) => {
+app.post("/make-server-a8901673/crop-activities", async (c) => {
   try {
-    const body = await c.req.json();
+    const result = validateEntity(cropActivitySchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const activityErrors = await checkCropActivity(result.data);
+    if (activityErrors) {
+      return validationError(c, activityErrors);
+    }
     const id = generateId();
-    const volunteer = { ...body, id };
-    await kv.set(`volunteer:${id}`, volunteer);
-    return c.json({ success: true, data: volunteer });
+    const activity: CropActivity = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `crop_activity:${id}`, activity);
+    return c.json({ success: true, data: activity });
   } catch (error) {
-    console.log("Error creating volunteer:", error);
+    console.log("Error creating crop activity:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.put("/make-server-a8901673/volunteers/:id", async (c) => {
+app.put("/make-server-a8901673/crop-activities/:id", async (c) => {
   try {
     const id = c.req.param("id");
     const body = await c.req.json();
-    const volunteer = { ...body, id };
-    await kv.set(`volunteer:${id}`, volunteer);
-    return c.json({ success: true, data: volunteer });
+    const result = validateEntity(cropActivitySchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`crop_activity:${id}`)) {
+      return c.json({ success: false, error: "Activity is in the trash. Restore it before editing." }, 409);
+    }
+    const activityErrors = await checkCropActivity(result.data, await kv.get(`crop_activity:${id}`));
+    if (activityErrors) {
+      return validationError(c, activityErrors);
+    }
+    const update = await updateVersioned<CropActivity>(c.get("user"), `crop_activity:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Activity not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
   } catch (error) {
-    console.log("Error updating volunteer:", error);
+    console.log("Error updating crop activity:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.delete("/make-server-a8901673/volunteers/:id", async (c) => {
+app.delete("/make-server-a8901673/crop-activities/:id", async (c) => {
   try {
     const id = c.req.param("id");
-    await kv.del(`volunteer:${id}`);
+    if (!(await moveToTrash(c.get("user"), `crop_activity:${id}`))) {
+      return c.json({ success: false, error: "Activity not found" }, 404);
+    }
     return c.json({ success: true });
   } catch (error) {
-    console.log("Error deleting volunteer:", error);
+    console.log("Error deleting crop activity:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/crop-activities/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const activity = await restoreFromTrash<CropActivity>(c.get("user"), `crop_activity:${id}`);
+    if (!activity) {
+      return c.json({ success: false, error: "Activity not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: activity });
+  } catch (error) {
+    console.log("Error restoring crop activity:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
 // ============================================
-// TASKS ROUTES
+// HARVESTS ROUTES
 // ============================================
 
-app.get("/make-server-a8901673/tasks", async (c) => {
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: cropName, distributionMethod
+app.get("/make-server-a8901673/harvests", async (c) => {
   try {
-    const tasks = await kv.getByPrefix("task:");
-    return c.json({ success: true, data: tasks });
+    const result = await queryActive<Harvest>("harvest", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
   } catch (error) {
-    console.log("Error fetching tasks:", error);
+    console.log("Error fetching harvests:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.post("/make-server-a8901673/tasks", async (c) => {
+app.post("/make-server-a8901673/harvests", async (c) => {
   try {
-    const body = await c.req.json();
+    const result = validateEntity(harvestSchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
     const id = generateId();
-    const task = { ...body, id };
-    await kv.set(`task:${id}`, task);
-    return c.json({ success: true, data: task });
+    const harvest: Harvest = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `harvest:${id}`, harvest);
+    return c.json({ success: true, data: harvest });
   } catch (error) {
-    console.log("Error creating task:", error);
+    console.log("Error creating harvest:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.put("/make-server-a8901673/tasks/:id", async (c) => {
+app.post("/make-server-a8901673/harvests/import", importRoute("harvest"));
+
+app.put("/make-server-a8901673/harvests/:id", async (c) => {
   try {
     const id = c.req.param("id");
     const body = await c.req.json();
-    const task = { ...body, id };
-    await kv.set(`task:${id}`, task);
+    const result = validateEntity(harvestSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`harvest:${id}`)) {
+      return c.json({ success: false, error: "Harvest is in the trash. Restore it before editing." }, 409);
+    }
+    const update = await updateVersioned<Harvest>(c.get("user"), `harvest:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Harvest not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
+  } catch (error) {
+    console.log("Error updating harvest:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.delete("/make-server-a8901673/harvests/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    if (!(await moveToTrash(c.get("user"), `harvest:${id}`))) {
+      return c.json({ success: false, error: "Harvest not found" }, 404);
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error deleting harvest:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Take a deleted harvest back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/harvests/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const harvestRecord = await restoreFromTrash<Harvest>(c.get("user"), `harvest:${id}`);
+    if (!harvestRecord) {
+      return c.json({ success: false, error: "Harvest not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: harvestRecord });
+  } catch (error) {
+    console.log("Error restoring harvest:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// BUDGET ROUTES
+// ============================================
+
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: category
+app.get("/make-server-a8901673/budget", async (c) => {
+  try {
+    const result = await queryActive<BudgetItem>("budget", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
+  } catch (error) {
+    console.log("Error fetching budget:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/budget", async (c) => {
+  try {
+    const result = validateEntity(budgetItemSchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const id = generateId();
+    const budgetItem: BudgetItem = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `budget:${id}`, budgetItem);
+    return c.json({ success: true, data: budgetItem });
+  } catch (error) {
+    console.log("Error creating budget item:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/budget/import", importRoute("budget"));
+
+app.put("/make-server-a8901673/budget/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const body = await c.req.json();
+    const result = validateEntity(budgetItemSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`budget:${id}`)) {
+      return c.json({ success: false, error: "Budget item is in the trash. Restore it before editing." }, 409);
+    }
+    const update = await updateVersioned<BudgetItem>(c.get("user"), `budget:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Budget item not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
+  } catch (error) {
+    console.log("Error updating budget item:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Edit history of one expense, newest first (any signed-in user - it names
+// who made each change)
+app.get("/make-server-a8901673/budget/:id/history", async (c) => {
+  try {
+    if (!(await authenticate(c))) {
+      return c.json({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const id = c.req.param("id");
+    const entries = await listAuditEntries({ entityType: "budget", entityId: id });
+    return c.json({ success: true, data: entries });
+  } catch (error) {
+    console.log("Error fetching budget item history:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.delete("/make-server-a8901673/budget/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    if (!(await moveToTrash(c.get("user"), `budget:${id}`))) {
+      return c.json({ success: false, error: "Budget item not found" }, 404);
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error deleting budget item:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Take a deleted budget item back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/budget/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const budgetRecord = await restoreFromTrash<BudgetItem>(c.get("user"), `budget:${id}`);
+    if (!budgetRecord) {
+      return c.json({ success: false, error: "Budget item not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: budgetRecord });
+  } catch (error) {
+    console.log("Error restoring budget item:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// VOLUNTEERS ROUTES
+// ============================================
+
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: role
+app.get("/make-server-a8901673/volunteers", async (c) => {
+  try {
+    const result = await queryActive<Volunteer>("volunteer", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
+  } catch (error) {
+    console.log("Error fetching volunteers:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/volunteers", async (c) => {
+  try {
+    const result = validateEntity(volunteerSchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const id = generateId();
+    const volunteer: Volunteer = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `volunteer:${id}`, volunteer);
+    return c.json({ success: true, data: volunteer });
+  } catch (error) {
+    console.log("Error creating volunteer:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/volunteers/import", importRoute("volunteer"));
+
+app.put("/make-server-a8901673/volunteers/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const body = await c.req.json();
+    const result = validateEntity(volunteerSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`volunteer:${id}`)) {
+      return c.json({ success: false, error: "Volunteer is in the trash. Restore it before editing." }, 409);
+    }
+    const update = await updateVersioned<Volunteer>(c.get("user"), `volunteer:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Volunteer not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
+  } catch (error) {
+    console.log("Error updating volunteer:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.delete("/make-server-a8901673/volunteers/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    if (!(await moveToTrash(c.get("user"), `volunteer:${id}`))) {
+      return c.json({ success: false, error: "Volunteer not found" }, 404);
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error deleting volunteer:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Take a deleted volunteer back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/volunteers/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const volunteerRecord = await restoreFromTrash<Volunteer>(c.get("user"), `volunteer:${id}`);
+    if (!volunteerRecord) {
+      return c.json({ success: false, error: "Volunteer not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: volunteerRecord });
+  } catch (error) {
+    console.log("Error restoring volunteer:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// TASKS ROUTES
+// ============================================
+
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: status, priority, assignedTo
+app.get("/make-server-a8901673/tasks", async (c) => {
+  try {
+    const result = await queryActive<Task>("task", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
+  } catch (error) {
+    console.log("Error fetching tasks:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/tasks", async (c) => {
+  try {
+    const result = validateEntity(taskSchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const id = generateId();
+    const task: Task = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `task:${id}`, task);
     return c.json({ success: true, data: task });
+  } catch (error) {
+    console.log("Error creating task:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.put("/make-server-a8901673/tasks/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const body = await c.req.json();
+    const result = validateEntity(taskSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`task:${id}`)) {
+      return c.json({ success: false, error: "Task is in the trash. Restore it before editing." }, 409);
+    }
+    const update = await updateVersioned<Task>(c.get("user"), `task:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Task not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
   } catch (error) {
     console.log("Error updating task:", error);
     return c.json({ success: false, error: String(error) }, 500);
@@ -591,7 +1258,9 @@ app.put("/make-server-a8901673/tasks/:id", async (c) => {
 app.delete("/make-server-a8901673/tasks/:id", async (c) => {
   try {
     const id = c.req.param("id");
-    await kv.del(`task:${id}`);
+    if (!(await moveToTrash(c.get("user"), `task:${id}`))) {
+      return c.json({ success: false, error: "Task not found" }, 404);
+    }
     return c.json({ success: true });
   } catch (error) {
     console.log("Error deleting task:", error);
@@ -599,14 +1268,33 @@ app.delete("/make-server-a8901673/tasks/:id", async (c) => {
   }
 });
 
+// Take a deleted task back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/tasks/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const taskRecord = await restoreFromTrash<Task>(c.get("user"), `task:${id}`);
+    if (!taskRecord) {
+      return c.json({ success: false, error: "Task not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: taskRecord });
+  } catch (error) {
+    console.log("Error restoring task:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
 // ============================================
 // POLLS ROUTES
 // ============================================
 
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
 app.get("/make-server-a8901673/polls", async (c) => {
   try {
-    const polls = await kv.getByPrefix("poll:");
-    return c.json({ success: true, data: polls });
+    const result = await queryActive<Poll>("poll", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
   } catch (error) {
     console.log("Error fetching polls:", error);
     return c.json({ success: false, error: String(error) }, 500);
@@ -615,10 +1303,13 @@ app.get("/make-server-a8901673/polls", async (c) => {
 
 app.post("/make-server-a8901673/polls", async (c) => {
   try {
-    const body = await c.req.json();
+    const result = validateEntity(pollSchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
     const id = generateId();
-    const poll = { ...body, id };
-    await kv.set(`poll:${id}`, poll);
+    const poll: Poll = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `poll:${id}`, poll);
     return c.json({ success: true, data: poll });
   } catch (error) {
     console.log("Error creating poll:", error);
@@ -630,15 +1321,24 @@ app.put("/make-server-a8901673/polls/:id", async (c) => {
   try {
     const id = c.req.param("id");
     const body = await c.req.json();
+    const result = validateEntity(pollSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
     
-    const existingPoll = await kv.get(`poll:${id}`);
+    const existingPoll = await getActive<Poll>(`poll:${id}`);
     if (!existingPoll) {
       return c.json({ success: false, error: "Poll not found" }, 404);
     }
     
-    const updatedPoll = { ...body, id };
-    await kv.set(`poll:${id}`, updatedPoll);
-    return c.json({ success: true, data: updatedPoll });
+    const update = await updateVersioned<Poll>(c.get("user"), `poll:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Poll not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
   } catch (error) {
     console.log("Error updating poll:", error);
     return c.json({ success: false, error: String(error) }, 500);
@@ -650,21 +1350,25 @@ app.post("/make-server-a8901673/polls/:id/vote", async (c) => {
     const pollId = c.req.param("id");
     const { optionId } = await c.req.json();
     
-    const poll = await kv.get(`poll:${pollId}`);
+    const poll = await getActive<Poll>(`poll:${pollId}`);
     if (!poll) {
       return c.json({ success: false, error: "Poll not found" }, 404);
     }
-    
-    // Update vote count
-    const updatedPoll = {
+
+    if (!poll.options.some((opt) => opt.id === optionId)) {
+      return validationError(c, { optionId: "Please select one of the poll options" });
+    }
+
+    // Update vote count (a new version, so an admin editing the poll can't overwrite the votes)
+    const updatedPoll: Poll = bumpVersion({
       ...poll,
-      options: poll.options.map((opt: any) => 
+      options: poll.options.map((opt) => 
         opt.id === optionId ? { ...opt, votes: opt.votes + 1 } : opt
       ),
       totalVotes: poll.totalVotes + 1
-    };
+    });
     
-    await kv.set(`poll:${pollId}`, updatedPoll);
+    await auditedSet(c.get("user"), `poll:${pollId}`, updatedPoll);
     return c.json({ success: true, data: updatedPoll });
   } catch (error) {
     console.log("Error voting on poll:", error);
@@ -675,7 +1379,9 @@ app.post("/make-server-a8901673/polls/:id/vote", async (c) => {
 app.delete("/make-server-a8901673/polls/:id", async (c) => {
   try {
     const id = c.req.param("id");
-    await kv.del(`poll:${id}`);
+    if (!(await moveToTrash(c.get("user"), `poll:${id}`))) {
+      return c.json({ success: false, error: "Poll not found" }, 404);
+    }
     return c.json({ success: true });
   } catch (error) {
     console.log("Error deleting poll:", error);
@@ -683,14 +1389,34 @@ app.delete("/make-server-a8901673/polls/:id", async (c) => {
   }
 });
 
+// Take a deleted poll back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/polls/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const pollRecord = await restoreFromTrash<Poll>(c.get("user"), `poll:${id}`);
+    if (!pollRecord) {
+      return c.json({ success: false, error: "Poll not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: pollRecord });
+  } catch (error) {
+    console.log("Error restoring poll:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
 // ============================================
 // FEEDBACKS ROUTES
 // ============================================
 
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: category
 app.get("/make-server-a8901673/feedbacks", async (c) => {
   try {
-    const feedbacks = await kv.getByPrefix("feedback:");
-    return c.json({ success: true, data: feedbacks });
+    const result = await queryActive<Feedback>("feedback", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
   } catch (error) {
     console.log("Error fetching feedbacks:", error);
     return c.json({ success: false, error: String(error) }, 500);
@@ -699,407 +1425,1157 @@ app.get("/make-server-a8901673/feedbacks", async (c) => {
 
 app.post("/make-server-a8901673/feedbacks", async (c) => {
   try {
-    const body = await c.req.json();
-    const id = generateId();
-    const feedback = { 
-      ...body, 
-      id,
+    // Date and category are always set by the server
+    const result = validateEntity(feedbackSchema, {
+      ...(await c.req.json()),
       date: new Date().toISOString(),
       category: "general"
-    };
-    await kv.set(`feedback:${id}`, feedback);
+    });
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const id = generateId();
+    const feedback: Feedback = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `feedback:${id}`, feedback);
     return c.json({ success: true, data: feedback });
   } catch (error) {
-    console.log("Error creating feedback:", error);
+    console.log("Error creating feedback:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.put("/make-server-a8901673/feedbacks/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const body = await c.req.json();
+    const result = validateEntity(feedbackSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`feedback:${id}`)) {
+      return c.json({ success: false, error: "Feedback is in the trash. Restore it before editing." }, 409);
+    }
+    const update = await updateVersioned<Feedback>(c.get("user"), `feedback:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Feedback not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
+  } catch (error) {
+    console.log("Error updating feedback:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.delete("/make-server-a8901673/feedbacks/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    if (!(await moveToTrash(c.get("user"), `feedback:${id}`))) {
+      return c.json({ success: false, error: "Feedback not found" }, 404);
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error deleting feedback:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Take a deleted feedback back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/feedbacks/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const feedbackRecord = await restoreFromTrash<Feedback>(c.get("user"), `feedback:${id}`);
+    if (!feedbackRecord) {
+      return c.json({ success: false, error: "Feedback not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: feedbackRecord });
+  } catch (error) {
+    console.log("Error restoring feedback:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// PHOTOS ROUTES
+// ============================================
+
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: category
+app.get("/make-server-a8901673/photos", async (c) => {
+  try {
+    const result = await queryActive<Photo>("photo", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
+  } catch (error) {
+    console.log("Error fetching photos:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/photos", async (c) => {
+  try {
+    const result = validateEntity(photoSchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const id = generateId();
+    const photo: Photo = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `photo:${id}`, photo);
+    return c.json({ success: true, data: photo });
+  } catch (error) {
+    console.log("Error creating photo:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.put("/make-server-a8901673/photos/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const body = await c.req.json();
+    const result = validateEntity(photoSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`photo:${id}`)) {
+      return c.json({ success: false, error: "Photo is in the trash. Restore it before editing." }, 409);
+    }
+    const update = await updateVersioned<Photo>(c.get("user"), `photo:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Photo not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
+  } catch (error) {
+    console.log("Error updating photo:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.delete("/make-server-a8901673/photos/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    if (!(await moveToTrash(c.get("user"), `photo:${id}`))) {
+      return c.json({ success: false, error: "Photo not found" }, 404);
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error deleting photo:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Take a deleted photo back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/photos/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const photoRecord = await restoreFromTrash<Photo>(c.get("user"), `photo:${id}`);
+    if (!photoRecord) {
+      return c.json({ success: false, error: "Photo not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: photoRecord });
+  } catch (error) {
+    console.log("Error restoring photo:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// UPDATES ROUTES
+// ============================================
+
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: type
+app.get("/make-server-a8901673/updates", async (c) => {
+  try {
+    const result = await queryActive<Update>("update", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
+  } catch (error) {
+    console.log("Error fetching updates:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/updates", async (c) => {
+  try {
+    // Date is always set by the server
+    const result = validateEntity(updateSchema, {
+      ...(await c.req.json()),
+      date: new Date().toISOString()
+    });
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const id = generateId();
+    const update: Update = { ...result.data, id, ...initialVersion() };
+    await auditedSet(c.get("user"), `update:${id}`, update);
+    return c.json({ success: true, data: update });
+  } catch (error) {
+    console.log("Error creating update:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.put("/make-server-a8901673/updates/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const body = await c.req.json();
+    const result = validateEntity(updateSchema, body);
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    if (await isInTrash(`update:${id}`)) {
+      return c.json({ success: false, error: "Update is in the trash. Restore it before editing." }, 409);
+    }
+    const update = await updateVersioned<Update>(c.get("user"), `update:${id}`, { ...result.data, id }, expectedVersion(body));
+    if (!update.success) {
+      if (!update.current) {
+        return c.json({ success: false, error: "Update not found" }, 404);
+      }
+      return versionConflict(c, update.current);
+    }
+    return c.json({ success: true, data: update.record });
+  } catch (error) {
+    console.log("Error updating update:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.delete("/make-server-a8901673/updates/:id", async (c) => {
+  try {
+    const id = c.req.param("id");
+    if (!(await moveToTrash(c.get("user"), `update:${id}`))) {
+      return c.json({ success: false, error: "Update not found" }, 404);
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error deleting update:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Take a deleted update back out of the trash (e.g. "Undo" after deleting)
+app.post("/make-server-a8901673/updates/:id/restore", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const updateRecord = await restoreFromTrash<Update>(c.get("user"), `update:${id}`);
+    if (!updateRecord) {
+      return c.json({ success: false, error: "Update not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: updateRecord });
+  } catch (error) {
+    console.log("Error restoring update:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// SCHEDULE EVENTS ROUTES
+// ============================================
+
+// List query (see list_query.tsx): page, pageSize, sort, order, q, from, to
+// Filters: type
+app.get("/make-server-a8901673/events", async (c) => {
+  try {
+    const result = await queryActive<ScheduleEvent>("event", c.req.query());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    return c.json({ success: true, data: result.data });
+  } catch (error) {
+    console.log("Error fetching events:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.post("/make-server-a8901673/events", async (c) => {
+  try {
+    const result = validateEntity(scheduleEventSchema, await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+    const id = generateId();
+    const event: ScheduleEvent = { ...result.data, id };
+    await auditedSet(c.get("user"), `event:${id}`, event);
+    return c.json({ success: true, data: event });
+  } catch (error) {
+    console.log("Error creating event:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// INITIALIZE DATABASE WITH SAMPLE DATA
+// ============================================
+
+app.post("/make-server-a8901673/init-sample-data", async (c) => {
+  try {
+    // Check if data already exists
+    const existingCrops = await kv.getByPrefix("crop:");
+    if (existingCrops.length > 0) {
+      return c.json({ success: true, message: "Sample data already exists" });
+    }
+
+    // Initialize with sample data (using the mock data from App.tsx)
+    // This will be called once to populate the database
+    
+    return c.json({ success: true, message: "Sample data initialized" });
+  } catch (error) {
+    console.log("Error initializing sample data:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// SETTINGS ROUTES
+// ============================================
+
+app.get("/make-server-a8901673/settings/total-budget", async (c) => {
+  try {
+    const budget = await kv.get("settings:total_budget");
+    // Return default if not set
+    return c.json({ success: true, data: budget || 30000 });
+  } catch (error) {
+    console.log("Error fetching total budget:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+app.put("/make-server-a8901673/settings/total-budget", async (c) => {
+  try {
+    const body = await c.req.json();
+    const { amount } = body;
+    
+    if (typeof amount !== 'number' || amount <= 0) {
+      return c.json({ success: false, error: "Invalid budget amount" }, 400);
+    }
+    
+    await auditedSet(c.get("user"), "settings:total_budget", amount);
+    return c.json({ success: true, data: amount });
+  } catch (error) {
+    console.log("Error updating total budget:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Get location settings (requires settings.manage)
+app.get("/make-server-a8901673/settings/location", async (c) => {
+  try {
+    const location = await kv.get("settings:location");
+    
+    // Return default location if not set (Kabankalan City, Negros Occidental, Philippines)
+    const defaultLocation = {
+      city: "Kabankalan City",
+      latitude: 9.9833,
+      longitude: 122.8167,
+      country: "PH",
+    };
+    
+    return c.json({ success: true, data: location || defaultLocation });
+  } catch (error) {
+    console.log("Error fetching location settings:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Update location settings (requires settings.manage)
+app.put("/make-server-a8901673/settings/location", async (c) => {
+  try {
+    const user = c.get("user");
+
+    const { city, latitude, longitude, country } = await c.req.json();
+    
+    // Validate inputs
+    if (!city || typeof city !== 'string') {
+      return c.json({ success: false, error: "City name is required" }, 400);
+    }
+    
+    if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+      return c.json({ success: false, error: "Latitude must be between -90 and 90" }, 400);
+    }
+    
+    if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+      return c.json({ success: false, error: "Longitude must be between -180 and 180" }, 400);
+    }
+
+    const location = {
+      city,
+      latitude,
+      longitude,
+      country: country || "PH",
+    };
+    
+    await auditedSet(user, "settings:location", location);
+    
+    console.log(`Admin ${user.email} updated location to ${city} (${latitude}, ${longitude})`);
+    
+    return c.json({ success: true, data: location });
+  } catch (error) {
+    console.log("Error updating location settings:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Get the garden map (every member sees it)
+app.get("/make-server-a8901673/settings/garden-map", async (c) => {
+  try {
+    return c.json({ success: true, data: await getGardenMap() });
+  } catch (error) {
+    console.log("Error fetching garden map:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Save the garden map drawn in the map editor (requires settings.manage)
+app.put("/make-server-a8901673/settings/garden-map", async (c) => {
+  try {
+    const result = await validateGardenMap(await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+
+    await auditedSet(c.get("user"), GARDEN_MAP_KEY, result.data);
+    return c.json({ success: true, data: result.data });
+  } catch (error) {
+    console.log("Error saving garden map:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Get the companion planting pairs (every member sees them)
+app.get("/make-server-a8901673/settings/companions", async (c) => {
+  try {
+    return c.json({ success: true, data: await getCompanionPlanting() });
+  } catch (error) {
+    console.log("Error fetching companion planting:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Save the companion planting pairs (requires catalog.manage)
+app.put("/make-server-a8901673/settings/companions", async (c) => {
+  try {
+    const result = validateCompanionPlanting(await c.req.json());
+    if (!result.success) {
+      return validationError(c, result.errors);
+    }
+
+    await auditedSet(c.get("user"), COMPANION_PLANTING_KEY, result.data);
+    return c.json({ success: true, data: result.data });
+  } catch (error) {
+    console.log("Error saving companion planting:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Public endpoint to get location for weather (no auth required)
+app.get("/make-server-a8901673/public/location", async (c) => {
+  try {
+    const location = await kv.get("settings:location");
+    
+    // Return default location if not set
+    const defaultLocation = {
+      city: "Kabankalan City",
+      latitude: 9.9833,
+      longitude: 122.8167,
+      country: "PH",
+    };
+    
+    return c.json({ success: true, data: location || defaultLocation });
+  } catch (error) {
+    console.log("Error fetching public location:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// FIRST-RUN SETUP ROUTES
+// While no admin exists, the first signed-in account names the barangay,
+// sets the location and becomes the initial administrator.
+// ============================================
+
+/**
+ * Check whether any user profile holds the admin role
+ */
+const hasAdmin = async () => {
+  const profiles: UserProfile[] = await kv.getByPrefix("user_profile:");
+  return profiles.some((profile) => profile?.role === "admin");
+};
+
+/**
+ * Count active (not suspended) administrators
+ */
+const countActiveAdmins = async () => {
+  const profiles: UserProfile[] = await kv.getByPrefix("user_profile:");
+  return profiles.filter((profile) => profile?.role === "admin" && !profile.suspended).length;
+};
+
+/**
+ * Shared guard for actions that take an account away from a user
+ * (demote, suspend, delete). Returns an error response body or null.
+ * - Only admins may act on other admins
+ * - The last active admin can never be removed
+ */
+const checkAdminGuard = async (actorProfile: UserProfile, targetProfile: UserProfile, action: string) => {
+  if (targetProfile.role !== "admin") {
+    return null;
+  }
+
+  if (actorProfile.role !== "admin") {
+    return { status: 403 as const, error: `Only administrators can ${action} administrators` };
+  }
+
+  if (!targetProfile.suspended && (await countActiveAdmins()) <= 1) {
+    return { status: 400 as const, error: `Cannot ${action} the last remaining administrator` };
+  }
+
+  return null;
+};
+
+/**
+ * Record a role change so admins can see who changed which role and when
+ * Stored under `role_change:{id}`
+ */
+const recordRoleChange = async ({ user, fromRole, toRole, changedBy, reason }: {
+  user: { id: string; email: string; name?: string };
+  fromRole: string;
+  toRole: string;
+  changedBy: { id: string; email?: string };
+  reason?: string;
+}) => {
+  const id = generateId();
+  const change: RoleChange = {
+    id,
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name || user.email,
+    fromRole,
+    toRole,
+    changedById: changedBy.id,
+    changedByEmail: changedBy.email || "",
+    changedAt: new Date().toISOString(),
+    reason: reason || null,
+  };
+  await kv.set(`role_change:${id}`, change);
+};
+
+// Public endpoint - tells the app whether the setup wizard is needed
+app.get("/make-server-a8901673/public/setup-status", async (c) => {
+  try {
+    const barangayName = await kv.get("settings:barangay_name");
+    const needsSetup = !(await hasAdmin());
+
+    return c.json({ success: true, data: { needsSetup, barangayName: barangayName || null } });
+  } catch (error) {
+    console.log("Error fetching setup status:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Complete first-run setup (any signed-in user, only while no admin exists)
+app.post("/make-server-a8901673/setup/complete", async (c) => {
+  try {
+    const accessToken = c.req.header("Authorization")?.split(" ")[1];
+    
+    if (!accessToken) {
+      return c.json({ success: false, error: "No access token provided" }, 401);
+    }
+
+    const { data: user, error: authError } = await getAuthProvider().getUser(accessToken);
+    
+    if (authError || !user) {
+      console.log("Auth error while completing setup:", authError);
+      return c.json({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    if (await hasAdmin()) {
+      return c.json({ success: false, error: "Setup has already been completed" }, 409);
+    }
+
+    const profile = await kv.get(`user_profile:${user.id}`);
+    if (!profile) {
+      return c.json({ success: false, error: "User profile not found" }, 404);
+    }
+
+    const { barangayName, location } = await c.req.json();
+
+    // Validate inputs
+    if (!barangayName || typeof barangayName !== 'string' || !barangayName.trim()) {
+      return c.json({ success: false, error: "Barangay name is required" }, 400);
+    }
+
+    if (!location?.city || typeof location.city !== 'string') {
+      return c.json({ success: false, error: "City name is required" }, 400);
+    }
+    
+    if (typeof location.latitude !== 'number' || location.latitude < -90 || location.latitude > 90) {
+      return c.json({ success: false, error: "Latitude must be between -90 and 90" }, 400);
+    }
+    
+    if (typeof location.longitude !== 'number' || location.longitude < -180 || location.longitude > 180) {
+      return c.json({ success: false, error: "Longitude must be between -180 and 180" }, 400);
+    }
+
+    await auditedSet(user, "settings:barangay_name", barangayName.trim());
+    await auditedSet(user, "settings:location", {
+      city: location.city,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      country: location.country || "PH",
+    });
+
+    // Promote the caller to the initial administrator
+    const updatedProfile = { ...profile, role: "admin" };
+    await auditedSet(user, `user_profile:${user.id}`, updatedProfile);
+    await recordRoleChange({
+      user: profile,
+      fromRole: profile.role,
+      toRole: "admin",
+      changedBy: { id: user.id, email: user.email },
+      reason: "Initial administrator created by setup wizard",
+    });
+
+    console.log(`Setup completed by ${user.email} for Barangay ${barangayName.trim()}`);
+
+    return c.json({ success: true, data: updatedProfile });
+  } catch (error) {
+    console.log("Error completing setup:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// ============================================
+// USER MANAGEMENT ROUTES (Admin Only)
+// ============================================
+
+// List all users (requires users.manage)
+app.get("/make-server-a8901673/users/list", async (c) => {
+  try {
+    const adminUser = c.get("user");
+
+    // Fetch all accounts from the auth provider
+    const { data: users, error: listError } = await getAuthProvider().listUsers();
+    
+    if (listError) {
+      console.log("Error listing users from the auth provider:", listError);
+      return c.json({ success: false, error: listError.message }, 500);
+    }
+
+    // Combine with profile data from KV store
+    const userList = await Promise.all(
+      users.map(async (user) => {
+        const profile = await kv.get(`user_profile:${user.id}`);
+        
+        return {
+          id: user.id,
+          email: user.email || "",
+          name: profile?.name || user.user_metadata?.name || user.email?.split('@')[0] || "User",
+          role: profile?.role || "member",
+          joinedDate: profile?.joinedDate || user.created_at || new Date().toISOString(),
+          suspended: Boolean(profile?.suspended),
+        };
+      })
+    );
+
+    // Sort by joined date (newest first)
+    userList.sort((a, b) => new Date(b.joinedDate).getTime() - new Date(a.joinedDate).getTime());
+
+    console.log(`Admin ${adminUser.email} listed ${userList.length} users`);
+
+    return c.json({ success: true, data: userList });
+  } catch (error) {
+    console.log("Error listing users:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Change a user's role (requires users.manage; only admins can grant or remove admin)
+app.put("/make-server-a8901673/users/:id/role", async (c) => {
+  try {
+    const adminUser = c.get("user");
+    const adminProfile = c.get("profile");
+    const userId = c.req.param("id");
+    const { role } = await c.req.json();
+
+    if (!isRole(role)) {
+      return c.json({ success: false, error: `Invalid role. Must be one of: ${ROLES.join(", ")}` }, 400);
+    }
+
+    const profile = await kv.get(`user_profile:${userId}`);
+    if (!profile) {
+      return c.json({ success: false, error: "User not found" }, 404);
+    }
+
+    if (profile.role === role) {
+      return c.json({ success: true, data: profile });
+    }
+
+    // Granting admin is reserved for admins
+    if (role === "admin" && adminProfile.role !== "admin") {
+      return c.json({ success: false, error: "Only administrators can promote administrators" }, 403);
+    }
+
+    // Removing admin is reserved for admins, and never the last one
+    const guardError = await checkAdminGuard(adminProfile, profile, "demote");
+    if (guardError) {
+      return c.json({ success: false, error: guardError.error }, guardError.status);
+    }
+
+    const updatedProfile = { ...profile, role };
+    await auditedSet(adminUser, `user_profile:${userId}`, updatedProfile);
+    await recordRoleChange({
+      user: profile,
+      fromRole: profile.role,
+      toRole: role,
+      changedBy: { id: adminUser.id, email: adminUser.email },
+    });
+
+    console.log(`${adminUser.email} changed ${profile.email} from ${profile.role} to ${role}`);
+
+    return c.json({ success: true, data: updatedProfile });
+  } catch (error) {
+    console.log("Error changing user role:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Suspend a user account (requires users.manage)
+// Suspends the account with the auth provider and flags the profile so existing sessions stop working
+app.post("/make-server-a8901673/users/:id/suspend", async (c) => {
+  try {
+    const adminUser = c.get("user");
+    const adminProfile = c.get("profile");
+    const userId = c.req.param("id");
+
+    if (userId === adminUser.id) {
+      return c.json({ success: false, error: "You cannot suspend your own account" }, 400);
+    }
+
+    const profile = await kv.get(`user_profile:${userId}`);
+    if (!profile) {
+      return c.json({ success: false, error: "User not found" }, 404);
+    }
+
+    const guardError = await checkAdminGuard(adminProfile, profile, "suspend");
+    if (guardError) {
+      return c.json({ success: false, error: guardError.error }, guardError.status);
+    }
+
+    const { error: banError } = await getAuthProvider().setSuspended(userId, true);
+    if (banError) {
+      console.log("Error suspending user with the auth provider:", banError);
+      return c.json({ success: false, error: banError.message }, 500);
+    }
+
+    const updatedProfile = { ...profile, suspended: true };
+    await auditedSet(adminUser, `user_profile:${userId}`, updatedProfile);
+
+    console.log(`${adminUser.email} suspended ${profile.email}`);
+
+    return c.json({ success: true, data: updatedProfile });
+  } catch (error) {
+    console.log("Error suspending user:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Reactivate a suspended user account (requires users.manage)
+app.post("/make-server-a8901673/users/:id/reactivate", async (c) => {
+  try {
+    const adminUser = c.get("user");
+    const adminProfile = c.get("profile");
+    const userId = c.req.param("id");
+
+    const profile = await kv.get(`user_profile:${userId}`);
+    if (!profile) {
+      return c.json({ success: false, error: "User not found" }, 404);
+    }
+
+    // An admin suspended by another admin is only let back in by an admin
+    if (profile.role === "admin" && adminProfile.role !== "admin") {
+      return c.json({ success: false, error: "Only administrators can reactivate administrators" }, 403);
+    }
+
+    const { error: unbanError } = await getAuthProvider().setSuspended(userId, false);
+    if (unbanError) {
+      console.log("Error reactivating user with the auth provider:", unbanError);
+      return c.json({ success: false, error: unbanError.message }, 500);
+    }
+
+    const updatedProfile = { ...profile, suspended: false };
+    await auditedSet(adminUser, `user_profile:${userId}`, updatedProfile);
+
+    console.log(`${adminUser.email} reactivated ${profile.email}`);
+
+    return c.json({ success: true, data: updatedProfile });
+  } catch (error) {
+    console.log("Error reactivating user:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Create a one-time password reset code for a user (requires users.manage, local auth only)
+app.post("/make-server-a8901673/users/:id/reset-code", async (c) => {
+  try {
+    const adminUser = c.get("user");
+    const adminProfile = c.get("profile");
+    const userId = c.req.param("id");
+
+    const local = getLocalAuth();
+    if (!local) {
+      return c.json({ success: false, error: LOCAL_AUTH_ONLY }, 404);
+    }
+
+    const profile = await kv.get(`user_profile:${userId}`);
+    if (!profile) {
+      return c.json({ success: false, error: "User not found" }, 404);
+    }
+
+    if (profile.role === "admin" && adminProfile.role !== "admin") {
+      return c.json({ success: false, error: "Only administrators can reset the password of administrators" }, 403);
+    }
+
+    const { data: resetCode, error } = await local.createResetCode(userId);
+    if (error) {
+      return c.json({ success: false, error: error.message }, 404);
+    }
+
+    console.log(`${adminUser.email} created a password reset code for ${profile.email}`);
+
+    return c.json({ success: true, data: resetCode });
+  } catch (error) {
+    console.log("Error creating password reset code:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.put("/make-server-a8901673/feedbacks/:id", async (c) => {
+// Delete a user account, its profile and its avatar (requires users.manage)
+app.delete("/make-server-a8901673/users/:id", async (c) => {
   try {
-    const id = c.req.param("id");
-    const body = await c.req.json();
-    const feedback = { ...body, id };
-    await kv.set(`feedback:${id}`, feedback);
-    return c.json({ success: true, data: feedback });
+    const adminUser = c.get("user");
+    const adminProfile = c.get("profile");
+    const userId = c.req.param("id");
+
+    if (userId === adminUser.id) {
+      return c.json({ success: false, error: "You cannot delete your own account" }, 400);
+    }
+
+    const profile = await kv.get(`user_profile:${userId}`);
+
+    if (profile) {
+      const guardError = await checkAdminGuard(adminProfile, profile, "delete");
+      if (guardError) {
+        return c.json({ success: false, error: guardError.error }, guardError.status);
+      }
+    }
+
+    const { error: deleteError } = await getAuthProvider().deleteUser(userId);
+    if (deleteError) {
+      console.log("Error deleting user from the auth provider:", deleteError);
+      return c.json({ success: false, error: deleteError.message }, 500);
+    }
+
+    // Remove the avatar from storage
+    if (profile?.avatar) {
+      const fileName = profile.avatar.split("/").pop();
+      if (fileName) {
+        await supabase().storage.from("make-a8901673-avatars").remove([fileName]);
+      }
+    }
+
+    await auditedDel(adminUser, `user_profile:${userId}`);
+
+    console.log(`${adminUser.email} deleted ${profile?.email || userId}`);
+
+    return c.json({ success: true });
   } catch (error) {
-    console.log("Error updating feedback:", error);
+    console.log("Error deleting user:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.delete("/make-server-a8901673/feedbacks/:id", async (c) => {
+// Role change history, newest first (requires users.manage)
+app.get("/make-server-a8901673/users/role-changes", async (c) => {
   try {
-    const id = c.req.param("id");
-    await kv.del(`feedback:${id}`);
-    return c.json({ success: true });
+    const changes: RoleChange[] = await kv.getByPrefix("role_change:");
+    changes.sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime());
+    return c.json({ success: true, data: changes });
   } catch (error) {
-    console.log("Error deleting feedback:", error);
+    console.log("Error fetching role changes:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
 // ============================================
-// PHOTOS ROUTES
+// ROLE PERMISSION ROUTES
 // ============================================
 
-app.get("/make-server-a8901673/photos", async (c) => {
+// Get the role permission matrix (any caller - the UI uses it to show/hide actions)
+app.get("/make-server-a8901673/roles/permissions", async (c) => {
   try {
-    const photos = await kv.getByPrefix("photo:");
-    return c.json({ success: true, data: photos });
+    const matrix = await getPermissionMatrix();
+    return c.json({ success: true, data: matrix });
   } catch (error) {
-    console.log("Error fetching photos:", error);
+    console.log("Error fetching role permissions:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.post("/make-server-a8901673/photos", async (c) => {
+// Update the role permission matrix (requires roles.manage)
+app.put("/make-server-a8901673/roles/permissions", async (c) => {
   try {
+    const user = c.get("user");
     const body = await c.req.json();
-    const id = generateId();
-    const photo = { ...body, id };
-    await kv.set(`photo:${id}`, photo);
-    return c.json({ success: true, data: photo });
-  } catch (error) {
-    console.log("Error creating photo:", error);
-    return c.json({ success: false, error: String(error) }, 500);
-  }
-});
 
-app.put("/make-server-a8901673/photos/:id", async (c) => {
-  try {
-    const id = c.req.param("id");
-    const body = await c.req.json();
-    const photo = { ...body, id };
-    await kv.set(`photo:${id}`, photo);
-    return c.json({ success: true, data: photo });
-  } catch (error) {
-    console.log("Error updating photo:", error);
-    return c.json({ success: false, error: String(error) }, 500);
-  }
-});
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return c.json({ success: false, error: "Permission matrix must be an object keyed by role" }, 400);
+    }
 
-app.delete("/make-server-a8901673/photos/:id", async (c) => {
-  try {
-    const id = c.req.param("id");
-    await kv.del(`photo:${id}`);
-    return c.json({ success: true });
+    // Unknown entries are dropped and admin always keeps full access
+    const matrix = normalizePermissionMatrix(body);
+    await auditedSet(user, "settings:role_permissions", matrix);
+
+    console.log(`Admin ${user.email} updated the role permission matrix`);
+
+    return c.json({ success: true, data: matrix });
   } catch (error) {
-    console.log("Error deleting photo:", error);
+    console.log("Error updating role permissions:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
 // ============================================
-// UPDATES ROUTES
+// AUDIT LOG ROUTES
 // ============================================
 
-app.get("/make-server-a8901673/updates", async (c) => {
+// Audit entries, newest first (requires audit.view)
+// Optional query filters: entityType, entityId, actorId, from, to (YYYY-MM-DD)
+app.get("/make-server-a8901673/audit", async (c) => {
   try {
-    const updates = await kv.getByPrefix("update:");
-    return c.json({ success: true, data: updates });
+    const entries = await listAuditEntries({
+      entityType: c.req.query("entityType"),
+      entityId: c.req.query("entityId"),
+      actorId: c.req.query("actorId"),
+      from: c.req.query("from"),
+      to: c.req.query("to"),
+    });
+    return c.json({ success: true, data: entries });
   } catch (error) {
-    console.log("Error fetching updates:", error);
+    console.log("Error fetching audit log:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.post("/make-server-a8901673/updates", async (c) => {
+// ============================================
+// TRASH ROUTES
+// ============================================
+
+// Everything in the trash, most recently deleted first (requires trash.manage)
+// Expired records are purged before the list is built
+app.get("/make-server-a8901673/trash", async (c) => {
   try {
-    const body = await c.req.json();
-    const id = generateId();
-    const update = { 
-      ...body, 
-      id,
-      date: new Date().toISOString()
-    };
-    await kv.set(`update:${id}`, update);
-    return c.json({ success: true, data: update });
+    const items = await listTrash();
+    return c.json({ success: true, data: items });
   } catch (error) {
-    console.log("Error creating update:", error);
+    console.log("Error fetching trash:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.put("/make-server-a8901673/updates/:id", async (c) => {
+// Restore any record from the trash (requires trash.manage)
+app.post("/make-server-a8901673/trash/:entityType/:id/restore", async (c) => {
   try {
+    const entityType = c.req.param("entityType");
     const id = c.req.param("id");
-    const body = await c.req.json();
-    const update = { ...body, id };
-    await kv.set(`update:${id}`, update);
-    return c.json({ success: true, data: update });
+
+    if (!isTrashable(entityType)) {
+      return c.json({ success: false, error: `Unknown entity type: ${entityType}` }, 400);
+    }
+
+    const conflict = await checkRestore(entityType, id);
+    if (conflict) {
+      return c.json({ success: false, error: conflict }, 409);
+    }
+
+    const record = await restoreFromTrash(c.get("user"), `${entityType}:${id}`);
+    if (!record) {
+      return c.json({ success: false, error: "Record not found in the trash" }, 404);
+    }
+    return c.json({ success: true, data: record });
   } catch (error) {
-    console.log("Error updating update:", error);
+    console.log("Error restoring from trash:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.delete("/make-server-a8901673/updates/:id", async (c) => {
+// Permanently delete a record in the trash (requires trash.manage)
+app.delete("/make-server-a8901673/trash/:entityType/:id", async (c) => {
   try {
+    const entityType = c.req.param("entityType");
     const id = c.req.param("id");
-    await kv.del(`update:${id}`);
-    return c.json({ success: true });
-  } catch (error) {
-    console.log("Error deleting update:", error);
-    return c.json({ success: false, error: String(error) }, 500);
-  }
-});
 
-// ============================================
-// SCHEDULE EVENTS ROUTES
-// ============================================
+    if (!isTrashable(entityType)) {
+      return c.json({ success: false, error: `Unknown entity type: ${entityType}` }, 400);
+    }
 
-app.get("/make-server-a8901673/events", async (c) => {
-  try {
-    const events = await kv.getByPrefix("event:");
-    return c.json({ success: true, data: events });
+    if (!(await purgeFromTrash(c.get("user"), `${entityType}:${id}`))) {
+      return c.json({ success: false, error: "Record not found in the trash" }, 404);
+    }
+    return c.json({ success: true });
   } catch (error) {
-    console.log("Error fetching events:", error);
+    console.log("Error purging from trash:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.post("/make-server-a8901673/events", async (c) => {
+// Days a record stays in the trash before it is purged (requires trash.manage)
+app.get("/make-server-a8901673/settings/trash-retention", async (c) => {
   try {
-    const body = await c.req.json();
-    const id = generateId();
-    const event = { ...body, id };
-    await kv.set(`event:${id}`, event);
-    return c.json({ success: true, data: event });
+    const settings = await getTrashSettings();
+    return c.json({ success: true, data: settings });
   } catch (error) {
-    console.log("Error creating event:", error);
+    console.log("Error fetching trash retention:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// ============================================
-// INITIALIZE DATABASE WITH SAMPLE DATA
-// ============================================
-
-app.post("/make-server-a8901673/init-sample-data", async (c) => {
+app.put("/make-server-a8901673/settings/trash-retention", async (c) => {
   try {
-    // Check if data already exists
-    const existingCrops = await kv.getByPrefix("crop:");
-    if (existingCrops.length > 0) {
-      return c.json({ success: true, message: "Sample data already exists" });
+    const { retentionDays } = await c.req.json();
+
+    if (typeof retentionDays !== "number" || !Number.isInteger(retentionDays) || retentionDays < 1 || retentionDays > 365) {
+      return validationError(c, { retentionDays: "Must be a whole number of days between 1 and 365" });
     }
 
-    // Initialize with sample data (using the mock data from App.tsx)
-    // This will be called once to populate the database
-    
-    return c.json({ success: true, message: "Sample data initialized" });
+    await setTrashSettings(c.get("user"), { retentionDays });
+    return c.json({ success: true, data: { retentionDays } });
   } catch (error) {
-    console.log("Error initializing sample data:", error);
+    console.log("Error updating trash retention:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
 // ============================================
-// SETTINGS ROUTES
+// DATA MIGRATION ROUTES
 // ============================================
 
-app.get("/make-server-a8901673/settings/total-budget", async (c) => {
+// Schema version, known migrations and recent runs (requires settings.manage)
+app.get("/make-server-a8901673/migrations", async (c) => {
   try {
-    const budget = await kv.get("settings:total_budget");
-    // Return default if not set
-    return c.json({ success: true, data: budget || 30000 });
+    const status = await getMigrationStatus();
+    return c.json({ success: true, data: status });
   } catch (error) {
-    console.log("Error fetching total budget:", error);
+    console.log("Error fetching migration status:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-app.put("/make-server-a8901673/settings/total-budget", async (c) => {
+// Apply pending migrations and return the new status (requires settings.manage)
+// Responds once the run has finished; GET /migrations shows progress meanwhile
+app.post("/make-server-a8901673/migrations/run", async (c) => {
   try {
-    const body = await c.req.json();
-    const { amount } = body;
-    
-    if (typeof amount !== 'number' || amount <= 0) {
-      return c.json({ success: false, error: "Invalid budget amount" }, 400);
+    const result = await runPendingMigrations(c.get("user"));
+    if (!result.success) {
+      return c.json({ success: false, error: result.error }, 409);
     }
-    
-    await kv.set("settings:total_budget", amount);
-    return c.json({ success: true, data: amount });
+
+    const status = await getMigrationStatus();
+    return c.json({ success: true, data: status });
   } catch (error) {
-    console.log("Error updating total budget:", error);
+    console.log("Error running migrations:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Get location settings
-app.get("/make-server-a8901673/settings/location", async (c) => {
+// ============================================
+// BACKUP ROUTES
+// ============================================
+
+// Download every record and setting as one archive (requires backup.manage)
+// ?format=json (default) or ?format=zip
+app.get("/make-server-a8901673/backup", async (c) => {
   try {
-    // Verify admin access
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
-    
-    if (!accessToken) {
-      return c.json({ success: false, error: "No access token provided" }, 401);
+    const format = c.req.query("format") || "json";
+    if (format !== "json" && format !== "zip") {
+      return c.json({ success: false, error: "format must be json or zip" }, 400);
     }
 
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
-    
-    if (authError || !user) {
-      console.log("Auth error while fetching location settings:", authError);
-      return c.json({ success: false, error: "Unauthorized" }, 401);
-    }
+    const archive = await createBackup(c.get("user"));
+    const filename = `plant-n-plan-backup-${archive.createdAt.slice(0, 10)}.${format}`;
+    c.header("Content-Disposition", `attachment; filename="${filename}"`);
 
-    // Check if the requesting user is an admin
-    const adminProfile = await kv.get(`user_profile:${user.id}`);
-    if (!adminProfile || adminProfile.role !== "admin") {
-      return c.json({ success: false, error: "Admin access required" }, 403);
+    if (format === "zip") {
+      c.header("Content-Type", "application/zip");
+      return c.body(archiveToZip(archive));
     }
-
-    const location = await kv.get("settings:location");
-    
-    // Return default location if not set (Kabankalan City, Negros Occidental, Philippines)
-    const defaultLocation = {
-      city: "Kabankalan City",
-      latitude: 9.9833,
-      longitude: 122.8167,
-      country: "PH",
-    };
-    
-    return c.json({ success: true, data: location || defaultLocation });
+    return c.json(archive);
   } catch (error) {
-    console.log("Error fetching location settings:", error);
+    console.log("Error creating backup:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Update location settings
-app.put("/make-server-a8901673/settings/location", async (c) => {
+// Restore from a backup (requires backup.manage)
+// Body: the JSON archive, or the ZIP file with Content-Type application/zip
+// ?mode=merge (default) keeps records missing from the backup; ?mode=replace removes them
+// ?dryRun=true only reports what would change
+app.post("/make-server-a8901673/backup/restore", async (c) => {
   try {
-    // Verify admin access
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
-    
-    if (!accessToken) {
-      return c.json({ success: false, error: "No access token provided" }, 401);
-    }
-
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
-    
-    if (authError || !user) {
-      console.log("Auth error while updating location settings:", authError);
-      return c.json({ success: false, error: "Unauthorized" }, 401);
+    const mode = c.req.query("mode") || "merge";
+    if (mode !== "merge" && mode !== "replace") {
+      return c.json({ success: false, error: "mode must be merge or replace" }, 400);
     }
-
-    // Check if the requesting user is an admin
-    const adminProfile = await kv.get(`user_profile:${user.id}`);
-    if (!adminProfile || adminProfile.role !== "admin") {
-      return c.json({ success: false, error: "Admin access required" }, 403);
+    const dryRun = c.req.query("dryRun") === "true";
+
+    let input: unknown;
+    try {
+      input = c.req.header("Content-Type")?.includes("application/zip")
+        ? zipToArchive(new Uint8Array(await c.req.arrayBuffer()))
+        : await c.req.json();
+    } catch (error) {
+      return c.json({ success: false, error: `Could not read the backup: ${error instanceof Error ? error.message : error}` }, 400);
     }
 
-    const { city, latitude, longitude, country } = await c.req.json();
-    
-    // Validate inputs
-    if (!city || typeof city !== 'string') {
-      return c.json({ success: false, error: "City name is required" }, 400);
+    const result = validateArchive(input);
+    if (!result.success) {
+      return c.json({ success: false, error: `The backup can't be restored: ${result.problems.join("; ")}` }, 400);
     }
-    
-    if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
-      return c.json({ success: false, error: "Latitude must be between -90 and 90" }, 400);
-    }
-    
-    if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
-      return c.json({ success: false, error: "Longitude must be between -180 and 180" }, 400);
-    }
-
-    const location = {
-      city,
-      latitude,
-      longitude,
-      country: country || "PH",
-    };
-    
-    await kv.set("settings:location", location);
-    
-    console.log(`Admin ${user.email} updated location to ${city} (${latitude}, ${longitude})`);
-    
-    return c.json({ success: true, data: location });
-  } catch (error) {
-    console.log("Error updating location settings:", error);
-    return c.json({ success: false, error: String(error) }, 500);
-  }
-});
 
-// Public endpoint to get location for weather (no auth required)
-app.get("/make-server-a8901673/public/location", async (c) => {
-  try {
-    const location = await kv.get("settings:location");
-    
-    // Return default location if not set
-    const defaultLocation = {
-      city: "Kabankalan City",
-      latitude: 9.9833,
-      longitude: 122.8167,
-      country: "PH",
-    };
-    
-    return c.json({ success: true, data: location || defaultLocation });
+    const report = await restoreBackup(c.get("user"), result.archive, mode, dryRun);
+    return c.json({ success: true, data: report });
   } catch (error) {
-    console.log("Error fetching public location:", error);
+    console.log("Error restoring backup:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
 // ============================================
-// USER MANAGEMENT ROUTES (Admin Only)
+// REALTIME ROUTES
 // ============================================
 
-// List all users (admin only)
-app.get("/make-server-a8901673/users/list", async (c) => {
+// Stream record changes as server-sent events (any signed-in user)
+// Resumes after the Last-Event-ID header or ?since= seq on a reconnect
+app.get("/make-server-a8901673/realtime", async (c) => {
   try {
-    // Verify admin access
-    const accessToken = c.req.header("Authorization")?.split(" ")[1];
-    
-    if (!accessToken) {
-      return c.json({ success: false, error: "No access token provided" }, 401);
-    }
-
-    const { data: { user: adminUser }, error: authError } = await supabase.auth.getUser(accessToken);
-    
-    if (authError || !adminUser) {
-      console.log("Auth error while verifying admin for user list:", authError);
+    const auth = await authenticate(c);
+    if (!auth) {
       return c.json({ success: false, error: "Unauthorized" }, 401);
     }
 
-    // Check if the requesting user is an admin
-    const adminProfile = await kv.get(`user_profile:${adminUser.id}`);
-    if (!adminProfile || adminProfile.role !== "admin") {
-      return c.json({ success: false, error: "Admin access required" }, 403);
-    }
-
-    // Fetch all users from Supabase Auth
-    const { data: { users }, error: listError } = await supabase.auth.admin.listUsers();
-    
-    if (listError) {
-      console.log("Error listing users from Supabase Auth:", listError);
-      return c.json({ success: false, error: listError.message }, 500);
-    }
-
-    // Combine with profile data from KV store
-    const userList = await Promise.all(
-      users.map(async (user) => {
-        const profile = await kv.get(`user_profile:${user.id}`);
-        
-        return {
-          id: user.id,
-          email: user.email || "",
-          name: profile?.name || user.user_metadata?.name || user.email?.split('@')[0] || "User",
-          role: profile?.role || "member",
-          joinedDate: profile?.joinedDate || user.created_at || new Date().toISOString(),
-        };
-      })
-    );
-
-    // Sort by joined date (newest first)
-    userList.sort((a, b) => new Date(b.joinedDate).getTime() - new Date(a.joinedDate).getTime());
-
-    console.log(`Admin ${adminUser.email} listed ${userList.length} users`);
-
-    return c.json({ success: true, data: userList });
+    const lastSeq = c.req.header("Last-Event-ID") || c.req.query("since") || null;
+    return streamSSE(c, (stream) => streamChanges(stream, lastSeq), async (error) => {
+      console.log("Error streaming changes:", error);
+    });
   } catch (error) {
-    console.log("Error listing users:", error);
+    console.log("Error opening change stream:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
@@ -1117,7 +2593,7 @@ app.post("/make-server-a8901673/profile/avatar", async (c) => {
       return c.json({ success: false, error: "No access token provided" }, 401);
     }
 
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
+    const { data: user, error: authError } = await getAuthProvider().getUser(accessToken);
     
     if (authError || !user) {
       console.log("Auth error while uploading avatar:", authError);
@@ -1133,11 +2609,11 @@ app.post("/make-server-a8901673/profile/avatar", async (c) => {
 
     // Create storage bucket if it doesn't exist
     const bucketName = "make-a8901673-avatars";
-    const { data: buckets } = await supabase.storage.listBuckets();
+    const { data: buckets } = await supabase().storage.listBuckets();
     const bucketExists = buckets?.some(bucket => bucket.name === bucketName);
     
     if (!bucketExists) {
-      const { error: createBucketError } = await supabase.storage.createBucket(bucketName, {
+      const { error: createBucketError } = await supabase().storage.createBucket(bucketName, {
         public: true,
         fileSizeLimit: 2097152, // 2MB
       });
@@ -1161,12 +2637,12 @@ app.post("/make-server-a8901673/profile/avatar", async (c) => {
     if (profile?.avatar) {
       const oldFileName = profile.avatar.split("/").pop();
       if (oldFileName) {
-        await supabase.storage.from(bucketName).remove([oldFileName]);
+        await supabase().storage.from(bucketName).remove([oldFileName]);
       }
     }
 
     // Upload new avatar
-    const { data: uploadData, error: uploadError } = await supabase.storage
+    const { data: uploadData, error: uploadError } = await supabase().storage
       .from(bucketName)
       .upload(fileName, binaryData, {
         contentType: fileType || "image/png",
@@ -1179,7 +2655,7 @@ app.post("/make-server-a8901673/profile/avatar", async (c) => {
     }
 
     // Get public URL
-    const { data: { publicUrl } } = supabase.storage
+    const { data: { publicUrl } } = supabase().storage
       .from(bucketName)
       .getPublicUrl(fileName);
 
@@ -1189,7 +2665,7 @@ app.post("/make-server-a8901673/profile/avatar", async (c) => {
       avatar: publicUrl,
     };
     
-    await kv.set(`user_profile:${user.id}`, updatedProfile);
+    await auditedSet(user, `user_profile:${user.id}`, updatedProfile);
 
     console.log(`User ${user.email} uploaded new profile picture`);
 
@@ -1209,7 +2685,7 @@ app.delete("/make-server-a8901673/profile/avatar", async (c) => {
       return c.json({ success: false, error: "No access token provided" }, 401);
     }
 
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
+    const { data: user, error: authError } = await getAuthProvider().getUser(accessToken);
     
     if (authError || !user) {
       console.log("Auth error while deleting avatar:", authError);
@@ -1223,7 +2699,7 @@ app.delete("/make-server-a8901673/profile/avatar", async (c) => {
       const fileName = profile.avatar.split("/").pop();
       
       if (fileName) {
-        await supabase.storage.from(bucketName).remove([fileName]);
+        await supabase().storage.from(bucketName).remove([fileName]);
       }
 
       // Update profile to remove avatar
@@ -1232,7 +2708,7 @@ app.delete("/make-server-a8901673/profile/avatar", async (c) => {
         avatar: null,
       };
       
-      await kv.set(`user_profile:${user.id}`, updatedProfile);
+      await auditedSet(user, `user_profile:${user.id}`, updatedProfile);
 
       console.log(`User ${user.email} deleted profile picture`);
     }
@@ -1250,11 +2726,19 @@ app.delete("/make-server-a8901673/profile/avatar", async (c) => {
 
 // Health check
 app.get("/make-server-a8901673/health", (c) => {
-  return c.json({ status: "healthy", timestamp: new Date().toISOString() });
+  return c.json({
+    status: "healthy",
+    storage: getStorageBackend(),
+    auth: getAuthProviderName(),
+    timestamp: new Date().toISOString(),
+  });
 });
 
 // ============================================
 // START SERVER
 // ============================================
 
+// Apply pending data migrations in the background (see migrations.tsx)
+runPendingMigrations(null).catch((error) => console.log("Error running migrations at startup:", error));
+
 Deno.serve(app.fetch);
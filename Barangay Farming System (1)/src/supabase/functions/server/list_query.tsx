@@ -0,0 +1,222 @@
+/**
+ * ============================================
+ * LIST QUERIES (PAGING, FILTERING, SORTING)
+ * ============================================
+ *
+ * GET list routes accept the ListQuery parameters from _shared/types.ts:
+ * page, pageSize, sort, order, q, from, to and a few per-entity filters.
+ *
+ * The KV store has no indexes, so records are still read by prefix, but
+ * filtering, sorting and paging happen here and only the requested page
+ * is sent to the client. Without `page` every matching record is
+ * returned as a plain array, as the list routes always did.
+ */
+
+import { listActive } from "./trash.tsx";
+import type { FieldErrors, Page, SortOrder } from "../_shared/types.ts";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ListOptions {
+  dateField: string;                // Field matched by from/to
+  searchFields: string[];           // Fields matched by q
+  filters: string[];                // Query params matched exactly against the field of the same name
+  sortFields: string[];             // Fields allowed in sort
+  defaultSort: [string, SortOrder];
+}
+
+// What each entity type can be filtered and sorted by
+const LIST_OPTIONS: Record<string, ListOptions> = {
+  plot: {
+    dateField: "updatedAt",
+    searchFields: ["code", "soilType", "notes"],
+    filters: ["status", "irrigation", "shade"],
+    sortFields: ["code", "areaSqm", "soilType", "irrigation", "shade", "status"],
+    defaultSort: ["code", "asc"],
+  },
+  variety: {
+    dateField: "updatedAt",
+    searchFields: ["name", "variety", "notes"],
+    filters: ["family", "waterNeeds", "season"],
+    sortFields: ["name", "variety", "family", "daysToMaturity", "spacingCm", "waterNeeds", "season", "yieldKgPerSqm"],
+    defaultSort: ["name", "asc"],
+  },
+  crop: {
+    dateField: "datePlanted",
+    searchFields: ["name", "variety", "plotNumber"],
+    filters: ["status", "health", "plotNumber"],
+    sortFields: ["name", "variety", "plotNumber", "datePlanted", "estimatedHarvest", "status", "health"],
+    defaultSort: ["datePlanted", "desc"],
+  },
+  crop_activity: {
+    dateField: "date",
+    searchFields: ["volunteer", "notes"],
+    filters: ["cropId", "type"],
+    sortFields: ["date", "type", "volunteer"],
+    defaultSort: ["date", "desc"],
+  },
+  harvest: {
+    dateField: "harvestDate",
+    searchFields: ["cropName", "distributionMethod", "notes"],
+    filters: ["cropName", "distributionMethod"],
+    sortFields: ["cropName", "harvestDate", "distributionMethod"],
+    defaultSort: ["harvestDate", "desc"],
+  },
+  budget: {
+    dateField: "date",
+    searchFields: ["description", "category"],
+    filters: ["category"],
+    sortFields: ["date", "category", "description", "amount"],
+    defaultSort: ["date", "desc"],
+  },
+  volunteer: {
+    dateField: "lastActivity",
+    searchFields: ["name", "role"],
+    filters: ["role"],
+    sortFields: ["name", "role", "hoursContributed", "tasksCompleted", "lastActivity"],
+    defaultSort: ["name", "asc"],
+  },
+  task: {
+    dateField: "dueDate",
+    searchFields: ["title", "assignedTo"],
+    filters: ["status", "priority", "assignedTo"],
+    sortFields: ["title", "assignedTo", "dueDate", "status", "priority"],
+    defaultSort: ["dueDate", "asc"],
+  },
+  poll: {
+    dateField: "endsAt",
+    searchFields: ["question"],
+    filters: [],
+    sortFields: ["question", "endsAt", "totalVotes"],
+    defaultSort: ["endsAt", "desc"],
+  },
+  feedback: {
+    dateField: "date",
+    searchFields: ["name", "message"],
+    filters: ["category"],
+    sortFields: ["name", "date", "category"],
+    defaultSort: ["date", "desc"],
+  },
+  photo: {
+    dateField: "date",
+    searchFields: ["title", "description"],
+    filters: ["category"],
+    sortFields: ["title", "date", "category"],
+    defaultSort: ["date", "desc"],
+  },
+  update: {
+    dateField: "date",
+    searchFields: ["title", "message"],
+    filters: ["type"],
+    sortFields: ["title", "date", "type"],
+    defaultSort: ["date", "desc"],
+  },
+  event: {
+    dateField: "date",
+    searchFields: ["title", "description"],
+    filters: ["type"],
+    sortFields: ["title", "date", "type"],
+    defaultSort: ["date", "asc"],
+  },
+};
+
+export type ListResult<T> =
+  | { success: true; data: T[] | Page<T> }
+  | { success: false; errors: FieldErrors };
+
+function parsePositiveInt(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  return /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : NaN;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function compareValues(a: unknown, b: unknown, order: SortOrder): number {
+  // Records without the field sort last in either direction
+  if (isBlank(a) || isBlank(b)) return Number(isBlank(a)) - Number(isBlank(b));
+
+  const direction = order === "desc" ? -1 : 1;
+  if (typeof a === "number" && typeof b === "number") return direction * (a - b);
+  return direction * String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * Filter, sort and page records by the query parameters of a list route
+ * Invalid parameters are reported as field errors keyed by parameter name
+ */
+export function applyListQuery<T>(
+  entityType: string,
+  records: T[],
+  query: Record<string, string>
+): ListResult<T> {
+  const options = LIST_OPTIONS[entityType];
+  const errors: FieldErrors = {};
+
+  const page = parsePositiveInt(query.page);
+  const pageSize = parsePositiveInt(query.pageSize) ?? DEFAULT_PAGE_SIZE;
+  if (Number.isNaN(page)) {
+    errors.page = "Must be a whole number of 1 or more";
+  }
+  if (Number.isNaN(pageSize) || pageSize > MAX_PAGE_SIZE) {
+    errors.pageSize = `Must be a whole number between 1 and ${MAX_PAGE_SIZE}`;
+  }
+
+  const sort = query.sort || options.defaultSort[0];
+  if (!options.sortFields.includes(sort)) {
+    errors.sort = `Must be one of: ${options.sortFields.join(", ")}`;
+  }
+
+  const order = query.order || (query.sort ? "asc" : options.defaultSort[1]);
+  if (order !== "asc" && order !== "desc") {
+    errors.order = "Must be asc or desc";
+  }
+
+  for (const param of ["from", "to"]) {
+    if (query[param] && !DATE_PATTERN.test(query[param])) {
+      errors[param] = "Must be a date (YYYY-MM-DD)";
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  const search = query.q?.trim().toLowerCase();
+  const filters = options.filters.filter((field) => query[field]);
+
+  const matching = records.filter((record: any) => {
+    if (search && !options.searchFields.some((field) => String(record[field] ?? "").toLowerCase().includes(search))) {
+      return false;
+    }
+    if (filters.some((field) => String(record[field] ?? "").toLowerCase() !== query[field].toLowerCase())) {
+      return false;
+    }
+
+    const day = String(record[options.dateField] ?? "").slice(0, 10);
+    return (!query.from || day >= query.from) && (!query.to || day <= query.to);
+  });
+
+  matching.sort((a: any, b: any) => compareValues(a[sort], b[sort], order as SortOrder));
+
+  if (page === null) {
+    return { success: true, data: matching };
+  }
+
+  const start = (page - 1) * pageSize;
+  return {
+    success: true,
+    data: { items: matching.slice(start, start + pageSize), total: matching.length, page, pageSize },
+  };
+}
+
+/**
+ * Records of an entity type that are not in the trash, filtered, sorted and paged
+ */
+export async function queryActive<T>(entityType: string, query: Record<string, string>): Promise<ListResult<T>> {
+  return applyListQuery(entityType, await listActive<T>(entityType), query);
+}
@@ -0,0 +1,293 @@
+/**
+ * ============================================
+ * DATA MIGRATIONS
+ * ============================================
+ *
+ * Upgrades records written by older versions of the app once, instead of
+ * patching them every time a route reads them.
+ *
+ * Each migration has a version number and the key prefixes it upgrades.
+ * `settings:schema_version` holds the highest version applied; pending
+ * migrations run in order when the server starts and from the Data
+ * Migrations admin page. Every write goes through the audit trail.
+ *
+ * If any record fails, the run stops without recording that version, so
+ * running again retries it. `up` must therefore be safe to apply twice:
+ * it returns null for a record that needs no change. Likewise `derive`,
+ * which creates new records from the existing ones, must skip records it
+ * already created.
+ *
+ * Progress and failures are kept in `migrations:runs` for the admin page.
+ * Like versioning.tsx, the lock in `migrations:lock` is not atomic; it
+ * stops an admin from starting a second run while one is in progress.
+ */
+
+import * as kv from "./storage.tsx";
+import { auditedSet, type AuditActor } from "./audit.tsx";
+import { initialVersion } from "./versioning.tsx";
+import { STARTER_VARIETIES, starterFamily } from "./crop_catalog.tsx";
+import type { CropVariety, MigrationRun, MigrationStatus, Plot } from "../_shared/types.ts";
+
+interface Migration {
+  version: number;
+  name: string;
+  prefixes: string[];                // Entity types (KV key prefixes) it upgrades or reads
+  up?: (record: any) => any | null;  // Upgraded copy, or null if the record is already current
+  derive?: (records: any[]) => Promise<Array<{ key: string; record: any }>>;  // New records to create
+}
+
+export type MigrationResult =
+  | { success: true; runs: MigrationRun[] }
+  | { success: false; error: string };
+
+const SCHEMA_VERSION_KEY = "settings:schema_version";
+const RUNS_KEY = "migrations:runs";
+const LOCK_KEY = "migrations:lock";
+
+// Runs shown on the admin page
+const MAX_RUNS = 20;
+// Save progress after this many records
+const PROGRESS_INTERVAL = 25;
+// A lock older than this was left by a server that stopped mid-run
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Copy of a record with any missing fields set to their defaults
+ * (null if none were missing)
+ */
+function withDefaults(record: any, defaults: Record<string, unknown>): any | null {
+  const missing = Object.keys(defaults).filter((field) => record[field] === undefined);
+  if (missing.length === 0) {
+    return null;
+  }
+  return { ...record, ...Object.fromEntries(missing.map((field) => [field, defaults[field]])) };
+}
+
+// ============================================
+// MIGRATIONS
+// Append new ones with the next version number - never renumber or edit
+// one that has shipped
+// ============================================
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "Add activity counters to user profiles",
+    prefixes: ["user_profile"],
+    up: (profile) => withDefaults(profile, {
+      tasksCompleted: 0,
+      hoursContributed: 0,
+      eventsAttended: 0,
+      recentActivities: [],
+    }),
+  },
+  {
+    version: 2,
+    name: "Set a health status on crops saved without one",
+    prefixes: ["crop"],
+    up: (crop) => withDefaults(crop, { health: "healthy" }),
+  },
+  {
+    version: 3,
+    name: "Register the plots crops were planted on",
+    prefixes: ["crop"],
+    derive: async (crops) => {
+      const normalize = (code: unknown) => String(code ?? "").trim().toLowerCase();
+      const registered = new Set((await kv.getByPrefix("plot:")).map((plot) => normalize(plot.code)));
+      const plots = new Map<string, Plot>();
+
+      for (const crop of crops) {
+        const code = String(crop?.plotNumber ?? "").trim();
+        if (!code || registered.has(normalize(code)) || plots.has(normalize(code))) continue;
+
+        // Details nobody recorded yet; the plot registry page asks for them
+        const id = crypto.randomUUID();
+        plots.set(normalize(code), {
+          id,
+          code,
+          areaSqm: 0,
+          soilType: "Unknown",
+          irrigation: "none",
+          shade: "full-sun",
+          status: "active",
+          notes: "",
+          ...initialVersion(),
+        });
+      }
+
+      return [...plots.values()].map((plot) => ({ key: `plot:${plot.id}`, record: plot }));
+    },
+  },
+  {
+    version: 4,
+    name: "Seed the crop catalog with local vegetables",
+    prefixes: ["variety"],
+    // Only into an empty catalog, so entries admins removed don't come back
+    derive: async (varieties) => {
+      if (varieties.length > 0) {
+        return [];
+      }
+      return STARTER_VARIETIES.map((starter) => {
+        const variety: CropVariety = { ...starter, id: crypto.randomUUID(), ...initialVersion() };
+        return { key: `variety:${variety.id}`, record: variety };
+      });
+    },
+  },
+  {
+    version: 5,
+    name: "Set the plant family on crop catalog entries",
+    prefixes: ["variety"],
+    up: (variety) => withDefaults(variety, { family: starterFamily(variety.name) }),
+  },
+];
+
+// The schema version of records written by this server
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function getSchemaVersion(): Promise<number> {
+  const version = await kv.get(SCHEMA_VERSION_KEY);
+  return typeof version === "number" ? version : 0;
+}
+
+/**
+ * Lower the recorded schema version so later migrations run again
+ * (e.g. after restoring records from an older backup)
+ */
+export async function rewindSchemaVersion(version: number): Promise<void> {
+  if (version < (await getSchemaVersion())) {
+    await kv.set(SCHEMA_VERSION_KEY, version);
+  }
+}
+
+async function isRunning(): Promise<boolean> {
+  const lock = await kv.get(LOCK_KEY);
+  return Boolean(lock) && Date.now() - new Date(lock.startedAt).getTime() < LOCK_TIMEOUT_MS;
+}
+
+/**
+ * Add or replace a run in the history (newest first)
+ */
+async function saveRun(run: MigrationRun): Promise<void> {
+  const runs: MigrationRun[] = (await kv.get(RUNS_KEY)) || [];
+  const others = runs.filter((r) => !(r.version === run.version && r.startedAt === run.startedAt));
+  await kv.set(RUNS_KEY, [run, ...others].slice(0, MAX_RUNS));
+}
+
+async function applyMigration(actor: AuditActor, migration: Migration): Promise<MigrationRun> {
+  const run: MigrationRun = {
+    version: migration.version,
+    name: migration.name,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    processed: 0,
+    total: 0,
+    updated: 0,
+    failures: [],
+  };
+
+  // Every stored record of the migration's entity types, trashed ones included
+  const records = (
+    await Promise.all(
+      migration.prefixes.map(async (prefix) =>
+        (await kv.getByPrefix(`${prefix}:`)).map((record) => ({ key: `${prefix}:${record?.id ?? "(no id)"}`, record }))
+      )
+    )
+  ).flat();
+
+  // Upgraded copies of existing records, then any new records
+  const { up, derive } = migration;
+  const writes = [
+    ...(up ? records : []).map(({ key, record }) => ({
+      key,
+      build: () => {
+        if (!record?.id) {
+          throw new Error("Record has no id");
+        }
+        return up!(structuredClone(record));
+      },
+    })),
+    ...(derive ? await derive(records.map(({ record }) => record)) : []).map(({ key, record }) => ({ key, build: () => record })),
+  ];
+
+  run.total = writes.length;
+  await saveRun(run);
+
+  for (const { key, build } of writes) {
+    try {
+      const record = build();
+      if (record) {
+        await auditedSet(actor, key, record);
+        run.updated++;
+      }
+    } catch (error) {
+      console.log(`Migration ${migration.version} failed for ${key}:`, error);
+      run.failures.push({ key, error: error instanceof Error ? error.message : String(error) });
+    }
+
+    run.processed++;
+    if (run.processed % PROGRESS_INTERVAL === 0) {
+      await saveRun(run);
+    }
+  }
+
+  run.finishedAt = new Date().toISOString();
+  await saveRun(run);
+  return run;
+}
+
+/**
+ * Apply every migration newer than the stored schema version, in order
+ * Stops at the first migration with failures
+ */
+export async function runPendingMigrations(actor: AuditActor): Promise<MigrationResult> {
+  if (await isRunning()) {
+    return { success: false, error: "Migrations are already running" };
+  }
+
+  await kv.set(LOCK_KEY, { startedAt: new Date().toISOString() });
+  try {
+    const schemaVersion = await getSchemaVersion();
+    const runs: MigrationRun[] = [];
+
+    for (const migration of MIGRATIONS.filter((m) => m.version > schemaVersion)) {
+      const run = await applyMigration(actor, migration);
+      runs.push(run);
+
+      if (run.failures.length > 0) {
+        console.log(`Migration ${migration.version} had ${run.failures.length} failures; stopping`);
+        break;
+      }
+
+      await kv.set(SCHEMA_VERSION_KEY, migration.version);
+      console.log(`Applied migration ${migration.version} (${migration.name}): ${run.updated} of ${run.total} records updated`);
+    }
+
+    return { success: true, runs };
+  } finally {
+    await kv.del(LOCK_KEY);
+  }
+}
+
+/**
+ * Schema version, the known migrations and recent runs, for the admin page
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const [schemaVersion, running, runs] = await Promise.all([
+    getSchemaVersion(),
+    isRunning(),
+    kv.get(RUNS_KEY),
+  ]);
+
+  return {
+    schemaVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    running,
+    migrations: MIGRATIONS.map(({ version, name, prefixes }) => ({
+      version,
+      name,
+      prefixes,
+      applied: version <= schemaVersion,
+    })),
+    runs: runs || [],
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * ============================================
+ * PLOT REGISTRY
+ * ============================================
+ *
+ * Crops name the plot they grow on by its code (Crop.plotNumber), so the
+ * registry keeps codes unique and every crop pointing at a registered
+ * plot. Codes match ignoring case and surrounding spaces; a crop is saved
+ * with the plot's own spelling.
+ *
+ * Renaming a plot renames it on its crops, trashed ones included, so the
+ * plot keeps its history. A plot with crops can't be deleted; it can be
+ * marked fallow instead.
+ */
+
+import * as kv from "./storage.tsx";
+import { auditedSet, type AuditActor } from "./audit.tsx";
+import { listActive } from "./trash.tsx";
+import { bumpVersion } from "./versioning.tsx";
+import type { Crop, FieldErrors, Plot } from "../_shared/types.ts";
+
+const normalizeCode = (code: unknown) => String(code ?? "").trim().toLowerCase();
+
+/**
+ * The registered plot with a code, leaving out the plot `exceptId`
+ * (so a plot being edited doesn't clash with itself)
+ */
+export async function findPlotByCode(code: string, exceptId?: string): Promise<Plot | null> {
+  const plots = await listActive<Plot>("plot");
+  return plots.find((plot) => plot.id !== exceptId && normalizeCode(plot.code) === normalizeCode(code)) ?? null;
+}
+
+/**
+ * Check that a crop's plot is registered, and use the plot's spelling of the code
+ * Returns field errors for the crop form, or null (with `crop` updated)
+ */
+export async function checkCropPlot(crop: Pick<Crop, "plotNumber">): Promise<FieldErrors | null> {
+  const plot = await findPlotByCode(crop.plotNumber);
+  if (!plot) {
+    return { plotNumber: "Not a plot in the plot registry" };
+  }
+  crop.plotNumber = plot.code;
+  return null;
+}
+
+/**
+ * Crops planted on a plot, past ones and those in the trash included (a
+ * trashed crop can be restored, and must find its plot still registered)
+ */
+export async function cropsOnPlot(code: string): Promise<Crop[]> {
+  const crops: Crop[] = await kv.getByPrefix("crop:");
+  return crops.filter((crop) => normalizeCode(crop.plotNumber) === normalizeCode(code));
+}
+
+/**
+ * Move every crop from one plot code to another after a plot is renamed
+ * Returns the number of crops changed
+ */
+export async function renamePlotOnCrops(actor: AuditActor, from: string, to: string): Promise<number> {
+  const crops: Crop[] = await kv.getByPrefix("crop:");
+  let renamed = 0;
+
+  for (const crop of crops) {
+    if (normalizeCode(crop.plotNumber) !== normalizeCode(from) || crop.plotNumber === to) continue;
+    await auditedSet(actor, `crop:${crop.id}`, bumpVersion({ ...crop, plotNumber: to }));
+    renamed++;
+  }
+
+  if (renamed > 0) {
+    console.log(`Renamed plot ${from} to ${to} on ${renamed} crops`);
+  }
+  return renamed;
+}
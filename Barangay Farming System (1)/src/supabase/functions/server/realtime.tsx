@@ -0,0 +1,181 @@
+/**
+ * ============================================
+ * REALTIME CHANGES
+ * ============================================
+ *
+ * Every audited write of a record members can see also appends a change
+ * event under `realtime:{seq}`. GET /realtime streams those events to
+ * signed-in clients as server-sent events, so each client patches the one
+ * collection that changed instead of reloading everything.
+ *
+ * Events go through storage rather than an in-memory channel because the
+ * edge deployment runs many short-lived isolates: the one serving a stream
+ * is rarely the one that handled the write. A stream polls for new events
+ * every couple of seconds and closes before the edge time limit; clients
+ * reconnect with the last seq they saw. Events are kept for a few minutes,
+ * so a reconnect catches up - after a longer gap the client is told to
+ * reload instead.
+ */
+
+import type { SSEStreamingApi } from "npm:hono/streaming";
+import * as kv from "./storage.tsx";
+import type { AuditAction, ChangeEvent } from "../_shared/types.ts";
+
+// Entity types streamed to clients. Profiles, accounts and the audit log
+// are left out: not every member may read them.
+const STREAMED_TYPES = new Set([
+  "plot",
+  "variety",
+  "crop",
+  "crop_activity",
+  "harvest",
+  "budget",
+  "volunteer",
+  "task",
+  "poll",
+  "feedback",
+  "photo",
+  "update",
+  "event",
+]);
+
+// Settings the app shows outside the admin pages
+const STREAMED_SETTINGS = new Set(["total_budget", "role_permissions", "barangay_name", "garden_map", "companion_planting"]);
+
+// How long events are kept for reconnecting clients
+const EVENT_RETENTION_MS = 5 * 60 * 1000;
+// How often old events are deleted (per server instance)
+const PRUNE_INTERVAL_MS = 60 * 1000;
+// How often a stream checks for new events
+const POLL_INTERVAL_MS = 2000;
+// A stream closes after this, below the edge function time limit
+const STREAM_DURATION_MS = 110 * 1000;
+// Keep-alive for proxies that close idle connections
+const PING_INTERVAL_MS = 20 * 1000;
+// Another instance's write can land in storage this long after its seq time
+const LATE_WRITE_MS = 5000;
+// Records longer than this (as JSON) are sent without their value
+const MAX_RECORD_LENGTH = 20_000;
+
+let lastPrunedAt = 0;
+let lastSeqTime = 0;
+let sameTimeCount = 0;
+
+/**
+ * Sequence string for a time: zero-padded milliseconds, so seqs sort as text
+ */
+function seqAt(time: number, suffix = ""): string {
+  return `${String(time).padStart(15, "0")}-${suffix}`;
+}
+
+/**
+ * Seq for a new event
+ * A counter keeps this instance's writes in the same millisecond in order
+ * (e.g. a delete right after a create); the random part keeps other
+ * instances' seqs distinct.
+ */
+function nextSeq(): string {
+  const now = Date.now();
+  sameTimeCount = now === lastSeqTime ? sameTimeCount + 1 : 0;
+  lastSeqTime = now;
+  return seqAt(now, `${String(sameTimeCount).padStart(4, "0")}${crypto.randomUUID().slice(0, 8)}`);
+}
+
+function seqTime(seq: string): number {
+  return Number(seq.slice(0, seq.indexOf("-")));
+}
+
+function isStreamed(entityType: string, entityId: string): boolean {
+  return entityType === "settings" ? STREAMED_SETTINGS.has(entityId) : STREAMED_TYPES.has(entityType);
+}
+
+async function retainedChanges(): Promise<ChangeEvent[]> {
+  const events: ChangeEvent[] = await kv.getByPrefix("realtime:");
+  return events.sort((a, b) => (a.seq < b.seq ? -1 : a.seq > b.seq ? 1 : 0));
+}
+
+async function pruneChanges() {
+  if (Date.now() - lastPrunedAt < PRUNE_INTERVAL_MS) {
+    return;
+  }
+  lastPrunedAt = Date.now();
+
+  const cutoff = seqAt(Date.now() - EVENT_RETENTION_MS);
+  const expired = (await retainedChanges()).filter((event) => event.seq < cutoff);
+  if (expired.length > 0) {
+    await kv.mdel(expired.map((event) => `realtime:${event.seq}`));
+  }
+}
+
+/**
+ * Record a change for the streams (called by the audit trail after each write)
+ * A failure is logged, not thrown: the write itself already succeeded.
+ */
+export async function publishChange(
+  actorId: string | null,
+  action: AuditAction,
+  entityType: string,
+  entityId: string,
+  value: unknown
+): Promise<void> {
+  if (!isStreamed(entityType, entityId)) {
+    return;
+  }
+
+  try {
+    const event: ChangeEvent = {
+      seq: nextSeq(),
+      action,
+      entityType,
+      entityId,
+      record: value ?? null,
+      actorId,
+      timestamp: new Date().toISOString(),
+    };
+    if (JSON.stringify(event.record).length > MAX_RECORD_LENGTH) {
+      event.record = null;
+      event.tooLarge = true;
+    }
+
+    await kv.set(`realtime:${event.seq}`, event);
+    await pruneChanges();
+  } catch (error) {
+    console.log(`Error publishing change to ${entityType}:${entityId}:`, error);
+  }
+}
+
+/**
+ * Send change events to one client until it disconnects or the stream
+ * reaches its time limit
+ * `lastSeq` is the last event the client received (on a reconnect).
+ */
+export async function streamChanges(stream: SSEStreamingApi, lastSeq: string | null): Promise<void> {
+  const startedAt = Date.now();
+  let lastPingAt = startedAt;
+
+  // Events at or before the floor were sent by the client's previous stream.
+  // A new client just loaded its data, so only recent events are repeated.
+  let floor = lastSeq || seqAt(startedAt - LATE_WRITE_MS);
+  if (lastSeq && !(seqTime(lastSeq) >= startedAt - EVENT_RETENTION_MS)) {
+    await stream.writeSSE({ event: "resync", data: "" });
+    floor = seqAt(startedAt);
+  }
+
+  // Seqs sent by this stream; late writes can arrive out of order
+  const sent = new Set<string>();
+
+  while (!stream.aborted && Date.now() - startedAt < STREAM_DURATION_MS) {
+    for (const event of await retainedChanges()) {
+      if (event.seq <= floor || sent.has(event.seq)) continue;
+      await stream.writeSSE({ id: event.seq, event: "change", data: JSON.stringify(event) });
+      sent.add(event.seq);
+    }
+
+    if (Date.now() - lastPingAt >= PING_INTERVAL_MS) {
+      await stream.writeSSE({ event: "ping", data: "" });
+      lastPingAt = Date.now();
+    }
+
+    await stream.sleep(POLL_INTERVAL_MS);
+  }
+}
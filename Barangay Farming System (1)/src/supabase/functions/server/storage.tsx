@@ -0,0 +1,107 @@
+/**
+ * ============================================
+ * STORAGE - PLUGGABLE KEY-VALUE BACKENDS
+ * ============================================
+ *
+ * The server reads and writes records through this module, which has the
+ * same get/set/del/mset/mget/mdel/getByPrefix surface as kv_store.tsx
+ * and forwards each call to the backend chosen by the KV_BACKEND
+ * environment variable:
+ *
+ * - supabase (default): the `kv_store_a8901673` table, via kv_store.tsx
+ * - sqlite: a local database file (KV_SQLITE_PATH, default ./plant-n-plan.db),
+ *   for running offline, e.g. a demo at the barangay hall with no internet
+ * - memory: a Map that is emptied on restart, for automated tests
+ *
+ * Backends are loaded on first use, so the Supabase edge function never
+ * loads the SQLite driver.
+ */
+
+/**
+ * What every storage backend provides
+ * Values are JSON: backends store a serialized copy, never the caller's object
+ */
+export interface KvStorage {
+  set(key: string, value: any): Promise<void>;
+  get(key: string): Promise<any>;                  // undefined if the key doesn't exist
+  del(key: string): Promise<void>;
+  mset(keys: string[], values: any[]): Promise<void>;
+  mget(keys: string[]): Promise<any[]>;            // Values of the keys that exist
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix(prefix: string): Promise<any[]>;     // Values of every key starting with prefix
+}
+
+export type StorageBackend = "supabase" | "sqlite" | "memory";
+
+const BACKENDS: readonly StorageBackend[] = ["supabase", "sqlite", "memory"];
+const DEFAULT_SQLITE_PATH = "./plant-n-plan.db";
+
+let storage: Promise<KvStorage> | null = null;
+
+/**
+ * The backend named by KV_BACKEND (defaults to supabase)
+ */
+export function getStorageBackend(): StorageBackend {
+  const name = (Deno.env.get("KV_BACKEND") || "supabase").toLowerCase();
+  if (!BACKENDS.includes(name as StorageBackend)) {
+    throw new Error(`Unknown KV_BACKEND "${name}" (expected one of: ${BACKENDS.join(", ")})`);
+  }
+  return name as StorageBackend;
+}
+
+async function createStorage(backend: StorageBackend): Promise<KvStorage> {
+  switch (backend) {
+    case "supabase":
+      return await import("./kv_store.tsx");
+    case "sqlite": {
+      const { createSqliteStorage } = await import("./storage_sqlite.tsx");
+      return createSqliteStorage(Deno.env.get("KV_SQLITE_PATH") || DEFAULT_SQLITE_PATH);
+    }
+    case "memory": {
+      const { createMemoryStorage } = await import("./storage_memory.tsx");
+      return createMemoryStorage();
+    }
+  }
+}
+
+function getStorage(): Promise<KvStorage> {
+  if (!storage) {
+    const backend = getStorageBackend();
+    console.log(`Using ${backend} storage`);
+    storage = createStorage(backend);
+  }
+  return storage;
+}
+
+/**
+ * Replace the configured backend (e.g. a fresh in-memory store per test)
+ */
+export function useStorage(backend: KvStorage): void {
+  storage = Promise.resolve(backend);
+}
+
+// ============================================
+// KV FUNCTIONS
+// Same signatures as kv_store.tsx
+// ============================================
+
+// Set stores a key-value pair.
+export const set = async (key: string, value: any): Promise<void> => (await getStorage()).set(key, value);
+
+// Get retrieves the value stored under a key.
+export const get = async (key: string): Promise<any> => (await getStorage()).get(key);
+
+// Delete deletes a key-value pair.
+export const del = async (key: string): Promise<void> => (await getStorage()).del(key);
+
+// Sets multiple key-value pairs.
+export const mset = async (keys: string[], values: any[]): Promise<void> => (await getStorage()).mset(keys, values);
+
+// Gets the values of multiple keys.
+export const mget = async (keys: string[]): Promise<any[]> => (await getStorage()).mget(keys);
+
+// Deletes multiple key-value pairs.
+export const mdel = async (keys: string[]): Promise<void> => (await getStorage()).mdel(keys);
+
+// Search for values by key prefix.
+export const getByPrefix = async (prefix: string): Promise<any[]> => (await getStorage()).getByPrefix(prefix);
@@ -0,0 +1,51 @@
+/**
+ * ============================================
+ * IN-MEMORY STORAGE BACKEND
+ * ============================================
+ *
+ * Keeps records in a Map for automated tests and throwaway demos.
+ * Everything is lost when the server restarts.
+ *
+ * Values go through JSON like the other backends, so a route that changes
+ * an object after saving it doesn't change what is stored.
+ */
+
+import type { KvStorage } from "./storage.tsx";
+
+export function createMemoryStorage(initial: Record<string, any> = {}): KvStorage {
+  const store = new Map<string, string>(
+    Object.entries(initial).map(([key, value]) => [key, JSON.stringify(value)])
+  );
+
+  const read = (key: string) => {
+    const stored = store.get(key);
+    return stored === undefined ? undefined : JSON.parse(stored);
+  };
+
+  return {
+    async set(key, value) {
+      store.set(key, JSON.stringify(value));
+    },
+    async get(key) {
+      return read(key);
+    },
+    async del(key) {
+      store.delete(key);
+    },
+    async mset(keys, values) {
+      keys.forEach((key, i) => store.set(key, JSON.stringify(values[i])));
+    },
+    async mget(keys) {
+      return keys.filter((key) => store.has(key)).map(read);
+    },
+    async mdel(keys) {
+      keys.forEach((key) => store.delete(key));
+    },
+    async getByPrefix(prefix) {
+      return [...store.keys()]
+        .filter((key) => key.startsWith(prefix))
+        .sort()
+        .map(read);
+    },
+  };
+}
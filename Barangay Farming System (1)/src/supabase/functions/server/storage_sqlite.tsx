@@ -0,0 +1,73 @@
+/**
+ * ============================================
+ * SQLITE STORAGE BACKEND
+ * ============================================
+ *
+ * Keeps records in a single SQLite file so the server runs without
+ * internet access (e.g. `KV_BACKEND=sqlite deno run -A index.tsx` on a
+ * laptop at the barangay hall). The table mirrors kv_store_a8901673,
+ * with values stored as JSON text.
+ *
+ * Needs --allow-read and --allow-write on the database file.
+ */
+
+import { DB } from "https://deno.land/x/sqlite@v3.9.1/mod.ts";
+import type { KvStorage } from "./storage.tsx";
+
+export function createSqliteStorage(path: string): KvStorage {
+  const db = new DB(path);
+  db.execute(`
+    CREATE TABLE IF NOT EXISTS kv_store (
+      key TEXT NOT NULL PRIMARY KEY,
+      value TEXT NOT NULL
+    )
+  `);
+
+  const upsert = (key: string, value: any) => {
+    db.query(
+      "INSERT INTO kv_store (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value",
+      [key, JSON.stringify(value)]
+    );
+  };
+
+  // One "?" per key for IN (...) clauses
+  const placeholders = (keys: string[]) => keys.map(() => "?").join(", ");
+
+  return {
+    async set(key, value) {
+      upsert(key, value);
+    },
+    async get(key) {
+      const rows = db.query<[string]>("SELECT value FROM kv_store WHERE key = ?", [key]);
+      return rows.length > 0 ? JSON.parse(rows[0][0]) : undefined;
+    },
+    async del(key) {
+      db.query("DELETE FROM kv_store WHERE key = ?", [key]);
+    },
+    async mset(keys, values) {
+      db.transaction(() => {
+        keys.forEach((key, i) => upsert(key, values[i]));
+      });
+    },
+    async mget(keys) {
+      if (keys.length === 0) return [];
+      const rows = db.query<[string]>(
+        `SELECT value FROM kv_store WHERE key IN (${placeholders(keys)})`,
+        keys
+      );
+      return rows.map(([value]) => JSON.parse(value));
+    },
+    async mdel(keys) {
+      if (keys.length === 0) return;
+      db.query(`DELETE FROM kv_store WHERE key IN (${placeholders(keys)})`, keys);
+    },
+    async getByPrefix(prefix) {
+      // substr rather than LIKE, so "_" and "%" in key prefixes match literally
+      const rows = db.query<[string]>(
+        "SELECT value FROM kv_store WHERE substr(key, 1, ?) = ? ORDER BY key",
+        [prefix.length, prefix]
+      );
+      return rows.map(([value]) => JSON.parse(value));
+    },
+  };
+}
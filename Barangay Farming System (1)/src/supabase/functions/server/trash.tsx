@@ -0,0 +1,204 @@
+/**
+ * ============================================
+ * TRASH (SOFT DELETE)
+ * ============================================
+ *
+ * DELETE routes don't remove records. They set `deletedAt`/`deletedBy` on
+ * the stored value so list routes hide it and admins can restore it from
+ * the Trash page. Records stay in the trash for the retention period in
+ * `settings:trash_retention_days` and are then purged for good.
+ *
+ * Edge functions have no scheduler, so expired records are purged
+ * whenever something is moved to the trash or the trash is listed.
+ */
+
+import * as kv from "./storage.tsx";
+import { auditedSet, auditedDel, type AuditActor } from "./audit.tsx";
+import { findPlotByCode } from "./plots.tsx";
+import { findVariety } from "./crop_catalog.tsx";
+import type { CropVariety, Plot, Trashed, TrashItem, TrashSettings } from "../_shared/types.ts";
+
+export const DEFAULT_RETENTION_DAYS = 30;
+const RETENTION_KEY = "settings:trash_retention_days";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Entity types that are soft deleted, and how each is named in the trash
+const TRASH_LABELS: Record<string, (record: any) => string> = {
+  plot: (record) => `Plot ${record.code}`,
+  variety: (record) => `${record.name} (${record.variety})`,
+  crop: (record) => record.name,
+  crop_activity: (record) => `${record.type} on ${record.date}`,
+  harvest: (record) => `${record.cropName} (${record.harvestDate})`,
+  budget: (record) => record.description,
+  volunteer: (record) => record.name,
+  task: (record) => record.title,
+  poll: (record) => record.question,
+  feedback: (record) => `${record.name}: ${record.message}`,
+  photo: (record) => record.title,
+  update: (record) => record.title,
+};
+
+// Why a trashed record can't come back as it is, for types that must stay
+// unique among the active records
+const RESTORE_CONFLICTS: Record<string, (record: any) => Promise<string | null>> = {
+  plot: async (record: Plot) =>
+    (await findPlotByCode(record.code, record.id)) ? `Another plot now has the code ${record.code}. Rename it first.` : null,
+  variety: async (record: CropVariety) =>
+    (await findVariety(record, record.id)) ? `The catalog already has ${record.name} (${record.variety}). Rename it first.` : null,
+};
+
+export function isTrashable(entityType: string): boolean {
+  return entityType in TRASH_LABELS;
+}
+
+function isDeleted(record: any): boolean {
+  return Boolean(record?.deletedAt);
+}
+
+/**
+ * All records of an entity type that are not in the trash
+ */
+export async function listActive<T>(entityType: string): Promise<T[]> {
+  const records = await kv.getByPrefix(`${entityType}:`);
+  return records.filter((record) => !isDeleted(record));
+}
+
+/**
+ * Get a record, treating one in the trash as missing
+ */
+export async function getActive<T>(key: string): Promise<T | null> {
+  const record = await kv.get(key);
+  return record && !isDeleted(record) ? record : null;
+}
+
+/**
+ * Whether the record under `key` is currently in the trash
+ * Updates are refused for these so an edit can't silently undelete them
+ */
+export async function isInTrash(key: string): Promise<boolean> {
+  return isDeleted(await kv.get(key));
+}
+
+/**
+ * Soft delete a record
+ * Returns false if there is no such record (or it is already in the trash)
+ */
+export async function moveToTrash(actor: AuditActor, key: string): Promise<boolean> {
+  const record = await kv.get(key);
+  if (!record || isDeleted(record)) {
+    return false;
+  }
+
+  const trashed: Trashed<{ id: string }> = {
+    ...record,
+    deletedAt: new Date().toISOString(),
+    deletedBy: actor?.id ?? null,
+    deletedByEmail: actor?.email ?? null,
+  };
+  await auditedSet(actor, key, trashed, "delete");
+
+  await purgeExpired();
+  return true;
+}
+
+/**
+ * Check that a trashed record can be restored without clashing with an
+ * active one
+ * Returns the reason it can't, or null (also when it isn't in the trash)
+ */
+export async function checkRestore(entityType: string, id: string): Promise<string | null> {
+  const record = await kv.get(`${entityType}:${id}`);
+  const conflict = RESTORE_CONFLICTS[entityType];
+  return conflict && isDeleted(record) ? conflict(record) : null;
+}
+
+/**
+ * Take a record out of the trash
+ * Returns the restored record, or null if it isn't in the trash
+ */
+export async function restoreFromTrash<T>(actor: AuditActor, key: string): Promise<T | null> {
+  const record = await kv.get(key);
+  if (!isDeleted(record)) {
+    return null;
+  }
+
+  const { deletedAt: _deletedAt, deletedBy: _deletedBy, deletedByEmail: _deletedByEmail, ...restored } = record;
+  await auditedSet(actor, key, restored, "restore");
+  return restored as T;
+}
+
+/**
+ * Permanently delete a record that is in the trash
+ * Returns false if it isn't in the trash (live records must be trashed first)
+ */
+export async function purgeFromTrash(actor: AuditActor, key: string): Promise<boolean> {
+  if (!(await isInTrash(key))) {
+    return false;
+  }
+
+  await auditedDel(actor, key, "purge");
+  return true;
+}
+
+export async function getTrashSettings(): Promise<TrashSettings> {
+  const stored = await kv.get(RETENTION_KEY);
+  return {
+    retentionDays: typeof stored === "number" && stored > 0 ? stored : DEFAULT_RETENTION_DAYS,
+  };
+}
+
+export async function setTrashSettings(actor: AuditActor, settings: TrashSettings): Promise<void> {
+  await auditedSet(actor, RETENTION_KEY, settings.retentionDays);
+}
+
+/**
+ * Purge every trashed record older than the retention period
+ * Logged in the audit trail as a system purge (no actor)
+ */
+export async function purgeExpired(): Promise<number> {
+  const { retentionDays } = await getTrashSettings();
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  let purged = 0;
+
+  for (const entityType of Object.keys(TRASH_LABELS)) {
+    const records = await kv.getByPrefix(`${entityType}:`);
+    for (const record of records) {
+      if (isDeleted(record) && Date.parse(record.deletedAt) < cutoff) {
+        await auditedDel(null, `${entityType}:${record.id}`, "purge");
+        purged++;
+      }
+    }
+  }
+
+  if (purged > 0) {
+    console.log(`Purged ${purged} records older than ${retentionDays} days from the trash`);
+  }
+
+  return purged;
+}
+
+/**
+ * Everything in the trash, most recently deleted first
+ */
+export async function listTrash(): Promise<TrashItem[]> {
+  await purgeExpired();
+  const { retentionDays } = await getTrashSettings();
+  const items: TrashItem[] = [];
+
+  for (const [entityType, label] of Object.entries(TRASH_LABELS)) {
+    const records = await kv.getByPrefix(`${entityType}:`);
+    for (const record of records) {
+      if (!isDeleted(record)) continue;
+      items.push({
+        entityType,
+        id: record.id,
+        label: label(record),
+        deletedAt: record.deletedAt,
+        deletedByEmail: record.deletedByEmail ?? null,
+        purgeAt: new Date(Date.parse(record.deletedAt) + retentionDays * DAY_MS).toISOString(),
+      });
+    }
+  }
+
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
@@ -0,0 +1,73 @@
+/**
+ * ============================================
+ * RECORD VERSIONS (OPTIMISTIC CONCURRENCY)
+ * ============================================
+ *
+ * Editable records carry `version` and `updatedAt` (see Versioned in
+ * _shared/types.ts). Creates start at version 1 and every update bumps it.
+ *
+ * A PUT body sends back the version the client loaded. If the stored record
+ * has moved on, the update is refused so the client can show the user both
+ * copies and let them merge, instead of silently overwriting someone
+ * else's edit. Records saved before versioning count as version 0.
+ *
+ * The KV store has no compare-and-set, so two updates landing at the same
+ * instant can still race; this catches the common case of two people
+ * editing from screens loaded minutes apart.
+ */
+
+import * as kv from "./storage.tsx";
+import { auditedSet, type AuditActor } from "./audit.tsx";
+import type { Versioned } from "../_shared/types.ts";
+
+export type VersionedUpdateResult<T> =
+  | { success: true; record: T }
+  | { success: false; current: T }      // Someone else saved it first
+  | { success: false; current: null };  // There is no such record
+
+/**
+ * Stamps for a record being created
+ */
+export function initialVersion(): Required<Versioned> {
+  return { version: 1, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Copy of a record with its version bumped (for server-side changes such as votes)
+ */
+export function bumpVersion<T extends Versioned>(record: T): T {
+  return { ...record, version: (record.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * The version an update body was based on (a body without one is treated as version 0)
+ */
+export function expectedVersion(body: unknown): number {
+  const version = (body as Versioned | null)?.version;
+  return typeof version === "number" ? version : 0;
+}
+
+/**
+ * Save an update if the stored record is still at the version the client edited
+ * Otherwise nothing is written and the current stored copy is returned, or
+ * null if the record doesn't exist (updates never create records, so an
+ * edit of a purged record can't bring it back)
+ */
+export async function updateVersioned<T extends Versioned>(
+  actor: AuditActor,
+  key: string,
+  record: T,
+  basedOn: number
+): Promise<VersionedUpdateResult<T>> {
+  const current: T | null = await kv.get(key);
+  if (!current) {
+    return { success: false, current: null };
+  }
+  if ((current.version ?? 0) !== basedOn) {
+    return { success: false, current };
+  }
+
+  const updated = bumpVersion({ ...record, version: current.version });
+  await auditedSet(actor, key, updated);
+  return { success: true, record: updated };
+}
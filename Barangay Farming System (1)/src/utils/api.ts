@@ -7,23 +7,131 @@
  * It handles HTTP requests (GET, POST, PUT, DELETE) to the Supabase Edge Functions.
  * 
  * All API calls go through the apiCall() function which:
- * - Adds authentication headers
+ * - Adds the signed-in user's access token (falls back to the public key)
  * - Handles errors
  * - Returns typed data
  */
 
-import { projectId, publicAnonKey } from './supabase/info';
+import { publicAnonKey } from './supabase/info';
+import { SERVER_URL } from './serverConfig';
+import { getSession } from './auth';
+import type { PermissionMatrix, Role } from '../supabase/functions/_shared/permissions';
+import type {
+  ApiResponse,
+  AuditEntry,
+  AuditFilters,
+  BudgetItem,
+  BudgetListQuery,
+  CompanionPlanting,
+  Crop,
+  CropActivity,
+  CropActivityListQuery,
+  CropListQuery,
+  CropVariety,
+  DuplicateAction,
+  EntityInput,
+  Feedback,
+  FeedbackListQuery,
+  FieldErrors,
+  GardenMap,
+  Harvest,
+  HarvestListQuery,
+  ImportEntityType,
+  ImportReport,
+  MigrationStatus,
+  BarangayLocation,
+  Page,
+  PasswordResetCode,
+  Photo,
+  PhotoListQuery,
+  Plot,
+  PlotListQuery,
+  Poll,
+  PollListQuery,
+  RestoreMode,
+  RestoreReport,
+  RoleChange,
+  ScheduleEvent,
+  ScheduleEventListQuery,
+  SetupData,
+  SetupStatus,
+  Task,
+  TaskListQuery,
+  TrashItem,
+  TrashSettings,
+  Update,
+  UpdateListQuery,
+  UserProfile,
+  UserSummary,
+  VarietyListQuery,
+  Volunteer,
+  VolunteerListQuery,
+} from '../supabase/functions/_shared/types';
 
 // Base URL for all API requests
-const API_BASE = `https://${projectId}.supabase.co/functions/v1/make-server-a8901673`;
+const API_BASE = SERVER_URL;
 
 /**
- * Standard API response format from the backend
+ * Thrown when the server rejects a body that fails schema validation
+ * Forms use `fieldErrors` to show each message next to its input
  */
-interface ApiResponse<T> {
-  success: boolean;  // Whether the request succeeded
-  data?: T;          // Response data (if successful)
-  error?: string;    // Error message (if failed)
+export class ValidationError extends Error {
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors) {
+    super(message);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Get the field errors from a failed API call (empty if it wasn't a validation error)
+ */
+export function getFieldErrors(error: unknown): FieldErrors {
+  return error instanceof ValidationError ? error.fieldErrors : {};
+}
+
+/**
+ * Thrown when an update was based on a stale version of the record
+ * `current` is the server's copy, which the edit dialogs offer to merge with
+ */
+export class ConflictError extends Error {
+  current: unknown;
+
+  constructor(message: string, current: unknown) {
+    super(message);
+    this.name = 'ConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Get the server's current copy from a failed update (null if it wasn't a version conflict)
+ */
+export function getConflict<T>(error: unknown): T | null {
+  return error instanceof ConflictError ? error.current as T : null;
+}
+
+/**
+ * Thrown when the server can't be reached (offline, or the connection dropped)
+ * Record changes that fail this way are queued to sync later (see syncQueue.ts)
+ */
+export class NetworkError extends Error {
+  constructor(message: string = 'Can\'t reach the server. Check your connection.') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Get the bearer token for API requests
+ * Uses the current user's session token so the server can check their role.
+ * getSession refreshes an expiring session first, so this is always current.
+ */
+export async function getAuthToken(): Promise<string> {
+  const session = await getSession();
+  return session?.access_token || publicAnonKey;
 }
 
 /**
@@ -31,35 +139,46 @@ interface ApiResponse<T> {
  * 
  * @param endpoint - API route (e.g., '/crops', '/harvests')
  * @param method - HTTP method (GET, POST, PUT, DELETE)
- * @param body - Data to send (for POST/PUT requests)
+ * @param body - Data to send (for POST/PUT requests); a Blob is sent as-is with its own type
  * @returns Promise with the response data
  */
 async function apiCall<T>(
   endpoint: string,
   method: string = 'GET',
-  body?: any
+  body?: unknown
 ): Promise<T> {
   try {
     // Configure the HTTP request
     const options: RequestInit = {
       method,
       headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${publicAnonKey}`, // Auth token for backend
+        'Content-Type': body instanceof Blob ? body.type : 'application/json',
+        'Authorization': `Bearer ${await getAuthToken()}`, // User's session token for backend
       },
     };
 
     // Add request body for POST/PUT requests
     if (body) {
-      options.body = JSON.stringify(body);
+      options.body = body instanceof Blob ? body : JSON.stringify(body);
     }
 
-    // Make the request
-    const response = await fetch(`${API_BASE}${endpoint}`, options);
+    // Make the request (fetch only throws when the server can't be reached)
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE}${endpoint}`, options);
+    } catch {
+      throw new NetworkError();
+    }
     const data: ApiResponse<T> = await response.json();
 
     // Check if request was successful
     if (!data.success) {
+      if (data.fieldErrors) {
+        throw new ValidationError(data.error || 'Validation failed', data.fieldErrors);
+      }
+      if (data.conflict) {
+        throw new ConflictError(data.error || 'Update conflict', data.conflict);
+      }
       throw new Error(data.error || 'API call failed');
     }
 
@@ -70,15 +189,81 @@ async function apiCall<T>(
   }
 }
 
+/**
+ * Turn a query object into "?key=value&..." (empty values are left out)
+ */
+function toQueryString(query: object): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+// A list query without paging - the route returns every matching record
+type AllQuery<Q> = Omit<Q, 'page' | 'pageSize'>;
+
+// ============================================
+// PLOTS API
+// The plot registry; crops name their plot by code
+// ============================================
+export const plotsApi = {
+  getAll: (query: AllQuery<PlotListQuery> = {}) =>  // All plots matching the filters
+    apiCall<Plot[]>(`/plots${toQueryString(query)}`),
+  getPage: (query: PlotListQuery) =>  // One page of plots (query.page defaults to 1)
+    apiCall<Page<Plot>>(`/plots${toQueryString({ page: 1, ...query })}`),
+  create: (plot: EntityInput<Plot>) => apiCall<Plot>('/plots', 'POST', plot),         // Register a plot
+  update: (id: string, plot: EntityInput<Plot>) => apiCall<Plot>(`/plots/${id}`, 'PUT', plot),  // Update plot (a new code renames it on its crops)
+  delete: (id: string) => apiCall<void>(`/plots/${id}`, 'DELETE'),    // Delete plot (only one without crops)
+  restore: (id: string) => apiCall<Plot>(`/plots/${id}/restore`, 'POST'),  // Restore deleted plot (undo)
+};
+
+// ============================================
+// CROP CATALOG API
+// Growing details of each crop variety; admins maintain it
+// ============================================
+export const varietiesApi = {
+  getAll: (query: AllQuery<VarietyListQuery> = {}) =>  // All catalog entries matching the filters
+    apiCall<CropVariety[]>(`/varieties${toQueryString(query)}`),
+  getPage: (query: VarietyListQuery) =>  // One page of catalog entries (query.page defaults to 1)
+    apiCall<Page<CropVariety>>(`/varieties${toQueryString({ page: 1, ...query })}`),
+  create: (variety: EntityInput<CropVariety>) => apiCall<CropVariety>('/varieties', 'POST', variety),  // Add a catalog entry
+  update: (id: string, variety: EntityInput<CropVariety>) => apiCall<CropVariety>(`/varieties/${id}`, 'PUT', variety),  // Update catalog entry (crops planted from it are unchanged)
+  delete: (id: string) => apiCall<void>(`/varieties/${id}`, 'DELETE'),    // Delete catalog entry
+  restore: (id: string) => apiCall<CropVariety>(`/varieties/${id}/restore`, 'POST'),  // Restore deleted catalog entry (undo)
+};
+
 // ============================================
 // CROPS API
 // Manage all crop-related operations
 // ============================================
 export const cropsApi = {
-  getAll: () => apiCall<any[]>('/crops'),                              // Get all crops
-  create: (crop: any) => apiCall<any>('/crops', 'POST', crop),         // Add new crop
-  update: (id: string, crop: any) => apiCall<any>(`/crops/${id}`, 'PUT', crop),  // Update crop
+  getAll: (query: AllQuery<CropListQuery> = {}) =>  // All crops matching the filters
+    apiCall<Crop[]>(`/crops${toQueryString(query)}`),
+  getPage: (query: CropListQuery) =>  // One page of crops (query.page defaults to 1)
+    apiCall<Page<Crop>>(`/crops${toQueryString({ page: 1, ...query })}`),
+  create: (crop: EntityInput<Crop>) => apiCall<Crop>('/crops', 'POST', crop),         // Add new crop
+  update: (id: string, crop: EntityInput<Crop>) => apiCall<Crop>(`/crops/${id}`, 'PUT', crop),  // Update crop
   delete: (id: string) => apiCall<void>(`/crops/${id}`, 'DELETE'),    // Delete crop
+  restore: (id: string) => apiCall<Crop>(`/crops/${id}/restore`, 'POST'),  // Restore deleted crop (undo)
+};
+
+// ============================================
+// CROP ACTIVITIES API
+// Timeline entries of each crop; health changes are logged by the server
+// ============================================
+export const cropActivitiesApi = {
+  getAll: (query: AllQuery<CropActivityListQuery> = {}) =>  // All activity entries matching the filters
+    apiCall<CropActivity[]>(`/crop-activities${toQueryString(query)}`),
+  getPage: (query: CropActivityListQuery) =>  // One page of activity entries (query.page defaults to 1)
+    apiCall<Page<CropActivity>>(`/crop-activities${toQueryString({ page: 1, ...query })}`),
+  create: (activity: EntityInput<CropActivity>) => apiCall<CropActivity>('/crop-activities', 'POST', activity),  // Log an activity
+  update: (id: string, activity: EntityInput<CropActivity>) => apiCall<CropActivity>(`/crop-activities/${id}`, 'PUT', activity),  // Update activity entry
+  delete: (id: string) => apiCall<void>(`/crop-activities/${id}`, 'DELETE'),    // Delete activity entry
+  restore: (id: string) => apiCall<CropActivity>(`/crop-activities/${id}/restore`, 'POST'),  // Restore deleted activity entry (undo)
 };
 
 // ============================================
@@ -86,10 +271,14 @@ export const cropsApi = {
 // Track harvest records
 // ============================================
 export const harvestsApi = {
-  getAll: () => apiCall<any[]>('/harvests'),                           // Get all harvests
-  create: (harvest: any) => apiCall<any>('/harvests', 'POST', harvest),  // Record new harvest
-  update: (id: string, harvest: any) => apiCall<any>(`/harvests/${id}`, 'PUT', harvest),  // Update harvest
+  getAll: (query: AllQuery<HarvestListQuery> = {}) =>  // All harvests matching the filters
+    apiCall<Harvest[]>(`/harvests${toQueryString(query)}`),
+  getPage: (query: HarvestListQuery) =>  // One page of harvests (query.page defaults to 1)
+    apiCall<Page<Harvest>>(`/harvests${toQueryString({ page: 1, ...query })}`),
+  create: (harvest: EntityInput<Harvest>) => apiCall<Harvest>('/harvests', 'POST', harvest),  // Record new harvest
+  update: (id: string, harvest: EntityInput<Harvest>) => apiCall<Harvest>(`/harvests/${id}`, 'PUT', harvest),  // Update harvest
   delete: (id: string) => apiCall<void>(`/harvests/${id}`, 'DELETE'), // Delete harvest
+  restore: (id: string) => apiCall<Harvest>(`/harvests/${id}/restore`, 'POST'),  // Restore deleted harvest (undo)
 };
 
 // ============================================
@@ -97,10 +286,15 @@ export const harvestsApi = {
 // Manage budget and expenses
 // ============================================
 export const budgetApi = {
-  getAll: () => apiCall<any[]>('/budget'),                             // Get all budget items
-  create: (item: any) => apiCall<any>('/budget', 'POST', item),       // Add expense
-  update: (id: string, item: any) => apiCall<any>(`/budget/${id}`, 'PUT', item),  // Update expense
+  getAll: (query: AllQuery<BudgetListQuery> = {}) =>  // All budget items matching the filters
+    apiCall<BudgetItem[]>(`/budget${toQueryString(query)}`),
+  getPage: (query: BudgetListQuery) =>  // One page of budget items (query.page defaults to 1)
+    apiCall<Page<BudgetItem>>(`/budget${toQueryString({ page: 1, ...query })}`),
+  create: (item: EntityInput<BudgetItem>) => apiCall<BudgetItem>('/budget', 'POST', item),       // Add expense
+  update: (id: string, item: EntityInput<BudgetItem>) => apiCall<BudgetItem>(`/budget/${id}`, 'PUT', item),  // Update expense
   delete: (id: string) => apiCall<void>(`/budget/${id}`, 'DELETE'),   // Delete expense
+  restore: (id: string) => apiCall<BudgetItem>(`/budget/${id}/restore`, 'POST'),  // Restore deleted expense (undo)
+  getHistory: (id: string) => apiCall<AuditEntry[]>(`/budget/${id}/history`),  // Who edited this expense and when
 };
 
 // ============================================
@@ -108,10 +302,14 @@ export const budgetApi = {
 // Manage volunteer information
 // ============================================
 export const volunteersApi = {
-  getAll: () => apiCall<any[]>('/volunteers'),                         // Get all volunteers
-  create: (volunteer: any) => apiCall<any>('/volunteers', 'POST', volunteer),  // Add volunteer
-  update: (id: string, volunteer: any) => apiCall<any>(`/volunteers/${id}`, 'PUT', volunteer),  // Update volunteer
+  getAll: (query: AllQuery<VolunteerListQuery> = {}) =>  // All volunteers matching the filters
+    apiCall<Volunteer[]>(`/volunteers${toQueryString(query)}`),
+  getPage: (query: VolunteerListQuery) =>  // One page of volunteers (query.page defaults to 1)
+    apiCall<Page<Volunteer>>(`/volunteers${toQueryString({ page: 1, ...query })}`),
+  create: (volunteer: EntityInput<Volunteer>) => apiCall<Volunteer>('/volunteers', 'POST', volunteer),  // Add volunteer
+  update: (id: string, volunteer: EntityInput<Volunteer>) => apiCall<Volunteer>(`/volunteers/${id}`, 'PUT', volunteer),  // Update volunteer
   delete: (id: string) => apiCall<void>(`/volunteers/${id}`, 'DELETE'),  // Delete volunteer
+  restore: (id: string) => apiCall<Volunteer>(`/volunteers/${id}/restore`, 'POST'),  // Restore deleted volunteer (undo)
 };
 
 // ============================================
@@ -119,10 +317,14 @@ export const volunteersApi = {
 // Manage community tasks
 // ============================================
 export const tasksApi = {
-  getAll: () => apiCall<any[]>('/tasks'),                              // Get all tasks
-  create: (task: any) => apiCall<any>('/tasks', 'POST', task),        // Create task
-  update: (id: string, task: any) => apiCall<any>(`/tasks/${id}`, 'PUT', task),  // Update task
+  getAll: (query: AllQuery<TaskListQuery> = {}) =>  // All tasks matching the filters
+    apiCall<Task[]>(`/tasks${toQueryString(query)}`),
+  getPage: (query: TaskListQuery) =>  // One page of tasks (query.page defaults to 1)
+    apiCall<Page<Task>>(`/tasks${toQueryString({ page: 1, ...query })}`),
+  create: (task: EntityInput<Task>) => apiCall<Task>('/tasks', 'POST', task),        // Create task
+  update: (id: string, task: EntityInput<Task>) => apiCall<Task>(`/tasks/${id}`, 'PUT', task),  // Update task
   delete: (id: string) => apiCall<void>(`/tasks/${id}`, 'DELETE'),    // Delete task
+  restore: (id: string) => apiCall<Task>(`/tasks/${id}/restore`, 'POST'),  // Restore deleted task (undo)
 };
 
 // ============================================
@@ -130,12 +332,16 @@ export const tasksApi = {
 // Community polls and voting
 // ============================================
 export const pollsApi = {
-  getAll: () => apiCall<any[]>('/polls'),                              // Get all polls
-  create: (poll: any) => apiCall<any>('/polls', 'POST', poll),        // Create poll (admin only)
-  update: (id: string, poll: any) => apiCall<any>(`/polls/${id}`, 'PUT', poll),  // Update poll
+  getAll: (query: AllQuery<PollListQuery> = {}) =>  // All polls matching the filters
+    apiCall<Poll[]>(`/polls${toQueryString(query)}`),
+  getPage: (query: PollListQuery) =>  // One page of polls (query.page defaults to 1)
+    apiCall<Page<Poll>>(`/polls${toQueryString({ page: 1, ...query })}`),
+  create: (poll: EntityInput<Poll>) => apiCall<Poll>('/polls', 'POST', poll),        // Create poll (admin only)
+  update: (id: string, poll: EntityInput<Poll>) => apiCall<Poll>(`/polls/${id}`, 'PUT', poll),  // Update poll
   delete: (id: string) => apiCall<void>(`/polls/${id}`, 'DELETE'),    // Delete poll
+  restore: (id: string) => apiCall<Poll>(`/polls/${id}/restore`, 'POST'),  // Restore deleted poll (undo)
   vote: (pollId: string, optionId: string) =>                          // Vote on a poll
-    apiCall<any>(`/polls/${pollId}/vote`, 'POST', { optionId }),
+    apiCall<Poll>(`/polls/${pollId}/vote`, 'POST', { optionId }),
 };
 
 // ============================================
@@ -143,10 +349,14 @@ export const pollsApi = {
 // Community feedback and suggestions
 // ============================================
 export const feedbacksApi = {
-  getAll: () => apiCall<any[]>('/feedbacks'),                          // Get all feedback
-  create: (feedback: any) => apiCall<any>('/feedbacks', 'POST', feedback),  // Submit feedback
-  update: (id: string, feedback: any) => apiCall<any>(`/feedbacks/${id}`, 'PUT', feedback),  // Update feedback status
+  getAll: (query: AllQuery<FeedbackListQuery> = {}) =>  // All feedback matching the filters
+    apiCall<Feedback[]>(`/feedbacks${toQueryString(query)}`),
+  getPage: (query: FeedbackListQuery) =>  // One page of feedback (query.page defaults to 1)
+    apiCall<Page<Feedback>>(`/feedbacks${toQueryString({ page: 1, ...query })}`),
+  create: (feedback: EntityInput<Feedback>) => apiCall<Feedback>('/feedbacks', 'POST', feedback),  // Submit feedback
+  update: (id: string, feedback: EntityInput<Feedback>) => apiCall<Feedback>(`/feedbacks/${id}`, 'PUT', feedback),  // Update feedback status
   delete: (id: string) => apiCall<void>(`/feedbacks/${id}`, 'DELETE'),  // Delete feedback
+  restore: (id: string) => apiCall<Feedback>(`/feedbacks/${id}/restore`, 'POST'),  // Restore deleted feedback (undo)
 };
 
 // ============================================
@@ -154,10 +364,14 @@ export const feedbacksApi = {
 // Photo gallery management
 // ============================================
 export const photosApi = {
-  getAll: () => apiCall<any[]>('/photos'),                             // Get all photos
-  create: (photo: any) => apiCall<any>('/photos', 'POST', photo),     // Upload photo
-  update: (id: string, photo: any) => apiCall<any>(`/photos/${id}`, 'PUT', photo),  // Update photo info
+  getAll: (query: AllQuery<PhotoListQuery> = {}) =>  // All photos matching the filters
+    apiCall<Photo[]>(`/photos${toQueryString(query)}`),
+  getPage: (query: PhotoListQuery) =>  // One page of photos (query.page defaults to 1)
+    apiCall<Page<Photo>>(`/photos${toQueryString({ page: 1, ...query })}`),
+  create: (photo: EntityInput<Photo>) => apiCall<Photo>('/photos', 'POST', photo),     // Upload photo
+  update: (id: string, photo: EntityInput<Photo>) => apiCall<Photo>(`/photos/${id}`, 'PUT', photo),  // Update photo info
   delete: (id: string) => apiCall<void>(`/photos/${id}`, 'DELETE'),   // Delete photo
+  restore: (id: string) => apiCall<Photo>(`/photos/${id}/restore`, 'POST'),  // Restore deleted photo (undo)
 };
 
 // ============================================
@@ -165,10 +379,14 @@ export const photosApi = {
 // Community news and updates
 // ============================================
 export const updatesApi = {
-  getAll: () => apiCall<any[]>('/updates'),                            // Get all updates
-  create: (update: any) => apiCall<any>('/updates', 'POST', update),  // Post update
-  update: (id: string, update: any) => apiCall<any>(`/updates/${id}`, 'PUT', update),  // Edit update
+  getAll: (query: AllQuery<UpdateListQuery> = {}) =>  // All updates matching the filters
+    apiCall<Update[]>(`/updates${toQueryString(query)}`),
+  getPage: (query: UpdateListQuery) =>  // One page of updates (query.page defaults to 1)
+    apiCall<Page<Update>>(`/updates${toQueryString({ page: 1, ...query })}`),
+  create: (update: EntityInput<Update>) => apiCall<Update>('/updates', 'POST', update),  // Post update
+  update: (id: string, update: EntityInput<Update>) => apiCall<Update>(`/updates/${id}`, 'PUT', update),  // Edit update
   delete: (id: string) => apiCall<void>(`/updates/${id}`, 'DELETE'),  // Delete update
+  restore: (id: string) => apiCall<Update>(`/updates/${id}/restore`, 'POST'),  // Restore deleted update (undo)
 };
 
 // ============================================
@@ -176,8 +394,11 @@ export const updatesApi = {
 // Community events calendar
 // ============================================
 export const eventsApi = {
-  getAll: () => apiCall<any[]>('/events'),                             // Get all events
-  create: (event: any) => apiCall<any>('/events', 'POST', event),     // Create event
+  getAll: (query: AllQuery<ScheduleEventListQuery> = {}) =>  // All events matching the filters
+    apiCall<ScheduleEvent[]>(`/events${toQueryString(query)}`),
+  getPage: (query: ScheduleEventListQuery) =>  // One page of events (query.page defaults to 1)
+    apiCall<Page<ScheduleEvent>>(`/events${toQueryString({ page: 1, ...query })}`),
+  create: (event: EntityInput<ScheduleEvent>) => apiCall<ScheduleEvent>('/events', 'POST', event),     // Create event
 };
 
 // ============================================
@@ -187,7 +408,143 @@ export const eventsApi = {
 export const settingsApi = {
   getTotalBudget: () => apiCall<number>('/settings/total-budget'),     // Get total budget
   setTotalBudget: (amount: number) => apiCall<void>('/settings/total-budget', 'PUT', { amount }),  // Set budget
-  getLocation: () => apiCall<any>('/public/location'),                 // Get saved location
+  getLocation: () => apiCall<BarangayLocation>('/public/location'),  // Get saved location
+  getGardenMap: () => apiCall<GardenMap>('/settings/garden-map'),     // Get the drawn plot layout
+  saveGardenMap: (map: GardenMap) => apiCall<GardenMap>('/settings/garden-map', 'PUT', map),  // Save it (settings.manage)
+  getCompanionPlanting: () => apiCall<CompanionPlanting>('/settings/companions'),  // Get the companion planting pairs
+  saveCompanionPlanting: (data: CompanionPlanting) =>  // Save them (catalog.manage)
+    apiCall<CompanionPlanting>('/settings/companions', 'PUT', data),
+};
+
+// ============================================
+// ROLES API
+// Role permission matrix (who can do what)
+// ============================================
+export const rolesApi = {
+  getPermissions: () => apiCall<PermissionMatrix>('/roles/permissions'),  // Get the matrix
+  updatePermissions: (matrix: PermissionMatrix) =>                      // Save the matrix (roles.manage)
+    apiCall<PermissionMatrix>('/roles/permissions', 'PUT', matrix),
+};
+
+// ============================================
+// SETUP API
+// First-run setup wizard (creates the initial admin)
+// ============================================
+export const setupApi = {
+  getStatus: () => apiCall<SetupStatus>('/public/setup-status'),        // Is setup needed?
+  complete: (data: SetupData) => apiCall<UserProfile>('/setup/complete', 'POST', data),  // Finish setup, become admin
+};
+
+// ============================================
+// USERS API
+// Role changes, suspension, password resets and deletion (users.manage)
+// ============================================
+export const usersApi = {
+  list: () => apiCall<UserSummary[]>('/users/list'),                   // All accounts with their roles
+  changeRole: (userId: string, role: Role) =>                          // Promote/demote a user
+    apiCall<UserProfile>(`/users/${userId}/role`, 'PUT', { role }),
+  suspend: (userId: string) => apiCall<UserProfile>(`/users/${userId}/suspend`, 'POST'),        // Ban from signing in
+  reactivate: (userId: string) => apiCall<UserProfile>(`/users/${userId}/reactivate`, 'POST'),  // Lift the ban
+  createResetCode: (userId: string) =>                                 // One-time password reset code (local auth only)
+    apiCall<PasswordResetCode>(`/users/${userId}/reset-code`, 'POST'),
+  delete: (userId: string) => apiCall<void>(`/users/${userId}`, 'DELETE'),                      // Remove account, profile and avatar
+  getRoleChanges: () => apiCall<RoleChange[]>('/users/role-changes'),  // Who changed which role
+};
+
+// ============================================
+// AUDIT API
+// Log of every record change (audit.view)
+// ============================================
+export const auditApi = {
+  list: (filters: AuditFilters = {}) =>                                // Entries matching the filters, newest first
+    apiCall<AuditEntry[]>(`/audit${toQueryString(filters)}`),
+};
+
+// ============================================
+// TRASH API
+// Deleted records waiting to be restored or purged (trash.manage)
+// ============================================
+export const trashApi = {
+  list: () => apiCall<TrashItem[]>('/trash'),                          // Everything in the trash
+  restore: (entityType: string, id: string) =>                         // Put a record back
+    apiCall<unknown>(`/trash/${entityType}/${id}/restore`, 'POST'),
+  purge: (entityType: string, id: string) =>                           // Delete a record for good
+    apiCall<void>(`/trash/${entityType}/${id}`, 'DELETE'),
+  getSettings: () => apiCall<TrashSettings>('/settings/trash-retention'),  // Retention period
+  updateSettings: (settings: TrashSettings) =>
+    apiCall<TrashSettings>('/settings/trash-retention', 'PUT', settings),
+};
+
+// ============================================
+// MIGRATIONS API
+// Data migration status and runs (settings.manage)
+// ============================================
+export const migrationsApi = {
+  getStatus: () => apiCall<MigrationStatus>('/migrations'),             // Schema version, migrations and recent runs
+  run: () => apiCall<MigrationStatus>('/migrations/run', 'POST'),        // Apply pending migrations (waits for the run)
+};
+
+// ============================================
+// IMPORT API
+// Batch import of spreadsheet rows (the entity's write permission)
+// ============================================
+
+// Route of each importable entity type
+const IMPORT_PATHS: Record<ImportEntityType, string> = {
+  crop: '/crops',
+  harvest: '/harvests',
+  budget: '/budget',
+  volunteer: '/volunteers',
+};
+
+export const importApi = {
+  run: (                                                               // Import rows, or report what would happen
+    entityType: ImportEntityType,
+    rows: Array<Record<string, unknown>>,
+    onDuplicate: DuplicateAction,
+    dryRun: boolean
+  ) =>
+    apiCall<ImportReport>(
+      `${IMPORT_PATHS[entityType]}/import${toQueryString({ dryRun })}`,
+      'POST',
+      { rows, onDuplicate }
+    ),
+};
+
+// ============================================
+// BACKUP API
+// Download and restore backups of all data (backup.manage)
+// ============================================
+
+/**
+ * Download a backup file
+ * Not JSON-wrapped like other routes, so it's fetched directly
+ */
+async function downloadBackup(format: 'json' | 'zip'): Promise<Blob> {
+  const response = await fetch(`${API_BASE}/backup?format=${format}`, {
+    headers: { 'Authorization': `Bearer ${await getAuthToken()}` },
+  });
+
+  if (!response.ok) {
+    const data: ApiResponse<never> = await response.json();
+    throw new Error(data.error || 'Failed to download backup');
+  }
+  return response.blob();
+}
+
+/**
+ * A backup file as a request body, typed by its extension
+ * (browsers report ZIP files under several MIME types)
+ */
+function backupBody(file: File): Blob {
+  const type = file.name.toLowerCase().endsWith('.zip') ? 'application/zip' : 'application/json';
+  return new Blob([file], { type });
+}
+
+export const backupApi = {
+  download: downloadBackup,                                            // The whole archive as a file
+  restore: (file: File, mode: RestoreMode, dryRun: boolean) =>         // Restore, or report what would change
+    apiCall<RestoreReport>(`/backup/restore${toQueryString({ mode, dryRun })}`, 'POST', backupBody(file)),
 };
 
 // Initialize database with sample data (first-time setup)
@@ -217,7 +574,7 @@ export const profilePictureApi = {
 async function apiCallWithToken<T>(
   endpoint: string,
   method: string = 'GET',
-  body?: any,
+  body?: unknown,
   accessToken?: string
 ): Promise<T> {
   try {
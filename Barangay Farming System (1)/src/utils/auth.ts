@@ -10,39 +10,39 @@
  * - Session management
  * - User profile management
  * 
- * Uses Supabase Auth for secure authentication
+ * Uses Supabase Auth by default. With VITE_AUTH_PROVIDER=local the server
+ * runs accounts itself, and sessions are kept in localStorage here.
+ *
+ * The last loaded profile is saved on the device, so a signed-in user can
+ * open the app without a connection.
  */
 
 import { createClient } from "@supabase/supabase-js";
 import { projectId, publicAnonKey } from "./supabase/info";
+import { AUTH_PROVIDER, SERVER_URL } from "./serverConfig";
+import { deleteValue, readValue, writeValue } from "./offlineStore";
+import type { Role } from "../supabase/functions/_shared/permissions";
+import type { LocalSession, UserProfile } from "../supabase/functions/_shared/types";
 
-// Create Supabase client instance for authentication
+// Offline store key of the signed-in user's profile
+const OFFLINE_PROFILE_KEY = "profile";
+
+// Create Supabase client instance for authentication (unused with local auth)
 const supabase = createClient(
   `https://${projectId}.supabase.co`,
   publicAnonKey
 );
 
+// User profiles are shared with the server (see _shared/types.ts)
+export type { UserProfile };
+
 /**
- * User Profile Interface
- * Defines the structure of user data stored in the database
+ * The signed-in session
+ * The part of a Supabase session the app uses; local sessions are mapped onto it
  */
-export interface UserProfile {
-  id: string;                // Unique user ID from Supabase Auth
-  email: string;             // User's email address
-  name: string;              // Full name
-  role: string;              // User role (admin, member, volunteer)
-  joinedDate: string;        // Date user registered
-  avatar: string | null;     // Profile picture URL (if uploaded)
-  bio?: string;              // User biography/description
-  location?: string;         // User's location
-  tasksCompleted?: number;   // Number of tasks completed
-  hoursContributed?: number; // Hours volunteered
-  eventsAttended?: number;   // Number of events attended
-  recentActivities?: Array<{
-    type: string;            // Activity type (crop, task, harvest, etc.)
-    description: string;     // Activity description
-    timestamp: string;       // When it happened
-  }>;
+export interface AuthSession {
+  access_token: string;
+  user: { id: string; email?: string };
 }
 
 /**
@@ -53,7 +53,7 @@ export interface SignUpData {
   email: string;
   password: string;
   name: string;
-  role?: string;             // Optional - defaults to "member"
+  role?: Role;               // Optional - defaults to "member"
 }
 
 /**
@@ -65,6 +65,113 @@ export interface SignInData {
   password: string;
 }
 
+/**
+ * Password Reset Data Interface
+ * A reset code from an administrator plus the new password (local auth only)
+ */
+export interface PasswordResetData {
+  email: string;
+  code: string;
+  password: string;
+}
+
+// ============================================
+// LOCAL SESSIONS
+// Used when the server runs accounts itself (VITE_AUTH_PROVIDER=local)
+// ============================================
+
+const LOCAL_SESSION_KEY = "plant-n-plan-session";
+
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+let refreshing: Promise<LocalSession | null> | null = null;
+
+function loadLocalSession(): LocalSession | null {
+  try {
+    const stored = localStorage.getItem(LOCAL_SESSION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveLocalSession(session: LocalSession | null) {
+  if (session) {
+    localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(LOCAL_SESSION_KEY);
+  }
+}
+
+/**
+ * POST to one of the server's auth routes and return its data
+ */
+async function postAuth<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${SERVER_URL}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${publicAnonKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || "Request failed");
+  }
+
+  return result.data;
+}
+
+/**
+ * Exchange the refresh token for a new session
+ * Refresh tokens only work once, so concurrent callers share one request.
+ */
+function refreshLocalSession(session: LocalSession): Promise<LocalSession | null> {
+  if (!refreshing) {
+    refreshing = postAuth<LocalSession>("/auth/refresh", { refreshToken: session.refreshToken })
+      .then((fresh) => {
+        saveLocalSession(fresh);
+        return fresh;
+      })
+      .catch((error) => {
+        console.error("Session refresh error:", error);
+        // Forget a rejected session, unless another tab has already replaced it
+        // (fetch throws a TypeError when the server can't be reached - keep the session then)
+        if (!(error instanceof TypeError) && loadLocalSession()?.refreshToken === session.refreshToken) {
+          saveLocalSession(null);
+        }
+        return null;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+/**
+ * The stored local session, refreshed first if it is about to expire
+ */
+async function getLocalSession(): Promise<AuthSession | null> {
+  const session = loadLocalSession();
+  if (!session) {
+    return null;
+  }
+
+  const expiresAt = new Date(session.expiresAt).getTime();
+  // A refresh that can't reach the server keeps the stored session, so the
+  // app still opens offline; it is refreshed once the server is back
+  const current = expiresAt - REFRESH_MARGIN_MS > Date.now()
+    ? session
+    : (await refreshLocalSession(session)) ?? loadLocalSession();
+
+  return current ? { access_token: current.accessToken, user: current.user } : null;
+}
+
 /**
  * Sign up a new user
  * Registers a new user account through the backend API
@@ -75,7 +182,7 @@ export interface SignInData {
 export async function signUp(data: SignUpData) {
   try {
     const response = await fetch(
-      `https://${projectId}.supabase.co/functions/v1/make-server-a8901673/auth/signup`,
+      `${SERVER_URL}/auth/signup`,
       {
         method: "POST",
         headers: {
@@ -101,7 +208,7 @@ export async function signUp(data: SignUpData) {
 
 /**
  * Admin-only: Register a new user with specific role
- * Allows admin to create users and assign roles (admin, member, volunteer)
+ * Allows admin to create users and assign any role from the permission matrix
  * 
  * @param accessToken - Admin's authentication token
  * @param data - User data including role
@@ -110,7 +217,7 @@ export async function signUp(data: SignUpData) {
 export async function adminRegisterUser(accessToken: string, data: SignUpData) {
   try {
     const response = await fetch(
-      `https://${projectId}.supabase.co/functions/v1/make-server-a8901673/auth/admin-register`,
+      `${SERVER_URL}/auth/admin-register`,
       {
         method: "POST",
         headers: {
@@ -143,6 +250,12 @@ export async function adminRegisterUser(accessToken: string, data: SignUpData) {
  */
 export async function signIn(data: SignInData) {
   try {
+    if (AUTH_PROVIDER === "local") {
+      const session = await postAuth<LocalSession>("/auth/session", data);
+      saveLocalSession(session);
+      return { accessToken: session.accessToken, user: session.user };
+    }
+
     // Call Supabase Auth to sign in
     const { data: authData, error } = await supabase.auth.signInWithPassword({
       email: data.email,
@@ -174,6 +287,17 @@ export async function signIn(data: SignInData) {
  */
 export async function signOut() {
   try {
+    await deleteValue("meta", OFFLINE_PROFILE_KEY);
+
+    if (AUTH_PROVIDER === "local") {
+      const session = loadLocalSession();
+      saveLocalSession(null);
+      if (session) {
+        await postAuth("/auth/signout", { refreshToken: session.refreshToken });
+      }
+      return;
+    }
+
     const { error } = await supabase.auth.signOut();
     
     if (error) {
@@ -185,14 +309,33 @@ export async function signOut() {
   }
 }
 
+/**
+ * Set a new password with a reset code from an administrator
+ * Only available with local auth - Supabase Auth resets passwords by email
+ *
+ * @param data - Email, reset code and new password
+ */
+export async function resetPassword(data: PasswordResetData) {
+  try {
+    await postAuth("/auth/password-reset", data);
+  } catch (error) {
+    console.error("Password reset error:", error);
+    throw error;
+  }
+}
+
 /**
  * Get current session
  * Checks if user has an active session (for auto-login)
  * 
  * @returns Promise with session data or null
  */
-export async function getSession() {
+export async function getSession(): Promise<AuthSession | null> {
   try {
+    if (AUTH_PROVIDER === "local") {
+      return await getLocalSession();
+    }
+
     const { data: { session }, error } = await supabase.auth.getSession();
     
     if (error) {
@@ -209,6 +352,7 @@ export async function getSession() {
 /**
  * Get user profile from server
  * Fetches complete user profile data including stats and avatar
+ * Offline, returns the profile saved by the last successful call
  * 
  * @param accessToken - User's authentication token
  * @returns Promise with UserProfile or null
@@ -216,7 +360,7 @@ export async function getSession() {
 export async function getUserProfile(accessToken: string): Promise<UserProfile | null> {
   try {
     const response = await fetch(
-      `https://${projectId}.supabase.co/functions/v1/make-server-a8901673/auth/profile`,
+      `${SERVER_URL}/auth/profile`,
       {
         headers: {
           Authorization: `Bearer ${accessToken}`,
@@ -230,9 +374,14 @@ export async function getUserProfile(accessToken: string): Promise<UserProfile |
       throw new Error(result.error || "Failed to get profile");
     }
 
+    await writeValue("meta", OFFLINE_PROFILE_KEY, result.data);
     return result.data;
   } catch (error) {
     console.error("Get profile error:", error);
+    // fetch throws a TypeError when the server can't be reached - use the saved profile then
+    if (error instanceof TypeError) {
+      return (await readValue<UserProfile>("meta", OFFLINE_PROFILE_KEY)) ?? null;
+    }
     return null;
   }
 }
@@ -248,7 +397,7 @@ export async function getUserProfile(accessToken: string): Promise<UserProfile |
 export async function updateUserProfile(accessToken: string, profileData: Partial<UserProfile>) {
   try {
     const response = await fetch(
-      `https://${projectId}.supabase.co/functions/v1/make-server-a8901673/auth/profile`,
+      `${SERVER_URL}/auth/profile`,
       {
         method: "PUT",
         headers: {
@@ -0,0 +1,168 @@
+/**
+ * ============================================
+ * COMPANION PLANTING
+ * ============================================
+ *
+ * Checks growing crops against the companion planting pairs (see
+ * server/companions.tsx): crops sharing a plot, and crops on neighboring
+ * plots of the garden map. Plots are neighbors when their shapes are at
+ * most NEIGHBOR_DISTANCE grid cells apart, so plots either side of a
+ * narrow path still count. Harvested crops are left out.
+ */
+
+import type { CompanionPair, CompanionPlanting, Crop, GardenMap, MapPoint, Plot, PlotShape } from "../supabase/functions/_shared/types";
+
+export interface CompanionNote {
+  relation: CompanionPair["relation"];
+  reason: string;
+  crops: [Crop, Crop];
+  samePlot: boolean;   // Both crops grow on crops[0]'s plot
+}
+
+export const RELATION_LABELS: Record<CompanionPair["relation"], string> = {
+  "beneficial": "Good neighbor",
+  "antagonistic": "Conflict",
+};
+
+// Widest gap, in grid cells, between plots that count as neighbors
+export const NEIGHBOR_DISTANCE = 1;
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const isGrowing = (crop: Crop) => crop.status !== "harvested";
+
+/**
+ * The pair for two crop names, in either order
+ */
+export function findPair(data: CompanionPlanting, a: string, b: string): CompanionPair | null {
+  return data.pairs.find(({ crops: [first, second] }) =>
+    (sameText(first, a) && sameText(second, b)) || (sameText(first, b) && sameText(second, a))
+  ) ?? null;
+}
+
+// ============================================
+// NEIGHBORING PLOTS
+// ============================================
+
+const distanceToSegment = (point: MapPoint, from: MapPoint, to: MapPoint) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - from.x) * dx + (point.y - from.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (from.x + t * dx), point.y - (from.y + t * dy));
+};
+
+const cross = (a: MapPoint, b: MapPoint, c: MapPoint) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+const segmentsCross = (a: MapPoint, b: MapPoint, c: MapPoint, d: MapPoint) =>
+  cross(a, b, c) * cross(a, b, d) < 0 && cross(c, d, a) * cross(c, d, b) < 0;
+
+const edgesOf = (points: MapPoint[]) => points.map((point, index) => [point, points[(index + 1) % points.length]] as const);
+
+function shapeDistance(a: MapPoint[], b: MapPoint[]): number {
+  let closest = Infinity;
+  for (const [p1, p2] of edgesOf(a)) {
+    for (const [q1, q2] of edgesOf(b)) {
+      if (segmentsCross(p1, p2, q1, q2)) return 0;
+      closest = Math.min(
+        closest,
+        distanceToSegment(p1, q1, q2),
+        distanceToSegment(p2, q1, q2),
+        distanceToSegment(q1, p1, p2),
+        distanceToSegment(q2, p1, p2)
+      );
+    }
+  }
+  return closest;
+}
+
+/**
+ * Pairs of plots drawn next to each other on the garden map
+ */
+export function neighboringPlots(map: GardenMap, plots: Plot[]): Array<[Plot, Plot]> {
+  const shapes = map.shapes
+    .map((shape) => ({ shape, plot: plots.find((plot) => plot.id === shape.plotId) }))
+    .filter((entry): entry is { shape: PlotShape; plot: Plot } => entry.plot !== undefined);
+
+  const neighbors: Array<[Plot, Plot]> = [];
+  shapes.forEach((a, index) => {
+    for (const b of shapes.slice(index + 1)) {
+      if (shapeDistance(a.shape.points, b.shape.points) <= NEIGHBOR_DISTANCE) {
+        neighbors.push([a.plot, b.plot]);
+      }
+    }
+  });
+  return neighbors;
+}
+
+// ============================================
+// CHECKS
+// ============================================
+
+function noteFor(data: CompanionPlanting, a: Crop, b: Crop): CompanionNote | null {
+  const pair = findPair(data, a.name, b.name);
+  return pair && { relation: pair.relation, reason: pair.reason, crops: [a, b], samePlot: a.plotNumber === b.plotNumber };
+}
+
+/**
+ * Good neighbors and conflicts among the growing crops of the whole garden
+ */
+export function companionNotes(crops: Crop[], plots: Plot[], map: GardenMap, data: CompanionPlanting): CompanionNote[] {
+  const growing = crops.filter(isGrowing);
+  const onPlot = (code: string) => growing.filter((crop) => crop.plotNumber === code);
+  const notes: CompanionNote[] = [];
+
+  for (const plot of plots) {
+    const shared = onPlot(plot.code);
+    shared.forEach((a, index) => {
+      for (const b of shared.slice(index + 1)) {
+        const note = noteFor(data, a, b);
+        if (note) notes.push(note);
+      }
+    });
+  }
+
+  for (const [first, second] of neighboringPlots(map, plots)) {
+    for (const a of onPlot(first.code)) {
+      for (const b of onPlot(second.code)) {
+        const note = noteFor(data, a, b);
+        if (note) notes.push(note);
+      }
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Good neighbors and conflicts of a planting being added or edited, with
+ * the growing crops on its plot and on neighboring plots (leaving out
+ * `crop` itself)
+ */
+export function plantingNotes(
+  crop: Omit<Crop, "id"> & { id?: string },
+  crops: Crop[],
+  plots: Plot[],
+  map: GardenMap,
+  data: CompanionPlanting
+): CompanionNote[] {
+  if (!crop.name.trim() || !crop.plotNumber) return [];
+
+  const plot = plots.find((candidate) => candidate.code === crop.plotNumber);
+  const nearby = new Set([crop.plotNumber]);
+  if (plot) {
+    for (const [a, b] of neighboringPlots(map, plots)) {
+      if (a.id === plot.id) nearby.add(b.code);
+      if (b.id === plot.id) nearby.add(a.code);
+    }
+  }
+
+  // Stands in for the planting, so notes can name it like any other crop
+  const planting: Crop = { ...crop, id: crop.id ?? "" };
+  return crops
+    .filter((other) => isGrowing(other) && other.id !== crop.id && nearby.has(other.plotNumber))
+    .map((other) => noteFor(data, planting, other))
+    .filter((note): note is CompanionNote => note !== null);
+}
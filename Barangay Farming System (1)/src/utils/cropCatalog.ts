@@ -0,0 +1,48 @@
+/**
+ * ============================================
+ * CROP CATALOG HELPERS
+ * ============================================
+ *
+ * Figures the crop form works out from a catalog entry. Crops keep only
+ * the name and variety they were planted from, so an existing crop's
+ * entry is found again by those.
+ */
+
+import type { CropVariety } from "../supabase/functions/_shared/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * "Eggplant (Long Purple)"
+ */
+export function varietyLabel(variety: Pick<CropVariety, "name" | "variety">): string {
+  return `${variety.name} (${variety.variety})`;
+}
+
+/**
+ * The catalog entry a crop was planted from, if it's still in the catalog
+ */
+export function findCatalogEntry(varieties: CropVariety[], name: string, variety: string): CropVariety | null {
+  return varieties.find((entry) => sameText(entry.name, name) && sameText(entry.variety, variety)) ?? null;
+}
+
+/**
+ * Date a crop planted on `datePlanted` (YYYY-MM-DD) should be ready
+ * Counted in UTC so the result doesn't shift with the device's time zone.
+ */
+export function estimateHarvestDate(datePlanted: string, daysToMaturity: number): string {
+  const planted = new Date(`${datePlanted}T00:00:00Z`);
+  if (isNaN(planted.getTime())) return "";
+  return new Date(planted.getTime() + daysToMaturity * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Plants that fit on an area at the entry's spacing, on a square grid
+ */
+export function plantsForArea(areaSqm: number, spacingCm: number): number {
+  if (areaSqm <= 0 || spacingCm <= 0) return 0;
+  const spacingM = spacingCm / 100;
+  return Math.floor(areaSqm / (spacingM * spacingM));
+}
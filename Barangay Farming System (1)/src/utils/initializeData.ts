@@ -1,4 +1,5 @@
 import { 
+  plotsApi, 
   cropsApi, 
   harvestsApi, 
   budgetApi, 
@@ -10,6 +11,7 @@ import {
   updatesApi, 
   eventsApi 
 } from './api';
+import type { BudgetItem, Crop, Feedback, Harvest, Photo, Plot, ScheduleEvent, Task, Update, Volunteer } from '../supabase/functions/_shared/types';
 
 export async function initializeDatabaseWithSampleData() {
   try {
@@ -22,8 +24,23 @@ export async function initializeDatabaseWithSampleData() {
 
     console.log('Initializing database with sample data...');
 
+    // Initialize Plots (crops can only be planted on registered plots)
+    const samplePlots: Array<Omit<Plot, 'id'>> = [
+      { code: "A1", areaSqm: 20, soilType: "Clay loam", irrigation: "on-plot", shade: "full-sun", status: "active", notes: "" },
+      { code: "A2", areaSqm: 20, soilType: "Clay loam", irrigation: "on-plot", shade: "full-sun", status: "active", notes: "" },
+      { code: "B1", areaSqm: 25, soilType: "Sandy loam", irrigation: "nearby", shade: "full-sun", status: "active", notes: "Trellis along the fence" },
+      { code: "B2", areaSqm: 25, soilType: "Sandy loam", irrigation: "nearby", shade: "partial-shade", status: "active", notes: "" },
+      { code: "C1", areaSqm: 15, soilType: "Loam", irrigation: "nearby", shade: "partial-shade", status: "active", notes: "" },
+      { code: "C2", areaSqm: 15, soilType: "Loam", irrigation: "none", shade: "full-sun", status: "active", notes: "Water is carried from the A row" },
+      { code: "D1", areaSqm: 30, soilType: "Clay", irrigation: "none", shade: "full-sun", status: "fallow", notes: "Resting after corn" }
+    ];
+
+    for (const plot of samplePlots) {
+      await plotsApi.create(plot);
+    }
+
     // Initialize Crops
-    const sampleCrops = [
+    const sampleCrops: Array<Omit<Crop, 'id'>> = [
       {
         name: "Tomatoes",
         variety: "Cherry",
@@ -91,7 +108,7 @@ export async function initializeDatabaseWithSampleData() {
     }
 
     // Initialize Harvests
-    const sampleHarvests = [
+    const sampleHarvests: Array<Omit<Harvest, 'id'>> = [
       {
         cropName: "Pechay (Native)",
         harvestDate: "2025-10-05",
@@ -127,7 +144,7 @@ export async function initializeDatabaseWithSampleData() {
     }
 
     // Initialize Budget Items
-    const sampleBudget = [
+    const sampleBudget: Array<Omit<BudgetItem, 'id'>> = [
       {
         category: "Seeds",
         description: "Tomato and eggplant seeds",
@@ -177,7 +194,7 @@ export async function initializeDatabaseWithSampleData() {
     }
 
     // Initialize Volunteers
-    const sampleVolunteers = [
+    const sampleVolunteers: Array<Omit<Volunteer, 'id'>> = [
       {
         name: "Maria Santos",
         hoursContributed: 48,
@@ -220,7 +237,7 @@ export async function initializeDatabaseWithSampleData() {
     }
 
     // Initialize Tasks
-    const sampleTasks = [
+    const sampleTasks: Array<Omit<Task, 'id'>> = [
       {
         title: "Water Plot A1 and A2",
         assignedTo: "Juan Dela Cruz",
@@ -276,7 +293,7 @@ export async function initializeDatabaseWithSampleData() {
     });
 
     // Initialize Feedbacks
-    const sampleFeedbacks = [
+    const sampleFeedbacks: Array<Omit<Feedback, 'id'>> = [
       {
         name: "Liza Morales",
         message: "Thank you for the fresh vegetables! My family really enjoyed the pechay. Looking forward to more harvests!",
@@ -302,7 +319,7 @@ export async function initializeDatabaseWithSampleData() {
     }
 
     // Initialize Photos
-    const samplePhotos = [
+    const samplePhotos: Array<Omit<Photo, 'id'>> = [
       {
         url: "https://images.unsplash.com/photo-1689666190477-259395cd4f21?w=800&q=80",
         title: "Harvest Day Celebration",
@@ -352,26 +369,30 @@ export async function initializeDatabaseWithSampleData() {
     }
 
     // Initialize Updates
-    const sampleUpdates = [
+    const sampleUpdates: Array<Omit<Update, 'id'>> = [
       {
         title: "Harvest Day Success!",
         message: "Successfully harvested 45kg of pechay and distributed to 30 families in the community.",
-        type: "success"
+        type: "success",
+        date: new Date().toISOString()
       },
       {
         title: "Community Planting Day",
         message: "Join us this Saturday at 7AM for our community planting day. We'll be planting lettuce and carrots!",
-        type: "event"
+        type: "event",
+        date: new Date().toISOString()
       },
       {
         title: "Water System Maintenance",
         message: "The irrigation system will undergo maintenance on October 12. Please water your plots manually if needed.",
-        type: "warning"
+        type: "warning",
+        date: new Date().toISOString()
       },
       {
         title: "New Budget Allocation",
         message: "Additional ₱10,000 has been allocated for the next quarter from barangay funds.",
-        type: "info"
+        type: "info",
+        date: new Date().toISOString()
       }
     ];
 
@@ -380,7 +401,7 @@ export async function initializeDatabaseWithSampleData() {
     }
 
     // Initialize Events
-    const sampleEvents = [
+    const sampleEvents: Array<Omit<ScheduleEvent, 'id'>> = [
       {
         date: "2025-10-12",
         title: "Community Planting Day",
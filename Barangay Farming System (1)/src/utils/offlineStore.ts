@@ -0,0 +1,111 @@
+/**
+ * ============================================
+ * OFFLINE STORE
+ * ============================================
+ *
+ * A small IndexedDB wrapper for what the app needs without a connection:
+ *
+ * - "queries": the cached collections (see queryCache.ts)
+ * - "outbox":  changes made offline, waiting to sync (see syncQueue.ts)
+ * - "meta":    the signed-in user's profile and the last sync time
+ *
+ * Every call resolves even when IndexedDB is unavailable (e.g. some private
+ * browsing modes); the app then simply works online only.
+ */
+
+export type OfflineStoreName = "queries" | "outbox" | "meta";
+
+const DB_NAME = "plant-n-plan";
+const DB_VERSION = 1;
+const STORE_NAMES: OfflineStoreName[] = ["queries", "outbox", "meta"];
+
+let opening: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!opening) {
+    opening = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORE_NAMES) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Error opening offline store:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return opening;
+}
+
+function settle<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request against a store; resolves to `fallback` if it fails
+ */
+async function run<T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest,
+  fallback: T
+): Promise<T> {
+  try {
+    const db = await openDatabase();
+    if (!db) return fallback;
+    return await settle<T>(action(db.transaction(storeName, mode).objectStore(storeName)));
+  } catch (error) {
+    console.error(`Error using offline store "${storeName}":`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Every key and value in a store, in key order
+ */
+export async function readAll<T>(storeName: OfflineStoreName): Promise<Array<{ key: string; value: T }>> {
+  try {
+    const db = await openDatabase();
+    if (!db) return [];
+
+    // One transaction, so the keys and values match up
+    const store = db.transaction(storeName, "readonly").objectStore(storeName);
+    const [keys, values] = await Promise.all([
+      settle<IDBValidKey[]>(store.getAllKeys()),
+      settle<T[]>(store.getAll()),
+    ]);
+    return keys.map((key, index) => ({ key: String(key), value: values[index] }));
+  } catch (error) {
+    console.error(`Error reading offline store "${storeName}":`, error);
+    return [];
+  }
+}
+
+export function readValue<T>(storeName: OfflineStoreName, key: string): Promise<T | undefined> {
+  return run<T | undefined>(storeName, "readonly", (store) => store.get(key), undefined);
+}
+
+export async function writeValue(storeName: OfflineStoreName, key: string, value: unknown): Promise<void> {
+  await run(storeName, "readwrite", (store) => store.put(value, key), undefined);
+}
+
+export async function deleteValue(storeName: OfflineStoreName, key: string): Promise<void> {
+  await run(storeName, "readwrite", (store) => store.delete(key), undefined);
+}
+
+export async function clearStore(storeName: OfflineStoreName): Promise<void> {
+  await run(storeName, "readwrite", (store) => store.clear(), undefined);
+}
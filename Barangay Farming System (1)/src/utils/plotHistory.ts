@@ -0,0 +1,67 @@
+/**
+ * ============================================
+ * PLOT HISTORY
+ * ============================================
+ *
+ * What grew on a plot, worked out from the crops and harvests already
+ * loaded. Crops name their plot by code (Crop.plotNumber); harvests only
+ * name the crop (optionally with its variety), so a harvest belongs to the
+ * planting of that crop on the plot it follows: on or after the planting
+ * date and before the same crop was planted there again. A crop grown on
+ * two plots at once shows its harvests on both.
+ */
+
+import type { Crop, Harvest, Plot } from "../supabase/functions/_shared/types";
+
+export interface Planting {
+  crop: Crop;
+  harvests: Harvest[];   // Oldest first
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Harvests name a crop as "Pechay" or "Pechay (Native)"
+const harvestOf = (harvest: Harvest, crop: Crop) =>
+  sameText(harvest.cropName, crop.name) || sameText(harvest.cropName, `${crop.name} (${crop.variety})`);
+
+/**
+ * Crops planted on a plot, newest planting first
+ */
+export function cropsOnPlot(crops: Crop[], code: string): Crop[] {
+  return crops
+    .filter((crop) => sameText(crop.plotNumber, code))
+    .sort((a, b) => b.datePlanted.localeCompare(a.datePlanted));
+}
+
+/**
+ * The crop growing on a plot now (the latest planting not yet harvested)
+ */
+export function currentCrop(crops: Crop[], code: string): Crop | null {
+  return cropsOnPlot(crops, code).find((crop) => crop.status !== "harvested") ?? null;
+}
+
+/**
+ * Every planting on a plot with the harvests it produced, newest first
+ */
+export function plotHistory(plot: Plot, crops: Crop[], harvests: Harvest[]): Planting[] {
+  const plantings = cropsOnPlot(crops, plot.code);
+
+  return plantings.map((crop, index) => {
+    // The next planting of the same crop on this plot ends this one's harvests
+    const next = plantings
+      .slice(0, index)
+      .reverse()
+      .find((later) => sameText(later.name, crop.name) && later.datePlanted > crop.datePlanted);
+
+    return {
+      crop,
+      harvests: harvests
+        .filter((harvest) =>
+          harvestOf(harvest, crop) &&
+          harvest.harvestDate >= crop.datePlanted &&
+          (!next || harvest.harvestDate < next.datePlanted)
+        )
+        .sort((a, b) => a.harvestDate.localeCompare(b.harvestDate)),
+    };
+  });
+}
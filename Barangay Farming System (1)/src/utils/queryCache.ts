@@ -0,0 +1,233 @@
+/**
+ * ============================================
+ * QUERY CACHE
+ * ============================================
+ *
+ * Keeps the results of read API calls by key, shared by every component
+ * that asks for the same key. Components read through useQuery:
+ *
+ * - Cached data is returned at once; data older than the stale time (or
+ *   invalidated) is refetched in the background, so the page never blanks
+ * - Two components asking for one key share a single request
+ * - Mutations patch the cached data directly (see useCollections.ts) and
+ *   invalidate only the keys they affect
+ *
+ * Keys are only fetched while a component that enables them is mounted;
+ * invalidating a key nobody shows marks it stale for the next visit.
+ *
+ * Loaded data is also saved to IndexedDB (offlineStore.ts) and read back
+ * when the app starts, so pages open with the last data seen even without
+ * a connection.
+ */
+
+import { useEffect, useSyncExternalStore } from "react";
+import { toast } from "sonner@2.0.3";
+import { NetworkError } from "./api";
+import { clearStore, readAll, writeValue } from "./offlineStore";
+import { markSynced } from "./syncQueue";
+
+interface CacheEntry {
+  data?: unknown;
+  error?: unknown;
+  fetchedAt: number;
+  stale: boolean;
+  request?: Promise<void>;  // Fetch in progress
+}
+
+// What is saved to IndexedDB for each key
+interface SavedEntry {
+  data: unknown;
+  fetchedAt: number;
+}
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean;   // Enabled with nothing cached yet
+  hasLoaded: boolean;   // Data has been fetched at least once
+  isFetching: boolean;  // A request is in progress (including background refreshes)
+}
+
+// The realtime stream keeps cached data current, so this only bounds how
+// long a missed change can go unnoticed
+const STALE_TIME_MS = 5 * 60 * 1000;
+
+const EMPTY_ENTRY: CacheEntry = { fetchedAt: 0, stale: true };
+
+// Entries are replaced, never mutated, so useSyncExternalStore sees each change
+const entries = new Map<string, CacheEntry>();
+const fetchers = new Map<string, () => Promise<unknown>>();
+const observers = new Map<string, number>();
+const listeners = new Set<() => void>();
+// Bumped by clearQueryCache, so requests started before it are dropped
+let generation = 0;
+
+function getEntry(key: string): CacheEntry {
+  return entries.get(key) ?? EMPTY_ENTRY;
+}
+
+function setEntry(key: string, patch: Partial<CacheEntry>) {
+  entries.set(key, { ...getEntry(key), ...patch });
+  listeners.forEach((listener) => listener());
+}
+
+function saveEntry(key: string) {
+  const { data, fetchedAt } = getEntry(key);
+  const saved: SavedEntry = { data, fetchedAt };
+  writeValue("queries", key, saved);
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Fetch a key now (joining a request already in progress)
+ */
+function fetchQuery(key: string, fetcher: () => Promise<unknown>): Promise<void> {
+  const inProgress = getEntry(key).request;
+  if (inProgress) {
+    return inProgress;
+  }
+
+  const startedIn = generation;
+  const request = fetcher().then(
+    (data) => {
+      if (startedIn !== generation) return;
+      setEntry(key, { data, error: undefined, fetchedAt: Date.now(), stale: false, request: undefined });
+      saveEntry(key);
+      markSynced();
+    },
+    (error) => {
+      if (startedIn !== generation) return;
+      console.error(`Error loading ${key}:`, error);
+      // Offline with saved data: keep showing it; the header shows the connection state
+      if (!(error instanceof NetworkError && getEntry(key).data !== undefined)) {
+        toast.error("Failed to load data from database");
+      }
+      setEntry(key, { error, request: undefined });
+    }
+  );
+  setEntry(key, { request });
+  return request;
+}
+
+/**
+ * Read a key from the cache, fetching it when missing or stale
+ * `enabled` false leaves the key alone (e.g. data for another tab)
+ */
+export function useQuery<T>(key: string, fetcher: () => Promise<T>, enabled = true): QueryState<T> {
+  const entry = useSyncExternalStore(subscribe, () => getEntry(key));
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    fetchers.set(key, fetcher);
+    observers.set(key, (observers.get(key) ?? 0) + 1);
+
+    const current = getEntry(key);
+    if (current.data === undefined || current.stale || Date.now() - current.fetchedAt > STALE_TIME_MS) {
+      fetchQuery(key, fetcher);
+    }
+
+    return () => {
+      observers.set(key, (observers.get(key) ?? 1) - 1);
+    };
+  }, [key, enabled]);
+
+  return {
+    data: entry.data as T | undefined,
+    error: entry.error,
+    isLoading: enabled && entry.data === undefined && entry.error === undefined,
+    hasLoaded: entry.data !== undefined,
+    isFetching: entry.request !== undefined,
+  };
+}
+
+/**
+ * Current cached data for a key (undefined if never loaded)
+ */
+export function getQueryData<T>(key: string): T | undefined {
+  return getEntry(key).data as T | undefined;
+}
+
+/**
+ * Patch the cached data of a key; does nothing if it was never loaded
+ * (the next visit fetches it fresh)
+ */
+export function setQueryData<T>(key: string, update: (current: T) => T) {
+  const entry = entries.get(key);
+  if (!entry || entry.data === undefined) return;
+  setEntry(key, { data: update(entry.data as T) });
+  saveEntry(key);
+}
+
+/**
+ * Mark keys stale (all keys if none are given); keys on screen refetch now
+ */
+export function invalidateQueries(keys?: string[]) {
+  for (const key of keys ?? [...entries.keys()]) {
+    if (!entries.has(key)) continue;
+    setEntry(key, { stale: true });
+
+    const fetcher = fetchers.get(key);
+    if (fetcher && (observers.get(key) ?? 0) > 0) {
+      fetchQuery(key, fetcher);
+    }
+  }
+}
+
+/**
+ * Load the data saved by an earlier visit (called once before the app renders)
+ * It counts as stale, so pages still refetch it when they open.
+ */
+export async function hydrateQueryCache(): Promise<void> {
+  for (const { key, value } of await readAll<SavedEntry>("queries")) {
+    if (!entries.has(key) && value.data !== undefined) {
+      entries.set(key, { data: value.data, fetchedAt: value.fetchedAt, stale: true });
+    }
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Forget all cached data (e.g. on sign-out, so the next user starts fresh)
+ */
+export function clearQueryCache() {
+  generation++;
+  entries.clear();
+  clearStore("queries");
+  listeners.forEach((listener) => listener());
+}
+
+export interface Mutation<R> {
+  request: () => Promise<R>;
+  optimistic?: () => void;           // Patch the cache before the server answers
+  onSuccess?: (result: R) => void;   // Patch the cache with the server's answer
+  rollback?: () => void;             // Undo the optimistic patch when the request fails
+  invalidate?: string[];             // Keys to refetch once the request settles
+}
+
+/**
+ * Run a write against the server with optimistic cache updates
+ * The request's error is rethrown after the rollback, so forms can still
+ * show field errors and the merge prompt.
+ */
+export async function runMutation<R>(mutation: Mutation<R>): Promise<R> {
+  mutation.optimistic?.();
+  try {
+    const result = await mutation.request();
+    mutation.onSuccess?.(result);
+    return result;
+  } catch (error) {
+    mutation.rollback?.();
+    throw error;
+  } finally {
+    if (mutation.invalidate) {
+      invalidateQueries(mutation.invalidate);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * ============================================
+ * REALTIME SYNC
+ * ============================================
+ *
+ * Listens to the server's change stream (GET /realtime, see
+ * supabase/functions/server/realtime.tsx) so the app can patch the one
+ * collection a change touches instead of reloading everything.
+ *
+ * The stream is read with fetch rather than EventSource, which can't send
+ * the Authorization header. The server closes each stream after a couple
+ * of minutes; the subscription reconnects, resuming after the last event
+ * it received.
+ */
+
+import { SERVER_URL } from './serverConfig';
+import { getAuthToken } from './api';
+import type { ChangeEvent, Versioned } from '../supabase/functions/_shared/types';
+
+export interface RealtimeHandlers {
+  onChange: (event: ChangeEvent) => void;
+  onResync: () => void;   // Events were missed; reload everything
+}
+
+interface StreamMessage {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+// Wait before reconnecting after the server closes a stream normally
+const RECONNECT_DELAY_MS = 1000;
+// Backoff after a failed connection
+const MIN_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Parse a server-sent event stream, calling onMessage for each event
+ * Resolves when the server closes the stream.
+ */
+async function readMessages(body: ReadableStream<Uint8Array>, onMessage: (message: StreamMessage) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      const message: StreamMessage = { event: 'message', data: '' };
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        const colon = line.indexOf(':');
+        if (colon === 0) continue;  // Comment
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') message.event = fieldValue;
+        else if (field === 'data') data.push(fieldValue);
+        else if (field === 'id') message.id = fieldValue;
+      }
+      message.data = data.join('\n');
+      onMessage(message);
+    }
+  }
+}
+
+/**
+ * Stream record changes until the returned function is called
+ */
+export function subscribeToChanges(handlers: RealtimeHandlers): () => void {
+  const controller = new AbortController();
+  const { signal } = controller;
+  let lastSeq: string | null = null;
+  let retryDelay = MIN_RETRY_DELAY_MS;
+
+  const handleMessage = (message: StreamMessage) => {
+    if (message.event === 'change') {
+      const event: ChangeEvent = JSON.parse(message.data);
+      lastSeq = event.seq;
+      handlers.onChange(event);
+    } else if (message.event === 'resync') {
+      handlers.onResync();
+    }
+  };
+
+  const run = async () => {
+    while (!signal.aborted) {
+      try {
+        const query = lastSeq ? `?since=${encodeURIComponent(lastSeq)}` : '';
+        const response = await fetch(`${SERVER_URL}/realtime${query}`, {
+          headers: { 'Authorization': `Bearer ${await getAuthToken()}` },
+          signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Change stream refused (${response.status})`);
+        }
+
+        retryDelay = MIN_RETRY_DELAY_MS;
+        await readMessages(response.body, handleMessage);
+        await wait(RECONNECT_DELAY_MS, signal);
+      } catch (error) {
+        if (signal.aborted) return;
+        console.error('Realtime stream error:', error);
+        await wait(retryDelay, signal);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+      }
+    }
+  };
+
+  run();
+  return () => controller.abort();
+}
+
+/**
+ * Apply one record change to a collection
+ * A null or trashed record is removed; a copy older than the one held
+ * (e.g. an event arriving after this user's own save) is ignored. New
+ * records go first, matching the newest-first lists.
+ */
+export function patchCollection<T extends { id: string }>(records: T[], id: string, record: T | null): T[] {
+  const index = records.findIndex((existing) => existing.id === id);
+
+  if (!record || (record as { deletedAt?: string }).deletedAt) {
+    return index === -1 ? records : records.filter((existing) => existing.id !== id);
+  }
+
+  if (index === -1) {
+    return [record, ...records];
+  }
+
+  const heldVersion = (records[index] as Versioned).version ?? 0;
+  if (((record as Versioned).version ?? 0) < heldVersion) {
+    return records;
+  }
+
+  const patched = [...records];
+  patched[index] = record;
+  return patched;
+}
@@ -0,0 +1,228 @@
+/**
+ * ============================================
+ * CROP ROTATION
+ * ============================================
+ *
+ * Rotation rules and plans worked out from each plot's crop history and
+ * the plant family of each crop in the crop catalog. A crop's family is
+ * that of its catalog entry (by name and variety, or else by name); crops
+ * not in the catalog, and the "other" family, are left out of the rules.
+ *
+ * The year has two seasons: wet (June to November) and dry (December to
+ * May). Families are grouped by how they use the soil and follow each
+ * other in ROTATION_ORDER: heavy-feeding fruit crops, then legumes to put
+ * nitrogen back, then leafy crops, then light-feeding roots and bulbs.
+ */
+
+import { cropsOnPlot } from "./plotHistory";
+import type { Crop, CropVariety, PlantFamily, Plot } from "../supabase/functions/_shared/types";
+
+export type SeasonName = "wet" | "dry";
+export type RotationGroup = "fruiting" | "legumes" | "leafy" | "roots";
+
+export interface Season {
+  name: SeasonName;
+  year: number;    // Year the season starts in (a dry season runs into the next year)
+  index: number;   // Counts seasons, so two seasons can be subtracted
+  start: string;   // YYYY-MM-DD
+}
+
+export interface RotationWarning {
+  rule: "same-family" | "heavy-feeders";
+  message: string;
+}
+
+export interface PlannedPlanting {
+  season: Season;
+  date: string;                   // Suggested planting date, YYYY-MM-DD
+  group: RotationGroup;
+  variety: CropVariety | null;    // A catalog entry for the group and season, if there is one
+}
+
+export const FAMILY_LABELS: Record<PlantFamily, string> = {
+  "solanaceae": "Solanaceae (nightshades)",
+  "cucurbits": "Cucurbits (gourds)",
+  "brassicas": "Brassicas (cabbage family)",
+  "legumes": "Legumes (beans)",
+  "alliums": "Alliums (onions)",
+  "malvaceae": "Malvaceae (okra)",
+  "asteraceae": "Asteraceae (lettuce)",
+  "convolvulaceae": "Convolvulaceae (kangkong, kamote)",
+  "other": "Other",
+};
+
+export const GROUP_LABELS: Record<RotationGroup, string> = {
+  "fruiting": "Fruit crops",
+  "legumes": "Legumes",
+  "leafy": "Leafy crops",
+  "roots": "Roots and bulbs",
+};
+
+const FAMILY_GROUPS: Record<PlantFamily, RotationGroup | null> = {
+  "solanaceae": "fruiting",
+  "cucurbits": "fruiting",
+  "malvaceae": "fruiting",
+  "legumes": "legumes",
+  "brassicas": "leafy",
+  "asteraceae": "leafy",
+  "convolvulaceae": "leafy",
+  "alliums": "roots",
+  "other": null,
+};
+
+export const ROTATION_ORDER: RotationGroup[] = ["fruiting", "legumes", "leafy", "roots"];
+
+// Seasons that must pass before a family is planted on the same plot again
+export const FAMILY_REST_SEASONS = 2;
+
+// Families that drain the soil; one shouldn't follow another directly
+const HEAVY_FEEDERS: PlantFamily[] = ["solanaceae", "cucurbits", "brassicas"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split("T")[0];
+
+function seasonAt(index: number): Season {
+  const year = Math.floor(index / 2);
+  const name: SeasonName = index % 2 === 0 ? "wet" : "dry";
+  return { name, year, index, start: name === "wet" ? `${year}-06-01` : `${year}-12-01` };
+}
+
+/**
+ * The season a date (YYYY-MM-DD) falls in
+ */
+export function seasonOf(date: string): Season {
+  const [year, month] = date.split("-").map(Number);
+  if (month >= 6 && month <= 11) return seasonAt(year * 2);
+  return seasonAt(month === 12 ? year * 2 + 1 : (year - 1) * 2 + 1);
+}
+
+/**
+ * "Wet season 2026" or "Dry season 2026–27"
+ */
+export function seasonLabel(season: Season): string {
+  return season.name === "wet"
+    ? `Wet season ${season.year}`
+    : `Dry season ${season.year}–${String(season.year + 1).slice(-2)}`;
+}
+
+/**
+ * A crop's plant family, from its catalog entry (null if it isn't in the catalog)
+ */
+export function familyOf(varieties: CropVariety[], crop: Pick<Crop, "name" | "variety">): PlantFamily | null {
+  const entry =
+    varieties.find((variety) => sameText(variety.name, crop.name) && sameText(variety.variety, crop.variety)) ??
+    varieties.find((variety) => sameText(variety.name, crop.name));
+  return entry?.family ?? null;
+}
+
+export function groupOf(family: PlantFamily | null): RotationGroup | null {
+  return family ? FAMILY_GROUPS[family] : null;
+}
+
+/**
+ * Rotation rules a new planting would break
+ * `crop` is the planting being added or edited; `crops` are all crops, from
+ * which its plot's earlier plantings are taken (leaving out `crop` itself).
+ */
+export function rotationWarnings(
+  crop: Pick<Crop, "name" | "variety" | "plotNumber" | "datePlanted"> & { id?: string },
+  crops: Crop[],
+  varieties: CropVariety[]
+): RotationWarning[] {
+  const family = familyOf(varieties, crop);
+  if (!family || family === "other" || !crop.plotNumber || !crop.datePlanted) return [];
+
+  const season = seasonOf(crop.datePlanted);
+  const earlier = cropsOnPlot(crops, crop.plotNumber)
+    .filter((other) => other.id !== crop.id && other.datePlanted <= crop.datePlanted);
+  const warnings: RotationWarning[] = [];
+
+  const sameFamily = earlier.find((other) =>
+    familyOf(varieties, other) === family && season.index - seasonOf(other.datePlanted).index <= FAMILY_REST_SEASONS
+  );
+  if (sameFamily) {
+    warnings.push({
+      rule: "same-family",
+      message:
+        `${sameFamily.name} (${FAMILY_LABELS[family]}) was planted on plot ${crop.plotNumber} in the ` +
+        `${seasonLabel(seasonOf(sameFamily.datePlanted)).toLowerCase()}. Let ${FAMILY_REST_SEASONS} seasons pass ` +
+        "before planting this family there again, so its pests die out and the soil recovers.",
+    });
+  }
+
+  const previous = earlier[0];
+  const previousFamily = previous ? familyOf(varieties, previous) : null;
+  if (previous && previousFamily && previousFamily !== family &&
+      HEAVY_FEEDERS.includes(family) && HEAVY_FEEDERS.includes(previousFamily)) {
+    warnings.push({
+      rule: "heavy-feeders",
+      message:
+        `${previous.name} was the last crop on plot ${crop.plotNumber} and, like ${crop.name}, feeds heavily. ` +
+        "Plant legumes in between to put nitrogen back into the soil.",
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Suggested plantings on a plot for the coming seasons
+ * Starts when the plot is free (today, or after the current crop's
+ * estimated harvest) and follows ROTATION_ORDER from the last planting,
+ * skipping groups whose catalog entries all rested too recently there or
+ * don't suit the season.
+ */
+export function planRotation(
+  plot: Plot,
+  crops: Crop[],
+  varieties: CropVariety[],
+  seasons = 4,
+  today = new Date().toISOString().split("T")[0]
+): PlannedPlanting[] {
+  const history = cropsOnPlot(crops, plot.code);
+  const growing = history.find((crop) => crop.status !== "harvested");
+  const freeFrom = growing && growing.estimatedHarvest >= today ? addDays(growing.estimatedHarvest, 1) : today;
+
+  // Seasons each family was last planted in, planned ones included
+  const lastSeason = new Map<PlantFamily, number>();
+  for (const crop of [...history].reverse()) {
+    const family = familyOf(varieties, crop);
+    if (family) lastSeason.set(family, seasonOf(crop.datePlanted).index);
+  }
+  let lastGroup = history.map((crop) => groupOf(familyOf(varieties, crop))).find((group) => group !== null) ?? null;
+
+  const plan: PlannedPlanting[] = [];
+  const first = seasonOf(freeFrom);
+  for (let offset = 0; offset < seasons; offset++) {
+    const season = seasonAt(first.index + offset);
+    const start = lastGroup ? ROTATION_ORDER.indexOf(lastGroup) + 1 : 0;
+    const order = ROTATION_ORDER.map((_, i) => ROTATION_ORDER[(start + i) % ROTATION_ORDER.length]);
+
+    const rested = (variety: CropVariety) => {
+      const last = lastSeason.get(variety.family);
+      return last === undefined || season.index - last > FAMILY_REST_SEASONS;
+    };
+    const suits = (variety: CropVariety) => variety.season === season.name || variety.season === "all-year";
+
+    let choice: { group: RotationGroup; variety: CropVariety | null } = { group: order[0], variety: null };
+    for (const group of order) {
+      const candidates = varieties
+        .filter((variety) => FAMILY_GROUPS[variety.family] === group && rested(variety) && suits(variety))
+        .sort((a, b) => Number(b.season === season.name) - Number(a.season === season.name) || a.name.localeCompare(b.name));
+      if (candidates.length > 0) {
+        choice = { group, variety: candidates[0] };
+        break;
+      }
+    }
+
+    plan.push({ season, date: offset === 0 ? freeFrom : season.start, ...choice });
+    if (choice.variety) lastSeason.set(choice.variety.family, season.index);
+    lastGroup = choice.group;
+  }
+
+  return plan;
+}
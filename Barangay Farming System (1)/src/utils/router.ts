@@ -0,0 +1,133 @@
+/**
+ * ============================================
+ * ROUTER
+ * ============================================
+ *
+ * A small client-side router over the browser history. The URL path picks
+ * the page and record (see routes.ts) and the query string holds a page's
+ * filters, so a refresh keeps the view and any view can be sent as a link.
+ * Back and forward move between views as usual.
+ *
+ * The web server must answer every app path with index.html.
+ */
+
+import { useSyncExternalStore, type MouseEvent } from "react";
+
+export interface AppLocation {
+  pathname: string;
+  search: string;   // "?category=Seeds", or "" when there is no query
+}
+
+// pushState/replaceState don't fire popstate, so navigate() raises this instead
+const NAVIGATE_EVENT = "plant-n-plan:navigate";
+
+let current: AppLocation = { pathname: window.location.pathname, search: window.location.search };
+
+function subscribe(listener: () => void) {
+  window.addEventListener("popstate", listener);
+  window.addEventListener(NAVIGATE_EVENT, listener);
+  return () => {
+    window.removeEventListener("popstate", listener);
+    window.removeEventListener(NAVIGATE_EVENT, listener);
+  };
+}
+
+// Same object until the URL changes, as useSyncExternalStore requires
+function getLocation(): AppLocation {
+  const { pathname, search } = window.location;
+  if (current.pathname !== pathname || current.search !== search) {
+    current = { pathname, search };
+  }
+  return current;
+}
+
+/**
+ * The current path and query string; re-renders when either changes
+ */
+export function useLocation(): AppLocation {
+  return useSyncExternalStore(subscribe, getLocation);
+}
+
+/**
+ * Go to a path in the app
+ * `replace` swaps the current history entry instead of adding one (e.g.
+ * for filter changes, so Back leaves the page rather than undoing them).
+ */
+export function navigate(to: string, options: { replace?: boolean } = {}) {
+  const url = new URL(to, window.location.href);
+  if (url.pathname === window.location.pathname && url.search === window.location.search) return;
+
+  if (options.replace) {
+    window.history.replaceState(null, "", url);
+  } else {
+    window.history.pushState(null, "", url);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/**
+ * Whether a click on a link should navigate in the app
+ * Ctrl/Cmd/Shift/middle clicks are left to the browser (new tab or window).
+ */
+export function isPlainClick(event: MouseEvent): boolean {
+  return event.button === 0 && !event.metaKey && !event.ctrlKey && !event.shiftKey && !event.altKey;
+}
+
+/**
+ * onClick for an <a href> inside the app
+ */
+export function linkTo(to: string) {
+  return (event: MouseEvent) => {
+    if (!isPlainClick(event)) return;
+    event.preventDefault();
+    navigate(to);
+  };
+}
+
+/**
+ * Match a path against a pattern such as "/crops/:id"
+ * Returns the named segments, or null if the path doesn't match.
+ */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const patternParts = pattern.split("/").filter(Boolean);
+  const pathParts = pathname.split("/").filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(":")) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Set query string values on the current URL (null removes one)
+ */
+export function updateSearchParams(values: Record<string, string | null>) {
+  const params = new URLSearchParams(window.location.search);
+  for (const [name, value] of Object.entries(values)) {
+    if (value === null || value === "") {
+      params.delete(name);
+    } else {
+      params.set(name, value);
+    }
+  }
+  const query = params.toString();
+  navigate(`${window.location.pathname}${query ? `?${query}` : ""}`, { replace: true });
+}
+
+/**
+ * A query string value used as state, e.g. the category filter in
+ * /budget?category=Seeds
+ * The default value is left out of the URL.
+ */
+export function useSearchParam(name: string, defaultValue = ""): [string, (value: string) => void] {
+  const { search } = useLocation();
+  const value = new URLSearchParams(search).get(name) ?? defaultValue;
+  const setValue = (next: string) => updateSearchParams({ [name]: next === defaultValue ? null : next });
+  return [value, setValue];
+}
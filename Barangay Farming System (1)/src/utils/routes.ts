@@ -0,0 +1,97 @@
+/**
+ * ============================================
+ * APP ROUTES
+ * ============================================
+ *
+ * Which URL shows what (see router.ts for how URLs are followed).
+ *
+ * - Each page is /{page}, e.g. /crops or /audit-log; the dashboard is /
+ * - Records have their own links, e.g. /crops/:id or /engagement/polls/:id,
+ *   which open the record over its page
+ * - A page's filters and sort are kept in the query string, e.g.
+ *   /budget?category=Seeds&sort=amount
+ */
+
+import type { Permission } from "../supabase/functions/_shared/permissions";
+import { matchPath, navigate, useLocation } from "./router";
+
+// Pages every signed-in user can open
+const MEMBER_PAGES = [
+  "dashboard",
+  "crops",
+  "plots",
+  "garden-map",
+  "catalog",
+  "rotation",
+  "companions",
+  "harvest",
+  "budget",
+  "volunteers",
+  "gallery",
+  "engagement",
+  "updates",
+  "schedule",
+  "profile",
+];
+
+// Administration pages and the permission each needs (the sidebar hides
+// the rest, and App refuses them when opened by URL)
+export const ADMIN_PAGE_PERMISSIONS: Record<string, Permission> = {
+  "register": "users.manage",
+  "user-management": "users.manage",
+  "role-permissions": "roles.manage",
+  "location-settings": "settings.manage",
+  "audit-log": "audit.view",
+  "trash": "trash.manage",
+  "migrations": "settings.manage",
+  "backup": "backup.manage",
+};
+
+// Record links and the page each record is shown on
+const RECORD_ROUTES = {
+  crop: { page: "crops", path: "/crops/:id" },
+  plot: { page: "plots", path: "/plots/:id" },
+  variety: { page: "catalog", path: "/catalog/:id" },
+  harvest: { page: "harvest", path: "/harvest/:id" },
+  budget: { page: "budget", path: "/budget/:id" },
+  volunteer: { page: "volunteers", path: "/volunteers/:id" },
+  task: { page: "volunteers", path: "/volunteers/tasks/:id" },
+  photo: { page: "gallery", path: "/gallery/:id" },
+  poll: { page: "engagement", path: "/engagement/polls/:id" },
+  feedback: { page: "engagement", path: "/engagement/feedback/:id" },
+  update: { page: "updates", path: "/updates/:id" },
+};
+
+export type RecordRoute = keyof typeof RECORD_ROUTES;
+
+/**
+ * The page a path belongs to (its first segment), or null for an unknown page
+ */
+export function pageOf(pathname: string): string | null {
+  const [page = "dashboard"] = pathname.split("/").filter(Boolean);
+  return MEMBER_PAGES.includes(page) || page in ADMIN_PAGE_PERMISSIONS ? page : null;
+}
+
+export function pagePath(page: string): string {
+  return page === "dashboard" ? "/" : `/${page}`;
+}
+
+export function recordPath(type: RecordRoute, id: string): string {
+  return RECORD_ROUTES[type].path.replace(":id", encodeURIComponent(id));
+}
+
+/**
+ * The record link of one record type on the current page
+ * Links keep the page's query string, so closing a record returns to the
+ * same filtered list.
+ */
+export function useRecordRoute(type: RecordRoute) {
+  const { pathname, search } = useLocation();
+  const { page, path } = RECORD_ROUTES[type];
+
+  return {
+    id: matchPath(path, pathname)?.id ?? null,   // The record open in the URL
+    href: (id: string) => `${recordPath(type, id)}${search}`,
+    close: () => navigate(`${pagePath(page)}${search}`),
+  };
+}
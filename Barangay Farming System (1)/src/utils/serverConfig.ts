@@ -0,0 +1,22 @@
+/**
+ * ============================================
+ * SERVER CONFIGURATION
+ * ============================================
+ *
+ * Where the frontend finds the backend and who runs sign-in.
+ * Defaults to the Supabase project in utils/supabase/info.tsx; a
+ * self-hosted deployment sets these in `.env`:
+ *
+ *   VITE_SERVER_URL=http://192.168.1.10:8000/make-server-a8901673
+ *   VITE_AUTH_PROVIDER=local
+ */
+
+import { projectId } from './supabase/info';
+
+// Base URL of every server route
+export const SERVER_URL: string =
+  import.meta.env.VITE_SERVER_URL || `https://${projectId}.supabase.co/functions/v1/make-server-a8901673`;
+
+// "local" when the server runs accounts itself (AUTH_PROVIDER=local on the server)
+export const AUTH_PROVIDER: 'supabase' | 'local' =
+  import.meta.env.VITE_AUTH_PROVIDER === 'local' ? 'local' : 'supabase';
@@ -0,0 +1,220 @@
+/**
+ * ============================================
+ * SPREADSHEET IMPORT
+ * ============================================
+ *
+ * Reads CSV and Excel files for the import wizard and turns their rows
+ * into field values for the server's import routes
+ * (see supabase/functions/server/import.tsx).
+ *
+ * Cells arrive as text; each is converted by its field's schema rule
+ * (numbers, dates, fixed choices). Anything that can't be converted is
+ * passed through unchanged so the server reports it against the row.
+ */
+
+import { read, utils } from 'xlsx';
+import {
+  budgetItemSchema,
+  cropSchema,
+  harvestSchema,
+  volunteerSchema,
+  type FieldRule,
+} from '../supabase/functions/_shared/schemas';
+import type { ImportEntityType } from '../supabase/functions/_shared/types';
+
+export interface SpreadsheetData {
+  columns: string[];    // Header row
+  rows: string[][];     // Every row below it, as cell text
+}
+
+export interface ImportField {
+  field: string;
+  label: string;
+  aliases: string[];           // Column headers that mean this field (the app's CSV exports included)
+  defaultValue?: () => unknown;  // Used when the column isn't mapped or the cell is empty
+}
+
+// Field name -> index of the file column it is read from (null: not imported)
+export type ColumnMapping = Record<string, number | null>;
+
+const today = () => toDateString(new Date());
+
+// The fields an import can fill, in the order the wizard lists them
+export const IMPORT_FIELDS: Record<ImportEntityType, ImportField[]> = {
+  crop: [
+    { field: 'name', label: 'Crop Name', aliases: ['crop', 'name'] },
+    { field: 'variety', label: 'Variety', aliases: [] },
+    { field: 'plotNumber', label: 'Plot', aliases: ['plot number', 'plot no'] },
+    { field: 'datePlanted', label: 'Date Planted', aliases: ['planted', 'planting date'] },
+    { field: 'estimatedHarvest', label: 'Est. Harvest', aliases: ['estimated harvest', 'harvest date'] },
+    { field: 'quantity', label: 'Quantity', aliases: ['qty'] },
+    { field: 'status', label: 'Status', aliases: [], defaultValue: () => 'growing' },
+    { field: 'health', label: 'Health', aliases: [] },
+  ],
+  harvest: [
+    { field: 'cropName', label: 'Crop Name', aliases: ['crop', 'name'] },
+    { field: 'harvestDate', label: 'Harvest Date', aliases: ['date'] },
+    { field: 'quantity', label: 'Quantity', aliases: ['qty'] },
+    { field: 'distributionMethod', label: 'Distribution', aliases: ['distribution method'] },
+    { field: 'notes', label: 'Notes', aliases: ['remarks'] },
+  ],
+  budget: [
+    { field: 'date', label: 'Date', aliases: [] },
+    { field: 'category', label: 'Category', aliases: [] },
+    { field: 'description', label: 'Description', aliases: ['item', 'particulars'] },
+    { field: 'amount', label: 'Amount', aliases: ['cost', 'price'] },
+  ],
+  volunteer: [
+    { field: 'name', label: 'Name', aliases: ['volunteer'] },
+    { field: 'role', label: 'Role', aliases: [] },
+    { field: 'hoursContributed', label: 'Hours Contributed', aliases: ['hours'], defaultValue: () => 0 },
+    { field: 'tasksCompleted', label: 'Tasks Completed', aliases: ['tasks'], defaultValue: () => 0 },
+    { field: 'lastActivity', label: 'Last Activity', aliases: ['last active'], defaultValue: today },
+  ],
+};
+
+const SCHEMAS: Record<ImportEntityType, Record<string, FieldRule>> = {
+  crop: cropSchema,
+  harvest: harvestSchema,
+  budget: budgetItemSchema,
+  volunteer: volunteerSchema,
+};
+
+/**
+ * Whether a field must have a value (a default counts)
+ */
+export function isRequiredField(entityType: ImportEntityType, field: ImportField): boolean {
+  return Boolean(SCHEMAS[entityType][field.field].required) && !field.defaultValue;
+}
+
+// ============================================
+// READING FILES
+// ============================================
+
+/**
+ * Local date as YYYY-MM-DD, the format date inputs save
+ */
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function cellText(value: unknown): string {
+  return value instanceof Date ? toDateString(value) : String(value ?? '').trim();
+}
+
+/**
+ * Read the first sheet of a CSV or Excel file
+ * The first non-empty row is taken as the header.
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  // CSV is read as UTF-8 text and left unparsed, so "007" plot numbers
+  // and names like "Señora" come through as typed
+  const workbook = file.name.toLowerCase().endsWith('.csv')
+    ? read(await file.text(), { type: 'string', raw: true })
+    : read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('The file has no sheets');
+  }
+
+  const cells = utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', blankrows: false });
+  const [header, ...rows] = cells.map((row) => row.map(cellText));
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  return {
+    columns: header.map((name, i) => name || `Column ${i + 1}`),
+    rows: rows.filter((row) => row.some((cell) => cell !== '')),
+  };
+}
+
+// ============================================
+// MAPPING COLUMNS TO FIELDS
+// ============================================
+
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Match file columns to fields by header (field name, label or alias)
+ */
+export function guessMapping(entityType: ImportEntityType, columns: string[]): ColumnMapping {
+  const headers = columns.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  for (const field of IMPORT_FIELDS[entityType]) {
+    const names = [field.field, field.label, ...field.aliases].map(normalizeHeader);
+    const index = headers.findIndex((header, i) => !used.has(i) && names.includes(header));
+    mapping[field.field] = index === -1 ? null : index;
+    if (index !== -1) {
+      used.add(index);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Convert cell text to the value its field's rule expects
+ */
+function toFieldValue(rule: FieldRule, text: string): unknown {
+  if (text === '') {
+    return undefined;
+  }
+
+  if (rule.type === 'number') {
+    const number = Number(text.replace(/[₱$,\s]/g, ''));
+    return Number.isNaN(number) ? text : number;
+  }
+
+  if (rule.type === 'string' && rule.date) {
+    if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+      return text.slice(0, 10);
+    }
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? text : toDateString(date);
+  }
+
+  if (rule.type === 'string' && rule.oneOf) {
+    // "Needs Water" -> "needs-water"; the exports write "N/A" for no value
+    const wanted = text.toLowerCase().replace(/\s+/g, '-');
+    if (!rule.required && wanted === 'n/a') {
+      return undefined;
+    }
+    return rule.oneOf.find((value) => value === wanted) ?? text;
+  }
+
+  return text;
+}
+
+/**
+ * Field values for each row of the file, ready for the import routes
+ */
+export function mapRows(
+  entityType: ImportEntityType,
+  data: SpreadsheetData,
+  mapping: ColumnMapping
+): Array<Record<string, unknown>> {
+  const schema = SCHEMAS[entityType];
+
+  return data.rows.map((row) => {
+    const values: Record<string, unknown> = {};
+    for (const field of IMPORT_FIELDS[entityType]) {
+      const column = mapping[field.field];
+      const value = column === null || column === undefined
+        ? undefined
+        : toFieldValue(schema[field.field], row[column] ?? '');
+      const finalValue = value ?? field.defaultValue?.();
+      if (finalValue !== undefined) {
+        values[field.field] = finalValue;
+      }
+    }
+    return values;
+  });
+}
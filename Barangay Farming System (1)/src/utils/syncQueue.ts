@@ -0,0 +1,278 @@
+/**
+ * ============================================
+ * SYNC QUEUE
+ * ============================================
+ *
+ * Record changes made while the server can't be reached (out at the garden
+ * plots, say) are queued here and kept in IndexedDB, then replayed in order
+ * against the normal API routes once the connection is back.
+ *
+ * - Changes to the same record are folded together: editing a record created
+ *   offline edits the queued create; deleting it drops the create.
+ * - A change the server refuses (e.g. someone else edited the record in the
+ *   meantime) stays in the queue marked with its problem, for the user to
+ *   review from the sync status in the header.
+ *
+ * The queue only knows changes; useCollections.ts sends them and patches
+ * the cached collections.
+ */
+
+import { useSyncExternalStore } from "react";
+import { NetworkError, getConflict } from "./api";
+import { clearStore, deleteValue, readAll, readValue, writeValue } from "./offlineStore";
+import type { Versioned } from "../supabase/functions/_shared/types";
+
+export type QueuedAction = "create" | "update" | "delete";
+
+export type QueuedRecord = { id: string } & Versioned;
+
+/**
+ * Why the server refused a queued change
+ */
+export interface SyncProblem {
+  message: string;
+  current?: QueuedRecord;  // The server's copy, when someone else saved the record first
+  failedAt: string;
+}
+
+export interface QueuedChange {
+  id: string;                        // Sorts in queue order
+  key: string;                       // Cached collection, e.g. "crop" (see QUERY_KEYS)
+  action: QueuedAction;
+  recordId: string;                  // Temporary "pending-..." id for a create
+  input?: Record<string, unknown>;   // Body of a create or update
+  base?: QueuedRecord;               // The record as it was before an update or delete
+  queuedAt: string;
+  problem?: SyncProblem;             // Set once the server refused the change
+}
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  lastSyncedAt: string | null;   // Last time data came from (or went to) the server
+  pending: QueuedChange[];       // Waiting to be sent
+  problems: QueuedChange[];      // Refused by the server, waiting for review
+}
+
+interface SyncState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  changes: QueuedChange[];
+}
+
+const LAST_SYNCED_KEY = "lastSyncedAt";
+
+let state: SyncState = {
+  isOnline: typeof navigator === "undefined" || navigator.onLine,
+  isSyncing: false,
+  lastSyncedAt: null,
+  changes: [],
+};
+const listeners = new Set<() => void>();
+let changeCount = 0;
+// The change being sent right now; new changes aren't folded into it
+let sendingId: string | null = null;
+
+function setState(patch: Partial<SyncState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => setState({ isOnline: true }));
+  window.addEventListener("offline", () => setState({ isOnline: false }));
+}
+
+function saveChange(change: QueuedChange) {
+  const index = state.changes.findIndex((existing) => existing.id === change.id);
+  const changes = [...state.changes];
+  if (index === -1) {
+    changes.push(change);
+  } else {
+    changes[index] = change;
+  }
+  setState({ changes });
+  writeValue("outbox", change.id, change);
+}
+
+function removeChange(id: string) {
+  setState({ changes: state.changes.filter((change) => change.id !== id) });
+  deleteValue("outbox", id);
+}
+
+/**
+ * Load the queue saved by an earlier visit (called once before the app renders)
+ */
+export async function loadSyncQueue(): Promise<void> {
+  const [saved, lastSyncedAt] = await Promise.all([
+    readAll<QueuedChange>("outbox"),
+    readValue<string>("meta", LAST_SYNCED_KEY),
+  ]);
+  setState({
+    changes: saved.map(({ value }) => value),
+    lastSyncedAt: lastSyncedAt ?? null,
+  });
+}
+
+/**
+ * Whether changes are waiting to be sent (new changes then queue behind them)
+ */
+export function hasPendingChanges(): boolean {
+  return state.changes.some((change) => !change.problem);
+}
+
+/**
+ * Changes not yet on the server, including refused ones
+ */
+export function countUnsyncedChanges(): number {
+  return state.changes.length;
+}
+
+/**
+ * Queue a change, folding it into a queued change to the same record
+ */
+export function queueChange(change: Omit<QueuedChange, "id" | "queuedAt">) {
+  const earlier = state.changes.find(
+    (queued) =>
+      !queued.problem &&
+      queued.id !== sendingId &&
+      queued.key === change.key &&
+      queued.recordId === change.recordId
+  );
+
+  if (earlier?.action === "create") {
+    if (change.action === "delete") {
+      removeChange(earlier.id);
+    } else {
+      // Still a create: the record has no version on the server yet
+      const { version: _version, ...input } = { ...earlier.input, ...change.input };
+      saveChange({ ...earlier, input });
+    }
+    return;
+  }
+
+  if (earlier?.action === "update") {
+    if (change.action === "update") {
+      // Keep the version the first edit started from
+      saveChange({ ...earlier, input: { ...earlier.input, ...change.input, version: earlier.input?.version } });
+      return;
+    }
+    removeChange(earlier.id);
+  }
+
+  const id = `${String(Date.now()).padStart(15, "0")}-${String(++changeCount).padStart(4, "0")}`;
+  saveChange({ ...change, id, queuedAt: new Date().toISOString() });
+}
+
+/**
+ * Record that the app just heard from the server
+ */
+export function markSynced() {
+  const lastSyncedAt = new Date().toISOString();
+  setState({ lastSyncedAt });
+  writeValue("meta", LAST_SYNCED_KEY, lastSyncedAt);
+}
+
+/**
+ * Point changes queued for a record created offline at its server id
+ */
+function renameRecord(key: string, tempId: string, id: string) {
+  for (const change of state.changes) {
+    if (change.key === key && change.recordId === tempId) {
+      saveChange({ ...change, recordId: id });
+    }
+  }
+}
+
+/**
+ * Send the queued changes in order with `send` (which resolves to the saved
+ * record, if any)
+ * Stops at the first change that can't reach the server (it is retried
+ * later); a change the server refuses is kept with its problem and the
+ * rest carry on.
+ */
+export async function flushSyncQueue(send: (change: QueuedChange) => Promise<QueuedRecord | void>) {
+  const result = { synced: 0, failed: 0 };
+  if (state.isSyncing || !navigator.onLine) return result;
+
+  setState({ isSyncing: true });
+  try {
+    for (;;) {
+      const next = state.changes.find((change) => !change.problem);
+      if (!next) break;
+
+      sendingId = next.id;
+      try {
+        const saved = await send(next);
+        removeChange(next.id);
+        if (next.action === "create" && saved) {
+          renameRecord(next.key, next.recordId, saved.id);
+        }
+        result.synced++;
+      } catch (error) {
+        if (error instanceof NetworkError) return result;
+
+        saveChange({
+          ...next,
+          problem: {
+            message: error instanceof Error ? error.message : "The server refused this change",
+            current: getConflict<QueuedRecord>(error) ?? undefined,
+            failedAt: new Date().toISOString(),
+          },
+        });
+        result.failed++;
+      }
+    }
+    markSynced();
+  } finally {
+    sendingId = null;
+    setState({ isSyncing: false });
+  }
+  return result;
+}
+
+/**
+ * Send a refused change again on the next sync
+ */
+export function retryChange(id: string) {
+  const change = state.changes.find((queued) => queued.id === id);
+  if (change) {
+    saveChange({ ...change, problem: undefined });
+  }
+}
+
+/**
+ * Drop a queued change without sending it
+ */
+export function discardChange(id: string) {
+  removeChange(id);
+}
+
+/**
+ * Forget the queue (e.g. on sign-out, so another user doesn't send it)
+ */
+export function clearSyncQueue() {
+  setState({ changes: [], lastSyncedAt: null });
+  clearStore("outbox");
+  deleteValue("meta", LAST_SYNCED_KEY);
+}
+
+/**
+ * Current sync state, for the header's sync indicator
+ */
+export function useSyncStatus(): SyncStatus {
+  const { changes, ...current } = useSyncExternalStore(subscribe, () => state);
+  return {
+    ...current,
+    pending: changes.filter((change) => !change.problem),
+    problems: changes.filter((change) => change.problem),
+  };
+}
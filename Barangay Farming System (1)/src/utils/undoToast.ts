@@ -0,0 +1,39 @@
+/**
+ * ============================================
+ * UNDO TOAST
+ * ============================================
+ *
+ * Deletes move records to the trash, so the success toast after a delete
+ * can offer an "Undo" action that restores the record straight away.
+ */
+
+import { toast } from "sonner@2.0.3";
+
+/**
+ * Show a delete success toast with an "Undo" action
+ * Without an undo handler (e.g. no restore callback passed) it is a plain success toast
+ *
+ * @param message - Success message, e.g. "Crop deleted successfully!"
+ * @param onUndo - Restores the deleted record
+ */
+export function toastDeletedWithUndo(message: string, onUndo?: () => Promise<unknown>) {
+  if (!onUndo) {
+    toast.success(message);
+    return;
+  }
+
+  toast.success(message, {
+    action: {
+      label: "Undo",
+      onClick: async () => {
+        try {
+          await onUndo();
+          toast.success("Restored");
+        } catch (error) {
+          console.error("Error restoring deleted item:", error);
+          toast.error("Failed to restore item");
+        }
+      },
+    },
+  });
+}
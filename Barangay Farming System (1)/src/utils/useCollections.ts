@@ -0,0 +1,460 @@
+/**
+ * ============================================
+ * COLLECTION HOOKS
+ * ============================================
+ *
+ * One hook per collection (useCrops, useHarvests, ...) over the query
+ * cache in queryCache.ts, with its create/update/delete/restore calls.
+ *
+ * Writes are optimistic: the cached collection changes at once and is put
+ * back if the server refuses. Each write patches only its own collection
+ * with the server's answer - editing a crop never refetches the budget.
+ *
+ * Cache keys are the server's entity types ("crop", "budget", ...) and
+ * settings keys, so changes from the realtime stream land on the right
+ * collection (see applyChange).
+ *
+ * A write that can't reach the server is queued (syncQueue.ts) and stays
+ * on screen; syncPendingChanges sends the queue once the connection is back.
+ */
+
+import { toast } from "sonner@2.0.3";
+import { getQueryData, invalidateQueries, runMutation, setQueryData, useQuery, type QueryState } from "./queryCache";
+import { patchCollection } from "./realtime";
+import {
+  discardChange,
+  flushSyncQueue,
+  hasPendingChanges,
+  queueChange,
+  type QueuedChange,
+  type QueuedRecord,
+} from "./syncQueue";
+import {
+  NetworkError,
+  budgetApi,
+  cropActivitiesApi,
+  cropsApi,
+  eventsApi,
+  feedbacksApi,
+  harvestsApi,
+  photosApi,
+  plotsApi,
+  pollsApi,
+  rolesApi,
+  settingsApi,
+  tasksApi,
+  updatesApi,
+  varietiesApi,
+  volunteersApi,
+} from "./api";
+import { DEFAULT_PERMISSION_MATRIX, type PermissionMatrix } from "../supabase/functions/_shared/permissions";
+import type {
+  BudgetItem,
+  ChangeEvent,
+  CompanionPlanting,
+  Crop,
+  CropActivity,
+  CropVariety,
+  EntityInput,
+  Feedback,
+  GardenMap,
+  Harvest,
+  Photo,
+  Plot,
+  Poll,
+  ScheduleEvent,
+  Task,
+  Update,
+  Volunteer,
+} from "../supabase/functions/_shared/types";
+
+export const QUERY_KEYS = {
+  plots: "plot",
+  varieties: "variety",
+  crops: "crop",
+  cropActivities: "crop_activity",
+  harvests: "harvest",
+  budgetItems: "budget",
+  volunteers: "volunteer",
+  tasks: "task",
+  polls: "poll",
+  feedbacks: "feedback",
+  photos: "photo",
+  updates: "update",
+  events: "event",
+  totalBudget: "settings:total_budget",
+  permissionMatrix: "settings:role_permissions",
+  gardenMap: "settings:garden_map",
+  companionPlanting: "settings:companion_planting",
+} as const;
+
+// Used until the saved total budget loads (or if it can't be loaded)
+export const DEFAULT_TOTAL_BUDGET = 30000;
+
+// An empty grid, until an admin draws the garden (same as the server's default)
+const DEFAULT_GARDEN_MAP: GardenMap = { columns: 24, rows: 16, shapes: [] };
+
+// No pairs, until the server's list can be loaded
+const NO_COMPANIONS: CompanionPlanting = { pairs: [] };
+
+const COLLECTION_KEYS: string[] = Object.values(QUERY_KEYS).filter((key) => !key.startsWith("settings:"));
+
+// Shared empty list, so a collection that hasn't loaded keeps the same identity between renders
+const NO_RECORDS: never[] = [];
+
+// Temporary ids for records being created (unique across visits, since queued creates are kept)
+let pendingCount = 0;
+const newPendingId = () => `pending-${Date.now()}-${++pendingCount}`;
+
+// Sends one collection's queued changes, by cache key (see collectionMutations)
+const senders = new Map<string, (change: QueuedChange) => Promise<QueuedRecord | void>>();
+
+interface CollectionApi<T extends { id: string }> {
+  getAll: () => Promise<T[]>;
+  create: (input: EntityInput<T>) => Promise<T>;
+  update: (id: string, input: EntityInput<T>) => Promise<T>;
+  delete: (id: string) => Promise<void>;
+  restore: (id: string) => Promise<T>;
+}
+
+export interface CollectionState<T extends { id: string }> extends Omit<QueryState<T[]>, "data"> {
+  data: T[];
+  create: (input: EntityInput<T>) => Promise<T>;
+  update: (id: string, input: EntityInput<T>) => Promise<T>;
+  remove: (id: string) => Promise<void>;
+  restore: (id: string) => Promise<T>;
+}
+
+function patchRecord<T extends { id: string }>(key: string, id: string, record: T | null) {
+  setQueryData<T[]>(key, (records) => patchCollection(records, id, record));
+}
+
+/**
+ * Send a write now, or queue it if the server can't be reached
+ * Writes also queue behind changes already waiting, so they reach the
+ * server in order. A queued write resolves to `queued`, the record as this
+ * device now shows it.
+ */
+async function sendOrQueue<R>(
+  change: Omit<QueuedChange, "id" | "queuedAt">,
+  request: () => Promise<R>,
+  queued: R
+): Promise<R> {
+  if (hasPendingChanges()) {
+    queueChange(change);
+    syncPendingChanges();
+    return queued;
+  }
+
+  try {
+    return await request();
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error;
+    queueChange(change);
+    toast.info("You're offline. Changes are saved on this device and will sync when you reconnect.");
+    return queued;
+  }
+}
+
+/**
+ * Optimistic create/update/delete/restore for one cached collection
+ * `updateInvalidates` lists collections the server also changes on update.
+ */
+function collectionMutations<T extends { id: string }>(key: string, api: CollectionApi<T>, updateInvalidates?: string[]) {
+  const patch = (id: string, record: T | null) => patchRecord(key, id, record);
+  const find = (id: string) => getQueryData<T[]>(key)?.find((record) => record.id === id);
+
+  senders.set(key, async (change) => {
+    const input = change.input as EntityInput<T>;
+    if (change.action === "create") {
+      const record = await api.create(input);
+      patch(change.recordId, null);
+      patch(record.id, record);
+      return record;
+    }
+    if (change.action === "update") {
+      const record = await api.update(change.recordId, input);
+      patch(record.id, record);
+      return record;
+    }
+    await api.delete(change.recordId);
+  });
+
+  return {
+    create: (input: EntityInput<T>) => {
+      const tempId = newPendingId();
+      const created = { ...input, id: tempId } as unknown as T;
+      return runMutation({
+        request: () =>
+          sendOrQueue({ key, action: "create", recordId: tempId, input }, () => api.create(input), created),
+        optimistic: () => patch(tempId, created),
+        onSuccess: (record) => {
+          patch(tempId, null);
+          patch(record.id, record);
+        },
+        rollback: () => patch(tempId, null),
+      });
+    },
+
+    update: (id: string, input: EntityInput<T>) => {
+      const previous = find(id);
+      const edited = { ...previous, ...input, id } as T;
+      return runMutation({
+        request: () =>
+          sendOrQueue({ key, action: "update", recordId: id, input, base: previous }, () => api.update(id, input), edited),
+        optimistic: () => previous && patch(id, edited),
+        onSuccess: (record) => patch(id, record),
+        rollback: () => previous && patch(id, previous),
+        invalidate: updateInvalidates,
+      });
+    },
+
+    remove: (id: string) => {
+      const previous = find(id);
+      return runMutation({
+        request: () => sendOrQueue({ key, action: "delete", recordId: id, base: previous }, () => api.delete(id), undefined),
+        optimistic: () => patch(id, null),
+        rollback: () => previous && patch(id, previous),
+      });
+    },
+
+    // Nothing to show before the server answers: the record isn't cached
+    restore: (id: string) =>
+      runMutation({
+        request: () => api.restore(id),
+        onSuccess: (record) => patch(id, record),
+      }),
+  };
+}
+
+function useCollection<T extends { id: string }>(
+  key: string,
+  api: CollectionApi<T>,
+  mutations: ReturnType<typeof collectionMutations<T>>,
+  enabled: boolean
+): CollectionState<T> {
+  const query = useQuery(key, api.getAll, enabled);
+  return { ...query, data: query.data ?? NO_RECORDS, ...mutations };
+}
+
+// getAll takes optional filters; the cache always holds the whole collection
+const allOf = <T>(api: { getAll: () => Promise<T[]> }) => () => api.getAll();
+
+const plotsCollection = { ...plotsApi, getAll: allOf(plotsApi) };
+const varietiesCollection = { ...varietiesApi, getAll: allOf(varietiesApi) };
+const cropsCollection = { ...cropsApi, getAll: allOf(cropsApi) };
+const cropActivitiesCollection = { ...cropActivitiesApi, getAll: allOf(cropActivitiesApi) };
+const harvestsCollection = { ...harvestsApi, getAll: allOf(harvestsApi) };
+const budgetCollection = { ...budgetApi, getAll: allOf(budgetApi) };
+const volunteersCollection = { ...volunteersApi, getAll: allOf(volunteersApi) };
+const tasksCollection = { ...tasksApi, getAll: allOf(tasksApi) };
+const pollsCollection = { ...pollsApi, getAll: allOf(pollsApi) };
+const feedbacksCollection = { ...feedbacksApi, getAll: allOf(feedbacksApi) };
+const photosCollection = { ...photosApi, getAll: allOf(photosApi) };
+const updatesCollection = { ...updatesApi, getAll: allOf(updatesApi) };
+
+// A new plot code is renamed on the plot's crops too
+const plotMutations = collectionMutations<Plot>(QUERY_KEYS.plots, plotsCollection, [QUERY_KEYS.crops]);
+const varietyMutations = collectionMutations<CropVariety>(QUERY_KEYS.varieties, varietiesCollection);
+// A change of health adds an entry to the crop's timeline
+const cropMutations = collectionMutations<Crop>(QUERY_KEYS.crops, cropsCollection, [QUERY_KEYS.cropActivities]);
+const cropActivityMutations = collectionMutations<CropActivity>(QUERY_KEYS.cropActivities, cropActivitiesCollection);
+const harvestMutations = collectionMutations<Harvest>(QUERY_KEYS.harvests, harvestsCollection);
+const budgetMutations = collectionMutations<BudgetItem>(QUERY_KEYS.budgetItems, budgetCollection);
+const volunteerMutations = collectionMutations<Volunteer>(QUERY_KEYS.volunteers, volunteersCollection);
+const taskMutations = collectionMutations<Task>(QUERY_KEYS.tasks, tasksCollection);
+const pollMutations = collectionMutations<Poll>(QUERY_KEYS.polls, pollsCollection);
+const feedbackMutations = collectionMutations<Feedback>(QUERY_KEYS.feedbacks, feedbacksCollection);
+const photoMutations = collectionMutations<Photo>(QUERY_KEYS.photos, photosCollection);
+const updateMutations = collectionMutations<Update>(QUERY_KEYS.updates, updatesCollection);
+
+// ============================================
+// COLLECTION HOOKS
+// `enabled` false keeps the hook from fetching (e.g. while another tab is shown)
+// ============================================
+
+export const usePlots = (enabled = true) =>
+  useCollection<Plot>(QUERY_KEYS.plots, plotsCollection, plotMutations, enabled);
+export const useVarieties = (enabled = true) =>
+  useCollection<CropVariety>(QUERY_KEYS.varieties, varietiesCollection, varietyMutations, enabled);
+export const useCrops = (enabled = true) =>
+  useCollection<Crop>(QUERY_KEYS.crops, cropsCollection, cropMutations, enabled);
+export const useCropActivities = (enabled = true) =>
+  useCollection<CropActivity>(QUERY_KEYS.cropActivities, cropActivitiesCollection, cropActivityMutations, enabled);
+export const useHarvests = (enabled = true) =>
+  useCollection<Harvest>(QUERY_KEYS.harvests, harvestsCollection, harvestMutations, enabled);
+export const useBudgetItems = (enabled = true) =>
+  useCollection<BudgetItem>(QUERY_KEYS.budgetItems, budgetCollection, budgetMutations, enabled);
+export const useVolunteers = (enabled = true) =>
+  useCollection<Volunteer>(QUERY_KEYS.volunteers, volunteersCollection, volunteerMutations, enabled);
+export const useTasks = (enabled = true) =>
+  useCollection<Task>(QUERY_KEYS.tasks, tasksCollection, taskMutations, enabled);
+export const usePolls = (enabled = true) =>
+  useCollection<Poll>(QUERY_KEYS.polls, pollsCollection, pollMutations, enabled);
+export const useFeedbacks = (enabled = true) =>
+  useCollection<Feedback>(QUERY_KEYS.feedbacks, feedbacksCollection, feedbackMutations, enabled);
+export const usePhotos = (enabled = true) =>
+  useCollection<Photo>(QUERY_KEYS.photos, photosCollection, photoMutations, enabled);
+export const useUpdates = (enabled = true) =>
+  useCollection<Update>(QUERY_KEYS.updates, updatesCollection, updateMutations, enabled);
+
+// Events are only listed here; the calendar has no edit screen
+export function useEvents(enabled = true) {
+  const query = useQuery<ScheduleEvent[]>(QUERY_KEYS.events, allOf(eventsApi), enabled);
+  return { ...query, data: query.data ?? NO_RECORDS };
+}
+
+// ============================================
+// SETTINGS HOOKS
+// ============================================
+
+// Offline, the failure is kept so the cached value stays on screen
+const orDefault = <T>(fallback: T) => (error: unknown): T => {
+  if (error instanceof NetworkError) throw error;
+  return fallback;
+};
+
+const fetchTotalBudget = () => settingsApi.getTotalBudget().catch(orDefault(DEFAULT_TOTAL_BUDGET));
+
+export function useTotalBudget(enabled = true) {
+  const query = useQuery<number>(QUERY_KEYS.totalBudget, fetchTotalBudget, enabled);
+
+  const set = (amount: number) => {
+    const previous = getQueryData<number>(QUERY_KEYS.totalBudget);
+    return runMutation({
+      request: () => settingsApi.setTotalBudget(amount),
+      optimistic: () => setQueryData<number>(QUERY_KEYS.totalBudget, () => amount),
+      rollback: () => previous !== undefined && setQueryData<number>(QUERY_KEYS.totalBudget, () => previous),
+    });
+  };
+
+  return { ...query, data: query.data || DEFAULT_TOTAL_BUDGET, set };
+}
+
+const fetchPermissionMatrix = () => rolesApi.getPermissions().catch(orDefault(DEFAULT_PERMISSION_MATRIX));
+
+export function usePermissionMatrix(enabled = true) {
+  const query = useQuery<PermissionMatrix>(QUERY_KEYS.permissionMatrix, fetchPermissionMatrix, enabled);
+
+  // The Role Permissions page saves the matrix itself
+  const saved = (matrix: PermissionMatrix) => setQueryData<PermissionMatrix>(QUERY_KEYS.permissionMatrix, () => matrix);
+
+  return { ...query, data: query.data || DEFAULT_PERMISSION_MATRIX, saved };
+}
+
+const fetchGardenMap = () => settingsApi.getGardenMap().catch(orDefault(DEFAULT_GARDEN_MAP));
+
+export function useGardenMap(enabled = true) {
+  const query = useQuery<GardenMap>(QUERY_KEYS.gardenMap, fetchGardenMap, enabled);
+
+  const save = (map: GardenMap) => {
+    const previous = getQueryData<GardenMap>(QUERY_KEYS.gardenMap);
+    return runMutation({
+      request: () => settingsApi.saveGardenMap(map),
+      optimistic: () => setQueryData<GardenMap>(QUERY_KEYS.gardenMap, () => map),
+      onSuccess: (saved) => setQueryData<GardenMap>(QUERY_KEYS.gardenMap, () => saved),
+      rollback: () => previous !== undefined && setQueryData<GardenMap>(QUERY_KEYS.gardenMap, () => previous),
+    });
+  };
+
+  return { ...query, data: query.data || DEFAULT_GARDEN_MAP, save };
+}
+
+const fetchCompanionPlanting = () => settingsApi.getCompanionPlanting().catch(orDefault(NO_COMPANIONS));
+
+export function useCompanionPlanting(enabled = true) {
+  const query = useQuery<CompanionPlanting>(QUERY_KEYS.companionPlanting, fetchCompanionPlanting, enabled);
+
+  const save = (data: CompanionPlanting) => {
+    const previous = getQueryData<CompanionPlanting>(QUERY_KEYS.companionPlanting);
+    return runMutation({
+      request: () => settingsApi.saveCompanionPlanting(data),
+      optimistic: () => setQueryData<CompanionPlanting>(QUERY_KEYS.companionPlanting, () => data),
+      onSuccess: (saved) => setQueryData<CompanionPlanting>(QUERY_KEYS.companionPlanting, () => saved),
+      rollback: () => previous !== undefined && setQueryData<CompanionPlanting>(QUERY_KEYS.companionPlanting, () => previous),
+    });
+  };
+
+  return { ...query, data: query.data || NO_COMPANIONS, save };
+}
+
+// ============================================
+// REALTIME CHANGES
+// ============================================
+
+/**
+ * Apply a change from the realtime stream to the cache
+ * A record too large to stream (e.g. a photo) is refetched with its collection
+ */
+export function applyChange(event: ChangeEvent) {
+  if (COLLECTION_KEYS.includes(event.entityType)) {
+    if (event.tooLarge) {
+      invalidateQueries([event.entityType]);
+    } else {
+      setQueryData<Array<{ id: string }>>(event.entityType, (records) =>
+        patchCollection(records, event.entityId, event.record as { id: string } | null)
+      );
+    }
+    return;
+  }
+
+  const key = `${event.entityType}:${event.entityId}`;
+  if (key === QUERY_KEYS.totalBudget && typeof event.record === "number") {
+    setQueryData<number>(key, () => event.record as number);
+  } else if (key === QUERY_KEYS.gardenMap && event.record) {
+    setQueryData<GardenMap>(key, () => event.record as GardenMap);
+  } else if (key === QUERY_KEYS.companionPlanting && event.record) {
+    setQueryData<CompanionPlanting>(key, () => event.record as CompanionPlanting);
+  } else if (key === QUERY_KEYS.permissionMatrix) {
+    // The server fills in roles and permissions the stored matrix lacks
+    invalidateQueries([key]);
+  }
+}
+
+// ============================================
+// OFFLINE SYNC
+// ============================================
+
+/**
+ * Send the changes queued while offline, patching each collection with the
+ * server's answers
+ */
+export async function syncPendingChanges(): Promise<void> {
+  const { synced, failed } = await flushSyncQueue((change) => {
+    const send = senders.get(change.key);
+    if (!send) {
+      throw new Error(`Unknown collection "${change.key}"`);
+    }
+    return send(change);
+  });
+
+  if (synced > 0) {
+    toast.success(`Synced ${synced} change${synced === 1 ? "" : "s"} saved on this device`);
+  }
+  if (failed > 0) {
+    toast.error(`${failed} change${failed === 1 ? "" : "s"} couldn't be synced. Review them from the sync status at the top.`);
+  }
+}
+
+/**
+ * Save the merged version of a queued change the server refused, then
+ * drop it from the queue
+ * A newer conflict is thrown again, for the merge prompt to show.
+ */
+export async function saveMergedChange(change: QueuedChange, merged: Record<string, unknown>): Promise<void> {
+  const send = senders.get(change.key);
+  if (!send) return;
+  await send({ ...change, input: merged });
+  discardChange(change.id);
+}
+
+/**
+ * Drop a queued change and show the server's copy again
+ */
+export function discardQueuedChange(change: QueuedChange) {
+  discardChange(change.id);
+  if (change.action === "create") {
+    patchRecord(change.key, change.recordId, null);
+  }
+  invalidateQueries([change.key]);
+}
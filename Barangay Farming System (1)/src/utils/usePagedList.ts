@@ -0,0 +1,74 @@
+/**
+ * ============================================
+ * PAGED LIST HOOK
+ * ============================================
+ *
+ * Loads one page of a list route at a time (the server filters, sorts and
+ * pages - see supabase/functions/server/list_query.tsx).
+ *
+ * - Changing the query (filters, search, sort) goes back to page 1
+ * - Changing `reloadKey` refetches the current page, so a table stays in
+ *   step with the app's data after an add, edit, delete or undo
+ */
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner@2.0.3";
+import type { Page } from "../supabase/functions/_shared/types";
+
+// Wait for typing in a search box to pause before fetching
+const FETCH_DELAY_MS = 250;
+
+export function usePagedList<T, Q extends object>(
+  fetchPage: (query: Q & { page: number }) => Promise<Page<T>>,
+  query: Q,
+  reloadKey?: unknown
+) {
+  const queryKey = JSON.stringify(query);
+  const [pageState, setPageState] = useState({ queryKey, page: 1 });
+  const [result, setResult] = useState<Page<T> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const page = pageState.queryKey === queryKey ? pageState.page : 1;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const next = await fetchPage({ ...query, page });
+        if (cancelled) return;
+
+        // The page is now past the end (e.g. its last record was deleted): step back
+        if (next.items.length === 0 && next.total > 0) {
+          setPageState({ queryKey, page: Math.ceil(next.total / next.pageSize) });
+          return;
+        }
+        setResult(next);
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Error loading page:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to load records");
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }, FETCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [queryKey, page, reloadKey]);
+
+  return {
+    items: result?.items ?? [],
+    total: result?.total ?? 0,
+    page,
+    pageSize: result?.pageSize ?? 0,
+    isLoading,
+    hasLoaded: result !== null,
+    setPage: (next: number) => setPageState({ queryKey, page: next }),
+  };
+}
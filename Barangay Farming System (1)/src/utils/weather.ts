@@ -12,7 +12,7 @@
  * API Key Required: Get free key from https://openweathermap.org/api
  */
 
-import { projectId } from './supabase/info';
+import { SERVER_URL } from './serverConfig';
 
 /**
  * Weather Data Interface
@@ -273,13 +273,7 @@ export const getMockWeatherData = (): WeatherData => {
  */
 const getConfiguredLocation = async (): Promise<{ latitude: number; longitude: number } | null> => {
   try {
-    if (!projectId) {
-      return null;
-    }
-
-    const response = await fetch(
-      `https://${projectId}.supabase.co/functions/v1/make-server-a8901673/public/location`
-    );
+    const response = await fetch(`${SERVER_URL}/public/location`);
 
     if (!response.ok) {
       // Silently return null on error - this is expected for public endpoint